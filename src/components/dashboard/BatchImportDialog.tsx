@@ -0,0 +1,88 @@
+import React, { useEffect, useState } from "react";
+import { FileArchive, FileSpreadsheet, Files } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+import { isZipFile, SOURCE_FILE_COLUMN, type BatchMode } from "@/lib/batchImport";
+
+interface BatchImportDialogProps {
+  files: File[];
+  onConfirm: (mode: BatchMode) => void;
+  onCancel: () => void;
+}
+
+export function BatchImportDialog({ files, onConfirm, onCancel }: BatchImportDialogProps) {
+  const [mode, setMode] = useState<BatchMode>("separate");
+
+  useEffect(() => {
+    if (files.length) setMode("separate");
+  }, [files]);
+
+  return (
+    <Dialog open={files.length > 0} onOpenChange={(open) => !open && onCancel()}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Files className="w-5 h-5 text-primary" />
+            Importar Vários Arquivos
+          </DialogTitle>
+          <DialogDescription>
+            Cada planilha (inclusive as de dentro dos .zip) é lida com a detecção automática, uma por vez; XMLs de NF-e viram um dataset fiscal
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="max-h-48 overflow-auto rounded-xl border border-border divide-y divide-border">
+          {files.map((file, i) => (
+            <div key={`${i}-${file.name}`} className="flex items-center gap-2 px-3 py-2 text-xs">
+              {isZipFile(file) ? <FileArchive className="w-4 h-4 shrink-0" /> : <FileSpreadsheet className="w-4 h-4 shrink-0" />}
+              <span className="truncate flex-1">{file.name}</span>
+              <span className="text-muted-foreground shrink-0">
+                {isZipFile(file) ? "ZIP" : `${Math.max(1, Math.round(file.size / 1024))} KB`}
+              </span>
+            </div>
+          ))}
+        </div>
+
+        <div className="grid grid-cols-2 gap-2">
+          {([
+            { value: "separate", label: "Um dataset por arquivo" },
+            { value: "consolidate", label: "Consolidar em um dataset" },
+          ] as const).map((m) => (
+            <button
+              key={m.value}
+              onClick={() => setMode(m.value)}
+              className={cn(
+                "px-3 py-2 rounded-xl border-2 text-xs font-semibold transition-all",
+                mode === m.value ? "border-primary bg-primary/5" : "border-border hover:border-primary/50"
+              )}
+            >
+              {m.label}
+            </button>
+          ))}
+        </div>
+        {mode === "consolidate" && (
+          <p className="text-xs text-muted-foreground">
+            As linhas de todos os arquivos vão para um dataset, com a coluna <strong>{SOURCE_FILE_COLUMN}</strong> indicando de onde veio cada uma.
+          </p>
+        )}
+
+        <DialogFooter className="gap-2 sm:gap-0">
+          <Button variant="outline" onClick={onCancel}>
+            Cancelar
+          </Button>
+          <Button onClick={() => onConfirm(mode)} className="gap-2">
+            <FileSpreadsheet className="w-4 h-4" />
+            Importar
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,219 @@
+import React, { useState } from "react";
+import { AlertTriangle, Cloud, CloudOff, Loader2, LogOut, RefreshCw } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { toast } from "@/hooks/use-toast";
+import { CLOUD_STATUS_LABELS, type CloudSyncStatus } from "@/hooks/useCloudSync";
+import type { CloudSyncSettings } from "@/lib/cloudSync";
+
+interface CloudSyncDialogProps {
+  open: boolean;
+  email?: string | null;
+  settings: CloudSyncSettings;
+  status: CloudSyncStatus;
+  pending: number;
+  /** Datasets que só existem neste navegador (não sobem sem o usuário pedir) */
+  localOnly: number;
+  lastError?: string | null;
+  onSetEnabled: (enabled: boolean) => Promise<void>;
+  onSync: () => Promise<unknown>;
+  onUploadLocal: () => Promise<unknown>;
+  onSignIn: (email: string, password: string) => Promise<void>;
+  /** false quando a conta precisa ser confirmada pelo e-mail */
+  onSignUp: (email: string, password: string) => Promise<boolean>;
+  onSignOut: () => Promise<void>;
+  onClose: () => void;
+}
+
+function errorMessage(err: unknown) {
+  return err instanceof Error ? err.message : String(err);
+}
+
+/** Conta e modo de sincronização dos datasets com a nuvem (opcional) */
+export function CloudSyncDialog({
+  open,
+  email,
+  settings,
+  status,
+  pending,
+  localOnly,
+  lastError,
+  onSetEnabled,
+  onSync,
+  onUploadLocal,
+  onSignIn,
+  onSignUp,
+  onSignOut,
+  onClose,
+}: CloudSyncDialogProps) {
+  const [formEmail, setFormEmail] = useState("");
+  const [password, setPassword] = useState("");
+  const [busy, setBusy] = useState(false);
+
+  const run = async (action: () => Promise<void>, failure: string) => {
+    setBusy(true);
+    try {
+      await action();
+    } catch (err) {
+      toast({ title: failure, description: errorMessage(err), variant: "destructive" });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const signIn = () => run(async () => {
+    await onSignIn(formEmail.trim(), password);
+    setPassword("");
+  }, "Não foi possível entrar");
+
+  const signUp = () => run(async () => {
+    const active = await onSignUp(formEmail.trim(), password);
+    setPassword("");
+    if (!active) toast({ title: "Conta criada", description: "Confirme pelo link enviado ao e-mail e depois entre." });
+  }, "Não foi possível criar a conta");
+
+  return (
+    <Dialog open={open} onOpenChange={(o) => !o && onClose()}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Cloud className="w-5 h-5 text-primary" />
+            Sincronização na nuvem
+          </DialogTitle>
+          <DialogDescription>
+            Opcional. Os datasets continuam neste navegador e funcionam offline; com a sincronização ligada, uma
+            cópia fica na sua conta e as mudanças são enviadas quando houver conexão.
+          </DialogDescription>
+        </DialogHeader>
+
+        {!email ? (
+          <form
+            className="space-y-3"
+            onSubmit={(e) => {
+              e.preventDefault();
+              signIn();
+            }}
+          >
+            <div className="space-y-1">
+              <Label htmlFor="cloud-email">E-mail</Label>
+              <Input
+                id="cloud-email"
+                type="email"
+                autoComplete="email"
+                value={formEmail}
+                onChange={(e) => setFormEmail(e.target.value)}
+                required
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="cloud-password">Senha</Label>
+              <Input
+                id="cloud-password"
+                type="password"
+                autoComplete="current-password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                minLength={6}
+                required
+              />
+            </div>
+            <div className="flex gap-2 justify-end">
+              <Button type="button" variant="outline" disabled={busy || !formEmail || password.length < 6} onClick={signUp}>
+                Criar conta
+              </Button>
+              <Button type="submit" disabled={busy || !formEmail || password.length < 6}>
+                {busy && <Loader2 className="w-4 h-4 mr-1 animate-spin" />}
+                Entrar
+              </Button>
+            </div>
+          </form>
+        ) : (
+          <div className="space-y-4">
+            <div className="flex items-center justify-between gap-2 text-sm">
+              <span className="truncate text-muted-foreground">{email}</span>
+              <Button variant="ghost" size="sm" disabled={busy} onClick={() => run(onSignOut, "Não foi possível sair")}>
+                <LogOut className="w-4 h-4 mr-1" />
+                Sair
+              </Button>
+            </div>
+
+            <div className="flex items-center justify-between gap-3 rounded-lg border p-3">
+              <div>
+                <Label htmlFor="cloud-enabled">Sincronizar datasets</Label>
+                <p className="text-xs text-muted-foreground">Inclui o perfil de serviço e a configuração da matriz.</p>
+              </div>
+              <Switch
+                id="cloud-enabled"
+                checked={settings.enabled}
+                disabled={busy}
+                onCheckedChange={(checked) => run(() => onSetEnabled(checked), "Não foi possível mudar a sincronização")}
+              />
+            </div>
+
+            {settings.enabled && (
+              <div className="space-y-2 text-xs">
+                <div className="flex items-center justify-between">
+                  <span className="flex items-center gap-1.5">
+                    {status === "offline" ? <CloudOff className="w-3 h-3" /> : <Cloud className="w-3 h-3" />}
+                    {CLOUD_STATUS_LABELS[status]}
+                    {pending > 0 && ` · ${pending} na fila`}
+                  </span>
+                  <span className="text-muted-foreground">
+                    {settings.lastSyncAt && `Última: ${new Date(settings.lastSyncAt).toLocaleString("pt-BR")}`}
+                  </span>
+                </div>
+                {localOnly > 0 && status !== "syncing" && (
+                  <div className="flex items-center justify-between gap-2 rounded-md border p-2">
+                    <span className="text-muted-foreground">
+                      {localOnly === 1
+                        ? "1 dataset deste navegador não está na sua conta."
+                        : `${localOnly} datasets deste navegador não estão na sua conta.`}
+                    </span>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="shrink-0"
+                      disabled={busy || status === "offline"}
+                      onClick={() => run(async () => {
+                        await onUploadLocal();
+                      }, "Envio falhou")}
+                    >
+                      Enviar
+                    </Button>
+                  </div>
+                )}
+                {lastError && (
+                  <p className="flex items-start gap-1.5 text-destructive">
+                    <AlertTriangle className="w-3 h-3 mt-0.5 shrink-0" />
+                    {lastError}
+                  </p>
+                )}
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="w-full"
+                  disabled={busy || status === "syncing" || status === "offline"}
+                  onClick={() => run(async () => {
+                    await onSync();
+                  }, "Sincronização falhou")}
+                >
+                  {status === "syncing" ? <Loader2 className="w-4 h-4 mr-1 animate-spin" /> : <RefreshCw className="w-4 h-4 mr-1" />}
+                  Sincronizar agora
+                </Button>
+              </div>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,284 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { AlertTriangle, BookmarkCheck, Columns3, FileSpreadsheet } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { cn } from "@/lib/utils";
+import type { ColumnType, Dataset } from "@/lib/database";
+import {
+  applyColumnOverrides,
+  buildColumnReport,
+  COLUMN_TYPES,
+  type ColumnOverride,
+} from "@/lib/columnReview";
+import { checkSchemaCompatibility, type SchemaCheck } from "@/lib/datasetAppend";
+import {
+  applyTemplateProfile,
+  findTemplateBySignature,
+  templateOverrides,
+  type ImportTemplate,
+} from "@/lib/importTemplates";
+import type { PendingAppend } from "@/hooks/useDatasets";
+
+interface ColumnReviewDialogProps {
+  datasets: Dataset[];
+  /** Importação anexada a um dataset existente: confere o esquema antes de salvar */
+  append?: PendingAppend | null;
+  /** Modelos salvos: o de mesma assinatura já vem aplicado */
+  templates?: ImportTemplate[];
+  onConfirm: (datasets: Dataset[]) => void;
+  onCancel: () => void;
+}
+
+type OverridesByDataset = Record<string, Record<string, ColumnOverride>>;
+
+const NO_TEMPLATES: ImportTemplate[] = [];
+
+export function ColumnReviewDialog({
+  datasets,
+  append,
+  templates = NO_TEMPLATES,
+  onConfirm,
+  onCancel,
+}: ColumnReviewDialogProps) {
+  const [activeId, setActiveId] = useState<string | null>(null);
+  const [overrides, setOverrides] = useState<OverridesByDataset>({});
+  // Modelo aplicado a cada dataset (pela assinatura do cabeçalho)
+  const [applied, setApplied] = useState<Record<string, ImportTemplate>>({});
+
+  useEffect(() => {
+    setActiveId(datasets[0]?.id ?? null);
+    const matched: Record<string, ImportTemplate> = {};
+    const initial: OverridesByDataset = {};
+    for (const d of datasets) {
+      const template = findTemplateBySignature(templates, d.importLayout?.signature);
+      if (!template) continue;
+      matched[d.id] = template;
+      initial[d.id] = Object.fromEntries(templateOverrides(template, d).map((o) => [o.name, o]));
+    }
+    setApplied(matched);
+    setOverrides(initial);
+  }, [datasets, templates]);
+
+  const active = datasets.find((d) => d.id === activeId) ?? datasets[0];
+  const activeTemplate = active ? applied[active.id] : undefined;
+
+  const dropTemplate = () => {
+    if (!active) return;
+    setApplied(({ [active.id]: _, ...rest }) => rest);
+    setOverrides(({ [active.id]: _, ...rest }) => rest);
+  };
+  const reports = useMemo(() => new Map(datasets.map((d) => [d.id, buildColumnReport(d)])), [datasets]);
+  const report = useMemo(() => (active && reports.get(active.id)) || [], [active, reports]);
+  const current = useMemo(() => (active && overrides[active.id]) || {}, [active, overrides]);
+
+  const update = (name: string, patch: Partial<ColumnOverride>) => {
+    if (!active) return;
+    setOverrides((prev) => {
+      const forDataset = prev[active.id] ?? {};
+      return {
+        ...prev,
+        [active.id]: { ...forDataset, [name]: { ...forDataset[name], ...patch, name } },
+      };
+    });
+  };
+
+  // Nomes repetidos após renomear impedem a confirmação
+  const duplicateNames = useMemo(() => {
+    const names = report
+      .filter((c) => !current[c.name]?.exclude)
+      .map((c) => (current[c.name]?.rename?.trim() || c.name).toLowerCase());
+    return names.filter((n, i) => names.indexOf(n) !== i);
+  }, [report, current]);
+
+  const allExcluded = report.length > 0 && report.every((c) => current[c.name]?.exclude);
+
+  // Esquema resultante de cada arquivo do lote (com renomear/excluir/tipo) comparado ao dataset de destino
+  const schemas = useMemo(() => {
+    const checks: Record<string, SchemaCheck> = {};
+    if (!append) return checks;
+    for (const d of datasets) {
+      const review = overrides[d.id] ?? {};
+      const incoming = (reports.get(d.id) ?? [])
+        .filter((c) => !review[c.name]?.exclude)
+        .map((c) => ({
+          name: review[c.name]?.rename?.trim() || c.name,
+          type: review[c.name]?.type ?? c.detectedType,
+          isEmpty: c.nullRate === 1,
+        }));
+      checks[d.id] = checkSchemaCompatibility(append.target.columns, incoming, append.options.dedupeKey);
+    }
+    return checks;
+  }, [append, datasets, overrides, reports]);
+  const schema = active ? schemas[active.id] : undefined;
+  // Outros arquivos do lote que também não batem com o destino
+  const otherIncompatible = datasets.filter((d) => d.id !== active?.id && schemas[d.id]?.compatible === false);
+
+  const handleConfirm = () => {
+    onConfirm(
+      datasets.map((d) => {
+        const list = Object.values(overrides[d.id] ?? {});
+        const reviewed = list.length ? applyColumnOverrides(d, list) : d;
+        return applied[d.id] ? applyTemplateProfile(reviewed, applied[d.id]) : reviewed;
+      })
+    );
+  };
+
+  return (
+    <Dialog open={datasets.length > 0} onOpenChange={(open) => !open && onCancel()}>
+      <DialogContent className="sm:max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Columns3 className="w-5 h-5 text-primary" />
+            Revisar Colunas
+          </DialogTitle>
+          <DialogDescription>
+            {append ? (
+              <>Confira as colunas antes de anexar a <strong className="text-foreground">{append.target.name}</strong></>
+            ) : (
+              "Confira os tipos detectados, renomeie ou exclua colunas antes de salvar"
+            )}
+          </DialogDescription>
+        </DialogHeader>
+
+        {datasets.length > 1 && (
+          <div className="flex flex-wrap gap-2">
+            {datasets.map((d) => (
+              <button
+                key={d.id}
+                onClick={() => setActiveId(d.id)}
+                className={cn(
+                  "px-3 py-1.5 rounded-xl border-2 text-xs font-semibold transition-all",
+                  d.id === active?.id ? "border-primary bg-primary/5" : "border-border hover:border-primary/50"
+                )}
+              >
+                {d.name}
+              </button>
+            ))}
+          </div>
+        )}
+
+        {activeTemplate && (
+          <div className="flex items-center gap-2 rounded-xl border border-primary/40 bg-primary/5 p-3 text-xs">
+            <BookmarkCheck className="w-4 h-4 shrink-0 text-primary" />
+            <span className="flex-1">
+              Modelo <strong>{activeTemplate.name}</strong> aplicado: colunas, classificação e matriz como da última vez
+            </span>
+            <Button variant="ghost" size="sm" onClick={dropTemplate} className="h-7 text-xs">
+              Não usar
+            </Button>
+          </div>
+        )}
+
+        <div className="rounded-xl border border-border overflow-auto">
+          <table className="w-full text-xs">
+            <thead className="bg-muted/50 text-muted-foreground">
+              <tr>
+                <th className="px-2 py-2 w-8" />
+                <th className="px-2 py-2 text-left font-semibold">Coluna</th>
+                <th className="px-2 py-2 text-left font-semibold">Tipo</th>
+                <th className="px-2 py-2 text-left font-semibold">Amostras</th>
+                <th className="px-2 py-2 text-right font-semibold">Vazios</th>
+              </tr>
+            </thead>
+            <tbody>
+              {report.map((col) => {
+                const o = current[col.name];
+                const excluded = !!o?.exclude;
+                return (
+                  <tr key={col.name} className={cn("border-t border-border", excluded && "opacity-50")}>
+                    <td className="px-2 py-1.5 text-center">
+                      <Checkbox checked={!excluded} onCheckedChange={(v) => update(col.name, { exclude: !v })} />
+                    </td>
+                    <td className="px-2 py-1.5">
+                      <Input
+                        value={o?.rename ?? col.name}
+                        disabled={excluded}
+                        onChange={(e) => update(col.name, { rename: e.target.value })}
+                        className="h-7 text-xs"
+                      />
+                    </td>
+                    <td className="px-2 py-1.5">
+                      <select
+                        value={o?.type ?? col.detectedType}
+                        disabled={excluded}
+                        onChange={(e) => update(col.name, { type: e.target.value as ColumnType })}
+                        className="w-full h-7 px-2 rounded-md border border-input bg-background text-xs"
+                      >
+                        {COLUMN_TYPES.map((t) => (
+                          <option key={t.value} value={t.value}>
+                            {t.label}{t.value === col.detectedType ? " (detectado)" : ""}
+                          </option>
+                        ))}
+                      </select>
+                    </td>
+                    <td className="px-2 py-1.5 max-w-[220px] truncate text-muted-foreground" title={col.samples.join(", ")}>
+                      {col.samples.join(", ") || "—"}
+                    </td>
+                    <td className="px-2 py-1.5 text-right tabular-nums">
+                      {Math.round(col.nullRate * 100)}%
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+
+        {schema && (!schema.compatible || schema.missing.length > 0 || schema.extra.length > 0) && (
+          <div
+            className={cn(
+              "flex gap-2 rounded-xl border p-3 text-xs",
+              schema.compatible ? "border-border bg-muted/40" : "border-destructive/50 bg-destructive/5 text-destructive"
+            )}
+          >
+            <AlertTriangle className="w-4 h-4 shrink-0" />
+            <div className="space-y-1">
+              {!schema.compatible && <div className="font-semibold">Esquema incompatível com o dataset de destino</div>}
+              {schema.typeMismatches.map((m) => (
+                <div key={m.column}>
+                  "{m.column}": esperado {typeLabel(m.expected)}, arquivo tem {typeLabel(m.received)}
+                </div>
+              ))}
+              {schema.missingKey.length > 0 && <div>Chave de deduplicação ausente: {schema.missingKey.join(", ")}</div>}
+              {schema.missing.length > 0 && <div>Colunas ausentes no arquivo: {schema.missing.join(", ")}</div>}
+              {schema.extra.length > 0 && <div>Colunas novas: {schema.extra.join(", ")}</div>}
+            </div>
+          </div>
+        )}
+
+        {otherIncompatible.length > 0 && (
+          <p className="text-xs text-destructive">
+            Esquema incompatível também em: {otherIncompatible.map((d) => d.name).join(", ")}
+          </p>
+        )}
+
+        {duplicateNames.length > 0 && (
+          <p className="text-xs text-destructive">Há colunas com o mesmo nome: {Array.from(new Set(duplicateNames)).join(", ")}</p>
+        )}
+
+        <DialogFooter className="gap-2 sm:gap-0">
+          <Button variant="outline" onClick={onCancel}>
+            Cancelar
+          </Button>
+          <Button onClick={handleConfirm} className="gap-2" disabled={duplicateNames.length > 0 || allExcluded || schema?.compatible === false || otherIncompatible.length > 0}>
+            <FileSpreadsheet className="w-4 h-4" />
+            {append ? "Anexar ao dataset" : "Salvar dataset"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function typeLabel(type: ColumnType) {
+  return COLUMN_TYPES.find((t) => t.value === type)?.label.toLowerCase() ?? type;
+}
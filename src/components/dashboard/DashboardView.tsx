@@ -3,10 +3,14 @@ import { PredictiveAnalysis } from "./PredictiveAnalysis";
 import { 
   FileDown, Loader2, BarChart3, PieChart, TrendingUp, 
   Hash, Calendar, Tag, Users, Database, Layers, FileCode,
-  CheckCircle2, Clock, Coffee, Briefcase, AlertCircle
+  CheckCircle2, Clock, Coffee, Briefcase, AlertCircle,
+  ArrowDownCircle, ArrowUpCircle, Wallet
 } from "lucide-react";
-import type { Dataset, ColumnMetadata } from "@/lib/database";
+import type { Dataset, ColumnMetadata, ColumnType } from "@/lib/database";
+import { formatStat } from "@/lib/valueFormat";
+import { normalizeDate } from "@/lib/cellValues";
 import { detectServiceProfile, type ServiceProfile } from "@/lib/serviceProfile";
+import { cashFlowSummary } from "@/lib/bankStatement";
 import { KPICard } from "./KPICard";
 import { KPIDetailModal } from "./KPIDetailModal";
 import { Button } from "@/components/ui/button";
@@ -179,6 +183,7 @@ export function DashboardView({ dataset, personFilter, statusFilter, teamFilter,
       variant: "default" | "success" | "warning" | "danger" | "info" | "purple";
       type: "count" | "numeric" | "category" | "date";
       columnName?: string;
+      valueType?: ColumnType;
       stats?: { min?: number; max?: number; avg?: number; sum?: number };
       distribution?: Array<{ name: string; value: number }>;
       total?: number;
@@ -233,6 +238,53 @@ export function DashboardView({ dataset, personFilter, statusFilter, teamFilter,
       });
     }
 
+    // ── Entradas / Saídas / Saldo (extrato) ──
+    const amountCol = serviceProfile.semanticMap.amount;
+    const balanceCol = serviceProfile.semanticMap.balance;
+    if (amountCol && (includes.includes('cash_inflows') || includes.includes('cash_outflows') || includes.includes('cash_balance'))) {
+      const cash = cashFlowSummary(filtered, amountCol, balanceCol, serviceProfile.semanticMap.date);
+      const stats = { min: cash.min, max: cash.max, sum: cash.inflows + cash.outflows };
+      if (includes.includes('cash_inflows')) {
+        result.push({
+          title: "Entradas",
+          value: formatStat(cash.inflows, "currency"),
+          subtitle: `${cash.inflowCount.toLocaleString("pt-BR")} créditos`,
+          icon: <ArrowUpCircle className="w-4 h-4 md:w-5 md:h-5 text-emerald-500" />,
+          variant: "success",
+          type: "numeric",
+          columnName: amountCol,
+          valueType: "currency",
+          stats,
+        });
+      }
+      if (includes.includes('cash_outflows')) {
+        result.push({
+          title: "Saídas",
+          value: formatStat(cash.outflows, "currency"),
+          subtitle: `${cash.outflowCount.toLocaleString("pt-BR")} débitos`,
+          icon: <ArrowDownCircle className="w-4 h-4 md:w-5 md:h-5 text-destructive" />,
+          variant: "danger",
+          type: "numeric",
+          columnName: amountCol,
+          valueType: "currency",
+          stats,
+        });
+      }
+      if (includes.includes('cash_balance')) {
+        result.push({
+          title: cash.balanceFromColumn ? "Saldo" : "Resultado do Período",
+          value: formatStat(cash.balance, "currency"),
+          subtitle: cash.balanceFromColumn ? "no último lançamento" : "entradas menos saídas",
+          icon: <Wallet className="w-4 h-4 md:w-5 md:h-5 text-primary" />,
+          variant: cash.balance < 0 ? "danger" : "info",
+          type: "numeric",
+          columnName: cash.balanceFromColumn ? balanceCol : amountCol,
+          valueType: "currency",
+          stats,
+        });
+      }
+    }
+
     // ── Delivered total ──
     if (includes.includes('delivered_total')) {
       const delivered = (statusCounts['ENT'] || 0) + (statusCounts['ENTREGUE'] || 0);
@@ -355,17 +407,25 @@ export function DashboardView({ dataset, personFilter, statusFilter, teamFilter,
 
     // ── Numeric stats (generic fallback) ──
     if (includes.includes('unique_entities') || serviceProfile.kpiProfile.primaryRate === 'none') {
-      for (const colName of safeNumericColumns.slice(0, 2)) {
+      // Valor e saldo do extrato já aparecem nos cards de caixa
+      const cashCols = [serviceProfile.semanticMap.amount, serviceProfile.semanticMap.balance];
+      for (const colName of safeNumericColumns.filter((c) => !cashCols.includes(c)).slice(0, 2)) {
         const stats = safeSummary.numericStats?.[colName];
         if (stats) {
+          const valueType = dataset.columns.find((c) => c.name === colName)?.type;
+          // Percentuais não se somam: o card mostra a média
+          const isPercent = valueType === "percent";
           result.push({
-            title: `Soma ${colName}`,
-            value: stats.sum.toLocaleString("pt-BR", { maximumFractionDigits: 2 }),
-            subtitle: `Média: ${stats.avg.toLocaleString("pt-BR", { maximumFractionDigits: 2 })}`,
+            title: `${isPercent ? "Média" : "Soma"} ${colName}`,
+            value: formatStat(isPercent ? stats.avg : stats.sum, valueType),
+            subtitle: isPercent
+              ? `Mín.: ${formatStat(stats.min, valueType)} · Máx.: ${formatStat(stats.max, valueType)}`
+              : `Média: ${formatStat(stats.avg, valueType)}`,
             icon: <Hash className="w-4 h-4 md:w-5 md:h-5 text-accent" />,
             variant: "info",
             type: "numeric",
             columnName: colName,
+            valueType,
             stats: { min: stats.min, max: stats.max, avg: stats.avg, sum: stats.sum },
           });
         }
@@ -373,7 +433,7 @@ export function DashboardView({ dataset, personFilter, statusFilter, teamFilter,
     }
 
     return result.slice(0, 8);
-  }, [dataset, serviceProfile, profileKpis, safeNumericColumns, safeCategoryColumns, safeSummary]);
+  }, [dataset, serviceProfile, profileKpis, filtered, safeNumericColumns, safeCategoryColumns, safeSummary]);
 
   const handleKPIClick = (kpi: typeof kpis[0]) => {
     setSelectedKPI(kpi);
@@ -384,7 +444,7 @@ export function DashboardView({ dataset, personFilter, statusFilter, teamFilter,
   // Helper para normalizar data para string ISO
   const normalizeDateValue = (v: any): string => {
     if (!v) return "";
-    if (v instanceof Date) return v.toISOString().slice(0, 10);
+    if (v instanceof Date) return normalizeDate(v) ?? "";
     if (typeof v === "object" && v._type === "Date" && v.value?.iso) {
       return v.value.iso.slice(0, 10);
     }
@@ -0,0 +1,96 @@
+import React, { useEffect, useState } from "react";
+import { cn } from "@/lib/utils";
+import type { DatasetDiff } from "@/lib/datasetDiff";
+
+interface DatasetDiffViewProps {
+  diff: DatasetDiff;
+}
+
+type Tab = "changed" | "added" | "removed";
+
+const MAX_LISTED = 100;
+
+function cell(value: unknown) {
+  return value == null || value === "" ? "—" : String(value);
+}
+
+/** Rótulo da linha: a chave usada no diff, a posição ou as primeiras colunas */
+function rowLabel(row: Record<string, unknown>, diff: DatasetDiff) {
+  const cols = diff.key.length ? diff.key : Object.keys(row).filter((k) => !k.startsWith("_")).slice(0, 3);
+  const label = cols.map((c) => cell(row[c])).join(" · ");
+  return diff.byPosition && typeof row._rowIndex === "number" ? `Linha ${row._rowIndex + 1}: ${label}` : label;
+}
+
+/** Contagem de novas/removidas/alteradas e a lista de cada uma (recarga e histórico de versões) */
+export function DatasetDiffView({ diff }: DatasetDiffViewProps) {
+  const [tab, setTab] = useState<Tab>("changed");
+
+  useEffect(() => {
+    setTab("changed");
+  }, [diff]);
+
+  const tabs: { value: Tab; label: string; count: number; tone: string }[] = [
+    { value: "changed", label: "Alteradas", count: diff.changed.length, tone: "text-amber-600" },
+    { value: "added", label: "Novas", count: diff.added.length, tone: "text-emerald-600" },
+    { value: "removed", label: "Removidas", count: diff.removed.length, tone: "text-destructive" },
+  ];
+
+  return (
+    <>
+      <div className="grid grid-cols-4 gap-2">
+        {tabs.map((t) => (
+          <button
+            key={t.value}
+            onClick={() => setTab(t.value)}
+            className={cn(
+              "rounded-xl border p-3 text-left transition-all",
+              tab === t.value ? "border-primary bg-primary/10" : "border-border hover:bg-muted/50"
+            )}
+          >
+            <div className={cn("text-xl font-bold tabular-nums", t.tone)}>{t.count.toLocaleString("pt-BR")}</div>
+            <div className="text-xs text-muted-foreground">{t.label}</div>
+          </button>
+        ))}
+        <div className="rounded-xl border border-border p-3">
+          <div className="text-xl font-bold tabular-nums">{diff.unchanged.toLocaleString("pt-BR")}</div>
+          <div className="text-xs text-muted-foreground">Sem mudança</div>
+        </div>
+      </div>
+
+      <p className="text-xs text-muted-foreground">
+        {diff.key.length
+          ? `Linhas casadas por ${diff.key.join(" + ")}.`
+          : diff.byPosition
+            ? "Sem chave única: linhas comparadas pela posição."
+            : "Sem chave única: linhas comparadas pelo conteúdo inteiro (alterações aparecem como removida + nova)."}
+        {diff.addedColumns.length > 0 && ` Colunas novas: ${diff.addedColumns.join(", ")}.`}
+        {diff.removedColumns.length > 0 && ` Colunas que saíram: ${diff.removedColumns.join(", ")}.`}
+      </p>
+
+      <div className="max-h-72 overflow-auto rounded-xl border border-border text-xs divide-y divide-border">
+        {tab === "changed" &&
+          diff.changed.slice(0, MAX_LISTED).map((change, i) => (
+            <div key={i} className="px-3 py-2 space-y-0.5">
+              <div className="font-medium truncate">{rowLabel(change.after, diff)}</div>
+              {change.columns.map((col) => (
+                <div key={col} className="text-muted-foreground truncate">
+                  {col}: <span className="line-through">{cell(change.before[col])}</span> →{" "}
+                  <span className="text-foreground">{cell(change.after[col])}</span>
+                </div>
+              ))}
+            </div>
+          ))}
+        {tab !== "changed" &&
+          (tab === "added" ? diff.added : diff.removed).slice(0, MAX_LISTED).map((row, i) => (
+            <div key={i} className="px-3 py-2 truncate">{rowLabel(row, diff)}</div>
+          ))}
+        {tabs.find((t) => t.value === tab)?.count === 0 && (
+          <p className="px-3 py-6 text-center text-muted-foreground">Nenhuma linha</p>
+        )}
+        {(tabs.find((t) => t.value === tab)?.count ?? 0) > MAX_LISTED && (
+          <p className="px-3 py-2 text-center text-muted-foreground">Mostrando as primeiras {MAX_LISTED}</p>
+        )}
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,195 @@
+import React, { useEffect, useState } from "react";
+import { History, Loader2, RotateCcw } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { cn } from "@/lib/utils";
+import type { DatasetMeta } from "@/lib/database";
+import type { DatasetDiff } from "@/lib/datasetDiff";
+import { RETENTION_OPTIONS, SNAPSHOT_REASON_LABELS, type SnapshotMeta } from "@/lib/datasetHistory";
+import { DatasetDiffView } from "./DatasetDiffView";
+
+interface DatasetHistoryDialogProps {
+  dataset: DatasetMeta | null;
+  versions: SnapshotMeta[];
+  retention: number;
+  loading?: boolean;
+  onCompare: (fromId: string, toId: string) => Promise<DatasetDiff>;
+  onRestore: (snapshotId: string) => Promise<void>;
+  onRetentionChange: (limit: number) => void;
+  onClose: () => void;
+}
+
+function versionLabel(version: SnapshotMeta) {
+  return `${new Date(version.createdAt).toLocaleString("pt-BR")} · ${SNAPSHOT_REASON_LABELS[version.reason]}`;
+}
+
+export function DatasetHistoryDialog({
+  dataset,
+  versions,
+  retention,
+  loading,
+  onCompare,
+  onRestore,
+  onRetentionChange,
+  onClose,
+}: DatasetHistoryDialogProps) {
+  const [fromId, setFromId] = useState<string>("");
+  const [toId, setToId] = useState<string>("");
+  const [diff, setDiff] = useState<DatasetDiff | null>(null);
+  const [comparing, setComparing] = useState(false);
+  const [compareError, setCompareError] = useState<string | null>(null);
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+
+  // Padrão: a versão anterior contra a mais recente
+  useEffect(() => {
+    setFromId(versions[1]?.id ?? versions[0]?.id ?? "");
+    setToId(versions[0]?.id ?? "");
+  }, [versions]);
+
+  useEffect(() => {
+    if (!fromId || !toId || fromId === toId) {
+      setDiff(null);
+      return;
+    }
+    let cancelled = false;
+    setComparing(true);
+    setCompareError(null);
+    onCompare(fromId, toId)
+      .then((result) => !cancelled && setDiff(result))
+      .catch((err) => {
+        if (cancelled) return;
+        setDiff(null);
+        setCompareError(err instanceof Error ? err.message : "Erro ao comparar as versões");
+      })
+      .finally(() => !cancelled && setComparing(false));
+    return () => {
+      cancelled = true;
+    };
+  }, [fromId, toId, onCompare]);
+
+  const restore = async (id: string) => {
+    setRestoringId(id);
+    try {
+      await onRestore(id);
+    } finally {
+      setRestoringId(null);
+    }
+  };
+
+  const versionSelect = (value: string, onChange: (id: string) => void) => (
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger className="h-8 text-xs">
+        <SelectValue placeholder="Versão" />
+      </SelectTrigger>
+      <SelectContent>
+        {versions.map((v) => (
+          <SelectItem key={v.id} value={v.id} className="text-xs">
+            {versionLabel(v)}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  return (
+    <Dialog open={!!dataset} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <History className="w-5 h-5 text-primary" />
+            Histórico de {dataset?.name}
+          </DialogTitle>
+          <DialogDescription>
+            Uma versão é guardada a cada importação, edição, recarga e classificação. Restaurar grava a versão escolhida como
+            a atual (a atual continua no histórico).
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex items-center justify-between gap-2 text-xs">
+          <span className="text-muted-foreground">
+            {versions.length} {versions.length === 1 ? "versão guardada" : "versões guardadas"}
+          </span>
+          <div className="flex items-center gap-2">
+            <span className="text-muted-foreground">Manter as últimas</span>
+            <Select value={String(retention)} onValueChange={(v) => onRetentionChange(Number(v))}>
+              <SelectTrigger className="h-8 w-20 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {RETENTION_OPTIONS.map((n) => (
+                  <SelectItem key={n} value={String(n)} className="text-xs">{n}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <div className="max-h-56 overflow-auto rounded-xl border border-border text-xs divide-y divide-border">
+          {loading && versions.length === 0 && (
+            <p className="px-3 py-6 text-center text-muted-foreground">Carregando…</p>
+          )}
+          {!loading && versions.length === 0 && (
+            <p className="px-3 py-6 text-center text-muted-foreground">Nenhuma versão guardada ainda</p>
+          )}
+          {versions.map((v, i) => (
+            <div key={v.id} className={cn("flex items-center gap-3 px-3 py-2", i === 0 && "bg-primary/5")}>
+              <div className="flex-1 min-w-0">
+                <div className="font-medium truncate">
+                  {versionLabel(v)}
+                  {i === 0 && <span className="ml-2 text-primary">atual</span>}
+                </div>
+                <div className="text-muted-foreground truncate">
+                  {v.totalRows.toLocaleString("pt-BR")} linhas · {v.columnCount} colunas
+                  {v.note && ` · ${v.note}`}
+                </div>
+              </div>
+              {i > 0 && (
+                <Button
+                  size="sm"
+                  variant="outline"
+                  className="h-7 gap-1 text-xs"
+                  disabled={!!restoringId}
+                  onClick={() => restore(v.id)}
+                >
+                  {restoringId === v.id ? <Loader2 className="w-3 h-3 animate-spin" /> : <RotateCcw className="w-3 h-3" />}
+                  Restaurar
+                </Button>
+              )}
+            </div>
+          ))}
+        </div>
+
+        {versions.length > 1 && (
+          <>
+            <div className="grid grid-cols-[1fr_auto_1fr] items-center gap-2">
+              {versionSelect(fromId, setFromId)}
+              <span className="text-xs text-muted-foreground">→</span>
+              {versionSelect(toId, setToId)}
+            </div>
+            {comparing && (
+              <p className="flex items-center gap-2 text-xs text-muted-foreground">
+                <Loader2 className="w-3 h-3 animate-spin" /> Comparando versões…
+              </p>
+            )}
+            {compareError && <p className="text-xs text-destructive">{compareError}</p>}
+            {fromId === toId && <p className="text-xs text-muted-foreground">Escolha duas versões diferentes para comparar.</p>}
+            {diff && !comparing && <DatasetDiffView diff={diff} />}
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
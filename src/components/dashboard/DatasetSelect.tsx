@@ -1,5 +1,5 @@
 import * as React from "react";
-import type { Dataset } from "@/lib/database";
+import type { DatasetMeta } from "@/lib/database";
 import {
   Select,
   SelectContent,
@@ -9,7 +9,7 @@ import {
 } from "@/components/ui/select";
 
 interface DatasetSelectProps {
-  datasets: Dataset[];
+  datasets: DatasetMeta[];
   valueId: string | undefined;
   onChange: (id: string) => void;
 }
@@ -2,7 +2,8 @@ import React, { useMemo } from "react";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Badge } from "@/components/ui/badge";
-import type { GenericRow } from "@/lib/database";
+import type { ColumnMetadata, GenericRow } from "@/lib/database";
+import { columnTypeOf, formatCellValue } from "@/lib/valueFormat";
 
 interface DetailTableProps {
   rows: GenericRow[];
@@ -10,6 +11,8 @@ interface DetailTableProps {
   personColumn: string;
   teamColumn: string;
   statusColumn: string;
+  /** Tipos das colunas para exibir valores (Sim/Não, R$, horas) no formato certo */
+  columns?: ColumnMetadata[];
 }
 
 const statusColors: Record<string, { bg: string; text: string }> = {
@@ -43,7 +46,10 @@ function formatDate(value: string): string {
   return value;
 }
 
-export function DetailTable({ rows, dateColumn, personColumn, teamColumn, statusColumn }: DetailTableProps) {
+export function DetailTable({ rows, dateColumn, personColumn, teamColumn, statusColumn, columns }: DetailTableProps) {
+  const display = (row: GenericRow, column: string) =>
+    formatCellValue(row[column], columnTypeOf(columns, column)) || "-";
+
   const sortedRows = useMemo(() => {
     return [...rows]
       .sort((a, b) => {
@@ -82,7 +88,7 @@ export function DetailTable({ rows, dateColumn, personColumn, teamColumn, status
           </TableHeader>
           <TableBody>
             {sortedRows.map((row, idx) => {
-              const status = String(row[statusColumn] || "-").trim();
+              const status = display(row, statusColumn).trim();
               const statusColor = getStatusColor(status);
 
               return (
@@ -94,10 +100,10 @@ export function DetailTable({ rows, dateColumn, personColumn, teamColumn, status
                     {formatDate(String(row[dateColumn] || ""))}
                   </TableCell>
                   <TableCell className="text-xs py-1.5 font-medium truncate max-w-[120px]">
-                    {String(row[personColumn] || "-")}
+                    {display(row, personColumn)}
                   </TableCell>
                   <TableCell className="text-xs py-1.5 text-muted-foreground truncate max-w-[80px]">
-                    {String(row[teamColumn] || "-")}
+                    {display(row, teamColumn)}
                   </TableCell>
                   <TableCell className="py-1.5">
                     <Badge
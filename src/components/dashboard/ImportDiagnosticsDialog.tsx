@@ -0,0 +1,130 @@
+import React, { useMemo, useState } from "react";
+import { AlertTriangle, Download, Info, ListChecks } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+import type { Dataset } from "@/lib/database";
+import { DIAGNOSTIC_LABELS, countWarnings, diagnosticsToCsv } from "@/lib/importDiagnostics";
+
+interface ImportDiagnosticsDialogProps {
+  dataset: Dataset | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+/** Mostra no máximo essa quantidade na tela; o CSV leva a lista inteira */
+const VISIBLE_LIMIT = 300;
+
+export function ImportDiagnosticsDialog({ dataset, open, onOpenChange }: ImportDiagnosticsDialogProps) {
+  const [onlyWarnings, setOnlyWarnings] = useState(true);
+  const all = useMemo(() => dataset?.importDiagnostics ?? [], [dataset]);
+  const warnings = countWarnings(all);
+  const list = onlyWarnings ? all.filter((d) => d.level === "warning") : all;
+
+  const handleExport = () => {
+    if (!dataset) return;
+    const blob = new Blob([diagnosticsToCsv(all)], { type: "text/csv;charset=utf-8" });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = `${dataset.name}-diagnostico.csv`;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-4xl max-h-[90vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <ListChecks className="w-5 h-5 text-primary" />
+            Diagnóstico da Importação
+          </DialogTitle>
+          <DialogDescription>
+            {warnings
+              ? `${warnings} aviso${warnings === 1 ? "" : "s"} em ${dataset?.name ?? ""}: corrija na planilha de origem e importe de novo`
+              : "Nenhum problema encontrado na importação"}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex gap-2">
+          {[true, false].map((value) => (
+            <button
+              key={String(value)}
+              onClick={() => setOnlyWarnings(value)}
+              className={cn(
+                "px-3 py-1.5 rounded-xl border-2 text-xs font-semibold transition-all",
+                onlyWarnings === value ? "border-primary bg-primary/5" : "border-border hover:border-primary/50"
+              )}
+            >
+              {value ? `Avisos (${warnings})` : `Tudo (${all.length})`}
+            </button>
+          ))}
+        </div>
+
+        <div className="rounded-xl border border-border overflow-auto flex-1 min-h-0">
+          <table className="w-full text-xs">
+            <thead className="bg-muted/50 text-muted-foreground sticky top-0">
+              <tr>
+                <th className="px-2 py-2 w-6" />
+                <th className="px-2 py-2 text-left font-semibold">Aba</th>
+                <th className="px-2 py-2 text-left font-semibold">Célula</th>
+                <th className="px-2 py-2 text-left font-semibold">Valor</th>
+                <th className="px-2 py-2 text-left font-semibold">Problema</th>
+              </tr>
+            </thead>
+            <tbody>
+              {list.slice(0, VISIBLE_LIMIT).map((d, i) => (
+                <tr key={i} className="border-t border-border align-top">
+                  <td className="px-2 py-1.5">
+                    {d.level === "warning" ? (
+                      <AlertTriangle className="w-3.5 h-3.5 text-amber-500" />
+                    ) : (
+                      <Info className="w-3.5 h-3.5 text-muted-foreground" />
+                    )}
+                  </td>
+                  <td className="px-2 py-1.5 whitespace-nowrap" title={d.fileName}>{d.sheet ?? "—"}</td>
+                  <td className="px-2 py-1.5 font-mono">{d.cell ?? "—"}</td>
+                  <td className="px-2 py-1.5 max-w-[160px] truncate" title={d.rawValue}>{d.rawValue || "—"}</td>
+                  <td className="px-2 py-1.5">
+                    <span className="font-semibold">{DIAGNOSTIC_LABELS[d.code]}:</span> {d.message}
+                  </td>
+                </tr>
+              ))}
+              {list.length === 0 && (
+                <tr>
+                  <td colSpan={5} className="px-2 py-6 text-center text-muted-foreground">
+                    Nada a mostrar
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+
+        {list.length > VISIBLE_LIMIT && (
+          <p className="text-xs text-muted-foreground">
+            Mostrando {VISIBLE_LIMIT} de {list.length}. Exporte o CSV para ver todos.
+          </p>
+        )}
+
+        <DialogFooter className="gap-2 sm:gap-0">
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Fechar
+          </Button>
+          <Button onClick={handleExport} className="gap-2" disabled={all.length === 0}>
+            <Download className="w-4 h-4" />
+            Exportar CSV
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
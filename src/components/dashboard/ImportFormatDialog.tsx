@@ -1,5 +1,5 @@
-import React, { useState } from "react";
-import { FileSpreadsheet, TableProperties, ArrowRightLeft, Sparkles, X } from "lucide-react";
+import React, { useEffect, useMemo, useState } from "react";
+import { FileSpreadsheet, TableProperties, ArrowRightLeft, Sparkles, X, Layers, BookmarkCheck } from "lucide-react";
 import {
   Dialog,
   DialogContent,
@@ -9,7 +9,27 @@ import {
   DialogTitle,
 } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
 import { cn } from "@/lib/utils";
+import {
+  guessMatrixLayout,
+  guessTableLayout,
+  inspectBuffer,
+  previewImport,
+  DEFAULT_MATRIX_LAYOUT,
+  type ImportOptions,
+  type MatrixLayout,
+  type SheetImportMode,
+  type SheetInfo,
+  type WorkbookPreview,
+} from "@/lib/excelParser";
+import type { CsvOptions, ResolvedCsvOptions } from "@/lib/csvLocale";
+import type { TableLayout } from "@/lib/tableHeader";
+import type { DatasetMeta } from "@/lib/database";
+import { suggestDedupeKey, type DuplicateStrategy } from "@/lib/datasetAppend";
+import { findTemplateForWorkbook, templateFormat, type ImportTemplate } from "@/lib/importTemplates";
+import { ImportPreview } from "./ImportPreview";
 
 export type ImportFormat = "auto" | "long" | "matrix";
 
@@ -17,7 +37,12 @@ interface ImportFormatDialogProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
   fileName: string;
-  onConfirm: (format: ImportFormat) => void;
+  preview?: WorkbookPreview | null;
+  /** Datasets existentes, para anexar o arquivo a um deles */
+  datasets?: DatasetMeta[];
+  /** Modelos salvos: o que reconhece o cabeçalho do arquivo pré-seleciona aba e cabeçalho */
+  templates?: ImportTemplate[];
+  onConfirm: (options: ImportOptions) => void;
   onCancel: () => void;
 }
 
@@ -51,28 +76,188 @@ const formats: Array<{
   },
 ];
 
+const NO_SHEETS: SheetInfo[] = [];
+const NO_DATASETS: DatasetMeta[] = [];
+const NO_TEMPLATES: ImportTemplate[] = [];
+const AUTO_CSV: CsvOptions = { delimiter: "auto", encoding: "auto", numberLocale: "auto" };
+
+const DELIMITER_LABELS: Record<ResolvedCsvOptions["delimiter"], string> = {
+  ";": "Ponto e vírgula (;)",
+  ",": "Vírgula (,)",
+  "\t": "Tabulação",
+  "|": "Barra vertical (|)",
+};
+const ENCODING_LABELS: Record<ResolvedCsvOptions["encoding"], string> = {
+  "utf-8": "UTF-8",
+  "windows-1252": "Windows-1252 (ANSI)",
+};
+const NUMBER_LABELS: Record<ResolvedCsvOptions["numberLocale"], string> = {
+  "pt-BR": "1.234,56",
+  "en-US": "1,234.56",
+};
+
 export function ImportFormatDialog({
   open,
   onOpenChange,
   fileName,
+  preview: filePreview,
+  datasets = NO_DATASETS,
+  templates = NO_TEMPLATES,
   onConfirm,
   onCancel,
 }: ImportFormatDialogProps) {
   const [selected, setSelected] = useState<ImportFormat>("auto");
+  const [selectedSheets, setSelectedSheets] = useState<string[]>([]);
+  const [sheetMode, setSheetMode] = useState<SheetImportMode>("separate");
+  const [matrixLayout, setMatrixLayout] = useState<MatrixLayout>(DEFAULT_MATRIX_LAYOUT);
+  const [csvOptions, setCsvOptions] = useState<CsvOptions>(AUTO_CSV);
+  // null = cabeçalho detectado em cada aba
+  const [tableLayout, setTableLayout] = useState<TableLayout | null>(null);
+  const [appendTo, setAppendTo] = useState<string>("");
+  const [dedupeKey, setDedupeKey] = useState<string[]>([]);
+  const [onDuplicate, setOnDuplicate] = useState<DuplicateStrategy>("replace");
+  const [templateDismissed, setTemplateDismissed] = useState(false);
+
+  const appendTarget = datasets.find((d) => d.id === appendTo);
+
+  // Novo destino: parte da chave sugerida (pessoa + data na RDA)
+  useEffect(() => {
+    setDedupeKey(appendTarget ? suggestDedupeKey(appendTarget) : []);
+  }, [appendTarget]);
+
+  const toggleKey = (name: string) => {
+    setDedupeKey((prev) => (prev.includes(name) ? prev.filter((k) => k !== name) : [...prev, name]));
+  };
+
+  useEffect(() => {
+    setCsvOptions(AUTO_CSV);
+  }, [filePreview]);
+
+  // CSV com override manual é relido com o separador/encoding escolhidos
+  const source = useMemo(() => {
+    if (!filePreview?.csv || csvOptions === AUTO_CSV) return filePreview ?? null;
+    try {
+      return inspectBuffer(filePreview.buffer, filePreview.fileName, csvOptions);
+    } catch (err) {
+      console.warn("Falha ao reler CSV:", err);
+      return filePreview;
+    }
+  }, [filePreview, csvOptions]);
+
+  const sheets = source?.sheets ?? NO_SHEETS;
+  const workbook = source?.workbook;
+  const detectedCsv = filePreview?.csv;
+
+  // Modelo cujo cabeçalho aparece no arquivo (testado na pré-visualização original)
+  const templateMatch = useMemo(
+    () => (filePreview?.workbook && templates.length ? findTemplateForWorkbook(filePreview.workbook, templates) : null),
+    [filePreview, templates]
+  );
+  const activeTemplate = templateDismissed ? null : templateMatch;
+
+  useEffect(() => {
+    setTemplateDismissed(false);
+  }, [filePreview]);
+
+  // Nova planilha: pré-seleciona a primeira aba (ou a do modelo, com formato e cabeçalho dele)
+  useEffect(() => {
+    setSheetMode("separate");
+    if (activeTemplate && sheets.some((s) => s.name === activeTemplate.sheetName)) {
+      const { template } = activeTemplate;
+      setSelectedSheets([activeTemplate.sheetName]);
+      setSelected(templateFormat(template));
+      setTableLayout(template.tableLayout ?? null);
+      if (template.matrixLayout) setMatrixLayout(template.matrixLayout);
+      return;
+    }
+    setSelectedSheets(sheets.length ? [sheets[0].name] : []);
+    setTableLayout(null);
+  }, [sheets, activeTemplate]);
+
+  const dropTemplate = () => {
+    setTemplateDismissed(true);
+    setSelected("auto");
+  };
+
+  const toggleSheet = (name: string) => {
+    setSelectedSheets((prev) =>
+      prev.includes(name) ? prev.filter((s) => s !== name) : [...prev, name]
+    );
+  };
+
+  const allSelected = sheets.length > 0 && selectedSheets.length === sheets.length;
+
+  // Mantém a ordem das abas no arquivo
+  const orderedSheets = useMemo(
+    () => sheets.map((s) => s.name).filter((n) => selectedSheets.includes(n)),
+    [sheets, selectedSheets]
+  );
+
+  // Ao forçar matriz, parte do layout sugerido para a primeira aba escolhida
+  const firstSheet = orderedSheets[0];
+  useEffect(() => {
+    if (selected !== "matrix" || !workbook || !firstSheet) return;
+    if (activeTemplate?.template.matrixLayout && activeTemplate.sheetName === firstSheet) return;
+    const ws = workbook.Sheets[firstSheet];
+    if (ws) setMatrixLayout(guessMatrixLayout(ws));
+  }, [selected, workbook, firstSheet, activeTemplate]);
+
+  // Cabeçalho detectado na primeira aba escolhida (ponto de partida do ajuste manual)
+  const firstSheetInfo = sheets.find((s) => s.name === firstSheet);
+  const isTableImport = selected === "long" || (selected === "auto" && firstSheetInfo?.kind === "table");
+  const detectedTableLayout = useMemo(() => {
+    const ws = firstSheet ? workbook?.Sheets[firstSheet] : undefined;
+    return ws ? guessTableLayout(ws) : null;
+  }, [workbook, firstSheet]);
+  const shownTableLayout = tableLayout ?? detectedTableLayout;
+
+  const updateTableLayout = (key: keyof TableLayout, value: number) => {
+    if (!shownTableLayout) return;
+    setTableLayout({ ...shownTableLayout, [key]: value });
+  };
+
+  const options = useMemo<ImportOptions>(
+    () => ({
+      format: selected,
+      sheets: orderedSheets,
+      sheetMode,
+      matrixLayout: selected === "matrix" ? matrixLayout : undefined,
+      tableLayout: selected !== "matrix" && tableLayout ? tableLayout : undefined,
+      csv: detectedCsv ? csvOptions : undefined,
+      append: appendTo ? { datasetId: appendTo, dedupeKey, onDuplicate } : undefined,
+    }),
+    [selected, orderedSheets, sheetMode, matrixLayout, tableLayout, detectedCsv, csvOptions, appendTo, dedupeKey, onDuplicate]
+  );
+
+  const preview = useMemo(() => {
+    if (!open || !workbook) return null;
+    try {
+      return previewImport(workbook, options);
+    } catch (err) {
+      console.warn("Falha na pré-visualização:", err);
+      return null;
+    }
+  }, [open, workbook, options]);
+
+  const updateLayout = (key: keyof MatrixLayout, value: number) => {
+    setMatrixLayout((prev) => ({ ...prev, [key]: value }));
+  };
 
   const handleConfirm = () => {
-    onConfirm(selected);
+    onConfirm(options);
     setSelected("auto");
+    setAppendTo("");
   };
 
   const handleCancel = () => {
     onCancel();
     setSelected("auto");
+    setAppendTo("");
   };
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
-      <DialogContent className="sm:max-w-lg">
+      <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle className="flex items-center gap-2">
             <ArrowRightLeft className="w-5 h-5 text-primary" />
@@ -83,6 +268,18 @@ export function ImportFormatDialog({
           </DialogDescription>
         </DialogHeader>
 
+        {activeTemplate && (
+          <div className="flex items-center gap-2 rounded-xl border border-primary/40 bg-primary/5 p-3 text-xs">
+            <BookmarkCheck className="w-4 h-4 shrink-0 text-primary" />
+            <span className="flex-1">
+              Layout reconhecido pelo modelo <strong>{activeTemplate.template.name}</strong>: aba, formato e cabeçalho pré-selecionados
+            </span>
+            <Button variant="ghost" size="sm" onClick={dropTemplate} className="h-7 text-xs">
+              Não usar
+            </Button>
+          </div>
+        )}
+
         <div className="space-y-3 py-4">
           {formats.map((format) => (
             <button
@@ -130,16 +327,273 @@ export function ImportFormatDialog({
           ))}
         </div>
 
+        {detectedCsv && (
+          <div className="space-y-2 pb-4">
+            <div className="text-sm font-semibold">Configuração do CSV</div>
+            <div className="grid grid-cols-3 gap-2">
+              <CsvSelect
+                label="Separador"
+                value={csvOptions.delimiter ?? "auto"}
+                detected={DELIMITER_LABELS[detectedCsv.delimiter]}
+                options={DELIMITER_LABELS}
+                onChange={(v) => setCsvOptions((prev) => ({ ...prev, delimiter: v as CsvOptions["delimiter"] }))}
+              />
+              <CsvSelect
+                label="Encoding"
+                value={csvOptions.encoding ?? "auto"}
+                detected={ENCODING_LABELS[detectedCsv.encoding]}
+                options={ENCODING_LABELS}
+                onChange={(v) => setCsvOptions((prev) => ({ ...prev, encoding: v as CsvOptions["encoding"] }))}
+              />
+              <CsvSelect
+                label="Números"
+                value={csvOptions.numberLocale ?? "auto"}
+                detected={NUMBER_LABELS[detectedCsv.numberLocale]}
+                options={NUMBER_LABELS}
+                onChange={(v) => setCsvOptions((prev) => ({ ...prev, numberLocale: v as CsvOptions["numberLocale"] }))}
+              />
+            </div>
+          </div>
+        )}
+
+        {selected === "matrix" && (
+          <div className="space-y-2 pb-4">
+            <div className="text-sm font-semibold">Layout da matriz</div>
+            <div className="grid grid-cols-2 gap-2">
+              <LayoutField
+                label="Linha das equipes (0 = nenhuma)"
+                value={matrixLayout.teamRow + 1}
+                min={0}
+                onChange={(v) => updateLayout("teamRow", v - 1)}
+              />
+              <LayoutField
+                label="Linha das pessoas"
+                value={matrixLayout.peopleRow + 1}
+                onChange={(v) => updateLayout("peopleRow", v - 1)}
+              />
+              <LayoutField
+                label="Coluna das datas (A = 1)"
+                value={matrixLayout.dateCol + 1}
+                onChange={(v) => updateLayout("dateCol", v - 1)}
+              />
+              <LayoutField
+                label="Primeira linha de dados"
+                value={matrixLayout.firstDataRow + 1}
+                onChange={(v) => updateLayout("firstDataRow", v - 1)}
+              />
+            </div>
+          </div>
+        )}
+
+        {isTableImport && shownTableLayout && (
+          <div className="space-y-2 pb-4">
+            <div className="flex items-center justify-between">
+              <div className="text-sm font-semibold">Cabeçalho da tabela</div>
+              {tableLayout ? (
+                <button onClick={() => setTableLayout(null)} className="text-xs text-primary hover:underline">
+                  Detectar automaticamente
+                </button>
+              ) : (
+                <span className="text-xs text-muted-foreground">Detectado automaticamente</span>
+              )}
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              <LayoutField
+                label="Linha do cabeçalho"
+                value={shownTableLayout.headerRow + 1}
+                onChange={(v) => updateTableLayout("headerRow", v - 1)}
+              />
+              <LayoutField
+                label="Linhas do cabeçalho (mescladas)"
+                value={shownTableLayout.headerRows}
+                max={3}
+                onChange={(v) => updateTableLayout("headerRows", v)}
+              />
+            </div>
+          </div>
+        )}
+
+        {sheets.length > 1 && (
+          <div className="space-y-3 pb-4">
+            <div className="flex items-center justify-between">
+              <div className="flex items-center gap-2 text-sm font-semibold">
+                <Layers className="w-4 h-4 text-primary" />
+                Abas ({selectedSheets.length}/{sheets.length})
+              </div>
+              <button
+                onClick={() => setSelectedSheets(allSelected ? [sheets[0].name] : sheets.map((s) => s.name))}
+                className="text-xs text-primary hover:underline"
+              >
+                {allSelected ? "Somente a primeira" : "Selecionar todas"}
+              </button>
+            </div>
+
+            <div className="max-h-40 overflow-auto space-y-1 rounded-xl border border-border p-2">
+              {sheets.map((sheet) => (
+                <label
+                  key={sheet.name}
+                  className="flex items-center gap-3 px-2 py-1.5 rounded-lg hover:bg-muted/50 cursor-pointer text-sm"
+                >
+                  <Checkbox
+                    checked={selectedSheets.includes(sheet.name)}
+                    onCheckedChange={() => toggleSheet(sheet.name)}
+                  />
+                  <span className="flex-1 truncate">{sheet.name}</span>
+                  <span className="text-xs text-muted-foreground shrink-0">
+                    {sheet.kind === "rda_matrix" ? "Matriz RDA" : "Tabela"} • {sheet.rowCount} linhas
+                  </span>
+                </label>
+              ))}
+            </div>
+
+            {selectedSheets.length > 1 && (
+              <div className="grid grid-cols-2 gap-2">
+                {([
+                  { value: "separate", label: "Um dataset por aba" },
+                  { value: "merge", label: "Mesclar em um dataset" },
+                ] as const).map((mode) => (
+                  <button
+                    key={mode.value}
+                    onClick={() => setSheetMode(mode.value)}
+                    className={cn(
+                      "px-3 py-2 rounded-xl border-2 text-xs font-semibold transition-all",
+                      sheetMode === mode.value
+                        ? "border-primary bg-primary/5"
+                        : "border-border hover:border-primary/50"
+                    )}
+                  >
+                    {mode.label}
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
+        {datasets.length > 0 && (
+          <div className="space-y-2 pb-4">
+            <div className="text-sm font-semibold">Destino</div>
+            <select
+              value={appendTo}
+              onChange={(e) => setAppendTo(e.target.value)}
+              className="w-full h-8 px-2 rounded-md border border-input bg-background text-xs"
+            >
+              <option value="">Criar novo dataset</option>
+              {datasets.map((d) => (
+                <option key={d.id} value={d.id}>Anexar a: {d.name}</option>
+              ))}
+            </select>
+
+            {appendTarget && (
+              <div className="space-y-2 rounded-xl border border-border p-3">
+                <div className="text-xs text-muted-foreground">
+                  Linhas com a mesma chave são consideradas repetidas {dedupeKey.length === 0 && "(nenhuma coluna = sem deduplicação)"}
+                </div>
+                <div className="flex flex-wrap gap-x-4 gap-y-1.5 max-h-28 overflow-auto">
+                  {appendTarget.columns.map((c) => (
+                    <label key={c.name} className="flex items-center gap-2 text-xs cursor-pointer">
+                      <Checkbox checked={dedupeKey.includes(c.name)} onCheckedChange={() => toggleKey(c.name)} />
+                      {c.name}
+                    </label>
+                  ))}
+                </div>
+                <div className="grid grid-cols-2 gap-2">
+                  {([
+                    { value: "replace", label: "Repetidas: usar o arquivo novo" },
+                    { value: "skip", label: "Repetidas: manter as atuais" },
+                  ] as const).map((mode) => (
+                    <button
+                      key={mode.value}
+                      onClick={() => setOnDuplicate(mode.value)}
+                      className={cn(
+                        "px-3 py-2 rounded-xl border-2 text-xs font-semibold transition-all",
+                        onDuplicate === mode.value ? "border-primary bg-primary/5" : "border-border hover:border-primary/50"
+                      )}
+                    >
+                      {mode.label}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+
+        <div className="pb-4">
+          <ImportPreview preview={preview} />
+        </div>
+
         <DialogFooter className="gap-2 sm:gap-0">
           <Button variant="outline" onClick={handleCancel}>
             Cancelar
           </Button>
-          <Button onClick={handleConfirm} className="gap-2">
+          <Button onClick={handleConfirm} className="gap-2" disabled={sheets.length > 0 && selectedSheets.length === 0}>
             <FileSpreadsheet className="w-4 h-4" />
-            Importar
+            {appendTarget ? "Anexar" : "Importar"}
           </Button>
         </DialogFooter>
       </DialogContent>
     </Dialog>
   );
 }
+
+function LayoutField({
+  label,
+  value,
+  min = 1,
+  max,
+  onChange,
+}: {
+  label: string;
+  value: number;
+  min?: number;
+  max?: number;
+  onChange: (value: number) => void;
+}) {
+  return (
+    <label className="space-y-1">
+      <span className="text-xs text-muted-foreground">{label}</span>
+      <Input
+        type="number"
+        min={min}
+        max={max}
+        value={value}
+        onChange={(e) => {
+          const n = Number(e.target.value);
+          if (Number.isFinite(n) && n >= min && (max === undefined || n <= max)) onChange(Math.floor(n));
+        }}
+        className="h-8 text-sm"
+      />
+    </label>
+  );
+}
+
+function CsvSelect({
+  label,
+  value,
+  detected,
+  options,
+  onChange,
+}: {
+  label: string;
+  value: string;
+  detected: string;
+  options: Record<string, string>;
+  onChange: (value: string) => void;
+}) {
+  return (
+    <label className="space-y-1">
+      <span className="text-xs text-muted-foreground">{label}</span>
+      <select
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        className="w-full h-8 px-2 rounded-md border border-input bg-background text-xs"
+      >
+        <option value="auto">Automático ({detected})</option>
+        {Object.entries(options).map(([v, l]) => (
+          <option key={v} value={v}>{l}</option>
+        ))}
+      </select>
+    </label>
+  );
+}
@@ -0,0 +1,72 @@
+import React from "react";
+import { Eye } from "lucide-react";
+import type { ParsedResult } from "@/lib/excelParser";
+import { parseDateTime, parseTimeOfDay } from "@/lib/cellValues";
+
+interface ImportPreviewProps {
+  preview: ParsedResult | null;
+  maxColumns?: number;
+}
+
+function previewText(v: unknown): string {
+  if (v === null || v === undefined) return "";
+  if (v instanceof Date) {
+    const parsed = parseDateTime(v);
+    return parsed ? [parsed.date, parsed.time].filter(Boolean).join(" ") : parseTimeOfDay(v) ?? "";
+  }
+  return String(v);
+}
+
+export function ImportPreview({ preview, maxColumns = 8 }: ImportPreviewProps) {
+  if (!preview) return null;
+
+  const columns = Array.from(
+    new Set(preview.rows.flatMap((r) => Object.keys(r)))
+  ).slice(0, maxColumns);
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between text-sm font-semibold">
+        <span className="flex items-center gap-2">
+          <Eye className="w-4 h-4 text-primary" />
+          Pré-visualização
+        </span>
+        <span className="text-xs font-normal text-muted-foreground">
+          {preview.kind === "rda_matrix" ? "Matriz → tabela longa" : "Tabela"}
+          {preview.meta.peopleCount !== undefined && ` • ${preview.meta.peopleCount} pessoas`}
+        </span>
+      </div>
+
+      {preview.rows.length === 0 ? (
+        <p className="text-xs text-muted-foreground italic px-1">
+          Nenhuma linha encontrada com essa configuração
+        </p>
+      ) : (
+        <div className="max-h-48 overflow-auto rounded-xl border border-border">
+          <table className="min-w-full text-xs">
+            <thead className="sticky top-0 bg-muted">
+              <tr>
+                {columns.map((c) => (
+                  <th key={c} className="px-2 py-1.5 text-left font-semibold whitespace-nowrap">
+                    {c}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {preview.rows.map((row, i) => (
+                <tr key={i} className="border-t border-border">
+                  {columns.map((c) => (
+                    <td key={c} className="px-2 py-1 whitespace-nowrap max-w-[160px] truncate">
+                      {previewText(row[c])}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
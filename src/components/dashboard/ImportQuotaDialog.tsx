@@ -0,0 +1,53 @@
+import React from "react";
+import { AlertTriangle, HardDrive, Upload } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { formatBytes, type ImportQuotaCheck } from "@/lib/storageQuota";
+
+interface ImportQuotaDialogProps {
+  check: ImportQuotaCheck | null;
+  onProceed: () => void;
+  onFreeSpace: () => void;
+  onCancel: () => void;
+}
+
+/** Aviso antes de uma importação que provavelmente não cabe no armazenamento */
+export function ImportQuotaDialog({ check, onProceed, onFreeSpace, onCancel }: ImportQuotaDialogProps) {
+  return (
+    <Dialog open={!!check} onOpenChange={(open) => !open && onCancel()}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <AlertTriangle className="w-5 h-5 text-destructive" />
+            Pode faltar espaço
+          </DialogTitle>
+          <DialogDescription>
+            A importação deve ocupar cerca de {formatBytes(check?.needed ?? 0)}, mas restam só{" "}
+            {formatBytes(check?.available ?? 0)} no armazenamento do navegador. Se faltar espaço, o dataset não é salvo.
+          </DialogDescription>
+        </DialogHeader>
+
+        <DialogFooter className="gap-2 sm:gap-0">
+          <Button variant="outline" onClick={onCancel}>
+            Cancelar
+          </Button>
+          <Button variant="outline" onClick={onFreeSpace} className="gap-2">
+            <HardDrive className="w-4 h-4" />
+            Liberar espaço
+          </Button>
+          <Button onClick={onProceed} className="gap-2">
+            <Upload className="w-4 h-4" />
+            Importar mesmo assim
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,141 @@
+import React, { useEffect, useState } from "react";
+import { Bookmark, BookmarkPlus, Trash2 } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { toast } from "@/hooks/use-toast";
+import type { Dataset } from "@/lib/database";
+import { findTemplateBySignature, type ImportTemplate } from "@/lib/importTemplates";
+
+interface ImportTemplatesDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  templates: ImportTemplate[];
+  /** Dataset ativo, que pode virar modelo se guardou como foi lido */
+  dataset: Dataset | null;
+  onSave: (dataset: Dataset, name: string) => Promise<ImportTemplate | null>;
+  onDelete: (id: string) => void;
+}
+
+function formatDate(iso?: string) {
+  return iso ? new Date(iso).toLocaleDateString("pt-BR") : "—";
+}
+
+export function ImportTemplatesDialog({
+  open,
+  onOpenChange,
+  templates,
+  dataset,
+  onSave,
+  onDelete,
+}: ImportTemplatesDialogProps) {
+  const existing = findTemplateBySignature(templates, dataset?.importLayout?.signature);
+  const [name, setName] = useState("");
+
+  useEffect(() => {
+    if (open) setName(existing?.name ?? dataset?.name ?? "");
+  }, [open, existing, dataset]);
+
+  const handleSave = async () => {
+    if (!dataset) return;
+    try {
+      const saved = await onSave(dataset, name);
+      if (saved) toast({ title: existing ? "Modelo atualizado" : "Modelo salvo", description: saved.name });
+    } catch (err) {
+      console.error(err);
+      toast({ title: "Não foi possível salvar o modelo", variant: "destructive" });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Bookmark className="w-5 h-5 text-primary" />
+            Modelos de Importação
+          </DialogTitle>
+          <DialogDescription>
+            Arquivos com o mesmo cabeçalho de um modelo são lidos, revisados e classificados como da última vez
+          </DialogDescription>
+        </DialogHeader>
+
+        {dataset?.importLayout ? (
+          <div className="rounded-xl border border-border p-3 space-y-2">
+            <div className="text-sm font-semibold">
+              {existing ? "Atualizar modelo com o dataset atual" : "Salvar o dataset atual como modelo"}
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Guarda a aba, o cabeçalho, as colunas renomeadas/excluídas, os tipos, a classificação e a matriz de{" "}
+              <strong className="text-foreground">{dataset.name}</strong>
+            </p>
+            <div className="flex gap-2">
+              <Input value={name} onChange={(e) => setName(e.target.value)} placeholder="Nome do modelo" className="h-8 text-sm" />
+              <Button size="sm" onClick={handleSave} className="gap-2 shrink-0">
+                <BookmarkPlus className="w-4 h-4" />
+                {existing ? "Atualizar" : "Salvar"}
+              </Button>
+            </div>
+          </div>
+        ) : (
+          dataset && (
+            <p className="text-xs text-muted-foreground">
+              {dataset.name} foi importado antes dos modelos; importe o arquivo de novo para salvá-lo como modelo.
+            </p>
+          )
+        )}
+
+        {templates.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-6">Nenhum modelo salvo</p>
+        ) : (
+          <div className="rounded-xl border border-border overflow-auto">
+            <table className="w-full text-xs">
+              <thead className="bg-muted/50 text-muted-foreground">
+                <tr>
+                  <th className="px-2 py-2 text-left font-semibold">Modelo</th>
+                  <th className="px-2 py-2 text-left font-semibold">Aba</th>
+                  <th className="px-2 py-2 text-right font-semibold">Colunas</th>
+                  <th className="px-2 py-2 text-right font-semibold">Usos</th>
+                  <th className="px-2 py-2 text-right font-semibold">Último uso</th>
+                  <th className="px-2 py-2 w-8" />
+                </tr>
+              </thead>
+              <tbody>
+                {templates.map((t) => (
+                  <tr key={t.id} className="border-t border-border">
+                    <td className="px-2 py-1.5 max-w-[200px] truncate" title={t.headers.join(", ")}>
+                      <div className="font-medium truncate">{t.name}</div>
+                      <div className="text-[10px] text-muted-foreground">
+                        {t.kind === "rda_matrix" ? "Matriz" : "Tabela"}
+                        {t.tableLayout ? ` · cabeçalho na linha ${t.tableLayout.headerRow + 1}` : ""}
+                      </div>
+                    </td>
+                    <td className="px-2 py-1.5 max-w-[120px] truncate">{t.sheetName}</td>
+                    <td className="px-2 py-1.5 text-right tabular-nums">{t.headers.length}</td>
+                    <td className="px-2 py-1.5 text-right tabular-nums">{t.useCount}</td>
+                    <td className="px-2 py-1.5 text-right">{formatDate(t.lastUsedAt)}</td>
+                    <td className="px-2 py-1.5 text-center">
+                      <button
+                        onClick={() => onDelete(t.id)}
+                        className="p-1 rounded hover:bg-destructive/20"
+                        title="Excluir modelo"
+                      >
+                        <Trash2 className="w-3 h-3 text-destructive" />
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
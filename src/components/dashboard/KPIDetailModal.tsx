@@ -9,6 +9,8 @@ import {
 import { Progress } from "@/components/ui/progress";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Hash, Tag, Calendar, Database, TrendingUp, BarChart3, User } from "lucide-react";
+import type { ColumnType } from "@/lib/database";
+import { formatStat } from "@/lib/valueFormat";
 
 interface KPIDetail {
   title: string;
@@ -19,6 +21,8 @@ interface KPIDetail {
   // Extended details
   type?: "count" | "numeric" | "category" | "date";
   columnName?: string;
+  /** Tipo da coluna numérica, para exibir as estatísticas em R$, % ou horas */
+  valueType?: ColumnType;
   stats?: {
     min?: number;
     max?: number;
@@ -88,25 +92,25 @@ export function KPIDetailModal({ open, onOpenChange, kpi }: KPIDetailModalProps)
                 {kpi.stats.min !== undefined && (
                   <div className="p-2 bg-muted/30 rounded-lg">
                     <p className="text-xs text-muted-foreground">Mínimo</p>
-                    <p className="text-sm font-bold">{kpi.stats.min.toLocaleString("pt-BR")}</p>
+                    <p className="text-sm font-bold">{formatStat(kpi.stats.min, kpi.valueType)}</p>
                   </div>
                 )}
                 {kpi.stats.max !== undefined && (
                   <div className="p-2 bg-muted/30 rounded-lg">
                     <p className="text-xs text-muted-foreground">Máximo</p>
-                    <p className="text-sm font-bold">{kpi.stats.max.toLocaleString("pt-BR")}</p>
+                    <p className="text-sm font-bold">{formatStat(kpi.stats.max, kpi.valueType)}</p>
                   </div>
                 )}
                 {kpi.stats.avg !== undefined && (
                   <div className="p-2 bg-muted/30 rounded-lg">
                     <p className="text-xs text-muted-foreground">Média</p>
-                    <p className="text-sm font-bold">{kpi.stats.avg.toLocaleString("pt-BR", { maximumFractionDigits: 2 })}</p>
+                    <p className="text-sm font-bold">{formatStat(kpi.stats.avg, kpi.valueType)}</p>
                   </div>
                 )}
                 {kpi.stats.sum !== undefined && (
                   <div className="p-2 bg-muted/30 rounded-lg">
                     <p className="text-xs text-muted-foreground">Soma</p>
-                    <p className="text-sm font-bold">{kpi.stats.sum.toLocaleString("pt-BR", { maximumFractionDigits: 2 })}</p>
+                    <p className="text-sm font-bold">{formatStat(kpi.stats.sum, kpi.valueType)}</p>
                   </div>
                 )}
               </div>
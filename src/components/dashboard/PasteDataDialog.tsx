@@ -0,0 +1,131 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { ClipboardPaste, FileSpreadsheet } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { toast } from "@/hooks/use-toast";
+import { clipboardFile, clipboardToTsv, readClipboard, tsvShape } from "@/lib/clipboardImport";
+
+interface PasteDataDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Conteúdo colado como arquivo .tsv (segue para a tela de formato, como um arquivo escolhido) */
+  onPasted: (file: File) => void;
+}
+
+const PREVIEW_LINES = 8;
+
+export function PasteDataDialog({ open, onOpenChange, onPasted }: PasteDataDialogProps) {
+  const [tsv, setTsv] = useState("");
+  const [name, setName] = useState("Dados colados");
+
+  useEffect(() => {
+    if (open) {
+      setTsv("");
+      setName("Dados colados");
+    }
+  }, [open]);
+
+  const shape = useMemo(() => tsvShape(tsv), [tsv]);
+  const previewLines = useMemo(() => tsv.split("\n").slice(0, PREVIEW_LINES).map((l) => l.split("\t")), [tsv]);
+
+  const handlePaste = (e: React.ClipboardEvent) => {
+    e.preventDefault();
+    setTsv(clipboardToTsv({
+      html: e.clipboardData.getData("text/html"),
+      text: e.clipboardData.getData("text/plain"),
+    }));
+  };
+
+  const handleReadClipboard = async () => {
+    try {
+      const content = await readClipboard();
+      if (!content) throw new Error("Área de transferência indisponível");
+      setTsv(clipboardToTsv(content));
+    } catch (err) {
+      console.warn("Não foi possível ler a área de transferência:", err);
+      toast({
+        title: "Não foi possível ler a área de transferência",
+        description: "Clique na área abaixo e use Ctrl+V",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleConfirm = () => {
+    onPasted(clipboardFile(tsv, name));
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <ClipboardPaste className="w-5 h-5 text-primary" />
+            Colar Dados
+          </DialogTitle>
+          <DialogDescription>
+            Copie um intervalo do Excel ou uma tabela de um sistema web e cole aqui
+          </DialogDescription>
+        </DialogHeader>
+
+        <div
+          tabIndex={0}
+          onPaste={handlePaste}
+          className="rounded-xl border-2 border-dashed border-border focus:border-primary outline-none p-4 min-h-[140px] text-xs cursor-text"
+        >
+          {shape.rows === 0 ? (
+            <div className="h-[108px] flex items-center justify-center text-muted-foreground">
+              Clique aqui e pressione Ctrl+V
+            </div>
+          ) : (
+            <div className="overflow-auto">
+              <table className="w-full">
+                <tbody>
+                  {previewLines.map((cells, r) => (
+                    <tr key={r} className={r === 0 ? "font-semibold" : "border-t border-border"}>
+                      {cells.map((cell, c) => (
+                        <td key={c} className="px-2 py-1 whitespace-nowrap max-w-[160px] truncate">{cell}</td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+
+        <div className="flex items-center justify-between gap-2 text-xs text-muted-foreground">
+          <span>{shape.rows ? `${shape.rows} linhas × ${shape.columns} colunas` : "Nada colado ainda"}</span>
+          <Button variant="outline" size="sm" onClick={handleReadClipboard} className="gap-2 text-xs">
+            <ClipboardPaste className="w-3.5 h-3.5" />
+            Ler área de transferência
+          </Button>
+        </div>
+
+        <div className="space-y-1">
+          <label className="text-xs font-semibold text-muted-foreground">Nome do dataset</label>
+          <Input value={name} onChange={(e) => setName(e.target.value)} className="h-8 text-sm" />
+        </div>
+
+        <DialogFooter className="gap-2 sm:gap-0">
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancelar
+          </Button>
+          <Button onClick={handleConfirm} className="gap-2" disabled={shape.rows < 2}>
+            <FileSpreadsheet className="w-4 h-4" />
+            Continuar
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
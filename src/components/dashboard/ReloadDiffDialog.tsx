@@ -0,0 +1,50 @@
+import React from "react";
+import { RefreshCw } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { hasChanges } from "@/lib/datasetDiff";
+import type { PendingReload } from "@/hooks/useFileLink";
+import { DatasetDiffView } from "./DatasetDiffView";
+
+interface ReloadDiffDialogProps {
+  reload: PendingReload | null;
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+export function ReloadDiffDialog({ reload, onConfirm, onCancel }: ReloadDiffDialogProps) {
+  const diff = reload?.diff;
+
+  return (
+    <Dialog open={!!reload} onOpenChange={(open) => !open && onCancel()}>
+      <DialogContent className="sm:max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <RefreshCw className="w-5 h-5 text-primary" />
+            Recarregar {reload?.target.name}
+          </DialogTitle>
+          <DialogDescription>
+            Diferenças entre o dataset salvo e {reload?.fileName}. Perfil, matriz e configurações do dataset são mantidos.
+          </DialogDescription>
+        </DialogHeader>
+
+        {diff && <DatasetDiffView diff={diff} />}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onCancel}>Cancelar</Button>
+          <Button onClick={onConfirm} disabled={!diff || !hasChanges(diff)} className="gap-2">
+            <RefreshCw className="w-4 h-4" />
+            {diff && !hasChanges(diff) ? "Nada mudou" : "Aplicar"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,24 +1,79 @@
 import React, { useRef, useState } from "react";
-import { LayoutDashboard, FileSpreadsheet, Upload, Database, Settings, Trash2, CalendarIcon, X } from "lucide-react";
+import {
+  LayoutDashboard, FileSpreadsheet, Upload, Database, Settings, Trash2, CalendarIcon, X, ClipboardPaste,
+  CheckCircle2, AlertCircle, Loader2, Clock, Bookmark, Link2, RefreshCw, Download, History, Archive, ArchiveRestore, HardDrive,
+  Cloud, CloudOff,
+} from "lucide-react";
 import { format } from "date-fns";
 import { ThemePresetToggle } from "@/components/ThemePresetToggle";
 import { ptBR } from "date-fns/locale";
-import type { Dataset } from "@/lib/database";
+import type { BrokenDataset, Dataset, DatasetMeta } from "@/lib/database";
 import type { DateRange } from "@/lib/dateRange";
-import type { ImportFormat } from "@/lib/excelParser";
+import { inspectExcelFile, type ImportOptions, type ImportProgress, type WorkbookPreview } from "@/lib/excelParser";
 import { cn } from "@/lib/utils";
 import { Button } from "@/components/ui/button";
 import { Calendar } from "@/components/ui/calendar";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Progress } from "@/components/ui/progress";
 import { ThemeToggle } from "@/components/ThemeToggle";
 import { ImportFormatDialog } from "./ImportFormatDialog";
+import { PasteDataDialog } from "./PasteDataDialog";
+import { BatchImportDialog } from "./BatchImportDialog";
+import { isZipFile, type BatchItem, type BatchMode } from "@/lib/batchImport";
+import type { ImportTemplate } from "@/lib/importTemplates";
+import { isXmlFileName } from "@/lib/nfeImport";
+import { isOfxFileName } from "@/lib/bankStatement";
+import { isJsonFileName } from "@/lib/jsonImport";
+import { formatBytes, USAGE_WARNING_RATIO, type StorageEstimateInfo } from "@/lib/storageQuota";
+import { CLOUD_STATUS_LABELS, type CloudSyncStatus } from "@/hooks/useCloudSync";
+
+// Registro em quarentena, como estava gravado, para recuperar à mão
+function downloadBrokenRecord(broken: BrokenDataset) {
+  const blob = new Blob([JSON.stringify(broken.record, null, 2)], { type: "application/json;charset=utf-8" });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = `${broken.name ?? broken.id}-registro.json`;
+  a.click();
+  URL.revokeObjectURL(url);
+}
 
 interface SidebarProps {
-  datasets: Dataset[];
+  datasets: DatasetMeta[];
   currentDataset: Dataset | null;
-  onImport: (file: File, format?: ImportFormat) => void;
+  onImport: (file: File, options?: ImportOptions) => void;
+  /** Vários arquivos ou .zip */
+  onImportBatch: (files: File[], mode: BatchMode) => void;
+  importProgress?: ImportProgress | null;
+  batchQueue?: BatchItem[];
+  onClearBatchQueue?: () => void;
+  /** Modelos de importação (reconhecidos na tela de formato) */
+  templates?: ImportTemplate[];
+  onManageTemplates?: () => void;
+  onCancelImport?: () => void;
   onSelectDataset: (id: string) => void;
   onDeleteDataset: (id: string) => void;
+  /** Arquivo local vinculado (só onde o navegador suporta File System Access) */
+  fileLinkSupported?: boolean;
+  reloadingId?: string | null;
+  onLinkFile?: (dataset: DatasetMeta) => void;
+  onReloadFile?: (dataset: DatasetMeta) => void;
+  /** Versões gravadas do dataset (comparar e restaurar) */
+  onOpenHistory?: (dataset: DatasetMeta) => void;
+  /** Datasets gravados que não puderam ser lidos nem reparados */
+  brokenDatasets?: BrokenDataset[];
+  onDiscardBroken?: (id: string) => void;
+  /** Backup do workspace inteiro (.zip) e restauração */
+  onExportBackup?: () => void;
+  onRestoreBackup?: (file: File) => void;
+  backupBusy?: boolean;
+  /** Uso do armazenamento do navegador (abre o painel de limpeza) */
+  storageEstimate?: StorageEstimateInfo | null;
+  onOpenStorage?: () => void;
+  /** Sincronização opcional com a nuvem (conta e fila) */
+  cloudStatus?: CloudSyncStatus;
+  cloudPending?: number;
+  onOpenCloudSync?: () => void;
   personFilter: string;
   setPersonFilter: (v: string) => void;
   statusFilter: string;
@@ -37,8 +92,30 @@ export function Sidebar({
   datasets,
   currentDataset,
   onImport,
+  onImportBatch,
+  importProgress,
+  batchQueue = [],
+  onClearBatchQueue,
+  templates,
+  onManageTemplates,
+  onCancelImport,
   onSelectDataset,
   onDeleteDataset,
+  fileLinkSupported,
+  reloadingId,
+  onLinkFile,
+  onReloadFile,
+  onOpenHistory,
+  brokenDatasets = [],
+  onDiscardBroken,
+  onExportBackup,
+  onRestoreBackup,
+  backupBusy,
+  storageEstimate,
+  onOpenStorage,
+  cloudStatus = "off",
+  cloudPending = 0,
+  onOpenCloudSync,
   personFilter,
   setPersonFilter,
   statusFilter,
@@ -53,31 +130,88 @@ export function Sidebar({
   teamList,
 }: SidebarProps) {
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const backupInputRef = useRef<HTMLInputElement>(null);
   const [pendingFile, setPendingFile] = useState<File | null>(null);
+  const [pendingPreview, setPendingPreview] = useState<WorkbookPreview | null>(null);
   const [formatDialogOpen, setFormatDialogOpen] = useState(false);
+  const [pasteDialogOpen, setPasteDialogOpen] = useState(false);
+  const [batchFiles, setBatchFiles] = useState<File[]>([]);
+  const [dragOver, setDragOver] = useState(false);
+
+  // Arquivo escolhido ou dados colados (.tsv em memória): mesma tela de formato
+  const openFormatDialog = async (file: File) => {
+    setPendingFile(file);
+    try {
+      setPendingPreview(await inspectExcelFile(file));
+    } catch (err) {
+      console.warn("Não foi possível listar as abas:", err);
+      setPendingPreview(null);
+    }
+    setFormatDialogOpen(true);
+  };
+
+  const batchBusy = batchQueue.some((item) => item.status === "pending" || item.status === "importing");
 
-  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (file) {
-      setPendingFile(file);
-      setFormatDialogOpen(true);
-      e.target.value = "";
+  // Um arquivo: tela de formato; vários ou .zip: importação em lote; só XMLs: NF-e direto;
+  // OFX e JSON não têm aba nem cabeçalho para escolher
+  const handleFiles = async (files: File[]) => {
+    if (!files.length) return;
+    if (files.every((f) => isXmlFileName(f.name))) {
+      onImportBatch(files, "consolidate");
+    } else if (files.length === 1 && (isOfxFileName(files[0].name) || isJsonFileName(files[0].name))) {
+      onImport(files[0]);
+    } else if (files.length === 1 && !isZipFile(files[0])) {
+      await openFormatDialog(files[0]);
+    } else {
+      setBatchFiles(files);
     }
   };
 
-  const handleFormatConfirm = (selectedFormat: ImportFormat) => {
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    e.target.value = "";
+    await handleFiles(files);
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setDragOver(false);
+    if (!importProgress && !batchBusy) handleFiles(Array.from(e.dataTransfer.files));
+  };
+
+  const handleBatchConfirm = (mode: BatchMode) => {
+    onImportBatch(batchFiles, mode);
+    setBatchFiles([]);
+  };
+
+
+  const handleFormatConfirm = (options: ImportOptions) => {
     if (pendingFile) {
-      onImport(pendingFile, selectedFormat);
+      onImport(pendingFile, options);
       setPendingFile(null);
+      setPendingPreview(null);
     }
     setFormatDialogOpen(false);
   };
 
   const handleFormatCancel = () => {
     setPendingFile(null);
+    setPendingPreview(null);
     setFormatDialogOpen(false);
   };
 
+  const progressLabel = (p: ImportProgress) => {
+    if (p.stage === "reading") return "Lendo arquivo…";
+    if (p.stage === "parsing") return `Abas lidas: ${p.sheetsRead}/${p.sheetsTotal}`;
+    return `${p.rowsConverted.toLocaleString("pt-BR")} linhas convertidas`;
+  };
+
+  const progressValue = (p: ImportProgress) => {
+    if (p.stage === "reading") return 10;
+    if (p.stage === "parsing") return 10 + (70 * p.sheetsRead) / Math.max(1, p.sheetsTotal);
+    return p.stage === "done" ? 100 : 90;
+  };
+
   const clearDateRange = () => {
     setDateRange({ from: undefined, to: undefined });
   };
@@ -109,21 +243,101 @@ export function Sidebar({
       </div>
 
       {/* Import Button */}
-      <div className="p-4 border-b border-sidebar-border">
+      <div
+        className={cn("p-4 border-b border-sidebar-border transition-colors", dragOver && "bg-primary/10")}
+        onDragOver={(e) => { e.preventDefault(); setDragOver(true); }}
+        onDragLeave={() => setDragOver(false)}
+        onDrop={handleDrop}
+      >
         <input
           ref={fileInputRef}
           type="file"
-          accept=".xlsx,.xls,.csv"
+          multiple
+          accept=".xlsx,.xls,.ods,.csv,.tsv,.txt,.json,.ndjson,.jsonl,.zip,.xml,.ofx,.qfx"
           onChange={handleFileChange}
           className="hidden"
         />
-        <button
-          onClick={() => fileInputRef.current?.click()}
-          className="w-full flex items-center gap-3 px-4 py-3 rounded-xl bg-primary/20 hover:bg-primary/30 border border-primary/40 transition-all text-sm font-semibold"
-        >
-          <Upload className="w-4 h-4" />
-          Importar Excel/CSV
-        </button>
+        {importProgress ? (
+          <div className="w-full px-4 py-3 rounded-xl bg-primary/20 border border-primary/40 space-y-2">
+            <div className="flex items-center justify-between gap-2 text-xs font-semibold">
+              <span className="truncate">{progressLabel(importProgress)}</span>
+              {onCancelImport && (
+                <button
+                  onClick={onCancelImport}
+                  className="p-1 rounded hover:bg-destructive/20 shrink-0"
+                  title="Cancelar importação"
+                >
+                  <X className="w-3 h-3" />
+                </button>
+              )}
+            </div>
+            <Progress value={progressValue(importProgress)} className="h-1.5" />
+          </div>
+        ) : (
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            disabled={batchBusy}
+            className="w-full flex items-center gap-3 px-4 py-3 rounded-xl bg-primary/20 hover:bg-primary/30 border border-primary/40 transition-all text-sm font-semibold disabled:opacity-50"
+          >
+            <Upload className="w-4 h-4" />
+            Importar Excel/CSV
+          </button>
+        )}
+        {batchQueue.length > 0 && (
+          <div className="mt-2 rounded-xl border border-sidebar-border p-2 space-y-1">
+            <div className="flex items-center justify-between text-[11px] text-sidebar-muted">
+              <span>
+                {batchQueue.filter((i) => i.status === "done").length}/{batchQueue.length} arquivos lidos
+              </span>
+              {batchBusy ? (
+                onCancelImport && (
+                  <button onClick={onCancelImport} className="hover:text-destructive" title="Cancelar importação">
+                    <X className="w-3 h-3" />
+                  </button>
+                )
+              ) : (
+                onClearBatchQueue && (
+                  <button onClick={onClearBatchQueue} className="hover:text-sidebar-foreground">
+                    Limpar
+                  </button>
+                )
+              )}
+            </div>
+            <div className="max-h-40 overflow-auto space-y-1">
+              {batchQueue.map((item) => (
+                <div key={item.id} className="flex items-center gap-2 text-xs" title={item.error}>
+                  {item.status === "pending" && <Clock className="w-3 h-3 shrink-0 text-sidebar-muted" />}
+                  {item.status === "importing" && <Loader2 className="w-3 h-3 shrink-0 animate-spin" />}
+                  {item.status === "done" && <CheckCircle2 className="w-3 h-3 shrink-0 text-primary" />}
+                  {item.status === "error" && <AlertCircle className="w-3 h-3 shrink-0 text-destructive" />}
+                  <span className="truncate flex-1">{item.fileName}</span>
+                  {item.status === "done" && (
+                    <span className="text-[10px] text-sidebar-muted shrink-0">{item.rowCount?.toLocaleString("pt-BR")}</span>
+                  )}
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+        {!importProgress && !batchBusy && (
+          <button
+            onClick={() => setPasteDialogOpen(true)}
+            className="w-full mt-2 flex items-center gap-3 px-4 py-2 rounded-xl hover:bg-sidebar-accent border border-sidebar-border transition-all text-xs font-semibold"
+          >
+            <ClipboardPaste className="w-4 h-4" />
+            Colar dados
+          </button>
+        )}
+        {onManageTemplates && (
+          <button
+            onClick={onManageTemplates}
+            className="w-full mt-2 flex items-center gap-3 px-4 py-2 rounded-xl hover:bg-sidebar-accent border border-sidebar-border transition-all text-xs font-semibold"
+          >
+            <Bookmark className="w-4 h-4" />
+            Modelos de importação
+            {!!templates?.length && <span className="ml-auto text-[10px] text-sidebar-muted">{templates.length}</span>}
+          </button>
+        )}
       </div>
 
       {/* Datasets List */}
@@ -148,23 +362,180 @@ export function Sidebar({
                 )}
                 onClick={() => onSelectDataset(ds.id)}
               >
-                <div className="flex items-center gap-2 truncate">
+                <div
+                  className="flex items-center gap-2 truncate"
+                  title={ds.importSources?.map((s) => `${s.fileName}: ${s.rowCount} linhas`).join("\n")}
+                >
                   <FileSpreadsheet className="w-4 h-4 shrink-0" />
                   <span className="truncate">{ds.name}</span>
+                  {(ds.importSources?.length ?? 0) > 1 && (
+                    <span className="text-[10px] text-muted-foreground shrink-0">
+                      {ds.importSources.length} arquivos
+                    </span>
+                  )}
                 </div>
+                <div className="flex items-center shrink-0">
+                  {fileLinkSupported && ds.linkedFile && onReloadFile && (
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        onReloadFile(ds);
+                      }}
+                      disabled={reloadingId === ds.id}
+                      className="p-1 hover:bg-primary/20 rounded transition-all"
+                      title={`Recarregar ${ds.linkedFile.fileName}`}
+                    >
+                      <RefreshCw className={cn("w-3 h-3 text-primary", reloadingId === ds.id && "animate-spin")} />
+                    </button>
+                  )}
+                  {onOpenHistory && (
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        onOpenHistory(ds);
+                      }}
+                      className="opacity-0 group-hover:opacity-100 p-1 hover:bg-primary/20 rounded transition-all"
+                      title="Histórico de versões"
+                    >
+                      <History className="w-3 h-3" />
+                    </button>
+                  )}
+                  {fileLinkSupported && onLinkFile && (
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        onLinkFile(ds);
+                      }}
+                      className="opacity-0 group-hover:opacity-100 p-1 hover:bg-primary/20 rounded transition-all"
+                      title={ds.linkedFile ? `Vinculado a ${ds.linkedFile.fileName} (trocar arquivo)` : "Vincular arquivo do disco"}
+                    >
+                      <Link2 className="w-3 h-3" />
+                    </button>
+                  )}
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      onDeleteDataset(ds.id);
+                    }}
+                    className="opacity-0 group-hover:opacity-100 p-1 hover:bg-destructive/20 rounded transition-all"
+                  >
+                    <Trash2 className="w-3 h-3 text-destructive" />
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {brokenDatasets.length > 0 && (
+          <div className="mt-3 rounded-lg border border-destructive/40 bg-destructive/10 p-2 space-y-1.5">
+            <div className="flex items-center gap-1.5 text-xs font-semibold text-destructive">
+              <AlertCircle className="w-3 h-3" />
+              {brokenDatasets.length === 1 ? "1 dataset não pôde ser lido" : `${brokenDatasets.length} datasets não puderam ser lidos`}
+            </div>
+            {brokenDatasets.map((b) => (
+              <div key={b.id} className="flex items-center gap-1 text-xs">
+                <span className="truncate flex-1" title={b.problems.join("\n")}>{b.name ?? b.id}</span>
                 <button
-                  onClick={(e) => {
-                    e.stopPropagation();
-                    onDeleteDataset(ds.id);
-                  }}
-                  className="opacity-0 group-hover:opacity-100 p-1 hover:bg-destructive/20 rounded transition-all"
+                  onClick={() => downloadBrokenRecord(b)}
+                  className="p-1 hover:bg-sidebar-accent rounded"
+                  title="Baixar o registro original (JSON) para recuperar à mão"
                 >
-                  <Trash2 className="w-3 h-3 text-destructive" />
+                  <Download className="w-3 h-3" />
                 </button>
+                {onDiscardBroken && (
+                  <button
+                    onClick={() => onDiscardBroken(b.id)}
+                    className="p-1 hover:bg-destructive/20 rounded"
+                    title="Excluir definitivamente"
+                  >
+                    <Trash2 className="w-3 h-3 text-destructive" />
+                  </button>
+                )}
               </div>
             ))}
           </div>
         )}
+
+        {onOpenStorage && (
+          <button
+            onClick={onOpenStorage}
+            className="mt-3 w-full space-y-1 rounded-lg px-2 py-1.5 text-left hover:bg-sidebar-accent transition-all"
+            title="Uso do armazenamento e limpeza"
+          >
+            <div className="flex items-center justify-between gap-2 text-[11px] text-sidebar-muted">
+              <span className="flex items-center gap-1.5">
+                <HardDrive className="w-3 h-3" />
+                Armazenamento
+              </span>
+              {storageEstimate?.quota ? (
+                <span className={cn(storageEstimate.usage / storageEstimate.quota >= USAGE_WARNING_RATIO && "text-destructive font-semibold")}>
+                  {formatBytes(storageEstimate.usage)} de {formatBytes(storageEstimate.quota)}
+                </span>
+              ) : null}
+            </div>
+            {storageEstimate?.quota ? (
+              <Progress value={Math.min(100, (storageEstimate.usage / storageEstimate.quota) * 100)} className="h-1" />
+            ) : null}
+          </button>
+        )}
+
+        {onOpenCloudSync && (
+          <button
+            onClick={onOpenCloudSync}
+            className="mt-2 w-full flex items-center justify-between gap-2 rounded-lg px-2 py-1.5 text-[11px] text-sidebar-muted hover:bg-sidebar-accent transition-all"
+            title="Sincronizar os datasets com a nuvem"
+          >
+            <span className="flex items-center gap-1.5">
+              {cloudStatus === "syncing" ? (
+                <Loader2 className="w-3 h-3 animate-spin" />
+              ) : cloudStatus === "off" || cloudStatus === "offline" ? (
+                <CloudOff className="w-3 h-3" />
+              ) : (
+                <Cloud className="w-3 h-3" />
+              )}
+              Nuvem
+            </span>
+            <span className={cn(cloudStatus === "error" && "text-destructive font-semibold")}>
+              {CLOUD_STATUS_LABELS[cloudStatus]}
+              {cloudPending > 0 && ` · ${cloudPending}`}
+            </span>
+          </button>
+        )}
+
+        {(onExportBackup || onRestoreBackup) && (
+          <div className="mt-3 grid grid-cols-2 gap-2">
+            <input
+              ref={backupInputRef}
+              type="file"
+              accept=".zip"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) onRestoreBackup?.(file);
+                e.target.value = "";
+              }}
+              className="hidden"
+            />
+            <button
+              onClick={onExportBackup}
+              disabled={backupBusy || !onExportBackup || datasets.length === 0}
+              className="flex items-center justify-center gap-1.5 px-2 py-1.5 rounded-lg border border-sidebar-border hover:bg-sidebar-accent text-xs transition-all disabled:opacity-50"
+              title="Baixar todos os datasets, modelos e configurações em um .zip"
+            >
+              {backupBusy ? <Loader2 className="w-3 h-3 animate-spin" /> : <Archive className="w-3 h-3" />}
+              Backup
+            </button>
+            <button
+              onClick={() => backupInputRef.current?.click()}
+              disabled={backupBusy || !onRestoreBackup}
+              className="flex items-center justify-center gap-1.5 px-2 py-1.5 rounded-lg border border-sidebar-border hover:bg-sidebar-accent text-xs transition-all disabled:opacity-50"
+              title="Restaurar um backup .zip"
+            >
+              <ArchiveRestore className="w-3 h-3" />
+              Restaurar
+            </button>
+          </div>
+        )}
       </div>
 
       {/* Filters */}
@@ -286,9 +657,16 @@ export function Sidebar({
         open={formatDialogOpen}
         onOpenChange={setFormatDialogOpen}
         fileName={pendingFile?.name || ""}
+        preview={pendingPreview}
+        datasets={datasets}
+        templates={templates}
         onConfirm={handleFormatConfirm}
         onCancel={handleFormatCancel}
       />
+
+      <PasteDataDialog open={pasteDialogOpen} onOpenChange={setPasteDialogOpen} onPasted={openFormatDialog} />
+
+      <BatchImportDialog files={batchFiles} onConfirm={handleBatchConfirm} onCancel={() => setBatchFiles([])} />
     </aside>
   );
 }
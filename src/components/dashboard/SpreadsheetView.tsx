@@ -1,6 +1,8 @@
 import React, { useEffect, useMemo, useRef, useState, useCallback } from "react";
 import type { Dataset, GenericRow } from "@/lib/database";
-import { saveDataset } from "@/lib/database";
+import { isDatasetConflict, saveDataset } from "@/lib/database";
+import { datasetFromGrid, ensureRawGrid } from "@/lib/gridSync";
+import { columnTypeOf, formatCellValue } from "@/lib/valueFormat";
 import { cn } from "@/lib/utils";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -36,6 +38,11 @@ function cellToText(v: unknown): string {
   return "[obj]";
 }
 
+// Cópia rasa por linha (preserva Date, ao contrário de JSON.parse/stringify)
+function cloneGrid(grid: unknown[][]): unknown[][] {
+  return grid.map((row) => (Array.isArray(row) ? [...row] : row));
+}
+
 function excelCol(i: number): string {
   let n = i + 1;
   let s = "";
@@ -123,15 +130,28 @@ export function SpreadsheetView({ dataset, onDatasetUpdate }: SpreadsheetViewPro
   const [scrollTop, setScrollTop] = useState(0);
 
   // Use edited grid in edit mode, original otherwise
-  const originalGrid: unknown[][] = dataset?.rawGrid ?? [];
+  // (datasets sem rawGrid ganham uma grade montada a partir das linhas, com o layout dela)
+  const gridDataset = useMemo(() => (dataset ? ensureRawGrid(dataset) : null), [dataset]);
+  const originalGrid: unknown[][] = gridDataset?.rawGrid ?? [];
   const grid = editMode ? editedGrid : originalGrid;
 
-  // Initialize edited grid when entering edit mode
+  // Tabelas com título acima: o cabeçalho é a (última) linha detectada na importação
+  const layout = gridDataset?.gridSource?.kind === "table" ? gridDataset.gridSource.tableLayout : undefined;
+  const headerIndex = layout ? layout.headerRow + layout.headerRows - 1 : 0;
+
+  // Dataset de onde a edição partiu: a gravação usa a revisão dele, então uma
+  // mudança feita em outra aba no meio da edição dá conflito em vez de sumir
+  const [editBase, setEditBase] = useState<Dataset | null>(null);
+  const staleEdit = editMode && hasChanges && !!editBase && !!dataset && editBase.revision !== dataset.revision;
+
+  // (Re)initialize edited grid when the dataset or its grid changes outside this view
+  // (com alterações não salvas, elas ficam; o aviso de conflito aparece)
   useEffect(() => {
-    if (editMode && editedGrid.length === 0) {
-      setEditedGrid(JSON.parse(JSON.stringify(originalGrid)));
+    if (editMode && !hasChanges) {
+      setEditedGrid(cloneGrid(originalGrid));
+      setEditBase(gridDataset);
     }
-  }, [editMode, originalGrid]);
+  }, [originalGrid, editMode, hasChanges, gridDataset]);
 
   const maxCols = useMemo(() => {
     let m = 0;
@@ -142,12 +162,18 @@ export function SpreadsheetView({ dataset, onDatasetUpdate }: SpreadsheetViewPro
   }, [grid]);
 
   const headers = useMemo(() => {
-    // Use first row as headers if available
-    if (grid.length > 0 && Array.isArray(grid[0])) {
-      return grid[0].map((h, i) => cellToText(h) || excelCol(i));
+    // Use header row if available
+    if (grid.length > headerIndex && Array.isArray(grid[headerIndex])) {
+      return grid[headerIndex].map((h, i) => cellToText(h) || excelCol(i));
     }
     return Array.from({ length: maxCols }, (_, i) => excelCol(i));
-  }, [grid, maxCols]);
+  }, [grid, maxCols, headerIndex]);
+
+  // Tipo de cada coluna (pelo nome no cabeçalho) para exibir R$, %, horas; a matriz RDA não tem colunas tipadas
+  const columnTypes = useMemo(() => {
+    if (!dataset || gridDataset?.gridSource?.kind === "rda_matrix") return [];
+    return headers.map((h) => columnTypeOf(dataset.columns, h));
+  }, [dataset, gridDataset, headers]);
 
   const visibleCols = useMemo(() => {
     const cols: number[] = [];
@@ -282,16 +308,16 @@ export function SpreadsheetView({ dataset, onDatasetUpdate }: SpreadsheetViewPro
   const renameColumn = useCallback((colIndex: number, newName: string) => {
     setEditedGrid(prev => {
       const newGrid = [...prev];
-      if (newGrid[0] && Array.isArray(newGrid[0])) {
-        newGrid[0] = [...newGrid[0]];
-        newGrid[0][colIndex] = newName;
+      if (newGrid[headerIndex] && Array.isArray(newGrid[headerIndex])) {
+        newGrid[headerIndex] = [...newGrid[headerIndex]];
+        newGrid[headerIndex][colIndex] = newName;
       }
       return newGrid;
     });
     setHasChanges(true);
     setRenamingCol(null);
     setRenameValue("");
-  }, []);
+  }, [headerIndex]);
 
   // Row operations
   const addRow = useCallback((position: "top" | "bottom") => {
@@ -299,17 +325,17 @@ export function SpreadsheetView({ dataset, onDatasetUpdate }: SpreadsheetViewPro
     setEditedGrid(prev => {
       if (position === "top") {
         // Add after header row
-        return [prev[0], emptyRow, ...prev.slice(1)];
+        return [...prev.slice(0, headerIndex + 1), emptyRow, ...prev.slice(headerIndex + 1)];
       } else {
         return [...prev, emptyRow];
       }
     });
     setHasChanges(true);
     toast({ title: "Linha adicionada" });
-  }, [maxCols]);
+  }, [maxCols, headerIndex]);
 
   const deleteRow = useCallback((rowIndex: number) => {
-    if (rowIndex === 0) {
+    if (rowIndex <= headerIndex) {
       toast({ title: "Não é possível excluir o cabeçalho", variant: "destructive" });
       return;
     }
@@ -320,35 +346,37 @@ export function SpreadsheetView({ dataset, onDatasetUpdate }: SpreadsheetViewPro
     });
     setHasChanges(true);
     toast({ title: "Linha removida" });
-  }, []);
+  }, [headerIndex]);
 
   // Save changes
   const saveChanges = useCallback(async () => {
     setSaving(true);
     try {
-      // Rebuild the dataset with edited grid
-      const updatedDataset: Dataset = {
-        ...dataset,
-        rawGrid: editedGrid,
-        updatedAt: new Date().toISOString(),
-      };
+      // Rebuild rows, columns and summary from the edited grid
+      const updatedDataset: Dataset = datasetFromGrid(editBase ?? dataset, editedGrid);
       
-      await saveDataset(updatedDataset);
-      onDatasetUpdate?.(updatedDataset);
+      const saved = await saveDataset(updatedDataset, { reason: "edit", note: "Planilha" });
+      onDatasetUpdate?.(saved);
       
       setHasChanges(false);
       toast({ title: "Alterações salvas!" });
     } catch (error) {
       console.error("Error saving:", error);
-      toast({ title: "Erro ao salvar", variant: "destructive" });
+      toast(isDatasetConflict(error)
+        ? {
+            title: "Dataset alterado em outra aba",
+            description: "Descarte as alterações para carregar a versão nova e refaça a edição sobre ela.",
+            variant: "destructive",
+          }
+        : { title: "Erro ao salvar", variant: "destructive" });
     } finally {
       setSaving(false);
     }
-  }, [dataset, editedGrid, onDatasetUpdate]);
+  }, [dataset, editBase, editedGrid, onDatasetUpdate]);
 
   // Discard changes
   const discardChanges = useCallback(() => {
-    setEditedGrid(JSON.parse(JSON.stringify(originalGrid)));
+    setEditedGrid(cloneGrid(originalGrid));
     setHasChanges(false);
     toast({ title: "Alterações descartadas" });
   }, [originalGrid]);
@@ -364,7 +392,7 @@ export function SpreadsheetView({ dataset, onDatasetUpdate }: SpreadsheetViewPro
     }
     
     if (!editMode) {
-      setEditedGrid(JSON.parse(JSON.stringify(originalGrid)));
+      setEditedGrid(cloneGrid(originalGrid));
     }
     
     setEditMode(!editMode);
@@ -501,6 +529,14 @@ export function SpreadsheetView({ dataset, onDatasetUpdate }: SpreadsheetViewPro
                 Não salvo
               </span>
             )}
+            {staleEdit && (
+              <span
+                className="px-2 py-0.5 bg-red-100 text-red-700 text-xs font-semibold rounded-full"
+                title="O dataset foi gravado em outra aba depois que a edição começou; salvar daqui vai dar conflito"
+              >
+                Alterado em outra aba
+              </span>
+            )}
           </div>
           <div className="text-xs text-muted-foreground">
             {totalRows.toLocaleString("pt-BR")} linhas • {maxCols} colunas
@@ -772,7 +808,9 @@ export function SpreadsheetView({ dataset, onDatasetUpdate }: SpreadsheetViewPro
 
                       {visibleCols.map((c) => {
                         const arr = row as unknown[];
-                        const txt = cellToText(arr?.[c]);
+                        const txt = !editMode && originalIndex > headerIndex && columnTypes[c]
+                          ? formatCellValue(arr?.[c], columnTypes[c])
+                          : cellToText(arr?.[c]);
                         const chip = !isHeader ? detectChip(txt) : "";
                         const isEditing = editingCell?.r === originalIndex && editingCell?.c === c;
 
@@ -0,0 +1,175 @@
+import React, { useMemo, useState } from "react";
+import { AlertTriangle, HardDrive, Loader2, ShieldCheck, Trash2 } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { cn } from "@/lib/utils";
+import {
+  formatBytes,
+  suggestCleanups,
+  USAGE_WARNING_RATIO,
+  type CleanupSuggestion,
+  type DatasetStorageUsage,
+  type StorageEstimateInfo,
+} from "@/lib/storageQuota";
+
+interface StorageDialogProps {
+  open: boolean;
+  estimate: StorageEstimateInfo | null;
+  usage: DatasetStorageUsage[] | null;
+  measuring?: boolean;
+  onMeasure: () => void;
+  onRequestPersist: () => void;
+  onCleanup: (suggestion: CleanupSuggestion) => Promise<void>;
+  onClose: () => void;
+}
+
+const CLEANUP_ACTIONS: Record<CleanupSuggestion["kind"], string> = {
+  raw_grid: "Remover grade",
+  history: "Limpar histórico",
+  stale_dataset: "Excluir dataset",
+};
+
+export function StorageDialog({
+  open,
+  estimate,
+  usage,
+  measuring,
+  onMeasure,
+  onRequestPersist,
+  onCleanup,
+  onClose,
+}: StorageDialogProps) {
+  const [cleaning, setCleaning] = useState<string | null>(null);
+
+  const suggestions = useMemo(() => (usage ? suggestCleanups(usage) : []), [usage]);
+  const ratio = estimate?.quota ? estimate.usage / estimate.quota : 0;
+
+  const cleanup = async (suggestion: CleanupSuggestion) => {
+    setCleaning(`${suggestion.kind}-${suggestion.datasetId}`);
+    try {
+      await onCleanup(suggestion);
+    } finally {
+      setCleaning(null);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(o) => !o && onClose()}>
+      <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <HardDrive className="w-5 h-5 text-primary" />
+            Armazenamento
+          </DialogTitle>
+          <DialogDescription>
+            Os dados ficam só neste navegador. Tamanhos por dataset são estimativas.
+          </DialogDescription>
+        </DialogHeader>
+
+        {estimate ? (
+          <div className="space-y-2">
+            <div className="flex items-center justify-between text-xs">
+              <span className={cn("font-semibold", ratio >= USAGE_WARNING_RATIO && "text-destructive")}>
+                {formatBytes(estimate.usage)} de {formatBytes(estimate.quota)} ({Math.round(ratio * 100)}%)
+              </span>
+              {estimate.persisted ? (
+                <span className="flex items-center gap-1 text-emerald-600">
+                  <ShieldCheck className="w-3 h-3" /> Armazenamento persistente
+                </span>
+              ) : (
+                <Button size="sm" variant="outline" className="h-7 text-xs gap-1" onClick={onRequestPersist}>
+                  <ShieldCheck className="w-3 h-3" /> Pedir armazenamento persistente
+                </Button>
+              )}
+            </div>
+            <Progress value={Math.min(100, ratio * 100)} className="h-2" />
+            {!estimate.persisted && (
+              <p className="text-xs text-muted-foreground">
+                Sem armazenamento persistente o navegador pode apagar os dados quando faltar espaço no disco.
+              </p>
+            )}
+          </div>
+        ) : (
+          <p className="text-xs text-muted-foreground">Este navegador não informa o uso do armazenamento.</p>
+        )}
+
+        <div className="flex items-center justify-between">
+          <span className="text-xs font-semibold">Por dataset</span>
+          <Button size="sm" variant="ghost" className="h-7 text-xs" onClick={onMeasure} disabled={measuring}>
+            {measuring && <Loader2 className="w-3 h-3 mr-1 animate-spin" />}
+            Recalcular
+          </Button>
+        </div>
+        <div className="max-h-56 overflow-auto rounded-xl border border-border text-xs">
+          <table className="w-full">
+            <thead className="bg-muted/50 text-muted-foreground">
+              <tr>
+                <th className="px-3 py-1.5 text-left font-medium">Dataset</th>
+                <th className="px-2 py-1.5 text-right font-medium">Linhas</th>
+                <th className="px-2 py-1.5 text-right font-medium">Grade</th>
+                <th className="px-2 py-1.5 text-right font-medium">Histórico</th>
+                <th className="px-3 py-1.5 text-right font-medium">Total</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-border">
+              {(usage ?? []).map((u) => (
+                <tr key={u.id}>
+                  <td className="px-3 py-1.5 truncate max-w-[200px]">{u.name}</td>
+                  <td className="px-2 py-1.5 text-right tabular-nums">{formatBytes(u.rowsBytes)}</td>
+                  <td className="px-2 py-1.5 text-right tabular-nums">{formatBytes(u.rawGridBytes)}</td>
+                  <td className="px-2 py-1.5 text-right tabular-nums">
+                    {formatBytes(u.historyBytes)} ({u.snapshotCount})
+                  </td>
+                  <td className="px-3 py-1.5 text-right font-semibold tabular-nums">{formatBytes(u.totalBytes)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {!usage && measuring && <p className="px-3 py-6 text-center text-muted-foreground">Calculando…</p>}
+          {usage?.length === 0 && <p className="px-3 py-6 text-center text-muted-foreground">Nenhum dataset salvo</p>}
+        </div>
+
+        {suggestions.length > 0 && (
+          <div className="space-y-2">
+            <span className="flex items-center gap-1.5 text-xs font-semibold">
+              <AlertTriangle className="w-3 h-3 text-amber-600" />
+              Sugestões de limpeza
+            </span>
+            <div className="rounded-xl border border-border divide-y divide-border text-xs">
+              {suggestions.map((s) => {
+                const id = `${s.kind}-${s.datasetId}`;
+                return (
+                  <div key={id} className="flex items-center gap-3 px-3 py-2">
+                    <div className="flex-1 min-w-0">
+                      <div className="font-medium truncate">
+                        {s.name} · libera ~{formatBytes(s.bytes)}
+                      </div>
+                      <div className="text-muted-foreground">{s.description}</div>
+                    </div>
+                    <Button
+                      size="sm"
+                      variant={s.kind === "stale_dataset" ? "destructive" : "outline"}
+                      className="h-7 gap-1 text-xs shrink-0"
+                      disabled={!!cleaning}
+                      onClick={() => cleanup(s)}
+                    >
+                      {cleaning === id ? <Loader2 className="w-3 h-3 animate-spin" /> : <Trash2 className="w-3 h-3" />}
+                      {CLEANUP_ACTIONS[s.kind]}
+                    </Button>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
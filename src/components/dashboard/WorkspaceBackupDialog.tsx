@@ -0,0 +1,122 @@
+import React, { useEffect, useState } from "react";
+import { AlertCircle, ArchiveRestore, FileSpreadsheet, Loader2 } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+import type { RestoreMode } from "@/lib/workspaceBackup";
+import type { PendingRestore } from "@/hooks/useWorkspaceBackup";
+
+interface WorkspaceBackupDialogProps {
+  restore: PendingRestore | null;
+  restoring?: boolean;
+  onConfirm: (mode: RestoreMode) => void;
+  onCancel: () => void;
+}
+
+export function WorkspaceBackupDialog({ restore, restoring, onConfirm, onCancel }: WorkspaceBackupDialogProps) {
+  const [mode, setMode] = useState<RestoreMode>("merge");
+
+  useEffect(() => {
+    if (restore) setMode("merge");
+  }, [restore]);
+
+  const backup = restore?.backup;
+  const conflicts = restore ? restore.conflicts.datasets.length + restore.conflicts.templates.length : 0;
+  const conflicting = new Set(restore?.conflicts.datasets);
+
+  return (
+    <Dialog open={!!restore} onOpenChange={(open) => !open && !restoring && onCancel()}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <ArchiveRestore className="w-5 h-5 text-primary" />
+            Restaurar backup
+          </DialogTitle>
+          <DialogDescription>
+            {restore?.fileName}
+            {backup && ` · gerado em ${new Date(backup.manifest.createdAt).toLocaleString("pt-BR")}`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {backup && (
+          <>
+            <div className="max-h-48 overflow-auto rounded-xl border border-border divide-y divide-border">
+              {backup.datasets.map((d) => (
+                <div key={d.id} className="flex items-center gap-2 px-3 py-2 text-xs">
+                  <FileSpreadsheet className="w-4 h-4 shrink-0" />
+                  <span className="truncate flex-1">{d.name}</span>
+                  {conflicting.has(d.id) && <span className="text-amber-600 shrink-0">já existe</span>}
+                  <span className="text-muted-foreground shrink-0">{d.totalRows.toLocaleString("pt-BR")} linhas</span>
+                </div>
+              ))}
+              {backup.datasets.length === 0 && (
+                <p className="px-3 py-4 text-center text-xs text-muted-foreground">Nenhum dataset no backup</p>
+              )}
+            </div>
+            <p className="text-xs text-muted-foreground">
+              {backup.templates.length} {backup.templates.length === 1 ? "modelo de importação" : "modelos de importação"} e
+              configurações (tema, retenção do histórico). O histórico de versões não vai no backup.
+            </p>
+
+            {backup.skipped.length > 0 && (
+              <div className="flex items-start gap-2 rounded-xl border border-destructive/40 bg-destructive/10 p-2 text-xs text-destructive">
+                <AlertCircle className="w-4 h-4 shrink-0" />
+                <span>
+                  {backup.skipped.length} {backup.skipped.length === 1 ? "dataset ilegível será ignorado" : "datasets ilegíveis serão ignorados"}:{" "}
+                  {backup.skipped.map((s) => `${s.file} (${s.problems.join(", ")})`).join("; ")}
+                </span>
+              </div>
+            )}
+
+            {conflicts > 0 && (
+              <>
+                <p className="text-xs font-semibold">
+                  {conflicts} {conflicts === 1 ? "item já existe" : "itens já existem"} neste navegador:
+                </p>
+                <div className="grid grid-cols-2 gap-2">
+                  {([
+                    { value: "merge", label: "Manter os dois" },
+                    { value: "replace", label: "Substituir pelo backup" },
+                  ] as const).map((m) => (
+                    <button
+                      key={m.value}
+                      onClick={() => setMode(m.value)}
+                      className={cn(
+                        "px-3 py-2 rounded-xl border-2 text-xs font-semibold transition-all",
+                        mode === m.value ? "border-primary bg-primary/5" : "border-border hover:border-primary/50"
+                      )}
+                    >
+                      {m.label}
+                    </button>
+                  ))}
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  {mode === "merge"
+                    ? "A cópia do backup entra com \"(backup)\" no nome; nada daqui é alterado."
+                    : "A versão daqui é substituída pela do backup (a anterior continua no histórico de versões)."}
+                </p>
+              </>
+            )}
+          </>
+        )}
+
+        <DialogFooter className="gap-2 sm:gap-0">
+          <Button variant="outline" onClick={onCancel} disabled={restoring}>
+            Cancelar
+          </Button>
+          <Button onClick={() => onConfirm(mode)} disabled={!backup || restoring} className="gap-2">
+            {restoring ? <Loader2 className="w-4 h-4 animate-spin" /> : <ArchiveRestore className="w-4 h-4" />}
+            Restaurar
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
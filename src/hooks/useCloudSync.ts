@@ -0,0 +1,149 @@
+import { useState, useEffect, useCallback, useRef } from "react";
+import type { User } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+import {
+  accountQueue,
+  getCloudQueue,
+  getCloudSyncSettings,
+  onCloudQueueChange,
+  queueLocalDatasets,
+  setCloudSyncEnabled,
+  syncNow,
+  type CloudSyncSettings,
+  type SyncResult,
+} from "@/lib/cloudSync";
+
+export type CloudSyncStatus = "off" | "signed_out" | "syncing" | "offline" | "error" | "synced";
+
+export const CLOUD_STATUS_LABELS: Record<CloudSyncStatus, string> = {
+  off: "Desligada",
+  signed_out: "Entre na conta",
+  syncing: "Sincronizando…",
+  offline: "Sem conexão",
+  error: "Erro",
+  synced: "Sincronizada",
+};
+
+// Espera as gravações seguidas (edição na planilha) antes de enviar
+const QUEUE_DELAY_MS = 2000;
+// Traz o que outros aparelhos mudaram
+const PULL_INTERVAL_MS = 5 * 60 * 1000;
+
+/** Conta no Supabase, modo de sincronização e fila; `onSynced` recebe cada resultado (também os automáticos) */
+export function useCloudSync(onSynced: (result: SyncResult) => void) {
+  const [user, setUser] = useState<User | null>(null);
+  const [settings, setSettings] = useState<CloudSyncSettings>({ enabled: false });
+  const [pending, setPending] = useState(0);
+  const [localOnly, setLocalOnly] = useState(0);
+  const [syncing, setSyncing] = useState(false);
+  const [lastError, setLastError] = useState<string | null>(null);
+  const [online, setOnline] = useState(typeof navigator === "undefined" || navigator.onLine);
+  const onSyncedRef = useRef(onSynced);
+  onSyncedRef.current = onSynced;
+
+  const refreshQueue = useCallback(async () => {
+    const [nextSettings, queue] = await Promise.all([getCloudSyncSettings(), getCloudQueue()]);
+    setSettings(nextSettings);
+    setPending(accountQueue(queue, nextSettings.userId).length);
+  }, []);
+
+  useEffect(() => {
+    refreshQueue();
+    supabase.auth.getSession().then(({ data }) => setUser(data.session?.user ?? null));
+    const { data } = supabase.auth.onAuthStateChange((_event, session) => setUser(session?.user ?? null));
+    return () => data.subscription.unsubscribe();
+  }, [refreshQueue]);
+
+  const sync = useCallback(async () => {
+    setSyncing(true);
+    try {
+      const result = await syncNow(supabase);
+      setLastError(result.error ?? null);
+      setLocalOnly(result.localOnly);
+      onSyncedRef.current(result);
+      return result;
+    } catch (err) {
+      setLastError(err instanceof Error ? err.message : String(err));
+      throw err;
+    } finally {
+      setSyncing(false);
+      await refreshQueue();
+    }
+  }, [refreshQueue]);
+
+  const active = settings.enabled && !!user;
+
+  // Ligado e com sessão: envia ao entrar, quando a fila muda, quando a conexão volta e de tempos em tempos
+  useEffect(() => {
+    if (!active) return;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const schedule = (delayMs: number) => {
+      clearTimeout(timer);
+      timer = setTimeout(() => {
+        if (navigator.onLine) sync().catch((err) => console.warn("Sincronização com a nuvem falhou:", err));
+      }, delayMs);
+    };
+    const handleOnline = () => {
+      setOnline(true);
+      schedule(0);
+    };
+    const handleOffline = () => setOnline(false);
+
+    schedule(0);
+    const unsubscribe = onCloudQueueChange(() => {
+      refreshQueue();
+      schedule(QUEUE_DELAY_MS);
+    });
+    const interval = setInterval(() => schedule(0), PULL_INTERVAL_MS);
+    window.addEventListener("online", handleOnline);
+    window.addEventListener("offline", handleOffline);
+    return () => {
+      clearTimeout(timer);
+      clearInterval(interval);
+      unsubscribe();
+      window.removeEventListener("online", handleOnline);
+      window.removeEventListener("offline", handleOffline);
+    };
+  }, [active, sync, refreshQueue]);
+
+  const setEnabled = useCallback(async (enabled: boolean) => {
+    await setCloudSyncEnabled(enabled);
+    await refreshQueue();
+  }, [refreshQueue]);
+
+  /** Os datasets que só existem neste navegador vão para a conta (o usuário pediu) */
+  const uploadLocal = useCallback(async () => {
+    await queueLocalDatasets();
+    return sync();
+  }, [sync]);
+
+  const signIn = useCallback(async (email: string, password: string) => {
+    const { error } = await supabase.auth.signInWithPassword({ email, password });
+    if (error) throw error;
+  }, []);
+
+  /** false quando a conta ainda precisa ser confirmada pelo e-mail */
+  const signUp = useCallback(async (email: string, password: string) => {
+    const { data, error } = await supabase.auth.signUp({
+      email,
+      password,
+      options: { emailRedirectTo: window.location.origin },
+    });
+    if (error) throw error;
+    return !!data.session;
+  }, []);
+
+  const signOut = useCallback(async () => {
+    const { error } = await supabase.auth.signOut();
+    if (error) throw error;
+  }, []);
+
+  let status: CloudSyncStatus = "synced";
+  if (!settings.enabled) status = "off";
+  else if (!user) status = "signed_out";
+  else if (syncing) status = "syncing";
+  else if (!online) status = "offline";
+  else if (lastError) status = "error";
+
+  return { user, settings, status, pending, localOnly, lastError, setEnabled, sync, uploadLocal, signIn, signUp, signOut };
+}
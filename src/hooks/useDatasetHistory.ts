@@ -0,0 +1,70 @@
+import { useState, useEffect, useCallback } from "react";
+import type { Dataset } from "@/lib/database";
+import { getDataset, saveDataset } from "@/lib/database";
+import {
+  DEFAULT_RETENTION,
+  getHistory,
+  getHistoryRetention,
+  getSnapshot,
+  restoreSnapshot,
+  setHistoryRetention,
+  type SnapshotMeta,
+} from "@/lib/datasetHistory";
+import { diffDatasets, type DatasetDiff } from "@/lib/datasetDiff";
+
+/** Versões gravadas de um dataset: lista, comparação e restauração (pelo id) */
+export function useDatasetHistory(datasetId: string | null, updateDataset: (dataset: Dataset) => void) {
+  const [versions, setVersions] = useState<SnapshotMeta[]>([]);
+  const [retention, setRetention] = useState(DEFAULT_RETENTION);
+  const [loading, setLoading] = useState(false);
+
+  const refresh = useCallback(async () => {
+    if (!datasetId) {
+      setVersions([]);
+      return;
+    }
+    setLoading(true);
+    try {
+      const [list, limit] = await Promise.all([getHistory(datasetId), getHistoryRetention()]);
+      setVersions(list);
+      setRetention(limit);
+    } finally {
+      setLoading(false);
+    }
+  }, [datasetId]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const loadSnapshot = useCallback(async (snapshotId: string) => {
+    const snapshot = datasetId ? await getSnapshot(datasetId, snapshotId) : undefined;
+    if (!snapshot) throw new Error("Versão não encontrada");
+    return snapshot;
+  }, [datasetId]);
+
+  /** Diferenças de `fromId` para `toId` (linhas e células) */
+  const compare = useCallback(async (fromId: string, toId: string): Promise<DatasetDiff> => {
+    const [from, to] = await Promise.all([loadSnapshot(fromId), loadSnapshot(toId)]);
+    return diffDatasets(from, to, { byPosition: true });
+  }, [loadSnapshot]);
+
+  /** Grava a versão como o estado atual (e vira a versão mais nova) */
+  const restore = useCallback(async (snapshotId: string) => {
+    const version = versions.find((v) => v.id === snapshotId);
+    const snapshot = await loadSnapshot(snapshotId);
+    const restored = restoreSnapshot(datasetId ? await getDataset(datasetId) : undefined, snapshot);
+    const when = version ? new Date(version.createdAt).toLocaleString("pt-BR") : undefined;
+    const saved = await saveDataset(restored, { reason: "restore", note: when && `Versão de ${when}` });
+    updateDataset(saved);
+    await refresh();
+    return saved;
+  }, [datasetId, loadSnapshot, refresh, updateDataset, versions]);
+
+  const changeRetention = useCallback(async (limit: number) => {
+    await setHistoryRetention(limit);
+    await refresh();
+  }, [refresh]);
+
+  return { versions, retention, loading, compare, restore, changeRetention, refresh };
+}
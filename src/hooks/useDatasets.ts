@@ -1,107 +1,308 @@
-import { useState, useEffect, useCallback } from "react";
-import type { Dataset } from "@/lib/database";
+import { useState, useEffect, useCallback, useRef } from "react";
+import type { BrokenDataset, Dataset, DatasetMeta } from "@/lib/database";
 import {
-  getAllDatasets,
+  datasetMeta,
+  getDatasetIndex,
   getDataset,
   saveDataset,
   deleteDataset,
+  getBrokenDatasets,
+  deleteBrokenDataset,
   getCurrentDatasetId,
   setCurrentDatasetId,
 } from "@/lib/database";
-import { parseExcelFile, type ImportFormat } from "@/lib/excelParser";
+import type { ImportOptions, ImportProgress } from "@/lib/excelParser";
+import { parseFileInWorker, isImportCancelled } from "@/lib/importClient";
+import { appendDataset, tagImportSource, type AppendOptions } from "@/lib/datasetAppend";
+import {
+  consolidateDatasets,
+  createBatchItems,
+  expandZipFiles,
+  type BatchItem,
+  type BatchMode,
+} from "@/lib/batchImport";
+import { isXmlFileName, nfeDataset, parseNfeXml } from "@/lib/nfeImport";
+import { deleteFileHandle } from "@/lib/fileLink";
+import { createDatasetCache } from "@/lib/datasetCache";
+import { storageErrorMessage } from "@/lib/storageQuota";
+import { subscribeDatasetChanges, type DatasetChange } from "@/lib/tabSync";
 import { classifyDatasetHybrid } from "./useHybridClassification";
 
+export interface PendingAppend {
+  target: Dataset;
+  options: AppendOptions;
+  fileName: string;
+}
+
 export function useDatasets() {
-  const [datasets, setDatasets] = useState<Dataset[]>([]);
+  // Índice (sem linhas); só o dataset ativo e os do cache ficam inteiros em memória
+  const [datasets, setDatasets] = useState<DatasetMeta[]>([]);
   const [currentDataset, setCurrentDataset] = useState<Dataset | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [importProgress, setImportProgress] = useState<ImportProgress | null>(null);
+  // Datasets lidos aguardando a revisão de colunas (ainda não salvos)
+  const [pendingImport, setPendingImport] = useState<Dataset[]>([]);
+  const [pendingAppend, setPendingAppend] = useState<PendingAppend | null>(null);
+  const importAbortRef = useRef<AbortController | null>(null);
+  // Fila da importação em lote (um status por arquivo)
+  const [batchQueue, setBatchQueue] = useState<BatchItem[]>([]);
+  // Registros gravados que não puderam ser lidos nem reparados (quarentena)
+  const [brokenDatasets, setBrokenDatasets] = useState<BrokenDataset[]>([]);
+  const cacheRef = useRef(createDatasetCache());
+
+  /** Dataset inteiro: do cache ou dos blocos gravados (vira o ativo do cache) */
+  const openDataset = useCallback(async (id: string) => {
+    const dataset = cacheRef.current.get(id) ?? (await getDataset(id));
+    if (dataset) cacheRef.current.put(dataset);
+    return dataset;
+  }, []);
 
   const updateDataset = useCallback((updatedDataset: Dataset) => {
-    setCurrentDataset(updatedDataset);
+    setCurrentDataset((prev) => (prev && prev.id !== updatedDataset.id ? prev : updatedDataset));
     setDatasets((prev) => 
-      prev.map((d) => (d.id === updatedDataset.id ? updatedDataset : d))
+      prev.map((d) => (d.id === updatedDataset.id ? datasetMeta(updatedDataset) : d))
     );
+    cacheRef.current.replace(updatedDataset);
   }, []);
 
   const loadDatasets = useCallback(async () => {
     try {
       setLoading(true);
-      const all = await getAllDatasets();
-      setDatasets(all);
+      // Recarga lê tudo do IndexedDB de novo
+      cacheRef.current.clear();
+      const index = await getDatasetIndex();
+      setDatasets(index);
+      setBrokenDatasets(await getBrokenDatasets());
 
+      // Só o ativo é lido inteiro; os outros quando forem selecionados
       const currentId = await getCurrentDatasetId();
-      if (currentId) {
-        const current = await getDataset(currentId);
-        if (current) {
-          setCurrentDataset(current);
-        } else if (all.length > 0) {
-          setCurrentDataset(all[0]);
-          await setCurrentDatasetId(all[0].id);
-        }
-      } else if (all.length > 0) {
-        setCurrentDataset(all[0]);
-        await setCurrentDatasetId(all[0].id);
-      }
+      const current = (currentId && (await openDataset(currentId))) || (index[0] && (await openDataset(index[0].id)));
+      setCurrentDataset(current || null);
+      if (current && current.id !== currentId) await setCurrentDatasetId(current.id);
     } catch (err) {
       setError("Erro ao carregar dados");
       console.error(err);
     } finally {
       setLoading(false);
     }
-  }, []);
+  }, [openDataset]);
 
   useEffect(() => {
     loadDatasets();
   }, [loadDatasets]);
 
-  const importFile = useCallback(async (file: File, format: ImportFormat = "auto") => {
+  // Outra aba (ou a nuvem) gravou ou excluiu: relê o índice e, se for o atual, o dataset
+  const currentIdRef = useRef<string | null>(null);
+  currentIdRef.current = currentDataset?.id ?? null;
+
+  const applyExternalChanges = useCallback(async (changes: DatasetChange[]) => {
+    try {
+      for (const change of changes) cacheRef.current.remove(change.id);
+      const index = await getDatasetIndex();
+      setDatasets(index);
+
+      const currentId = currentIdRef.current;
+      if (!currentId || !changes.some((c) => c.id === currentId)) return;
+      const fresh = (await openDataset(currentId)) ?? (index[0] ? await openDataset(index[0].id) : undefined);
+      setCurrentDataset(fresh ?? null);
+    } catch (err) {
+      console.warn("Erro ao aplicar mudança de outra aba:", err);
+    }
+  }, [openDataset]);
+
+  useEffect(() => subscribeDatasetChanges(applyExternalChanges), [applyExternalChanges]);
+
+  const importFile = useCallback(async (file: File, options: ImportOptions = {}) => {
+    // Uma importação por vez: a nova cancela a anterior
+    importAbortRef.current?.abort();
+    const controller = new AbortController();
+    importAbortRef.current = controller;
+
     try {
       setLoading(true);
       setError(null);
-      const dataset = await parseExcelFile(file, format);
-      await saveDataset(dataset);
-      await setCurrentDatasetId(dataset.id);
-      setCurrentDataset(dataset);
-      setDatasets((prev) => [dataset, ...prev]);
-
-      // Run hybrid classification in background (local + AI if needed)
-      classifyDatasetHybrid(dataset, updateDataset).catch((err) =>
-        console.warn("Hybrid classification error:", err)
-      );
+      setImportProgress({ stage: "reading", sheetsRead: 0, sheetsTotal: 0, rowsConverted: 0 });
 
-      return dataset;
+      const imported = await parseFileInWorker(file, options, {
+        onProgress: setImportProgress,
+        signal: controller.signal,
+      });
+      const target = options.append ? await getDataset(options.append.datasetId) : undefined;
+      if (options.append && !target) throw new Error("Dataset de destino não encontrado");
+      setPendingAppend(target ? { target, options: options.append, fileName: file.name } : null);
+      setPendingImport(imported.map((d) => tagImportSource(d, file.name)));
+      return imported;
     } catch (err) {
-      setError("Erro ao importar arquivo");
+      if (isImportCancelled(err)) return [];
+      setError(storageErrorMessage(err, "Erro ao importar arquivo"));
       console.error(err);
       throw err;
     } finally {
-      setLoading(false);
+      if (importAbortRef.current === controller || (controller.signal.aborted && !importAbortRef.current)) {
+        importAbortRef.current = null;
+        setLoading(false);
+        setImportProgress(null);
+      }
+    }
+  }, []);
+
+  /**
+   * Vários arquivos/ZIPs: lê um por vez no worker (a primeira aba de cada) e
+   * manda tudo para a revisão, um dataset por arquivo ou consolidado.
+   * XMLs de NF-e viram sempre um dataset fiscal só (um item por linha).
+   */
+  const importBatch = useCallback(async (files: File[], mode: BatchMode) => {
+    importAbortRef.current?.abort();
+    const controller = new AbortController();
+    importAbortRef.current = controller;
+
+    try {
+      setLoading(true);
+      setError(null);
+      const expanded = await expandZipFiles(files);
+      const items = createBatchItems(expanded);
+      setBatchQueue(items);
+      const setStatus = (id: string, patch: Partial<BatchItem>) =>
+        setBatchQueue((prev) => prev.map((item) => (item.id === id ? { ...item, ...patch } : item)));
+
+      const parts: { fileName: string; dataset: Dataset }[] = [];
+      const notes: (ReturnType<typeof parseNfeXml> & { fileName: string })[] = [];
+      for (let i = 0; i < expanded.length; i++) {
+        if (controller.signal.aborted) break;
+        const file = expanded[i];
+        setStatus(items[i].id, { status: "importing" });
+        try {
+          if (isXmlFileName(file.name)) {
+            const nfe = parseNfeXml(await file.text(), file.name);
+            notes.push({ ...nfe, fileName: file.name });
+            setStatus(items[i].id, nfe.rows.length
+              ? { status: "done", rowCount: nfe.rows.length }
+              : { status: "error", error: nfe.diagnostics[0]?.message });
+            continue;
+          }
+          const [dataset] = await parseFileInWorker(file, {}, { signal: controller.signal });
+          parts.push({ fileName: file.name, dataset });
+          setStatus(items[i].id, { status: "done", rowCount: dataset.totalRows });
+        } catch (err) {
+          if (isImportCancelled(err)) break;
+          console.error(err);
+          setStatus(items[i].id, { status: "error", error: err instanceof Error ? err.message : "Erro ao ler o arquivo" });
+        }
+      }
+
+      if (controller.signal.aborted) {
+        setBatchQueue((prev) => prev.map((item) =>
+          item.status === "pending" || item.status === "importing" ? { ...item, status: "error", error: "Cancelado" } : item
+        ));
+        return;
+      }
+      const pending: Dataset[] = [];
+      if (parts.length && mode === "consolidate") {
+        const name = parts.length === 1 ? parts[0].dataset.name : `Consolidado (${parts.length} arquivos)`;
+        pending.push(consolidateDatasets(parts, name));
+      } else {
+        pending.push(...parts.map(({ fileName, dataset }) => tagImportSource(dataset, fileName)));
+      }
+      const readNotes = notes.filter((n) => n.rows.length);
+      if (readNotes.length) {
+        const name = readNotes.length === 1
+          ? `NF-e ${readNotes[0].fileName.replace(/\.xml$/i, "")}`
+          : `NF-e (${readNotes.length} notas)`;
+        pending.push(nfeDataset(notes, name));
+      }
+
+      if (!pending.length) return;
+      setPendingAppend(null);
+      setPendingImport(pending);
+    } catch (err) {
+      setError(storageErrorMessage(err, "Erro ao importar arquivos"));
+      console.error(err);
+    } finally {
+      if (importAbortRef.current === controller || (controller.signal.aborted && !importAbortRef.current)) {
+        importAbortRef.current = null;
+        setLoading(false);
+      }
+    }
+  }, []);
+
+  const clearBatchQueue = useCallback(() => setBatchQueue([]), []);
+
+  /** Salva os datasets revisados e classifica em background */
+  const confirmImport = useCallback(async (reviewed: Dataset[]) => {
+    setPendingImport([]);
+    setPendingAppend(null);
+    if (!reviewed.length) return;
+
+    if (pendingAppend) {
+      let merged = pendingAppend.target;
+      for (const dataset of reviewed) {
+        const fileName = reviewed.length > 1 ? dataset.name : pendingAppend.fileName;
+        merged = appendDataset(merged, dataset, pendingAppend.options, fileName).dataset;
+      }
+      merged = await saveDataset(merged, { reason: "append" });
+      await setCurrentDatasetId(merged.id);
+      cacheRef.current.put(merged);
+      setCurrentDataset(merged);
+      setDatasets((prev) => [datasetMeta(merged), ...prev.filter((d) => d.id !== merged.id)]);
+      return;
+    }
+
+    const saved: Dataset[] = [];
+    for (const dataset of reviewed) {
+      saved.push(await saveDataset(dataset, { reason: "import" }));
+    }
+    const [first] = saved;
+    await setCurrentDatasetId(first.id);
+    cacheRef.current.put(first);
+    setCurrentDataset(first);
+    setDatasets((prev) => [...saved.map(datasetMeta), ...prev]);
+
+    // Run hybrid classification in background (local + AI if needed)
+    for (const dataset of saved) {
+      // Modelo de importação ou importador específico (NF-e) já trouxe a classificação
+      if (dataset.serviceProfile) continue;
+      classifyDatasetHybrid(dataset, updateDataset).catch((err) =>
+        console.warn("Hybrid classification error:", err)
+      );
     }
-  }, [updateDataset]);
+  }, [pendingAppend, updateDataset]);
+
+  const discardImport = useCallback(() => {
+    setPendingImport([]);
+    setPendingAppend(null);
+  }, []);
+
+  const cancelImport = useCallback(() => {
+    importAbortRef.current?.abort();
+    importAbortRef.current = null;
+  }, []);
 
   const selectDataset = useCallback(async (id: string) => {
-    const dataset = await getDataset(id);
+    const dataset = await openDataset(id);
     if (dataset) {
       setCurrentDataset(dataset);
       await setCurrentDatasetId(id);
     }
-  }, []);
+  }, [openDataset]);
 
   const removeDataset = useCallback(async (id: string) => {
     await deleteDataset(id);
+    await deleteFileHandle(id);
+    cacheRef.current.remove(id);
     setDatasets((prev) => prev.filter((d) => d.id !== id));
     if (currentDataset?.id === id) {
-      const remaining = datasets.filter((d) => d.id !== id);
-      if (remaining.length > 0) {
-        setCurrentDataset(remaining[0]);
-        await setCurrentDatasetId(remaining[0].id);
-      } else {
-        setCurrentDataset(null);
-      }
+      const next = datasets.find((d) => d.id !== id);
+      const dataset = next ? await openDataset(next.id) : undefined;
+      setCurrentDataset(dataset ?? null);
+      if (dataset) await setCurrentDatasetId(dataset.id);
     }
-  }, [currentDataset, datasets]);
+  }, [currentDataset, datasets, openDataset]);
 
+  const discardBrokenDataset = useCallback(async (id: string) => {
+    await deleteBrokenDataset(id);
+    setBrokenDatasets((prev) => prev.filter((b) => b.id !== id));
+  }, []);
 
   return {
     datasets,
@@ -109,9 +310,21 @@ export function useDatasets() {
     loading,
     error,
     importFile,
+    importProgress,
+    importBatch,
+    batchQueue,
+    clearBatchQueue,
+    cancelImport,
+    pendingImport,
+    pendingAppend,
+    confirmImport,
+    discardImport,
     selectDataset,
     removeDataset,
+    brokenDatasets,
+    discardBrokenDataset,
     updateDataset,
+    applyExternalChanges,
     refresh: loadDatasets,
   };
 }
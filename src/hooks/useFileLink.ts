@@ -0,0 +1,85 @@
+import { useState, useCallback } from "react";
+import type { Dataset } from "@/lib/database";
+import { getDataset, saveDataset } from "@/lib/database";
+import { parseFileInWorker } from "@/lib/importClient";
+import {
+  applyStoredReview,
+  getFileHandle,
+  isFileLinkSupported,
+  pickLinkedFile,
+  readLinkedFile,
+  reloadOptions,
+  saveFileHandle,
+} from "@/lib/fileLink";
+import { applyReload, diffDatasets, type DatasetDiff } from "@/lib/datasetDiff";
+
+export interface PendingReload {
+  target: Dataset;
+  /** Nova leitura, já com a revisão de colunas reaplicada */
+  next: Dataset;
+  diff: DatasetDiff;
+  fileName: string;
+}
+
+async function loadDataset(id: string): Promise<Dataset> {
+  const dataset = await getDataset(id);
+  if (!dataset) throw new Error("Dataset não encontrado");
+  return dataset;
+}
+
+/** Vínculo dataset ↔ arquivo local e "Recarregar" com diff antes de aplicar (pelo id: a lista só tem o índice) */
+export function useFileLink(updateDataset: (dataset: Dataset) => void) {
+  const [pendingReload, setPendingReload] = useState<PendingReload | null>(null);
+  const [reloadingId, setReloadingId] = useState<string | null>(null);
+
+  /** Escolhe o arquivo no disco; false se o usuário cancelou */
+  const linkFile = useCallback(async (id: string) => {
+    const handle = await pickLinkedFile();
+    if (!handle) return false;
+    await saveFileHandle(id, handle);
+    const linked: Dataset = {
+      ...(await loadDataset(id)),
+      linkedFile: { fileName: handle.name, linkedAt: new Date().toISOString() },
+    };
+    // Só o vínculo muda: não vira versão no histórico
+    updateDataset(await saveDataset(linked, null));
+    return true;
+  }, [updateDataset]);
+
+  /** Relê o arquivo e deixa o diff para confirmação (nada é gravado aqui) */
+  const reloadFile = useCallback(async (id: string) => {
+    setReloadingId(id);
+    try {
+      const dataset = await loadDataset(id);
+      const handle = await getFileHandle(id);
+      if (!handle) throw new Error("Vínculo com o arquivo não encontrado; vincule o arquivo de novo");
+      const file = await readLinkedFile(handle);
+      const [reread] = await parseFileInWorker(file, reloadOptions(dataset));
+      const next = applyStoredReview(dataset, reread);
+      setPendingReload({ target: dataset, next, diff: diffDatasets(dataset, next), fileName: file.name });
+    } finally {
+      setReloadingId(null);
+    }
+  }, []);
+
+  /** Aplica sobre o que está gravado agora: outra aba, a nuvem ou a classificação podem ter salvo no meio */
+  const confirmReload = useCallback(async () => {
+    if (!pendingReload) return;
+    setPendingReload(null);
+    const latest = await loadDataset(pendingReload.target.id);
+    const updated = applyReload(latest, pendingReload.next, pendingReload.fileName);
+    updateDataset(await saveDataset(updated, { reason: "reload", note: pendingReload.fileName }));
+  }, [pendingReload, updateDataset]);
+
+  const discardReload = useCallback(() => setPendingReload(null), []);
+
+  return {
+    supported: isFileLinkSupported(),
+    linkFile,
+    reloadFile,
+    reloadingId,
+    pendingReload,
+    confirmReload,
+    discardReload,
+  };
+}
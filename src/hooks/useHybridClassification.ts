@@ -6,7 +6,7 @@
 import { useCallback } from "react";
 import { supabase } from "@/integrations/supabase/client";
 import type { Dataset } from "@/lib/database";
-import { saveDataset } from "@/lib/database";
+import { updateStoredDataset } from "@/lib/database";
 import {
   detectServiceProfile,
   buildClassificationPrompt,
@@ -34,13 +34,13 @@ export async function classifyDatasetHybrid(
     rows: dataset.rows,
   });
 
-  // Save local profile immediately
-  const withLocal = {
-    ...dataset,
-    serviceProfile: localProfile,
-    updatedAt: new Date().toISOString(),
-  };
-  await saveDataset(withLocal);
+  // Save local profile immediately (sobre o gravado: a tela pode ter mudado o dataset enquanto isso)
+  const withLocal = await updateStoredDataset(
+    dataset.id,
+    (latest) => ({ ...latest, serviceProfile: localProfile, updatedAt: new Date().toISOString() }),
+    { reason: "classification", note: "Perfil local" }
+  );
+  if (!withLocal) return localProfile;
   onUpdate?.(withLocal);
 
   // 2) If confidence is high enough, we're done
@@ -113,13 +113,12 @@ export async function classifyDatasetHybrid(
     };
 
     // Save AI-refined profile
-    const withAI = {
-      ...dataset,
-      serviceProfile: aiProfile,
-      updatedAt: new Date().toISOString(),
-    };
-    await saveDataset(withAI);
-    onUpdate?.(withAI);
+    const withAI = await updateStoredDataset(
+      dataset.id,
+      (latest) => ({ ...latest, serviceProfile: aiProfile, updatedAt: new Date().toISOString() }),
+      { reason: "classification", note: "Perfil refinado pela IA" }
+    );
+    if (withAI) onUpdate?.(withAI);
 
     return aiProfile;
   } catch (err) {
@@ -0,0 +1,57 @@
+import { useState, useEffect, useCallback } from "react";
+import type { Dataset } from "@/lib/database";
+import {
+  deleteImportTemplate,
+  findTemplateBySignature,
+  getAllImportTemplates,
+  markTemplateUsed,
+  saveImportTemplate,
+  sortTemplates,
+  templateFromDataset,
+  type ImportTemplate,
+} from "@/lib/importTemplates";
+
+/** Modelos de importação salvos (IndexedDB), do uso mais recente para o mais antigo */
+export function useImportTemplates() {
+  const [templates, setTemplates] = useState<ImportTemplate[]>([]);
+
+  const reload = useCallback(async () => {
+    try {
+      setTemplates(await getAllImportTemplates());
+    } catch (err) {
+      console.warn("Erro ao carregar modelos de importação:", err);
+    }
+  }, []);
+
+  useEffect(() => {
+    reload();
+  }, [reload]);
+
+  const store = useCallback(async (template: ImportTemplate) => {
+    await saveImportTemplate(template);
+    setTemplates((prev) => sortTemplates([template, ...prev.filter((t) => t.id !== template.id)]));
+    return template;
+  }, []);
+
+  /** Salva o dataset como modelo (o de mesma assinatura é atualizado) */
+  const saveFromDataset = useCallback(async (dataset: Dataset, name: string) => {
+    const existing = findTemplateBySignature(templates, dataset.importLayout?.signature);
+    const template = templateFromDataset(dataset, name, existing);
+    return template ? store(template) : null;
+  }, [templates, store]);
+
+  const removeTemplate = useCallback(async (id: string) => {
+    await deleteImportTemplate(id);
+    setTemplates((prev) => prev.filter((t) => t.id !== id));
+  }, []);
+
+  /** Conta o uso dos modelos aplicados nos datasets importados */
+  const markUsed = useCallback(async (datasets: Dataset[]) => {
+    const ids = new Set(datasets.map((d) => d.importLayout?.templateId).filter(Boolean));
+    for (const template of templates) {
+      if (ids.has(template.id)) await store(markTemplateUsed(template));
+    }
+  }, [templates, store]);
+
+  return { templates, saveFromDataset, removeTemplate, markUsed, reload };
+}
@@ -0,0 +1,71 @@
+import { useState, useEffect, useCallback } from "react";
+import type { Dataset, DatasetMeta } from "@/lib/database";
+import { getDataset, saveDataset } from "@/lib/database";
+import { withoutRawGrid } from "@/lib/gridSync";
+import { trimHistory } from "@/lib/datasetHistory";
+import {
+  checkImportQuota,
+  getStorageEstimate,
+  measureDatasetUsage,
+  requestPersistentStorage,
+  type DatasetStorageUsage,
+  type StorageEstimateInfo,
+} from "@/lib/storageQuota";
+
+/** Uso do armazenamento do navegador, peso por dataset (sob demanda) e limpezas */
+export function useStorageQuota(datasets: DatasetMeta[], updateDataset: (dataset: Dataset) => void) {
+  const [estimate, setEstimate] = useState<StorageEstimateInfo | null>(null);
+  const [usage, setUsage] = useState<DatasetStorageUsage[] | null>(null);
+  const [measuring, setMeasuring] = useState(false);
+
+  const refreshEstimate = useCallback(async () => {
+    const next = await getStorageEstimate().catch(() => null);
+    setEstimate(next);
+    return next;
+  }, []);
+
+  // O total muda a cada importação/exclusão
+  useEffect(() => {
+    refreshEstimate();
+    const ids = new Set(datasets.map((d) => d.id));
+    setUsage((prev) => prev && prev.filter((u) => ids.has(u.id)));
+  }, [datasets, refreshEstimate]);
+
+  /** Lê o que está gravado de cada dataset (pode demorar com muitos dados) */
+  const measure = useCallback(async () => {
+    setMeasuring(true);
+    try {
+      const measured: DatasetStorageUsage[] = [];
+      for (const meta of datasets) measured.push(await measureDatasetUsage(meta));
+      setUsage(measured.sort((a, b) => b.totalBytes - a.totalBytes));
+      await refreshEstimate();
+    } finally {
+      setMeasuring(false);
+    }
+  }, [datasets, refreshEstimate]);
+
+  const requestPersist = useCallback(async () => {
+    const granted = await requestPersistentStorage();
+    await refreshEstimate();
+    return granted;
+  }, [refreshEstimate]);
+
+  /** Tira a cópia da grade original (a Planilha passa a ser montada pelas linhas) */
+  const dropRawGrid = useCallback(async (id: string) => {
+    const dataset = await getDataset(id);
+    if (!dataset) throw new Error("Dataset não encontrado");
+    updateDataset(await saveDataset(withoutRawGrid(dataset), null));
+    await measure();
+  }, [measure, updateDataset]);
+
+  /** Deixa só a versão mais recente no histórico */
+  const clearHistory = useCallback(async (id: string) => {
+    await trimHistory(id, 1);
+    await measure();
+  }, [measure]);
+
+  /** null quando o navegador não informa a cota */
+  const checkImport = useCallback(async (files: File[]) => checkImportQuota(files, await refreshEstimate()), [refreshEstimate]);
+
+  return { estimate, usage, measuring, measure, refreshEstimate, requestPersist, dropRawGrid, clearHistory, checkImport };
+}
@@ -0,0 +1,72 @@
+import { useState, useCallback } from "react";
+import { getDatasetIndex } from "@/lib/database";
+import { getAllImportTemplates } from "@/lib/importTemplates";
+import {
+  backupFileName,
+  exportWorkspace,
+  planRestore,
+  readWorkspaceBackup,
+  restoreWorkspace,
+  type BackupSettings,
+  type RestoreMode,
+  type RestorePlan,
+  type WorkspaceBackup,
+} from "@/lib/workspaceBackup";
+
+export interface PendingRestore {
+  fileName: string;
+  backup: WorkspaceBackup;
+  conflicts: RestorePlan["conflicts"];
+}
+
+/** Backup do workspace em .zip e restauração com escolha do que fazer nos conflitos */
+export function useWorkspaceBackup(onRestored: () => Promise<void> | void) {
+  const [exporting, setExporting] = useState(false);
+  const [restoring, setRestoring] = useState(false);
+  const [pendingRestore, setPendingRestore] = useState<PendingRestore | null>(null);
+
+  const exportBackup = useCallback(async (uiSettings: Pick<BackupSettings, "themePreset"> = {}) => {
+    setExporting(true);
+    try {
+      const blob = await exportWorkspace(uiSettings);
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = backupFileName();
+      a.click();
+      URL.revokeObjectURL(url);
+      return blob;
+    } finally {
+      setExporting(false);
+    }
+  }, []);
+
+  /** Lê o .zip e deixa o resumo (com os conflitos) para confirmação; nada é gravado aqui */
+  const readBackup = useCallback(async (file: File) => {
+    const backup = await readWorkspaceBackup(file);
+    const [index, templates] = await Promise.all([getDatasetIndex(), getAllImportTemplates()]);
+    const { conflicts } = planRestore(
+      backup,
+      { datasetIds: index.map((m) => m.id), templateIds: templates.map((t) => t.id) },
+      "replace"
+    );
+    setPendingRestore({ fileName: file.name, backup, conflicts });
+  }, []);
+
+  const confirmRestore = useCallback(async (mode: RestoreMode) => {
+    if (!pendingRestore) return null;
+    setRestoring(true);
+    try {
+      const plan = await restoreWorkspace(pendingRestore.backup, mode);
+      setPendingRestore(null);
+      await onRestored();
+      return { plan, settings: pendingRestore.backup.settings };
+    } finally {
+      setRestoring(false);
+    }
+  }, [pendingRestore, onRestored]);
+
+  const discardRestore = useCallback(() => setPendingRestore(null), []);
+
+  return { exporting, exportBackup, restoring, pendingRestore, readBackup, confirmRestore, discardRestore };
+}
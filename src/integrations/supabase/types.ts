@@ -14,13 +14,86 @@ export type Database = {
   }
   public: {
     Tables: {
-      [_ in never]: never
+      dataset_chunks: {
+        Row: {
+          chunk_index: number
+          created_at: string
+          dataset_id: string
+          rows: Json
+          upload_id: string
+          user_id: string
+        }
+        Insert: {
+          chunk_index: number
+          created_at?: string
+          dataset_id: string
+          rows: Json
+          upload_id: string
+          user_id?: string
+        }
+        Update: {
+          chunk_index?: number
+          created_at?: string
+          dataset_id?: string
+          rows?: Json
+          upload_id?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      datasets: {
+        Row: {
+          id: string
+          name: string
+          record: Json
+          revision: number
+          row_chunks: number
+          updated_at: string
+          upload_id: string
+          user_id: string
+        }
+        Insert: {
+          id: string
+          name: string
+          record: Json
+          revision?: number
+          row_chunks?: number
+          updated_at?: string
+          upload_id: string
+          user_id?: string
+        }
+        Update: {
+          id?: string
+          name?: string
+          record?: Json
+          revision?: number
+          row_chunks?: number
+          updated_at?: string
+          upload_id?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      commit_dataset: {
+        Args: {
+          p_base_revision: number
+          p_id: string
+          p_name: string
+          p_record: Json
+          p_row_chunks: number
+          p_upload_id: string
+        }
+        Returns: number
+      }
+      delete_dataset: {
+        Args: { p_base_revision: number; p_id: string }
+        Returns: undefined
+      }
     }
     Enums: {
       [_ in never]: never
@@ -0,0 +1,304 @@
+/**
+ * Bank statement import
+ * Extrato OFX (1.x SGML ou 2.x XML) ou CSV exportado pelo banco vira um
+ * dataset com data, descrição, valor (com sinal), tipo e saldo. O perfil
+ * financeiro (serviceProfile) reconhece essas colunas e mostra entradas,
+ * saídas e saldo nos KPIs.
+ */
+
+import type { ColumnType, Dataset } from "./database";
+import { normalizeDate, parseNumeric } from "./cellValues";
+import { decodeText, detectEncoding, type NumberLocale } from "./csvLocale";
+import { createDataset, tableGridFromRows } from "./datasetBuilder";
+import { DEFAULT_TABLE_LAYOUT } from "./tableHeader";
+import type { ImportDiagnostic } from "./importDiagnostics";
+
+export type BankEntryType = "Crédito" | "Débito";
+
+export interface BankRow {
+  data: string | null;
+  descricao: string | null;
+  documento: string | null;
+  valor: number | null;
+  tipo: BankEntryType | null;
+  saldo?: number | null;
+}
+
+export const BANK_COLUMN_TYPES: Record<string, ColumnType> = {
+  data: "date",
+  descricao: "text",
+  documento: "id",
+  valor: "currency",
+  tipo: "category",
+  saldo: "currency",
+};
+
+export function isOfxFileName(name: string) {
+  return /\.(ofx|qfx)$/i.test(name);
+}
+
+function entryType(valor: number | null): BankEntryType | null {
+  if (valor == null) return null;
+  return valor < 0 ? "Débito" : "Crédito";
+}
+
+/** ===== OFX ===== */
+
+/** OFX 1.x declara CHARSET:1252 no cabeçalho; sem declaração, UTF-8 estrito ou 1252 */
+export function decodeOfx(buf: ArrayBuffer): string {
+  const head = new TextDecoder("latin1").decode(buf.slice(0, 512));
+  if (/CHARSET:\s*1252|encoding="?(windows-1252|iso-8859-1)/i.test(head)) return decodeText(buf, "windows-1252");
+  return decodeText(buf, detectEncoding(buf));
+}
+
+/** Valor de uma tag; no SGML a tag não fecha e o valor vai até o próximo "<" */
+function ofxTag(block: string, tag: string): string | null {
+  const m = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, "i"));
+  const v = m?.[1].trim();
+  return v ? v : null;
+}
+
+/** "20240315120000[-3:BRT]" -> "2024-03-15" (a data do banco, sem fuso) */
+function ofxDate(v: string | null): string | null {
+  const m = v?.match(/^(\d{4})(\d{2})(\d{2})/);
+  return m ? normalizeDate(`${m[1]}-${m[2]}-${m[3]}`) : null;
+}
+
+/** TRNAMT usa ponto, mas há bancos que exportam com vírgula */
+function ofxAmount(v: string | null): number | null {
+  if (!v) return null;
+  const n = Number(v.replace(",", "."));
+  return Number.isFinite(n) ? n : null;
+}
+
+export interface OfxStatement {
+  rows: BankRow[];
+  bankId?: string;
+  accountId?: string;
+  /** LEDGERBAL: saldo no fim do extrato */
+  ledgerBalance?: number;
+}
+
+export function parseOfx(text: string): OfxStatement {
+  const rows: BankRow[] = [];
+  const blocks = text.match(/<STMTTRN>[\s\S]*?(?=<\/STMTTRN>|<STMTTRN>|<\/BANKTRANLIST>)/gi) ?? [];
+  for (const block of blocks) {
+    const valor = ofxAmount(ofxTag(block, "TRNAMT"));
+    const memo = ofxTag(block, "MEMO");
+    const name = ofxTag(block, "NAME");
+    rows.push({
+      data: ofxDate(ofxTag(block, "DTPOSTED")),
+      descricao: [name, memo].filter((v, i, all) => v && all.indexOf(v) === i).join(" - ") || null,
+      documento: ofxTag(block, "CHECKNUM") ?? ofxTag(block, "FITID"),
+      valor,
+      tipo: entryType(valor),
+    });
+  }
+
+  const ledger = text.match(/<LEDGERBAL>[\s\S]*?(?=<\/LEDGERBAL>|<AVAILBAL>|<\/STMTRS>|$)/i)?.[0];
+  const ledgerBalance = ledger ? ofxAmount(ofxTag(ledger, "BALAMT")) : null;
+  return {
+    rows,
+    bankId: ofxTag(text, "BANKID") ?? undefined,
+    accountId: ofxTag(text, "ACCTID") ?? undefined,
+    ledgerBalance: ledgerBalance ?? undefined,
+  };
+}
+
+/**
+ * Saldo linha a linha a partir do saldo final: o último lançamento (por data)
+ * termina no saldo do extrato e cada anterior desconta os que vieram depois.
+ */
+export function withRunningBalance(rows: BankRow[], finalBalance: number): BankRow[] {
+  const order = rows.map((r, i) => ({ r, i })).sort((a, b) => (a.r.data ?? "").localeCompare(b.r.data ?? "") || a.i - b.i);
+  const balances = new Array<number>(rows.length);
+  let balance = finalBalance;
+  for (let k = order.length - 1; k >= 0; k--) {
+    balances[order[k].i] = Math.round(balance * 100) / 100;
+    balance -= order[k].r.valor ?? 0;
+  }
+  return rows.map((r, i) => ({ ...r, saldo: balances[i] }));
+}
+
+/** ===== CSV exportado pelo banco ===== */
+
+function normHeader(h: string) {
+  return h.normalize("NFD").replace(/[\u0300-\u036f]/g, "").toLowerCase().trim();
+}
+
+export interface BankColumns {
+  date: string;
+  description: string;
+  document?: string;
+  amount?: string;
+  credit?: string;
+  debit?: string;
+  /** Coluna "D/C" que dá o sinal de um valor sem sinal */
+  indicator?: string;
+  balance?: string;
+}
+
+/**
+ * Colunas de extrato num cabeçalho de CSV. Data + histórico + valor não
+ * bastam (qualquer planilha de despesas tem): exige saldo, crédito/débito
+ * separados ou a coluna D/C.
+ */
+export function detectBankColumns(headers: string[]): BankColumns | null {
+  const find = (test: (h: string) => boolean) => headers.find((h) => test(normHeader(h)));
+  const date = find((h) => /^data\b|^dt\b|^date$/.test(h));
+  const description = find((h) => /historico|descricao|lancamento|memo|detalhe/.test(h) && !/^data\b/.test(h));
+  const balance = find((h) => /^saldo|balance/.test(h));
+  const credit = find((h) => /^(credito|entrada)s?\b|\(\+\)/.test(h));
+  const debit = find((h) => /^(debito|saida)s?\b|\(-\)/.test(h));
+  const amount = find((h) => /^valor|^montante|^amount/.test(h) && !/saldo/.test(h));
+  const indicator = find((h) => /^(d\/c|c\/d|natureza|tipo)$/.test(h));
+  const document = find((h) => /documento|^doc\b|^n[ºo°]?\.? ?doc/.test(h));
+
+  if (!date || !description) return null;
+  const split = !!credit && !!debit;
+  if (!amount && !split) return null;
+  if (!balance && !split && !indicator) return null;
+
+  return { date, description, document, amount: split ? undefined : amount, credit, debit, indicator, balance };
+}
+
+/** "1.234,56 D", "-150,00", "150,00-" -> número com sinal */
+function bankAmount(v: unknown, locale?: NumberLocale): number | null {
+  if (typeof v === "number") return Number.isFinite(v) ? v : null;
+  const s = String(v ?? "").replace(/R\$/i, "").trim();
+  if (!s) return null;
+  const negative = /^-|-$|\s*D$/i.test(s) || /^\(.*\)$/.test(s);
+  const n = parseNumeric(s.replace(/[()+-]|\s*[DC]$/gi, "").trim(), locale);
+  return n == null ? null : negative ? -Math.abs(n) : Math.abs(n);
+}
+
+/** Linhas de extrato a partir das linhas do CSV; null se o cabeçalho não é de extrato */
+export function bankRowsFromTable(
+  rows: Record<string, unknown>[],
+  headers: string[],
+  locale?: NumberLocale
+): BankRow[] | null {
+  const cols = detectBankColumns(headers);
+  if (!cols) return null;
+
+  return rows
+    .map((row): BankRow => {
+      let valor: number | null;
+      if (cols.amount) {
+        valor = bankAmount(row[cols.amount], locale);
+        const flag = cols.indicator ? String(row[cols.indicator] ?? "").trim().toUpperCase() : "";
+        if (valor != null && /^D/.test(flag)) valor = -Math.abs(valor);
+        else if (valor != null && /^C/.test(flag)) valor = Math.abs(valor);
+      } else {
+        const credit = bankAmount(row[cols.credit!], locale);
+        const debit = bankAmount(row[cols.debit!], locale);
+        valor = credit == null && debit == null ? null : Math.abs(credit ?? 0) - Math.abs(debit ?? 0);
+      }
+      const descricao = String(row[cols.description] ?? "").trim();
+      return {
+        data: normalizeDate(row[cols.date]),
+        descricao: descricao || null,
+        documento: cols.document ? String(row[cols.document] ?? "").trim() || null : null,
+        valor,
+        tipo: entryType(valor),
+        ...(cols.balance ? { saldo: bankAmount(row[cols.balance], locale) } : {}),
+      };
+    })
+    // Linhas de "SALDO ANTERIOR"/"SALDO DO DIA" não são lançamentos
+    .filter((r) => r.data && r.valor != null && !/^saldo\b/i.test(r.descricao ?? ""));
+}
+
+/** ===== KPIs de caixa ===== */
+
+export interface CashFlowSummary {
+  inflows: number;
+  outflows: number;
+  inflowCount: number;
+  outflowCount: number;
+  /** Saldo da última linha (por data); sem coluna de saldo, entradas + saídas */
+  balance: number;
+  balanceFromColumn: boolean;
+  min?: number;
+  max?: number;
+}
+
+export function cashFlowSummary(
+  rows: Record<string, unknown>[],
+  amountColumn: string,
+  balanceColumn?: string,
+  dateColumn?: string
+): CashFlowSummary {
+  const summary: CashFlowSummary = { inflows: 0, outflows: 0, inflowCount: 0, outflowCount: 0, balance: 0, balanceFromColumn: false };
+  let lastDate = "";
+  let lastBalance: number | null = null;
+
+  for (const row of rows) {
+    const valor = bankAmount(row[amountColumn]);
+    if (valor != null) {
+      if (valor >= 0) {
+        summary.inflows += valor;
+        summary.inflowCount++;
+      } else {
+        summary.outflows += valor;
+        summary.outflowCount++;
+      }
+      summary.min = summary.min == null ? valor : Math.min(summary.min, valor);
+      summary.max = summary.max == null ? valor : Math.max(summary.max, valor);
+    }
+    const saldo = balanceColumn ? bankAmount(row[balanceColumn]) : null;
+    const date = dateColumn ? normalizeDate(row[dateColumn]) ?? "" : "";
+    // Mesma data: vale a última linha, que é a ordem do extrato
+    if (saldo != null && date >= lastDate) {
+      lastDate = date;
+      lastBalance = saldo;
+    }
+  }
+
+  summary.inflows = Math.round(summary.inflows * 100) / 100;
+  summary.outflows = Math.round(summary.outflows * 100) / 100;
+  summary.balanceFromColumn = lastBalance != null;
+  summary.balance = lastBalance ?? Math.round((summary.inflows + summary.outflows) * 100) / 100;
+  return summary;
+}
+
+/** ===== Dataset ===== */
+export function bankStatementDataset(
+  rows: BankRow[],
+  name: string,
+  diagnostics: ImportDiagnostic[] = []
+): Dataset {
+  const typeHints = { ...BANK_COLUMN_TYPES };
+  if (!rows.some((r) => r.saldo != null)) {
+    rows = rows.map(({ saldo: _saldo, ...r }) => r);
+    delete typeHints.saldo;
+  }
+  const dates = rows.map((r) => r.data).filter((d): d is string => !!d).sort();
+
+  return {
+    ...createDataset(name, rows as unknown as Record<string, unknown>[], {
+      typeHints,
+      dateRange: dates.length ? { min: dates[0], max: dates[dates.length - 1] } : undefined,
+      rawGrid: tableGridFromRows(rows as unknown as Record<string, unknown>[]),
+      gridSource: { kind: "table", sheetName: name, tableLayout: DEFAULT_TABLE_LAYOUT },
+    }),
+    importDiagnostics: diagnostics,
+  };
+}
+
+/** Extrato OFX inteiro -> dataset (saldo por linha quando o extrato traz o LEDGERBAL) */
+export function ofxDataset(buf: ArrayBuffer, fileName: string): Dataset {
+  const statement = parseOfx(decodeOfx(buf));
+  const rows = statement.ledgerBalance != null
+    ? withRunningBalance(statement.rows, statement.ledgerBalance)
+    : statement.rows;
+  const account = [statement.bankId && `banco ${statement.bankId}`, statement.accountId && `conta ${statement.accountId}`]
+    .filter(Boolean)
+    .join(", ");
+
+  return bankStatementDataset(rows, fileName.replace(/\.[^/.]+$/, ""), [{
+    level: "info",
+    code: "sheet_summary",
+    message: `Extrato OFX${account ? ` (${account})` : ""}: ${rows.length} lançamentos`,
+    fileName,
+  }]);
+}
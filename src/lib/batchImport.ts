@@ -0,0 +1,110 @@
+/**
+ * Batch import
+ * Vários arquivos de uma vez (seleção múltipla, arrastar e soltar ou .zip com
+ * uma RDA por equipe): expande os ZIPs, acompanha o status de cada arquivo
+ * e, se pedido, consolida tudo num dataset com a coluna do arquivo de origem.
+ */
+
+import JSZip from "jszip";
+import type { ColumnType, Dataset, ImportSource } from "./database";
+import { createDataset, tableGridFromRows } from "./datasetBuilder";
+import { DEFAULT_TABLE_LAYOUT } from "./tableHeader";
+import { newSource } from "./datasetAppend";
+
+export type BatchMode = "separate" | "consolidate";
+
+export type BatchItemStatus = "pending" | "importing" | "done" | "error";
+
+export interface BatchItem {
+  id: string;
+  fileName: string;
+  status: BatchItemStatus;
+  /** Linhas lidas (status "done") */
+  rowCount?: number;
+  error?: string;
+}
+
+/** Coluna com o nome do arquivo em datasets consolidados */
+export const SOURCE_FILE_COLUMN = "arquivo_origem";
+
+// .xml: NF-e (ver nfeImport)
+const IMPORTABLE = /\.(xlsx|xlsm|xls|ods|csv|tsv|txt|xml|ofx|qfx|json|ndjson|jsonl)$/i;
+
+export function isZipFile(file: File) {
+  return /\.zip$/i.test(file.name) || file.type === "application/zip" || file.type === "application/x-zip-compressed";
+}
+
+export function isImportableFileName(name: string) {
+  return IMPORTABLE.test(name);
+}
+
+/** Troca cada .zip pelas planilhas de dentro (ignora pastas, __MACOSX e arquivos de lock "~$") */
+export async function expandZipFiles(files: File[]): Promise<File[]> {
+  const out: File[] = [];
+  for (const file of files) {
+    if (!isZipFile(file)) {
+      if (isImportableFileName(file.name)) out.push(file);
+      continue;
+    }
+
+    const zip = await JSZip.loadAsync(file);
+    const entries = Object.values(zip.files)
+      .filter((e) => !e.dir && !e.name.startsWith("__MACOSX/"))
+      .sort((a, b) => a.name.localeCompare(b.name, "pt-BR"));
+
+    for (const entry of entries) {
+      const baseName = entry.name.split("/").pop() ?? entry.name;
+      if (!isImportableFileName(baseName) || baseName.startsWith("~$")) continue;
+      out.push(new File([await entry.async("arraybuffer")], baseName));
+    }
+  }
+  return out;
+}
+
+export function createBatchItems(files: File[]): BatchItem[] {
+  return files.map((f, i) => ({ id: `${i}-${f.name}`, fileName: f.name, status: "pending" }));
+}
+
+/**
+ * Um dataset com as linhas de todos os arquivos + coluna arquivo_origem.
+ * Cada arquivo vira uma ImportSource (as linhas levam o _sourceId dela).
+ */
+export function consolidateDatasets(parts: { fileName: string; dataset: Dataset }[], name: string): Dataset {
+  const importedAt = new Date().toISOString();
+  const rows: Record<string, unknown>[] = [];
+  const importSources: ImportSource[] = [];
+  // Moeda, %, horas já convertidos em número: o tipo vem dos datasets de origem
+  const typeHints: Record<string, ColumnType> = { [SOURCE_FILE_COLUMN]: "category" };
+
+  for (const { fileName, dataset } of parts) {
+    const source = newSource(fileName, dataset.rows.length, importedAt);
+    importSources.push(source);
+
+    for (const col of dataset.columns) typeHints[col.name] ??= col.type;
+    for (const { _rowIndex, ...row } of dataset.rows) {
+      rows.push({ ...row, [SOURCE_FILE_COLUMN]: fileName, _sourceId: source.id });
+    }
+  }
+
+  const dates = parts
+    .map((p) => p.dataset.summary.dateRange)
+    .filter((r): r is { from: string; to: string } => !!r);
+  const dateRange = dates.length
+    ? {
+        min: dates.map((r) => r.from).sort()[0],
+        max: dates.map((r) => r.to).sort().reverse()[0],
+      }
+    : undefined;
+
+  return {
+    ...createDataset(name, rows, {
+      typeHints,
+      dateRange,
+      // Matrizes de arquivos diferentes não cabem numa grade só: a grade é a tabela longa
+      rawGrid: tableGridFromRows(rows),
+      gridSource: { kind: "table", sheetName: name, tableLayout: DEFAULT_TABLE_LAYOUT },
+    }),
+    importSources,
+    importDiagnostics: parts.flatMap((p) => p.dataset.importDiagnostics ?? []),
+  };
+}
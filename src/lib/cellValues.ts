@@ -0,0 +1,283 @@
+/**
+ * Cell value helpers
+ * Interpretação de valores de célula (datas, números) compartilhada
+ * entre o parser de planilhas e a montagem de datasets.
+ */
+
+import * as XLSX from "xlsx";
+import { detectNumberLocale, parseLocaleNumber, type NumberLocale } from "./csvLocale";
+
+/** ===== Datas e data/hora ===== */
+export type ParsedDateTime = {
+  /** "yyyy-MM-dd" */
+  date: string;
+  /** "HH:mm" (ou "HH:mm:ss"), só quando o valor tem hora */
+  time?: string;
+};
+
+const MONTHS: Record<string, number> = {
+  jan: 1, janeiro: 1,
+  fev: 2, fevereiro: 2,
+  mar: 3, marco: 3, março: 3,
+  abr: 4, abril: 4,
+  mai: 5, maio: 5,
+  jun: 6, junho: 6,
+  jul: 7, julho: 7,
+  ago: 8, agosto: 8,
+  set: 9, setembro: 9,
+  out: 10, outubro: 10,
+  nov: 11, novembro: 11,
+  dez: 12, dezembro: 12,
+};
+
+const TIME_PART = String.raw`(?:\s*(?:,|às|as|T)?\s*(\d{1,2}):(\d{2})(?::(\d{2}))?(?:[.,]\d+)?)?`;
+// 15/03/2024, 15-03-2024, 15.03.24 (+ hora opcional)
+const DMY = new RegExp(String.raw`^(\d{1,2})([/.-])(\d{1,2})\2(\d{4}|\d{2})` + TIME_PART + "$", "i");
+// 2024-03-15, 2024-03-15T08:30:00Z, 2024-03-15 08:30:00-03:00 (a hora vale como escrita, sem converter fuso)
+const ISO = /^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2})(?::(\d{2}))?(?:\.\d+)?(?:Z|[+-]\d{2}:?\d{2})?)?$/i;
+// 15 de março de 2024, 15 mar 2024, 15/mar/24, 15-mar-2024
+const DAY_MONTH_NAME = /^(\d{1,2})(?:\s+de\s+|[\s/.-]+)([a-zç]+)\.?(?:\s+de\s+|[\s/.-]+)(\d{4}|\d{2})$/i;
+// jan/24, janeiro/2024, mar-24, março de 2024 (primeiro dia do mês)
+const MONTH_NAME_YEAR = /^([a-zç]+)\.?(?:\s+de\s+|[\s/.-]+)(\d{4}|\d{2})$/i;
+
+const pad2 = (n: number) => String(n).padStart(2, "0");
+
+function fullYear(y: string) {
+  return y.length === 2 ? 2000 + Number(y) : Number(y);
+}
+
+function monthNumber(name: string) {
+  return MONTHS[name.toLowerCase()] ?? null;
+}
+
+/** Monta a data conferindo o calendário (31/02 não vira 02/03) */
+function calendarDate(y: number, m: number, d: number): string | null {
+  if (!m || m > 12 || !d || d > 31 || y < 1000) return null;
+  const dt = new Date(Date.UTC(y, m - 1, d));
+  if (dt.getUTCMonth() !== m - 1 || dt.getUTCDate() !== d) return null;
+  return `${y}-${pad2(m)}-${pad2(d)}`;
+}
+
+function clockTime(h?: string | number, m?: string | number, sec?: string | number): string | undefined {
+  if (h === undefined || m === undefined) return undefined;
+  const hh = Number(h);
+  const mm = Number(m);
+  const ss = Number(sec ?? 0);
+  if (hh > 23 || mm > 59 || ss > 59) return undefined;
+  return ss ? `${pad2(hh)}:${pad2(mm)}:${pad2(ss)}` : `${pad2(hh)}:${pad2(mm)}`;
+}
+
+function withTime(date: string | null, time?: string): ParsedDateTime | null {
+  if (!date) return null;
+  // Meia-noite exata é "sem hora" (data pura gravada como data/hora)
+  return time && time !== "00:00" ? { date, time } : { date };
+}
+
+/**
+ * Data (e hora, se houver) de uma célula, sem passar por UTC: o dia do
+ * calendário é o que aparece na planilha, em qualquer fuso do navegador.
+ */
+export function parseDateTime(v: unknown): ParsedDateTime | null {
+  if (isExcelTimeValue(v)) return null;
+  if (v instanceof Date) {
+    if (Number.isNaN(v.getTime())) return null;
+    // Componentes locais: é assim que o SheetJS (cellDates) monta a data da célula
+    let ms = v.getTime();
+    const secondsPart = v.getSeconds() * 1000 + v.getMilliseconds();
+    if (EXCEL_LMT_DRIFT_MS && (((secondsPart - EXCEL_LMT_DRIFT_MS) % 60000) + 60000) % 60000 === 0) ms -= EXCEL_LMT_DRIFT_MS;
+    const t = new Date(Math.round(ms / 1000) * 1000);
+    return withTime(
+      calendarDate(t.getFullYear(), t.getMonth() + 1, t.getDate()),
+      clockTime(t.getHours(), t.getMinutes(), t.getSeconds())
+    );
+  }
+
+  if (typeof v === "number") {
+    const d = XLSX.SSF.parse_date_code(v);
+    if (!d || !d.y || !d.m || !d.d) return null;
+    return withTime(calendarDate(d.y, d.m, d.d), clockTime(d.H, d.M, Math.round(d.S)));
+  }
+
+  if (typeof v !== "string") return null;
+  const s = v.trim();
+
+  let m = s.match(ISO);
+  if (m) return withTime(calendarDate(Number(m[1]), Number(m[2]), Number(m[3])), clockTime(m[4], m[5], m[6]));
+
+  m = s.match(DMY);
+  if (m) return withTime(calendarDate(fullYear(m[4]), Number(m[3]), Number(m[1])), clockTime(m[5], m[6], m[7]));
+
+  m = s.match(DAY_MONTH_NAME);
+  if (m) {
+    const month = monthNumber(m[2]);
+    return month ? withTime(calendarDate(fullYear(m[3]), month, Number(m[1]))) : null;
+  }
+
+  m = s.match(MONTH_NAME_YEAR);
+  if (m) {
+    const month = monthNumber(m[1]);
+    return month ? withTime(calendarDate(fullYear(m[2]), month, 1)) : null;
+  }
+
+  return null;
+}
+
+/** "jan/24", "março de 2024": mês sem dia (em cabeçalhos é rótulo, não dado) */
+export function isMonthYearText(v: unknown) {
+  return typeof v === "string" && MONTH_NAME_YEAR.test(v.trim()) && parseDateTime(v) !== null;
+}
+
+export function isDateLike(v: unknown) {
+  if (v instanceof Date) return !isExcelTimeValue(v);
+  if (typeof v === "number") return true;
+  if (typeof v === "string") return parseDateTime(v) !== null;
+  return false;
+}
+
+export function normalizeDate(v: unknown): string | null {
+  return parseDateTime(v)?.date ?? null;
+}
+
+/**
+ * Date como texto local "yyyy-MM-dd" ("yyyy-MM-ddTHH:mm:ss" com hora). O
+ * JSON padrão grava em UTC: a leste de Greenwich a data pura voltaria um dia.
+ */
+export function localDateText(v: Date): string | null {
+  if (Number.isNaN(v.getTime())) return null;
+  const parsed = parseDateTime(v);
+  if (parsed) return parsed.time ? `${parsed.date}T${parsed.time.padEnd(8, ":00")}` : parsed.date;
+  // Hora sem data do Excel (dia 0 de 1899)
+  const day = `${v.getFullYear()}-${pad2(v.getMonth() + 1)}-${pad2(v.getDate())}`;
+  return `${day}T${pad2(v.getHours())}:${pad2(v.getMinutes())}:${pad2(v.getSeconds())}`;
+}
+
+/** JSON.stringify com as datas (Date) no fuso local, ver localDateText */
+export function stringifyLocalDates(value: unknown, space?: number): string {
+  return JSON.stringify(
+    value,
+    function (this: Record<string, unknown>, key: string, json: unknown) {
+      const raw = this[key];
+      return raw instanceof Date ? localDateText(raw) : json;
+    },
+    space
+  );
+}
+
+/** Número em texto; sem formato informado, decide por valor ("1.234,56" x "1,234.56") */
+export function parseNumeric(value: unknown, locale?: NumberLocale): number | null {
+  if (typeof value === "number") return Number.isFinite(value) ? value : null;
+  if (typeof value !== "string") return null;
+  return parseLocaleNumber(value, locale ?? detectNumberLocale([value]));
+}
+
+export function toNumber(value: unknown, locale?: NumberLocale): number {
+  if (typeof value === "number") return value;
+  if (typeof value === "string") {
+    return parseNumeric(value, locale) ?? (parseFloat(value.replace(",", ".")) || 0);
+  }
+  return 0;
+}
+
+export function isEmptyCell(v: unknown) {
+  return v === null || v === undefined || String(v).trim() === "";
+}
+
+/** ===== Moeda, percentual, sim/não, horas ===== */
+const CURRENCY_TEXT = /^[+-]?\s*R\$\s*[+-]?[\d.,\s]+$/i;
+const PERCENT_TEXT = /^[+-]?[\d.,]+\s*%$/;
+const TIME_TEXT = /^([01]?\d|2[0-3]):([0-5]\d)(?::([0-5]\d))?$/;
+const CLOCK_DURATION_TEXT = /^([+-]?)(\d+):([0-5]\d)(?::([0-5]\d))?$/;
+const HOURS_DURATION_TEXT = /^([+-]?)(\d+(?:[.,]\d+)?)\s*h(?:\s*(\d{1,2})\s*(?:min|m)?)?$/i;
+
+const TRUE_WORDS = new Set(["SIM", "S", "TRUE", "VERDADEIRO", "YES", "Y"]);
+const FALSE_WORDS = new Set(["NÃO", "NAO", "N", "FALSE", "FALSO", "NO"]);
+
+// Excel guarda hora sem data como dia 0 (30/12/1899, no fuso local) e duração longa como dias seguintes
+const EXCEL_EPOCH = new Date(1899, 11, 30).getTime();
+const EXCEL_TIME_LIMIT = new Date(1900, 0, 1).getTime();
+// Em fusos que usavam hora local média em 1899 (São Paulo: -3:06:28) o SheetJS deixa esses segundos nas datas
+const EXCEL_LMT_DRIFT_MS = (EXCEL_EPOCH - Date.UTC(1899, 11, 30)) % 60000;
+
+/** Date vindo de célula de hora/duração do Excel (sem data de calendário de verdade) */
+export function isExcelTimeValue(v: unknown): v is Date {
+  return v instanceof Date && v.getTime() < EXCEL_TIME_LIMIT && v.getTime() >= EXCEL_EPOCH - 1000;
+}
+
+export function isCurrencyText(v: unknown) {
+  return typeof v === "string" && CURRENCY_TEXT.test(v.trim());
+}
+
+export function isPercentText(v: unknown) {
+  return typeof v === "string" && PERCENT_TEXT.test(v.trim());
+}
+
+export function parseBoolean(v: unknown): boolean | null {
+  if (typeof v === "boolean") return v;
+  if (typeof v !== "string") return null;
+  const s = v.trim().toUpperCase();
+  if (TRUE_WORDS.has(s)) return true;
+  if (FALSE_WORDS.has(s)) return false;
+  return null;
+}
+
+/** "R$ 1.200,00" -> 1200 */
+export function parseCurrency(v: unknown, locale?: NumberLocale): number | null {
+  if (typeof v === "number") return Number.isFinite(v) ? v : null;
+  if (!isCurrencyText(v)) return null;
+  const s = (v as string).trim();
+  const negative = /^-|R\$\s*-/.test(s);
+  const n = parseNumeric(s.replace(/[+-]/g, "").replace(/R\$/i, ""), locale);
+  return n === null ? null : negative ? -n : n;
+}
+
+/** "15%" -> 0.15 (mesma convenção do Excel) */
+export function parsePercent(v: unknown, locale?: NumberLocale): number | null {
+  if (typeof v === "number") return Number.isFinite(v) ? v : null;
+  if (!isPercentText(v)) return null;
+  const n = parseNumeric((v as string).replace("%", "").trim(), locale);
+  return n === null ? null : n / 100;
+}
+
+/** "08:30" / "-02:15" / "8h" / "8h30" / "1,5h" -> horas decimais */
+export function parseDuration(v: unknown): number | null {
+  if (typeof v === "number") return Number.isFinite(v) ? v : null;
+  if (isExcelTimeValue(v)) return Math.round((v.getTime() - EXCEL_EPOCH) / 1000) / 3600;
+  if (typeof v !== "string") return null;
+  const s = v.trim();
+
+  const clock = s.match(CLOCK_DURATION_TEXT);
+  if (clock) {
+    const hours = Number(clock[2]) + Number(clock[3]) / 60 + Number(clock[4] ?? 0) / 3600;
+    return clock[1] === "-" ? -hours : hours;
+  }
+
+  const hm = s.match(HOURS_DURATION_TEXT);
+  if (hm) {
+    const hours = Number(hm[2].replace(",", ".")) + Number(hm[3] ?? 0) / 60;
+    return hm[1] === "-" ? -hours : hours;
+  }
+  return null;
+}
+
+export function isDurationText(v: unknown) {
+  return typeof v === "string" && (CLOCK_DURATION_TEXT.test(v.trim()) || HOURS_DURATION_TEXT.test(v.trim()));
+}
+
+/** Hora do dia normalizada como "HH:mm" (ou "HH:mm:ss") */
+export function parseTimeOfDay(v: unknown): string | null {
+  const pad = (n: number) => String(n).padStart(2, "0");
+
+  if (isExcelTimeValue(v)) {
+    const seconds = Math.round((v.getTime() - EXCEL_EPOCH) / 1000);
+    if (seconds < 0 || seconds >= 86400) return null;
+    const h = Math.floor(seconds / 3600);
+    const m = Math.floor((seconds % 3600) / 60);
+    const s = seconds % 60;
+    return s ? `${pad(h)}:${pad(m)}:${pad(s)}` : `${pad(h)}:${pad(m)}`;
+  }
+  if (typeof v !== "string") return null;
+
+  const m = v.trim().match(TIME_TEXT);
+  if (!m) return null;
+  return m[3] ? `${pad(Number(m[1]))}:${m[2]}:${m[3]}` : `${pad(Number(m[1]))}:${m[2]}`;
+}
@@ -0,0 +1,62 @@
+/**
+ * Clipboard import
+ * Intervalo copiado do Excel ou de um sistema web (TSV ou tabela HTML) vira
+ * um arquivo .tsv em memória e segue o mesmo caminho de importação dos
+ * arquivos (detecção de matriz, tipos, revisão de colunas).
+ */
+
+import * as XLSX from "xlsx";
+
+export type ClipboardContent = {
+  /** text/html: tabela copiada de páginas e do Excel na web */
+  html?: string;
+  /** text/plain: TSV do Excel/Sheets */
+  text?: string;
+};
+
+const HAS_TABLE = /<table[\s>]/i;
+
+/** HTML com <table> -> TSV (células mescladas ficam vazias, o parser preenche pelo cabeçalho) */
+function htmlTableToTsv(html: string): string | null {
+  // raw: o texto das células fica como está; a tipagem é a mesma do CSV
+  const wb = XLSX.read(html, { type: "string", raw: true });
+  const ws = wb.Sheets[wb.SheetNames[0]];
+  if (!ws) return null;
+  return XLSX.utils.sheet_to_csv(ws, { FS: "\t", blankrows: false });
+}
+
+/** Conteúdo colado como TSV; prefere a tabela HTML quando existe (preserva colunas vazias e mesclagens) */
+export function clipboardToTsv(content: ClipboardContent): string {
+  const fromHtml = content.html && HAS_TABLE.test(content.html) ? htmlTableToTsv(content.html) : null;
+  const tsv = fromHtml ?? content.text ?? "";
+  return tsv.replace(/\r\n?/g, "\n").replace(/\n+$/, "");
+}
+
+/** Linhas x colunas do TSV (para o resumo antes de importar) */
+export function tsvShape(tsv: string): { rows: number; columns: number } {
+  if (!tsv.trim()) return { rows: 0, columns: 0 };
+  const lines = tsv.split("\n");
+  return { rows: lines.length, columns: lines.reduce((max, l) => Math.max(max, l.split("\t").length), 0) };
+}
+
+/** Arquivo .tsv com o conteúdo colado (UTF-8), pronto para inspectExcelFile/importFile */
+export function clipboardFile(tsv: string, name: string): File {
+  const base = name.trim().replace(/[\\/:*?"<>|]+/g, "-") || "Dados colados";
+  return new File([tsv], `${base}.tsv`, { type: "text/tab-separated-values" });
+}
+
+/** Lê a área de transferência pelo botão (sem Ctrl+V); navegadores sem suporte devolvem null */
+export async function readClipboard(): Promise<ClipboardContent | null> {
+  if (!navigator.clipboard) return null;
+
+  if (typeof navigator.clipboard.read === "function") {
+    const items = await navigator.clipboard.read();
+    const content: ClipboardContent = {};
+    for (const item of items) {
+      if (item.types.includes("text/html")) content.html = await (await item.getType("text/html")).text();
+      if (item.types.includes("text/plain")) content.text = await (await item.getType("text/plain")).text();
+    }
+    return content;
+  }
+  return { text: await navigator.clipboard.readText() };
+}
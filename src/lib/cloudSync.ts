@@ -0,0 +1,495 @@
+/**
+ * Cloud sync
+ * Modo opcional: cada usuário guarda os datasets (com perfil e matriz) nas
+ * tabelas do Supabase, protegidas por RLS. O IndexedDB continua sendo a cópia
+ * de trabalho e funciona offline; cada gravação entra numa fila que é enviada
+ * quando há conexão e sessão. A nuvem só aceita um envio que parte da revisão
+ * que ela tem: se outro aparelho mudou antes, a versão da nuvem fica no lugar
+ * e as edições locais viram uma cópia "(conflito)", sem perder nenhum lado.
+ * Cada dataset baixado ou enviado fica ligado à conta: entrar com outra não
+ * sobe os da anterior, e os que só existem neste navegador sobem a pedido.
+ */
+
+import { get, update } from "idb-keyval";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database, Json } from "@/integrations/supabase/types";
+import {
+  deleteDataset,
+  generateId,
+  getDataset,
+  getDatasetIndex,
+  saveDataset,
+  splitRowChunks,
+  storedDatasetParts,
+  type Dataset,
+} from "./database";
+import { loadStoredDataset } from "./datasetSchema";
+import { stringifyLocalDates } from "./cellValues";
+import { withoutRawGrid } from "./gridSync";
+import type { DatasetChange } from "./tabSync";
+
+export type CloudClient = SupabaseClient<Database>;
+
+export type CloudOp = "upsert" | "delete";
+
+export interface CloudQueueEntry {
+  datasetId: string;
+  op: CloudOp;
+  queuedAt: string;
+  attempts: number;
+  lastError?: string;
+  /** Conta da última sincronização quando entrou na fila: só ela envia (sem conta, a primeira que entrar) */
+  userId?: string;
+}
+
+/** Revisões da última sincronização de cada dataset */
+export interface SyncedRevision {
+  /** Contador da nuvem (datasets.revision) */
+  cloudRevision: number;
+  /** Revisão local gravada junto: diferente dela = editado aqui depois */
+  localRevision: number;
+  /** Conta em cuja nuvem o dataset está */
+  userId: string;
+}
+
+export interface CloudSyncSettings {
+  enabled: boolean;
+  lastSyncAt?: string;
+  /** Conta da última sincronização: a fila e os datasets baixados dela não vão para outra */
+  userId?: string;
+}
+
+export interface SyncConflict {
+  datasetId: string;
+  name: string;
+  /** Cópia com as edições locais (null quando só a nuvem mudou) */
+  copyId: string | null;
+  copyName?: string;
+}
+
+export interface SyncResult {
+  pushed: number;
+  /** Datasets que mudaram aqui com o que veio da nuvem (e nos conflitos) */
+  pulled: DatasetChange[];
+  conflicts: SyncConflict[];
+  /** Envios que ficaram na fila (offline, erro) */
+  pending: number;
+  /** Datasets que só existem neste navegador: a tela pergunta se vão para a conta */
+  localOnly: number;
+  error?: string;
+}
+
+export interface ConflictResolution {
+  /** Versão da nuvem no id local */
+  keep: Dataset;
+  copy: Dataset | null;
+}
+
+const SETTINGS_KEY = "cloud_sync_settings";
+const QUEUE_KEY = "cloud_sync_queue";
+const STATE_KEY = "cloud_sync_state";
+const LOCK_NAME = "essencial-cloud-sync";
+// Erro do commit_dataset/delete_dataset quando a nuvem mudou (serialization_failure)
+const CONFLICT_CODE = "40001";
+
+/** ===== Configuração e fila (IndexedDB) ===== */
+
+export async function getCloudSyncSettings(): Promise<CloudSyncSettings> {
+  return (await get<CloudSyncSettings>(SETTINGS_KEY)) ?? { enabled: false };
+}
+
+async function patchSettings(patch: Partial<CloudSyncSettings>): Promise<void> {
+  await update<CloudSyncSettings>(SETTINGS_KEY, (prev) => ({ enabled: false, ...prev, ...patch }));
+}
+
+export async function getCloudQueue(): Promise<CloudQueueEntry[]> {
+  return (await get<CloudQueueEntry[]>(QUEUE_KEY)) ?? [];
+}
+
+export async function getSyncState(): Promise<Record<string, SyncedRevision>> {
+  return (await get<Record<string, SyncedRevision>>(STATE_KEY)) ?? {};
+}
+
+/** Só os datasets que estão na nuvem da conta */
+function accountState(state: Record<string, SyncedRevision>, userId: string): Record<string, SyncedRevision> {
+  return Object.fromEntries(Object.entries(state).filter(([, synced]) => synced.userId === userId));
+}
+
+/** Envios da conta; os de outra esperam ela entrar de novo */
+export function accountQueue(queue: CloudQueueEntry[], userId: string | undefined): CloudQueueEntry[] {
+  return queue.filter((e) => !e.userId || e.userId === userId);
+}
+
+async function patchSyncState(id: string, revision: SyncedRevision | null): Promise<void> {
+  await update<Record<string, SyncedRevision>>(STATE_KEY, (prev) => {
+    const next = { ...prev };
+    if (revision) next[id] = revision;
+    else delete next[id];
+    return next;
+  });
+}
+
+/**
+ * Uma entrada por dataset: a operação mais nova vale (gravar depois de
+ * gravar envia uma vez só; excluir depois de gravar só exclui).
+ */
+export function mergeQueueEntry(queue: CloudQueueEntry[], entry: CloudQueueEntry): CloudQueueEntry[] {
+  return [...queue.filter((e) => e.datasetId !== entry.datasetId), entry];
+}
+
+const queueListeners = new Set<() => void>();
+
+/** Avisa quando algo entra na fila desta aba (para agendar o envio) */
+export function onCloudQueueChange(listener: () => void): () => void {
+  queueListeners.add(listener);
+  return () => queueListeners.delete(listener);
+}
+
+/**
+ * Chamado pelo database a cada gravação/exclusão; sem o modo ligado não faz
+ * nada. Dataset baixado da nuvem de outra conta continua só neste navegador.
+ */
+export async function queueCloudChange(op: CloudOp, datasetId: string): Promise<void> {
+  try {
+    const { enabled, userId } = await getCloudSyncSettings();
+    if (!enabled) return;
+    const owner = (await getSyncState())[datasetId]?.userId;
+    if (owner && owner !== userId) return;
+    const entry: CloudQueueEntry = { datasetId, op, queuedAt: new Date().toISOString(), attempts: 0, userId };
+    await update<CloudQueueEntry[]>(QUEUE_KEY, (queue) => mergeQueueEntry(queue ?? [], entry));
+    queueListeners.forEach((listener) => listener());
+  } catch (err) {
+    // A gravação local já aconteceu; ao religar, a revisão mostra o que falta enviar
+    console.warn(`Dataset ${datasetId} não entrou na fila da nuvem:`, err);
+  }
+}
+
+function sameEntry(a: CloudQueueEntry, b: CloudQueueEntry) {
+  return a.datasetId === b.datasetId && a.queuedAt === b.queuedAt;
+}
+
+/**
+ * Tira da fila só se não foi enfileirado de novo enquanto era enviado. Com
+ * erro, vai para o fim da fila: não segura os envios dos outros datasets.
+ */
+async function settleEntry(entry: CloudQueueEntry, error?: string): Promise<void> {
+  await update<CloudQueueEntry[]>(QUEUE_KEY, (queue = []) => {
+    const current = queue.find((e) => sameEntry(e, entry));
+    const rest = queue.filter((e) => e !== current);
+    return current && error ? [...rest, { ...current, attempts: current.attempts + 1, lastError: error }] : rest;
+  });
+}
+
+/**
+ * Enfileira os datasets da nuvem da conta que mudaram aqui desde a última
+ * sincronização. Os que só existem aqui não sobem sozinhos (ver queueLocalDatasets).
+ */
+async function queueUnsynced(): Promise<void> {
+  const [index, state, { userId }] = await Promise.all([getDatasetIndex(), getSyncState(), getCloudSyncSettings()]);
+  if (!userId) return;
+  const synced = accountState(state, userId);
+  for (const meta of index) {
+    if (!synced[meta.id]) continue;
+    // Só o registro (sem as linhas) para ler a revisão
+    const { record } = await storedDatasetParts(meta.id);
+    const revision = (record as Partial<Dataset> | undefined)?.revision ?? 0;
+    if (revision !== synced[meta.id].localRevision) await queueCloudChange("upsert", meta.id);
+  }
+}
+
+/** Liga o modo (e enfileira o que mudou enquanto estava desligado); desligar mantém a fila */
+export async function setCloudSyncEnabled(enabled: boolean): Promise<void> {
+  await patchSettings({ enabled });
+  if (enabled) await queueUnsynced();
+}
+
+/** Datasets deste navegador que não estão na nuvem de nenhuma conta nem na fila */
+export async function localOnlyDatasetIds(): Promise<string[]> {
+  const [index, state, queue] = await Promise.all([getDatasetIndex(), getSyncState(), getCloudQueue()]);
+  const queued = new Set(queue.map((e) => e.datasetId));
+  return index.filter((m) => !state[m.id] && !queued.has(m.id)).map((m) => m.id);
+}
+
+/** Envia para a conta atual os datasets que só existem aqui (quando o usuário pede) */
+export async function queueLocalDatasets(): Promise<number> {
+  const ids = await localOnlyDatasetIds();
+  for (const id of ids) await queueCloudChange("upsert", id);
+  return ids.length;
+}
+
+/** ===== Conflitos ===== */
+
+// O que não viaja: revisão local, arquivo vinculado (handle é deste aparelho), versão do formato, grade
+function comparable(dataset: Dataset): string {
+  const { revision, linkedFile, schemaVersion, ...content } = withoutRawGrid(dataset);
+  return stringifyLocalDates(content);
+}
+
+/**
+ * A nuvem mudou depois da última sincronização. A versão dela fica no id
+ * (mantendo o arquivo vinculado daqui); se este aparelho também editou e o
+ * conteúdo difere, as edições locais viram uma cópia ao lado.
+ */
+export function resolveConflict(
+  local: Dataset,
+  remote: Dataset,
+  synced: SyncedRevision | undefined,
+  now = new Date()
+): ConflictResolution {
+  const keep: Dataset = { ...remote, id: local.id, revision: local.revision, linkedFile: local.linkedFile };
+  const editedHere = !synced || local.revision !== synced.localRevision;
+  if (!editedHere || comparable(local) === comparable(keep)) return { keep, copy: null };
+  const copy: Dataset = {
+    ...local,
+    id: generateId(),
+    revision: undefined,
+    name: `${local.name} (conflito)`,
+    createdAt: now.toISOString(),
+    linkedFile: undefined,
+  };
+  return { keep, copy };
+}
+
+/**
+ * O que baixar e o que excluir aqui, pela lista da nuvem: baixa o que mudou
+ * lá ou falta aqui (quarentena, exclusão com o modo desligado) e exclui o
+ * que sumiu de lá. Dataset com envio na fila fica como está: o envio é que
+ * resolve o conflito.
+ */
+export function planPull(
+  remote: { id: string; revision: number }[],
+  state: Record<string, SyncedRevision>,
+  queuedIds: Set<string>,
+  localIds: Set<string>
+): { download: string[]; deleteLocal: string[] } {
+  const remoteIds = new Set(remote.map((r) => r.id));
+  return {
+    download: remote
+      .filter((r) => !queuedIds.has(r.id) && (state[r.id]?.cloudRevision !== r.revision || !localIds.has(r.id)))
+      .map((r) => r.id),
+    deleteLocal: Object.keys(state).filter((id) => !remoteIds.has(id) && !queuedIds.has(id)),
+  };
+}
+
+function isCloudConflict(err: unknown): boolean {
+  return typeof err === "object" && err !== null && (err as { code?: unknown }).code === CONFLICT_CODE;
+}
+
+function errorMessage(err: unknown): string {
+  if (err instanceof Error) return err.message;
+  if (typeof err === "object" && err !== null && "message" in err) return String((err as { message: unknown }).message);
+  return String(err);
+}
+
+/** ===== Nuvem ===== */
+
+async function downloadDataset(client: CloudClient, id: string): Promise<{ dataset: Dataset; revision: number } | undefined> {
+  const { data: row, error } = await client
+    .from("datasets")
+    .select("record, revision, upload_id, row_chunks")
+    .eq("id", id)
+    .maybeSingle();
+  if (error) throw error;
+  if (!row) return undefined;
+
+  const { data: chunks, error: chunksError } = await client
+    .from("dataset_chunks")
+    .select("chunk_index, rows")
+    .eq("dataset_id", id)
+    .eq("upload_id", row.upload_id)
+    .order("chunk_index");
+  if (chunksError) throw chunksError;
+  if ((chunks ?? []).length !== row.row_chunks) throw new Error(`Blocos do dataset ${id} incompletos na nuvem`);
+
+  const rows = (chunks ?? []).flatMap((c) => c.rows as unknown as Dataset["rows"]);
+  const loaded = loadStoredDataset({ ...(row.record as Record<string, unknown>), id, rows }, id);
+  if (!loaded.dataset) throw new Error(`Dataset ${id} da nuvem inválido: ${loaded.problems.join("; ")}`);
+  return { dataset: loaded.dataset, revision: row.revision };
+}
+
+// jsonb com as datas da grade no fuso local (o padrão do JSON é UTC)
+function toJson(value: unknown): Json {
+  return JSON.parse(stringifyLocalDates(value));
+}
+
+/**
+ * Envia os blocos e publica; a nuvem recusa (40001) se não está mais em
+ * `baseRevision`. A grade original não sobe (é do tamanho das linhas e iria
+ * inteira no commit): quem baixa monta a Planilha pelas linhas.
+ */
+async function uploadDataset(client: CloudClient, dataset: Dataset, baseRevision: number): Promise<number> {
+  const uploadId = crypto.randomUUID();
+  const { rows, revision, linkedFile, ...record } = withoutRawGrid(dataset);
+  const chunks = splitRowChunks(rows);
+  try {
+    for (let i = 0; i < chunks.length; i++) {
+      const { error } = await client
+        .from("dataset_chunks")
+        .insert({ dataset_id: dataset.id, upload_id: uploadId, chunk_index: i, rows: toJson(chunks[i]) });
+      if (error) throw error;
+    }
+    const { data, error } = await client.rpc("commit_dataset", {
+      p_id: dataset.id,
+      p_base_revision: baseRevision,
+      p_upload_id: uploadId,
+      p_name: dataset.name,
+      p_record: toJson(record),
+      p_row_chunks: chunks.length,
+    });
+    if (error) throw error;
+    return data;
+  } catch (err) {
+    // Blocos de um envio que não foi publicado
+    await client.from("dataset_chunks").delete().eq("dataset_id", dataset.id).eq("upload_id", uploadId);
+    throw err;
+  }
+}
+
+/** Grava aqui o que veio da nuvem, sem voltar para a fila */
+async function storeRemote(dataset: Dataset, cloudRevision: number, userId: string): Promise<Dataset> {
+  const saved = await saveDataset(dataset, { reason: "cloud" }, { force: true, localOnly: true });
+  await patchSyncState(saved.id, { cloudRevision, localRevision: saved.revision ?? 0, userId });
+  return saved;
+}
+
+async function pushEntry(
+  client: CloudClient,
+  entry: CloudQueueEntry,
+  state: Record<string, SyncedRevision>,
+  userId: string
+): Promise<SyncConflict | null> {
+  const synced = state[entry.datasetId];
+
+  if (entry.op === "delete") {
+    if (!synced) return null;
+    const { error } = await client.rpc("delete_dataset", { p_id: entry.datasetId, p_base_revision: synced.cloudRevision });
+    if (!error) {
+      await patchSyncState(entry.datasetId, null);
+      return null;
+    }
+    if (!isCloudConflict(error)) throw error;
+    // Mudou na nuvem depois da exclusão daqui: a edição de lá volta
+    const remote = await downloadDataset(client, entry.datasetId);
+    if (!remote) return null;
+    const saved = await storeRemote(remote.dataset, remote.revision, userId);
+    return { datasetId: saved.id, name: saved.name, copyId: null };
+  }
+
+  const local = await getDataset(entry.datasetId);
+  if (!local) {
+    // Excluído aqui com o modo desligado: nada a enviar. Registro ilegível (quarentena) fica na fila
+    if ((await storedDatasetParts(entry.datasetId)).record === undefined) return null;
+    throw new Error(`Dataset ${entry.datasetId} não pôde ser lido neste navegador`);
+  }
+  try {
+    const cloudRevision = await uploadDataset(client, local, synced?.cloudRevision ?? 0);
+    await patchSyncState(local.id, { cloudRevision, localRevision: local.revision ?? 0, userId });
+    return null;
+  } catch (err) {
+    if (!isCloudConflict(err)) throw err;
+  }
+
+  const remote = await downloadDataset(client, local.id);
+  if (!remote) {
+    // Excluído na nuvem depois da última sincronização: a edição daqui vale
+    const cloudRevision = await uploadDataset(client, local, 0);
+    await patchSyncState(local.id, { cloudRevision, localRevision: local.revision ?? 0, userId });
+    return null;
+  }
+  const { keep, copy } = resolveConflict(local, remote.dataset, synced);
+  const saved = await storeRemote(keep, remote.revision, userId);
+  // A cópia é um dataset novo: entra na fila como qualquer gravação
+  const savedCopy = copy && (await saveDataset(copy, { reason: "cloud", note: "Edições locais em conflito" }));
+  return { datasetId: saved.id, name: saved.name, copyId: savedCopy?.id ?? null, copyName: savedCopy?.name };
+}
+
+async function pullChanges(client: CloudClient, userId: string): Promise<DatasetChange[]> {
+  const { data, error } = await client.from("datasets").select("id, revision");
+  if (error) throw error;
+  const [state, queue, index] = await Promise.all([getSyncState(), getCloudQueue(), getDatasetIndex()]);
+  const plan = planPull(
+    data ?? [],
+    accountState(state, userId),
+    new Set(queue.map((e) => e.datasetId)),
+    new Set(index.map((m) => m.id))
+  );
+
+  const changes: DatasetChange[] = [];
+  for (const id of plan.download) {
+    const remote = await downloadDataset(client, id);
+    if (!remote) continue;
+    const current = await getDataset(id);
+    const saved = await storeRemote(
+      { ...remote.dataset, revision: current?.revision, linkedFile: current?.linkedFile },
+      remote.revision,
+      userId
+    );
+    changes.push({ type: "saved", id, revision: saved.revision });
+  }
+  for (const id of plan.deleteLocal) {
+    await deleteDataset(id, { localOnly: true });
+    await patchSyncState(id, null);
+    changes.push({ type: "deleted", id });
+  }
+  return changes;
+}
+
+// Uma sincronização por vez entre as abas (sem Web Locks, cada aba segue sozinha)
+function withSyncLock<T>(run: () => Promise<T>): Promise<T> {
+  if (typeof navigator === "undefined" || !navigator.locks) return run();
+  return navigator.locks.request(LOCK_NAME, run);
+}
+
+/**
+ * Envia a fila e depois traz o que mudou na nuvem. O envio que falha fica
+ * na fila com o erro e os seguintes continuam; sem conexão, para e deixa o
+ * resto para quando ela voltar.
+ */
+export function syncNow(client: CloudClient): Promise<SyncResult> {
+  return withSyncLock(async () => {
+    const result: SyncResult = { pushed: 0, pulled: [], conflicts: [], pending: 0, localOnly: 0 };
+    const { data } = await client.auth.getSession();
+    if (!data.session) throw new Error("Entre na conta para sincronizar");
+    const userId = data.session.user.id;
+    // Outra conta: a fila e os datasets da anterior ficam para ela; os desta que mudaram aqui voltam à fila
+    if ((await getCloudSyncSettings()).userId !== userId) {
+      await patchSettings({ userId });
+      await queueUnsynced();
+    }
+    const accountEntries = async () => accountQueue(await getCloudQueue(), userId);
+    // Cada envio é tentado uma vez por sincronização
+    const tried: CloudQueueEntry[] = [];
+    const untried = async () => (await accountEntries()).filter((e) => !tried.some((t) => sameEntry(t, e)));
+
+    try {
+      // A cópia de um conflito entra na fila durante o envio: roda até não sobrar envio novo
+      for (let queue = await untried(); queue.length > 0; queue = await untried()) {
+        const state = accountState(await getSyncState(), userId);
+        for (const entry of queue) {
+          tried.push(entry);
+          try {
+            const conflict = await pushEntry(client, entry, state, userId);
+            if (conflict) {
+              result.conflicts.push(conflict);
+              result.pulled.push({ type: "saved", id: conflict.datasetId });
+              if (conflict.copyId) result.pulled.push({ type: "saved", id: conflict.copyId });
+            }
+            result.pushed++;
+            await settleEntry(entry);
+          } catch (err) {
+            await settleEntry(entry, errorMessage(err));
+            if (typeof navigator !== "undefined" && !navigator.onLine) throw err;
+            result.error ??= errorMessage(err);
+          }
+        }
+      }
+      result.pulled.push(...(await pullChanges(client, userId)));
+      await patchSettings({ lastSyncAt: new Date().toISOString() });
+    } catch (err) {
+      result.error ??= errorMessage(err);
+    }
+    result.pending = (await accountEntries()).length;
+    result.localOnly = (await localOnlyDatasetIds()).length;
+    return result;
+  });
+}
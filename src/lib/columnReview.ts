@@ -0,0 +1,130 @@
+/**
+ * Column review
+ * Relatório por coluna (tipo detectado, amostras, taxa de vazios) e
+ * aplicação das escolhas do usuário antes de salvar o dataset.
+ */
+
+import type { ColumnType, Dataset } from "./database";
+import { isEmptyCell, normalizeDate } from "./cellValues";
+import { coerceColumnValues, deriveDatasetFields } from "./datasetBuilder";
+import { syncGridFromRows } from "./gridSync";
+import { formatCellValue } from "./valueFormat";
+import { remapDiagnostics } from "./importDiagnostics";
+
+export const COLUMN_TYPES: { value: ColumnType; label: string }[] = [
+  { value: "text", label: "Texto" },
+  { value: "category", label: "Categoria" },
+  { value: "number", label: "Número" },
+  { value: "currency", label: "Moeda (R$)" },
+  { value: "percent", label: "Percentual" },
+  { value: "boolean", label: "Sim/Não" },
+  { value: "duration", label: "Duração (horas)" },
+  { value: "time", label: "Hora do dia" },
+  { value: "date", label: "Data" },
+  { value: "id", label: "Identificador" },
+];
+
+export interface ColumnReviewItem {
+  name: string;
+  detectedType: ColumnType;
+  samples: string[];
+  nullRate: number;
+}
+
+export interface ColumnOverride {
+  name: string;
+  rename?: string;
+  type?: ColumnType;
+  exclude?: boolean;
+}
+
+export function buildColumnReport(dataset: Dataset, sampleSize = 5): ColumnReviewItem[] {
+  const total = dataset.rows.length;
+
+  return dataset.columns.map((col) => {
+    let empty = 0;
+    const samples: string[] = [];
+    for (const row of dataset.rows) {
+      const v = row[col.name];
+      if (isEmptyCell(v)) {
+        empty++;
+      } else if (samples.length < sampleSize) {
+        // R$, %, Sim/Não e horas já vêm convertidos: amostra no formato de exibição
+        const txt =
+          v instanceof Date && col.type === "date"
+            ? normalizeDate(v) ?? ""
+            : formatCellValue(v, col.type === "date" ? undefined : col.type).trim();
+        if (!samples.includes(txt)) samples.push(txt);
+      }
+    }
+
+    return {
+      name: col.name,
+      detectedType: col.type,
+      samples,
+      nullRate: total ? empty / total : 0,
+    };
+  });
+}
+
+/** Aplica renomear/excluir/tipo e recalcula ColumnMetadata, detected* e summary */
+export function applyColumnOverrides(dataset: Dataset, overrides: ColumnOverride[]): Dataset {
+  const byName = new Map(overrides.map((o) => [o.name, o]));
+  const effective = (name: string) => {
+    const o = byName.get(name);
+    return { exclude: !!o?.exclude, newName: o?.rename?.trim() || name, type: o?.type };
+  };
+
+  const kept = dataset.columns.filter((c) => !effective(c.name).exclude);
+  const changesShape = dataset.columns.some((c) => {
+    const e = effective(c.name);
+    return e.exclude || e.newName !== c.name;
+  });
+
+  // Linhas com as colunas renomeadas/excluídas (mantendo a ordem original)
+  const rows = dataset.rows.map(({ _rowIndex, ...row }) => {
+    const out: Record<string, unknown> = row._sourceId ? { _sourceId: row._sourceId } : {};
+    for (const col of kept) out[effective(col.name).newName] = row[col.name];
+    return out;
+  });
+
+  const typeOverrides: Record<string, ColumnType> = {};
+  for (const col of kept) {
+    const e = effective(col.name);
+    if (e.type && e.type !== col.type) typeOverrides[e.newName] = e.type;
+  }
+
+  // Colunas número/data guardam valores tipados (não o texto da planilha)
+  const finalColumns = kept.map((c) => {
+    const name = effective(c.name).newName;
+    return { ...c, name, type: typeOverrides[name] ?? c.type };
+  });
+  const typedRows = coerceColumnValues(rows, finalColumns);
+
+  const keepDetected = Object.fromEntries(finalColumns.map((c) => [c.name, c.type]));
+
+  // Avisos de coluna excluída ou com tipo trocado deixam de valer; renomeadas seguem o novo nome
+  const renames = new Map(kept.map((c) => [c.name, effective(c.name).newName]));
+  const stale = new Set(dataset.columns.filter((c) => {
+    const e = effective(c.name);
+    return e.exclude || (e.type && e.type !== c.type);
+  }).map((c) => c.name));
+  const updated: Dataset = {
+    ...dataset,
+    ...deriveDatasetFields(typedRows, {
+      typeOverrides: keepDetected,
+      dateRange: dataset.summary.dateRange
+        ? { min: dataset.summary.dateRange.from, max: dataset.summary.dateRange.to }
+        : undefined,
+    }),
+    columnTypeOverrides: Object.keys(typeOverrides).length
+      ? { ...(dataset.columnTypeOverrides ?? {}), ...typeOverrides }
+      : dataset.columnTypeOverrides,
+    importDiagnostics: remapDiagnostics(dataset.importDiagnostics, renames, stale),
+    // Escolhas pelo nome lido: o modelo de importação reaplica no próximo arquivo
+    importLayout: dataset.importLayout && { ...dataset.importLayout, columnOverrides: overrides },
+    updatedAt: new Date().toISOString(),
+  };
+
+  return changesShape ? syncGridFromRows(updated) : updated;
+}
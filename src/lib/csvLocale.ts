@@ -0,0 +1,153 @@
+/**
+ * CSV locale detection
+ * Separador, encoding e formato numérico de CSVs (o padrão brasileiro é
+ * ";" + Windows-1252 + "1.234,56"), com override manual na importação.
+ */
+
+export type CsvDelimiter = "," | ";" | "\t" | "|";
+export type CsvEncoding = "utf-8" | "windows-1252";
+export type NumberLocale = "pt-BR" | "en-US";
+
+export interface CsvOptions {
+  delimiter?: CsvDelimiter | "auto";
+  encoding?: CsvEncoding | "auto";
+  numberLocale?: NumberLocale | "auto";
+}
+
+export interface ResolvedCsvOptions {
+  delimiter: CsvDelimiter;
+  encoding: CsvEncoding;
+  numberLocale: NumberLocale;
+}
+
+export const CSV_DELIMITERS: CsvDelimiter[] = [";", ",", "\t", "|"];
+
+const TEXT_EXTENSIONS = /\.(csv|tsv|txt)$/i;
+
+export function isCsvFileName(fileName: string) {
+  return TEXT_EXTENSIONS.test(fileName);
+}
+
+/** ===== Encoding: UTF-8 estrito, senão Windows-1252 ===== */
+export function detectEncoding(buf: ArrayBuffer): CsvEncoding {
+  try {
+    new TextDecoder("utf-8", { fatal: true }).decode(buf);
+    return "utf-8";
+  } catch {
+    return "windows-1252";
+  }
+}
+
+export function decodeText(buf: ArrayBuffer, encoding: CsvEncoding): string {
+  return new TextDecoder(encoding).decode(buf).replace(/^\uFEFF/, "");
+}
+
+/** Conta o separador fora de aspas */
+function countOutsideQuotes(line: string, delimiter: string) {
+  let inQuotes = false;
+  let count = 0;
+  for (const ch of line) {
+    if (ch === '"') inQuotes = !inQuotes;
+    else if (!inQuotes && ch === delimiter) count++;
+  }
+  return count;
+}
+
+/** ===== Separador: o que aparece com a mesma contagem no maior número de linhas ===== */
+export function detectDelimiter(text: string): CsvDelimiter {
+  const lines = text.split(/\r?\n/).filter((l) => l.trim()).slice(0, 30);
+  if (!lines.length) return ",";
+
+  let best: CsvDelimiter = ",";
+  let bestScore = 0;
+
+  for (const d of CSV_DELIMITERS) {
+    const counts = lines.map((l) => countOutsideQuotes(l, d)).filter((n) => n > 0);
+    if (!counts.length) continue;
+
+    const freq = new Map<number, number>();
+    for (const n of counts) freq.set(n, (freq.get(n) ?? 0) + 1);
+    const [, consistentLines] = [...freq.entries()].sort((a, b) => b[1] - a[1])[0];
+
+    // Linhas consistentes pesam mais; a quantidade de colunas desempata
+    const score = consistentLines * 100 + Math.max(...counts);
+    if (score > bestScore) {
+      bestScore = score;
+      best = d;
+    }
+  }
+
+  return best;
+}
+
+/** ===== Formato numérico ===== */
+const NUMERIC_CHARS = /^[+-]?[\d.,]+$/;
+
+function stripNumber(s: string) {
+  return s.replace(/\s/g, "").replace(/^R\$/i, "");
+}
+
+export function detectNumberLocale(samples: string[], delimiter?: CsvDelimiter): NumberLocale {
+  let br = 0;
+  let us = 0;
+
+  for (const raw of samples) {
+    const s = stripNumber(raw);
+    if (!NUMERIC_CHARS.test(s) || !/\d/.test(s)) continue;
+
+    const lastComma = s.lastIndexOf(",");
+    const lastDot = s.lastIndexOf(".");
+    if (lastComma >= 0 && lastDot >= 0) {
+      if (lastComma > lastDot) br++;
+      else us++;
+    } else if (lastComma >= 0) {
+      // "1,234" com grupos de 3 é ambíguo; "12,5" é decimal brasileiro
+      if (/^[+-]?\d{1,3}(,\d{3})+$/.test(s)) us += 0.5;
+      else br++;
+    } else if (lastDot >= 0) {
+      if (/^[+-]?\d{1,3}(\.\d{3})+$/.test(s)) br += 0.5;
+      else us++;
+    }
+  }
+
+  if (br === us) return delimiter === "," ? "en-US" : "pt-BR";
+  return br > us ? "pt-BR" : "en-US";
+}
+
+/** Converte texto numérico no formato dado; null se não for número */
+export function parseLocaleNumber(value: string, locale: NumberLocale): number | null {
+  const s = stripNumber(value);
+  if (!NUMERIC_CHARS.test(s) || !/\d/.test(s)) return null;
+
+  const [thousands, decimal] = locale === "pt-BR" ? [".", ","] : [",", "."];
+  const parts = s.split(decimal);
+  if (parts.length > 2) return null;
+
+  const intPart = parts[0];
+  const grouped = locale === "pt-BR" ? /^[+-]?\d{1,3}(\.\d{3})+$/ : /^[+-]?\d{1,3}(,\d{3})+$/;
+  if (intPart.includes(thousands) && !grouped.test(intPart)) return null;
+
+  const normalized = intPart.split(thousands).join("") + (parts.length === 2 ? `.${parts[1]}` : "");
+  if (!/^[+-]?\d*(\.\d+)?$/.test(normalized)) return null;
+  const n = Number(normalized);
+  return Number.isFinite(n) ? n : null;
+}
+
+/** ===== Resolve "auto" a partir do conteúdo ===== */
+export function resolveCsvOptions(buf: ArrayBuffer, opts: CsvOptions = {}): ResolvedCsvOptions & { text: string } {
+  const encoding = !opts.encoding || opts.encoding === "auto" ? detectEncoding(buf) : opts.encoding;
+  const text = decodeText(buf, encoding);
+  const delimiter = !opts.delimiter || opts.delimiter === "auto" ? detectDelimiter(text) : opts.delimiter;
+
+  let numberLocale = opts.numberLocale;
+  if (!numberLocale || numberLocale === "auto") {
+    const samples = text
+      .split(/\r?\n/)
+      .slice(1, 200)
+      .flatMap((line) => line.split(delimiter))
+      .map((cell) => cell.replace(/^"|"$/g, "").trim());
+    numberLocale = detectNumberLocale(samples, delimiter);
+  }
+
+  return { encoding, delimiter, numberLocale, text };
+}
@@ -1,8 +1,28 @@
-import { get, set, del, keys, clear } from "idb-keyval";
+import { get, set, del, keys, clear, delMany, update, createStore, promisifyRequest } from "idb-keyval";
 import type { ServiceProfile } from "./serviceProfile";
+import type { MatrixLayout, ParsedKind, SheetImportMode } from "./excelParser";
+import type { TableLayout } from "./tableHeader";
+import type { ImportDiagnostic } from "./importDiagnostics";
+import type { ColumnOverride } from "./columnReview";
+import type { NumberLocale, ResolvedCsvOptions } from "./csvLocale";
+import { DATASET_SCHEMA_VERSION, loadStoredDataset } from "./datasetSchema";
+import { deleteHistory, recordSnapshot, type SnapshotInfo } from "./datasetHistory";
+import { publishDatasetChange } from "./tabSync";
+import { queueCloudChange } from "./cloudSync";
 
 // Tipos de dados detectados automaticamente
-export type ColumnType = "date" | "number" | "category" | "text" | "id";
+// (currency em reais, percent como fração 0.15, duration em horas decimais, time como "HH:mm")
+export type ColumnType =
+  | "date"
+  | "number"
+  | "currency"
+  | "percent"
+  | "boolean"
+  | "duration"
+  | "time"
+  | "category"
+  | "text"
+  | "id";
 
 export interface ColumnMetadata {
   name: string;
@@ -26,12 +46,68 @@ export interface MatrixConfig {
   valueColumn: string;
 }
 
+// Como o rawGrid foi interpretado na importação (para reconstruir as linhas após edição)
+export interface GridSource {
+  kind: ParsedKind;
+  sheetName: string;
+  matrixLayout?: MatrixLayout;
+  tableLayout?: TableLayout;
+  // CSV/JSON: a grade guarda o texto lido; a releitura converte números e datas como a importação
+  coerceValues?: boolean;
+  numberLocale?: NumberLocale;
+}
+
+// Arquivo que contribuiu linhas para o dataset (linhas marcadas com _sourceId)
+export interface ImportSource {
+  id: string;
+  fileName: string;
+  importedAt: string;
+  /** Linhas deste arquivo que continuam no dataset */
+  rowCount: number;
+  added: number;
+  replaced: number;
+  skipped: number;
+}
+
+// Como o arquivo foi lido (cabeçalho, aba, layout) e revisado: base dos modelos de importação
+export interface ImportLayout {
+  /** Assinatura do cabeçalho lido (ver headerSignature) */
+  signature: string;
+  /** Nomes das colunas como vieram do arquivo, antes da revisão */
+  headers: string[];
+  kind: ParsedKind;
+  sheetName: string;
+  /** Abas lidas juntas (sheetMode "merge"); aí sheetName é só o rótulo */
+  sheets?: string[];
+  sheetMode?: SheetImportMode;
+  tableLayout?: TableLayout;
+  matrixLayout?: MatrixLayout;
+  /** Separador, encoding e formato numérico com que o CSV foi lido */
+  csv?: ResolvedCsvOptions;
+  /** Renomear/excluir/tipo escolhidos na revisão, pelo nome lido */
+  columnOverrides?: ColumnOverride[];
+  /** Modelo aplicado na importação */
+  templateId?: string;
+}
+
+// Arquivo do disco vinculado ao dataset (o handle fica no IndexedDB, ver fileLink)
+export interface LinkedFileInfo {
+  fileName: string;
+  linkedAt: string;
+  reloadedAt?: string;
+}
+
 export interface Dataset {
   id: string;
+  // Versão do formato gravado (ver datasetSchema); ausente = anterior ao versionamento
+  schemaVersion?: number;
+  // Contador de gravações: quem grava precisa partir da revisão que está gravada
+  revision?: number;
   name: string;
   createdAt: string;
   updatedAt: string;
   rawGrid: any[][];
+  gridSource?: GridSource;
   
   // Estrutura genérica
   columns: ColumnMetadata[];
@@ -47,6 +123,21 @@ export interface Dataset {
   totalRows: number;
   summary: DatasetSummary;
   
+  // Tipos de coluna escolhidos na revisão da importação (prevalecem sobre a detecção)
+  columnTypeOverrides?: Record<string, ColumnType>;
+
+  // Arquivos de origem (importação inicial + anexados)
+  importSources?: ImportSource[];
+
+  // Avisos da importação (linhas ignoradas, valores fora do tipo) com aba e célula
+  importDiagnostics?: ImportDiagnostic[];
+
+  // Leitura e revisão da importação (para salvar como modelo)
+  importLayout?: ImportLayout;
+
+  // Arquivo local que "Recarregar" lê de novo
+  linkedFile?: LinkedFileInfo;
+
   // Configuração persistida da matriz
   matrixConfig?: MatrixConfig;
 
@@ -62,35 +153,300 @@ export interface DatasetSummary {
 }
 
 const DATASETS_PREFIX = "dataset_";
+const ROWS_PREFIX = "rows_";
+const INDEX_KEY = "datasets_index";
+const BROKEN_PREFIX = "broken_dataset_";
 const CURRENT_DATASET_KEY = "current_dataset_id";
 
-export async function saveDataset(dataset: Dataset): Promise<void> {
-  await set(`${DATASETS_PREFIX}${dataset.id}`, dataset);
+// Linhas por bloco gravado: abrir um dataset lê só os blocos dele
+export const ROW_CHUNK_SIZE = 5000;
+
+// Entrada do índice: o que a lista, o seletor e o destino do anexo precisam, sem linhas nem grade
+export interface DatasetMeta {
+  id: string;
+  name: string;
+  createdAt: string;
+  updatedAt: string;
+  totalRows: number;
+  columns: Pick<ColumnMetadata, "name" | "type">[];
+  detectedDateColumn?: string;
+  detectedCategoryColumns: string[];
+  dateRange?: { from: string; to: string };
+  serviceProfile?: Pick<ServiceProfile, "type" | "domain" | "service">;
+  importSources?: ImportSource[];
+  linkedFile?: LinkedFileInfo;
+}
+
+// Registro que não pôde ser lido nem reparado: guardado à parte, como estava
+export interface BrokenDataset {
+  id: string;
+  name?: string;
+  problems: string[];
+  quarantinedAt: string;
+  record: unknown;
+}
+
+// Registro gravado: o dataset sem as linhas, que ficam em rows_<id>_<n>
+type StoredDataset = Omit<Dataset, "rows"> & { rowChunks: number };
+
+export function datasetMeta(dataset: Dataset): DatasetMeta {
+  const profile = dataset.serviceProfile;
+  return {
+    id: dataset.id,
+    name: dataset.name,
+    createdAt: dataset.createdAt,
+    updatedAt: dataset.updatedAt,
+    totalRows: dataset.totalRows,
+    columns: dataset.columns.map((c) => ({ name: c.name, type: c.type })),
+    detectedDateColumn: dataset.detectedDateColumn,
+    detectedCategoryColumns: dataset.detectedCategoryColumns,
+    dateRange: dataset.summary?.dateRange,
+    serviceProfile: profile && { type: profile.type, domain: profile.domain, service: profile.service },
+    importSources: dataset.importSources,
+    linkedFile: dataset.linkedFile,
+  };
+}
+
+export function splitRowChunks<T>(rows: T[], size = ROW_CHUNK_SIZE): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < rows.length; i += size) chunks.push(rows.slice(i, i + size));
+  return chunks;
+}
+
+function chunkKeys(id: string, count: number) {
+  return Array.from({ length: count }, (_, i) => `${ROWS_PREFIX}${id}_${i}`);
+}
+
+function sortByUpdate<T extends { updatedAt: string }>(list: T[]): T[] {
+  return list.sort((a, b) => new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime());
+}
+
+// Mesmo banco do idb-keyval: registro e blocos passam por uma transação só,
+// sem gravação de outra aba entre a leitura do registro e a dos blocos
+const recordStore = createStore("keyval-store", "keyval");
+
+function withStoredRecord<T>(
+  mode: IDBTransactionMode,
+  id: string,
+  run: (store: IDBObjectStore, raw: unknown) => T | PromiseLike<T>
+): Promise<T> {
+  return recordStore(mode, (store) => new Promise<T>((resolve, reject) => {
+    const request = store.get(`${DATASETS_PREFIX}${id}`);
+    request.onerror = () => reject(request.error);
+    // Os pedidos seguintes saem dentro do onsuccess: a transação continua ativa
+    request.onsuccess = () => {
+      try {
+        resolve(run(store, request.result));
+      } catch (err) {
+        reject(err);
+      }
+    };
+  }));
 }
 
+async function updateIndex(change: (index: DatasetMeta[]) => DatasetMeta[]): Promise<void> {
+  await update<DatasetMeta[]>(INDEX_KEY, (index) => sortByUpdate(change(index ?? [])));
+}
+
+export interface SaveOptions {
+  /** Grava mesmo que outra aba tenha mudado o dataset (restauração de backup) */
+  force?: boolean;
+  /** Não entra na fila da nuvem (veio de lá, ou é só a migração ao carregar) */
+  localOnly?: boolean;
+}
+
+const CONFLICT_ERROR = "DatasetConflictError";
+
+/** Outra aba gravou o dataset depois que esta leu */
+export function isDatasetConflict(err: unknown): boolean {
+  return err instanceof Error && err.name === CONFLICT_ERROR;
+}
+
+function conflictError(dataset: Dataset): Error {
+  const err = new Error(`"${dataset.name}" foi alterado em outra aba; recarregue o dataset antes de salvar`);
+  err.name = CONFLICT_ERROR;
+  return err;
+}
+
+/**
+ * Grava o dataset e guarda a versão no histórico. null não gera versão
+ * (migração ao carregar, metadado que não muda os dados). Devolve o dataset
+ * com a revisão nova, que é a base da próxima gravação; partir de uma
+ * revisão mais velha que a gravada dá conflito em vez de sobrescrever.
+ */
+export async function saveDataset(
+  dataset: Dataset,
+  snapshot: SnapshotInfo | null = { reason: "edit" },
+  options: SaveOptions = {}
+): Promise<Dataset> {
+  const chunks = splitRowChunks(dataset.rows);
+  // Comparar a revisão e gravar na mesma transação: duas abas não gravam a mesma revisão + 1
+  const saved = await withStoredRecord("readwrite", dataset.id, (store, raw) => {
+    const previous = raw as StoredDataset | undefined;
+    if (previous && !options.force && (previous.revision ?? 0) !== (dataset.revision ?? 0)) throw conflictError(dataset);
+    const next: Dataset = { ...dataset, revision: Math.max(previous?.revision ?? 0, dataset.revision ?? 0) + 1 };
+    const { rows: _rows, ...rest } = next;
+    const record: StoredDataset = { ...rest, schemaVersion: DATASET_SCHEMA_VERSION, rowChunks: chunks.length };
+
+    const keys = chunkKeys(dataset.id, chunks.length);
+    chunks.forEach((chunk, i) => store.put(chunk, keys[i]));
+    store.put(record, `${DATASETS_PREFIX}${dataset.id}`);
+    // Blocos que sobraram de uma versão maior do dataset
+    for (const key of chunkKeys(dataset.id, previous?.rowChunks ?? 0).slice(chunks.length)) store.delete(key);
+    // Gravado inteiro de novo: sai da quarentena
+    store.delete(`${BROKEN_PREFIX}${dataset.id}`);
+    return promisifyRequest(store.transaction).then(() => next);
+  });
+  await updateIndex((index) => [datasetMeta(saved), ...index.filter((m) => m.id !== saved.id)]);
+  publishDatasetChange({ type: "saved", id: saved.id, revision: saved.revision });
+  if (!options.localOnly) await queueCloudChange("upsert", saved.id);
+  if (!snapshot) return saved;
+  try {
+    await recordSnapshot(saved, snapshot);
+  } catch (err) {
+    // Sem espaço para a versão: o dataset já está gravado
+    console.warn(`Versão do dataset ${saved.id} não gravada:`, err);
+  }
+  return saved;
+}
+
+/**
+ * Aplica a mudança sobre o que está gravado agora (não sobre a cópia da
+ * tela): para quem só mexe em metadados, como a classificação em background.
+ */
+export async function updateStoredDataset(
+  id: string,
+  change: (latest: Dataset) => Dataset,
+  snapshot: SnapshotInfo | null = { reason: "edit" }
+): Promise<Dataset | undefined> {
+  const latest = await getDataset(id);
+  return latest && saveDataset(change(latest), snapshot);
+}
+
+/** Registro gravado (sem as linhas) e as chaves dos blocos: para medir o espaço sem montar o dataset */
+export async function storedDatasetParts(id: string): Promise<{ record: unknown; rowKeys: string[] }> {
+  const record = await get(`${DATASETS_PREFIX}${id}`);
+  const chunks = record && typeof record === "object" && "rowChunks" in record ? (record as StoredDataset).rowChunks : 0;
+  return { record, rowKeys: chunkKeys(id, chunks) };
+}
+
+/** Registro + blocos de linhas; registros antigos ainda têm as linhas dentro */
+function readStoredRecord(id: string): Promise<unknown> {
+  return withStoredRecord("readonly", id, async (store, raw) => {
+    if (!raw || typeof raw !== "object" || !("rowChunks" in raw)) return raw;
+    const { rowChunks, ...record } = raw as StoredDataset;
+    const chunks = await Promise.all(
+      chunkKeys(id, rowChunks).map((key) => promisifyRequest<Dataset["rows"] | undefined>(store.get(key)))
+    );
+    // Bloco faltando: linhas incompletas, a validação manda para o reparo
+    const rows = chunks.some((c) => !Array.isArray(c)) ? undefined : chunks.flat();
+    return { ...record, rows };
+  });
+}
+
+/**
+ * Migra/repara o registro lido; regrava se mudou. Sem conserto, vai para a
+ * quarentena e sai da lista, mas o registro, os blocos e o histórico ficam
+ * gravados: um bloco que não veio pode ser só uma leitura ruim.
+ */
+async function loadRecord(id: string, raw: unknown): Promise<Dataset | undefined> {
+  if (raw === undefined) return undefined;
+  const loaded = loadStoredDataset(raw, id);
+  if (!loaded.dataset) {
+    const name = typeof raw === "object" && raw !== null ? (raw as { name?: unknown }).name : undefined;
+    const broken: BrokenDataset = {
+      id,
+      name: typeof name === "string" ? name : undefined,
+      problems: loaded.problems,
+      quarantinedAt: new Date().toISOString(),
+      record: raw,
+    };
+    console.warn(`Dataset ${id} não pôde ser lido:`, loaded.problems);
+    await update<BrokenDataset>(`${BROKEN_PREFIX}${id}`, (previous) => ({
+      ...broken,
+      quarantinedAt: previous?.quarantinedAt ?? broken.quarantinedAt,
+    }));
+    await updateIndex((index) => index.filter((m) => m.id !== id));
+    publishDatasetChange({ type: "deleted", id });
+    return undefined;
+  }
+  return loaded.changed ? saveDataset(loaded.dataset, null, { localOnly: true }) : loaded.dataset;
+}
+
+/** Dataset completo, com as linhas (carregado quando é selecionado) */
 export async function getDataset(id: string): Promise<Dataset | undefined> {
-  return await get(`${DATASETS_PREFIX}${id}`);
+  return loadRecord(id, await readStoredRecord(id));
+}
+
+export async function deleteDataset(id: string, options: Pick<SaveOptions, "localOnly"> = {}): Promise<void> {
+  const record = await get<StoredDataset>(`${DATASETS_PREFIX}${id}`);
+  await delMany([`${DATASETS_PREFIX}${id}`, ...chunkKeys(id, record?.rowChunks ?? 0)]);
+  await updateIndex((index) => index.filter((m) => m.id !== id));
+  await deleteHistory(id);
+  publishDatasetChange({ type: "deleted", id });
+  if (!options.localOnly) await queueCloudChange("delete", id);
 }
 
-export async function deleteDataset(id: string): Promise<void> {
-  await del(`${DATASETS_PREFIX}${id}`);
+function keyIds(allKeys: IDBValidKey[], prefix: string): string[] {
+  return allKeys
+    .filter((key): key is string => typeof key === "string" && key.startsWith(prefix))
+    .map((key) => key.slice(prefix.length));
 }
 
+/** Datasets gravados, sem os que estão em quarentena */
+function datasetIds(allKeys: IDBValidKey[]): string[] {
+  const broken = new Set(keyIds(allKeys, BROKEN_PREFIX));
+  return keyIds(allKeys, DATASETS_PREFIX).filter((id) => !broken.has(id));
+}
+
+/**
+ * Índice dos datasets, sem abrir nenhum. Sem índice (primeira carga depois
+ * da atualização) ou com registro fora dele, lê os datasets uma vez e monta.
+ */
+export async function getDatasetIndex(): Promise<DatasetMeta[]> {
+  const [index, allKeys] = await Promise.all([get<DatasetMeta[]>(INDEX_KEY), keys()]);
+  const ids = datasetIds(allKeys);
+  const indexed = new Set((index ?? []).map((m) => m.id));
+  if (index && ids.length === indexed.size && ids.every((id) => indexed.has(id))) return index;
+
+  const metas: DatasetMeta[] = [];
+  for (const id of ids) {
+    const known = index?.find((m) => m.id === id);
+    const dataset = known ? undefined : await getDataset(id);
+    if (known) metas.push(known);
+    else if (dataset) metas.push(datasetMeta(dataset));
+  }
+  const rebuilt = sortByUpdate(metas);
+  await set(INDEX_KEY, rebuilt);
+  return rebuilt;
+}
+
+/** Todos os datasets com as linhas (backup/exportação; a lista usa o índice) */
 export async function getAllDatasets(): Promise<Dataset[]> {
-  const allKeys = await keys();
-  const datasetKeys = allKeys.filter(
-    (key) => typeof key === "string" && key.startsWith(DATASETS_PREFIX)
-  );
-  
   const datasets: Dataset[] = [];
-  for (const key of datasetKeys) {
-    const dataset = await get(key as string);
-    if (dataset) datasets.push(dataset as Dataset);
+  for (const meta of await getDatasetIndex()) {
+    const dataset = await getDataset(meta.id);
+    if (dataset) datasets.push(dataset);
   }
-  
-  return datasets.sort((a, b) => 
-    new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime()
+  return sortByUpdate(datasets);
+}
+
+export async function getBrokenDatasets(): Promise<BrokenDataset[]> {
+  const brokenKeys = (await keys()).filter(
+    (key) => typeof key === "string" && key.startsWith(BROKEN_PREFIX)
   );
+  const broken: BrokenDataset[] = [];
+  for (const key of brokenKeys) {
+    const record = await get(key as string);
+    if (record) broken.push(record as BrokenDataset);
+  }
+  return broken.sort((a, b) => b.quarantinedAt.localeCompare(a.quarantinedAt));
+}
+
+/** Descarta o que ficou gravado do dataset em quarentena (a cópia da nuvem, se houver, continua lá) */
+export async function deleteBrokenDataset(id: string): Promise<void> {
+  await deleteDataset(id, { localOnly: true });
+  await del(`${BROKEN_PREFIX}${id}`);
 }
 
 export async function setCurrentDatasetId(id: string): Promise<void> {
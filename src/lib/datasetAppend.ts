@@ -0,0 +1,180 @@
+/**
+ * Dataset append
+ * Anexa o arquivo de um novo período a um dataset existente: confere se os
+ * esquemas batem, remove duplicatas por uma chave (ex.: pessoa + data na RDA),
+ * recalcula o summary e registra qual arquivo trouxe quais linhas.
+ */
+
+import type { ColumnMetadata, ColumnType, Dataset, GenericRow, ImportSource } from "./database";
+import { generateId } from "./database";
+import { normalizeDate } from "./cellValues";
+import { rebuildDataset } from "./datasetBuilder";
+import { syncGridFromRows } from "./gridSync";
+
+export type DuplicateStrategy = "replace" | "skip";
+
+export interface AppendOptions {
+  datasetId: string;
+  /** Colunas que identificam a mesma linha nos dois arquivos; vazio = sem deduplicação */
+  dedupeKey: string[];
+  /** Linha repetida: o arquivo novo substitui a antiga ou é ignorado */
+  onDuplicate: DuplicateStrategy;
+}
+
+export interface SchemaCheck {
+  compatible: boolean;
+  /** Colunas do dataset que o arquivo novo não tem */
+  missing: string[];
+  /** Colunas novas que só o arquivo tem */
+  extra: string[];
+  typeMismatches: { column: string; expected: ColumnType; received: ColumnType }[];
+  /** Colunas da chave ausentes em um dos lados */
+  missingKey: string[];
+}
+
+const RDA_KEY = ["pessoa", "data"];
+const STRICT_TYPES: ColumnType[] = ["number", "currency", "percent", "duration", "date", "time", "boolean"];
+
+/** Chave sugerida: pessoa + data na RDA; senão a coluna de data com a primeira categoria */
+export function suggestDedupeKey(
+  dataset: Pick<Dataset, "detectedDateColumn" | "detectedCategoryColumns"> & { columns: { name: string }[] }
+): string[] {
+  const names = dataset.columns.map((c) => c.name);
+  if (RDA_KEY.every((k) => names.includes(k))) return RDA_KEY;
+  if (dataset.detectedDateColumn && dataset.detectedCategoryColumns.length) {
+    return [dataset.detectedDateColumn, dataset.detectedCategoryColumns[0]];
+  }
+  return [];
+}
+
+export type SchemaColumn = Pick<ColumnMetadata, "name" | "type"> & { isEmpty?: boolean };
+
+export function checkSchemaCompatibility(
+  target: SchemaColumn[],
+  incoming: SchemaColumn[],
+  dedupeKey: string[] = []
+): SchemaCheck {
+  const targetTypes = new Map(target.map((c) => [c.name, c.type]));
+  const incomingTypes = new Map(incoming.map((c) => [c.name, c.type]));
+
+  const missing = target.map((c) => c.name).filter((n) => !incomingTypes.has(n));
+  const extra = incoming.map((c) => c.name).filter((n) => !targetTypes.has(n));
+  const shared = target.filter((c) => incomingTypes.has(c.name));
+
+  // Categoria x texto não importa; tipos de valor trocados quebram KPIs e filtros
+  const typeMismatches = shared
+    .map((c) => ({ column: c.name, expected: c.type, received: incomingTypes.get(c.name) as ColumnType }))
+    .filter((m) => m.expected !== m.received && (STRICT_TYPES.includes(m.expected) || STRICT_TYPES.includes(m.received)))
+    // Coluna toda vazia no arquivo novo não tem tipo de verdade
+    .filter((m) => !incoming.find((c) => c.name === m.column)?.isEmpty);
+
+  const missingKey = dedupeKey.filter((k) => !targetTypes.has(k) || !incomingTypes.has(k));
+
+  return {
+    compatible:
+      shared.length > 0 &&
+      shared.length >= target.length / 2 &&
+      typeMismatches.length === 0 &&
+      missingKey.length === 0,
+    missing,
+    extra,
+    typeMismatches,
+    missingKey,
+  };
+}
+
+function keyPart(value: unknown): string {
+  if (value == null) return "";
+  const date = value instanceof Date || typeof value === "string" ? normalizeDate(value) : null;
+  return (date ?? String(value)).trim().toUpperCase();
+}
+
+export function rowKey(row: Record<string, unknown>, dedupeKey: string[]): string | null {
+  if (!dedupeKey.length) return null;
+  const parts = dedupeKey.map((k) => keyPart(row[k]));
+  return parts.every((p) => p === "") ? null : parts.join("|");
+}
+
+/** Registro de um arquivo importado; `rowCount` linhas entram como novas */
+export function newSource(fileName: string, rowCount = 0, importedAt = new Date().toISOString()): ImportSource {
+  return { id: generateId().replace(/^ds_/, "src_"), fileName, importedAt, rowCount, added: rowCount, replaced: 0, skipped: 0 };
+}
+
+/** Marca todas as linhas com o arquivo de origem (importação de um dataset novo) */
+export function tagImportSource(dataset: Dataset, fileName: string): Dataset {
+  const source = newSource(fileName, dataset.rows.length);
+  return {
+    ...dataset,
+    rows: dataset.rows.map((row) => ({ ...row, _sourceId: source.id })),
+    importSources: [source],
+  };
+}
+
+export interface AppendResult {
+  dataset: Dataset;
+  source: ImportSource;
+}
+
+export function appendDataset(
+  target: Dataset,
+  incoming: Dataset,
+  options: Pick<AppendOptions, "dedupeKey" | "onDuplicate">,
+  fileName = incoming.name
+): AppendResult {
+  const sources = [...(target.importSources ?? [])];
+
+  // Datasets anteriores ao registro de origem: as linhas atuais viram a primeira fonte
+  let legacyId: string | null = null;
+  if (target.rows.some((r) => !r._sourceId)) {
+    const legacy = newSource(target.name, 0, target.createdAt);
+    legacyId = legacy.id;
+    sources.unshift(legacy);
+  }
+
+  const source = newSource(fileName);
+  const rows: Record<string, unknown>[] = target.rows.map(({ _rowIndex, ...row }) =>
+    row._sourceId ? row : { ...row, _sourceId: legacyId }
+  );
+
+  const indexByKey = new Map<string, number>();
+  rows.forEach((row, i) => {
+    const key = rowKey(row, options.dedupeKey);
+    if (key) indexByKey.set(key, i);
+  });
+
+  // Datas do arquivo novo no mesmo formato (ISO) das já gravadas
+  const dateColumns = target.columns.filter((c) => c.type === "date").map((c) => c.name);
+
+  for (const { _rowIndex, _sourceId, ...row } of incoming.rows as GenericRow[]) {
+    for (const col of dateColumns) {
+      if (row[col] != null && typeof row[col] !== "number") row[col] = normalizeDate(row[col]) ?? row[col];
+    }
+    const tagged = { ...row, _sourceId: source.id };
+    const key = rowKey(row, options.dedupeKey);
+    const existing = key ? indexByKey.get(key) : undefined;
+
+    if (existing === undefined) {
+      if (key) indexByKey.set(key, rows.length);
+      rows.push(tagged);
+      source.added++;
+    } else if (options.onDuplicate === "replace") {
+      rows[existing] = tagged;
+      source.replaced++;
+    } else {
+      source.skipped++;
+    }
+  }
+  sources.push(source);
+
+  // Linhas substituídas saem da conta do arquivo antigo
+  const counts = new Map<string, number>();
+  for (const row of rows) counts.set(String(row._sourceId), (counts.get(String(row._sourceId)) ?? 0) + 1);
+  const importSources = sources.map((s) => ({ ...s, rowCount: counts.get(s.id) ?? 0 }));
+
+  const importDiagnostics = [...(target.importDiagnostics ?? []), ...(incoming.importDiagnostics ?? [])];
+  const rebuilt = rebuildDataset({ ...target, importSources, importDiagnostics }, rows);
+  return {
+    dataset: syncGridFromRows(rebuilt),
+    source: importSources[importSources.length - 1],
+  };
+}
@@ -0,0 +1,359 @@
+/**
+ * Dataset Builder
+ * Monta a parte derivada de um Dataset (colunas, tipos detectados, summary)
+ * a partir de linhas já normalizadas. Usado pela importação e por qualquer
+ * edição que altere as linhas.
+ */
+
+import type { Dataset, GenericRow, ColumnMetadata, ColumnType, DatasetSummary } from "./database";
+import { generateId } from "./database";
+import {
+  isCurrencyText,
+  isDateLike,
+  isDurationText,
+  isEmptyCell,
+  isExcelTimeValue,
+  isPercentText,
+  normalizeDate,
+  parseBoolean,
+  parseDateTime,
+  parseCurrency,
+  parseDuration,
+  parseNumeric,
+  parsePercent,
+  parseTimeOfDay,
+} from "./cellValues";
+import type { NumberLocale } from "./csvLocale";
+
+/** Chaves de controle guardadas nas linhas que não são colunas do usuário */
+const INTERNAL_KEYS = new Set(["_rowIndex", "_sourceId"]);
+
+export function isInternalKey(key: string) {
+  return INTERNAL_KEYS.has(key);
+}
+
+/** Tipos numéricos (entram em detectedNumericColumns e numericStats) */
+export const NUMERIC_TYPES: ColumnType[] = ["number", "currency", "percent", "duration"];
+
+/** Tipos cujo valor gravado já não permite redetectar o formato (1200 não diz que era "R$ 1.200,00") */
+const FORMATTED_TYPES: ColumnType[] = ["currency", "percent", "boolean", "duration", "time"];
+
+export function isNumericType(type: ColumnType) {
+  return NUMERIC_TYPES.includes(type);
+}
+
+// "08:30" numa coluna de banco de horas é quantidade, não hora do dia
+const DURATION_NAME = /banco|saldo|horas|hrs|dura[cç][aã]o|extra|jornada|total/i;
+
+export function detectColumnType(values: unknown[], numberLocale?: NumberLocale, columnName = ""): ColumnType {
+  const nonEmpty = values.filter(v => v != null && String(v).trim() !== "");
+  if (nonEmpty.length === 0) return "text";
+  const ratio = (test: (v: unknown) => boolean) => nonEmpty.filter(test).length / nonEmpty.length;
+
+  // Números soltos não são datas: datas de planilha chegam como Date (cellDates) ou texto
+  if (ratio(v => typeof v !== "number" && isDateLike(v)) > 0.7) return "date";
+
+  if (ratio(v => parseBoolean(v) !== null) > 0.9) return "boolean";
+
+  // Horas: Date de hora do Excel, "08:30", "8h30"
+  if (ratio(v => isExcelTimeValue(v) || isDurationText(v)) > 0.7) {
+    const beyondDay = nonEmpty.some(v => {
+      const h = parseDuration(v);
+      return h !== null && (h < 0 || h >= 24);
+    });
+    const hourUnits = nonEmpty.some(v => typeof v === "string" && /h/i.test(v));
+    if (beyondDay || hourUnits || DURATION_NAME.test(columnName)) return "duration";
+    if (ratio(v => parseTimeOfDay(v) !== null) > 0.7) return "time";
+  }
+
+  if (ratio(isCurrencyText) > 0.7) return "currency";
+  if (ratio(isPercentText) > 0.7) return "percent";
+
+  if (ratio(v => parseNumeric(v, numberLocale) !== null) > 0.7) return "number";
+
+  const uniqueValues = new Set(nonEmpty.map(v => String(v).trim().toUpperCase()));
+  if (uniqueValues.size <= Math.min(50, nonEmpty.length * 0.3)) return "category";
+
+  if (uniqueValues.size === nonEmpty.length && nonEmpty.length > 5) return "id";
+
+  return "text";
+}
+
+/** Converte um valor para a representação gravada do tipo; null se não couber */
+export function coerceValue(value: unknown, type: ColumnType, numberLocale?: NumberLocale): unknown {
+  switch (type) {
+    case "number": return parseNumeric(value, numberLocale);
+    case "currency": return parseCurrency(value, numberLocale) ?? parseNumeric(value, numberLocale);
+    case "percent": return parsePercent(value, numberLocale) ?? parseNumeric(value, numberLocale);
+    case "boolean": return parseBoolean(value);
+    case "duration": return parseDuration(value);
+    case "time": return parseTimeOfDay(value);
+    case "date": return typeof value === "string" || value instanceof Date ? normalizeDate(value) : null;
+    default: return value;
+  }
+}
+
+/** Nomes de colunas na ordem em que aparecem (união de todas as linhas) */
+export function collectColumnNames(rows: Record<string, unknown>[]): string[] {
+  const columnSet = new Set<string>();
+  for (const row of rows) {
+    for (const k of Object.keys(row)) columnSet.add(k);
+  }
+  return Array.from(columnSet).filter(k => !isInternalKey(k));
+}
+
+export function buildColumnMetadata(name: string, index: number, colValues: unknown[], type: ColumnType): ColumnMetadata {
+  const uniqueSet = new Set<string>();
+  for (const v of colValues) {
+    if (!isEmptyCell(v)) uniqueSet.add(String(v).trim());
+  }
+
+  return {
+    name,
+    originalIndex: index,
+    type,
+    uniqueValues: Array.from(uniqueSet).slice(0, 100),
+    sampleValues: colValues.slice(0, 10),
+    isNumeric: isNumericType(type),
+    isDate: type === "date",
+    isEmpty: colValues.every(v => isEmptyCell(v)),
+  };
+}
+
+export function buildColumns(
+  rows: Record<string, unknown>[],
+  numberLocale?: NumberLocale,
+  typeOverrides?: Record<string, ColumnType>
+): ColumnMetadata[] {
+  return collectColumnNames(rows).map((name, index) => {
+    const colValues = rows.map(r => r[name]);
+    const type = typeOverrides?.[name] ?? detectColumnType(colValues, numberLocale, name);
+    return buildColumnMetadata(name, index, colValues, type);
+  });
+}
+
+/** Texto -> valor tipado nas colunas tipadas (CSV chega todo como texto) */
+export function coerceColumnValues(
+  rows: Record<string, unknown>[],
+  columns: ColumnMetadata[],
+  numberLocale?: NumberLocale
+): Record<string, unknown>[] {
+  const typed = columns.filter(c => c.type === "number" || c.type === "date" || FORMATTED_TYPES.includes(c.type));
+  if (!typed.length) return rows;
+
+  return rows.map(row => {
+    const out = { ...row };
+    for (const col of typed) {
+      const v = row[col.name];
+      // Já tipado (número, booleano) fica como está; Date vira "yyyy-MM-dd" ou hora conforme a coluna
+      const convertible = typeof v === "string" || (v instanceof Date && (col.type === "date" || col.type === "time" || col.type === "duration"));
+      if (!convertible) continue;
+      if (isEmptyCell(v)) {
+        out[col.name] = null;
+      } else {
+        out[col.name] = coerceValue(v, col.type, numberLocale) ?? v;
+      }
+    }
+    return out;
+  });
+}
+
+/** Nome da coluna de hora separada de uma coluna de data/hora */
+export function timeColumnName(dateColumn: string) {
+  return `${dateColumn} (hora)`;
+}
+
+/**
+ * Colunas de data com hora ("15/03/2024 08:30", ISO, Date com horário) viram
+ * data pura + coluna "<nome> (hora)" logo depois, para análise por turno/hora.
+ */
+export function splitDateTimeColumns(
+  rows: Record<string, unknown>[],
+  columns: ColumnMetadata[]
+): { rows: Record<string, unknown>[]; columns: ColumnMetadata[] } {
+  const names = new Set(columns.map(c => c.name));
+  const withTime = columns.filter(c =>
+    c.type === "date" &&
+    !names.has(timeColumnName(c.name)) &&
+    rows.some(r => parseDateTime(r[c.name])?.time)
+  );
+  if (!withTime.length) return { rows, columns };
+
+  const split = rows.map(row => {
+    const out = { ...row };
+    for (const col of withTime) {
+      const parsed = parseDateTime(row[col.name]);
+      if (parsed) out[col.name] = parsed.date;
+      out[timeColumnName(col.name)] = parsed?.time ?? null;
+    }
+    return out;
+  });
+
+  const ordered: ColumnMetadata[] = [];
+  for (const col of columns) {
+    ordered.push(col);
+    if (withTime.includes(col)) ordered.push({ ...col, name: timeColumnName(col.name), type: "time" });
+  }
+  return {
+    rows: split,
+    columns: ordered.map((c, i) => buildColumnMetadata(c.name, i, split.map(r => r[c.name]), c.type)),
+  };
+}
+
+export function buildSummary(
+  rows: GenericRow[],
+  columns: ColumnMetadata[],
+  dateRange?: { min?: string; max?: string }
+): DatasetSummary {
+  const dateColumn = columns.find(c => c.type === "date");
+  const summary: DatasetSummary = {
+    totalRecords: rows.length,
+    categoryCounts: {},
+    numericStats: {},
+  };
+
+  if (dateRange?.min && dateRange?.max) {
+    summary.dateRange = { from: normalizeDate(dateRange.min) ?? dateRange.min, to: normalizeDate(dateRange.max) ?? dateRange.max };
+  } else if (dateColumn) {
+    const dates = rows
+      .map(r => normalizeDate(r[dateColumn.name]))
+      .filter((d): d is string => !!d)
+      .sort();
+    if (dates.length > 0) {
+      summary.dateRange = { from: dates[0], to: dates[dates.length - 1] };
+    }
+  }
+
+  for (const col of columns.filter(c => c.type === "category" || c.type === "boolean")) {
+    const counts: { [value: string]: number } = {};
+    for (const row of rows) {
+      const raw = row[col.name];
+      const v = typeof raw === "boolean" ? (raw ? "Sim" : "Não") : String(raw || "").trim() || "(vazio)";
+      counts[v] = (counts[v] || 0) + 1;
+    }
+    summary.categoryCounts[col.name] = counts;
+  }
+
+  for (const col of columns.filter(c => isNumericType(c.type))) {
+    // Laço simples: Math.min(...values) estoura a pilha em planilhas grandes
+    let min = Infinity;
+    let max = -Infinity;
+    let sum = 0;
+    let count = 0;
+    for (const row of rows) {
+      const n = parseNumeric(row[col.name]);
+      if (n === null) continue;
+      if (n < min) min = n;
+      if (n > max) max = n;
+      sum += n;
+      count++;
+    }
+    if (count > 0) {
+      summary.numericStats[col.name] = { min, max, avg: sum / count, sum };
+    }
+  }
+
+  return summary;
+}
+
+type DerivedFields = Pick<
+  Dataset,
+  | "columns"
+  | "rows"
+  | "detectedDateColumn"
+  | "detectedCategoryColumns"
+  | "detectedNumericColumns"
+  | "detectedTextColumns"
+  | "totalRows"
+  | "summary"
+>;
+
+/** Recalcula tudo que é derivado das linhas (colunas já tipadas ou detectadas aqui) */
+export function deriveDatasetFields(
+  rows: Record<string, unknown>[],
+  opts?: {
+    columns?: ColumnMetadata[];
+    dateRange?: { min?: string; max?: string };
+    /** Converte texto em número conforme o tipo detectado (CSV); datas, moeda, %, horas e sim/não sempre */
+    coerceValues?: boolean;
+    numberLocale?: NumberLocale;
+    /** Tipos escolhidos pelo usuário (revisão de colunas) */
+    typeOverrides?: Record<string, ColumnType>;
+  }
+): DerivedFields {
+  let columns = opts?.columns ?? buildColumns(rows, opts?.numberLocale, opts?.typeOverrides);
+  ({ rows, columns } = splitDateTimeColumns(rows, columns));
+  // Datas sempre em "yyyy-MM-dd": o summary e os filtros comparam como texto
+  const toCoerce = opts?.coerceValues ? columns : columns.filter(c => c.type === "date" || FORMATTED_TYPES.includes(c.type));
+  if (toCoerce.length) {
+    rows = coerceColumnValues(rows, toCoerce, opts?.numberLocale);
+    columns = columns.map(c => buildColumnMetadata(c.name, c.originalIndex, rows.map(r => r[c.name]), c.type));
+  }
+
+  const genericRows: GenericRow[] = rows.map((row, idx) => ({
+    ...row,
+    _rowIndex: idx,
+  }));
+
+  return {
+    columns,
+    rows: genericRows,
+    detectedDateColumn: columns.find(c => c.type === "date")?.name,
+    detectedCategoryColumns: columns.filter(c => c.type === "category" || c.type === "boolean").map(c => c.name),
+    detectedNumericColumns: columns.filter(c => isNumericType(c.type)).map(c => c.name),
+    detectedTextColumns: columns.filter(c => c.type === "text" || c.type === "id" || c.type === "time").map(c => c.name),
+    totalRows: genericRows.length,
+    summary: buildSummary(genericRows, columns, opts?.dateRange),
+  };
+}
+
+export function createDataset(
+  name: string,
+  rows: Record<string, unknown>[],
+  extra?: Partial<Dataset> & {
+    dateRange?: { min?: string; max?: string };
+    coerceValues?: boolean;
+    numberLocale?: NumberLocale;
+    /** Tipos sugeridos pelo formato das células (ex.: "R$ #.##0,00" no Excel) */
+    typeHints?: Record<string, ColumnType>;
+  }
+): Dataset {
+  const { dateRange, coerceValues, numberLocale, typeHints, ...rest } = extra ?? {};
+  const now = new Date().toISOString();
+
+  return {
+    id: generateId(),
+    name,
+    createdAt: now,
+    updatedAt: now,
+    rawGrid: [],
+    ...deriveDatasetFields(rows, { dateRange, coerceValues, numberLocale, typeOverrides: typeHints }),
+    ...rest,
+  };
+}
+
+/** Grade "cabeçalho + linhas" equivalente às linhas de uma tabela */
+export function tableGridFromRows(rows: Record<string, unknown>[], columnNames = collectColumnNames(rows)): unknown[][] {
+  return [
+    columnNames,
+    ...rows.map(row => columnNames.map(name => row[name] ?? null)),
+  ];
+}
+
+/** Mesma identidade (id, perfil, matriz), linhas novas */
+export function rebuildDataset(
+  dataset: Dataset,
+  rows: Record<string, unknown>[],
+  opts?: { coerceValues?: boolean; numberLocale?: NumberLocale }
+): Dataset {
+  const clean = rows.map(({ _rowIndex, ...rest }) => rest);
+  // Moeda/percentual/horas/sim-não já gravados como valor puro: mantém o tipo anterior
+  const formatted = Object.fromEntries(
+    dataset.columns.filter(c => FORMATTED_TYPES.includes(c.type)).map(c => [c.name, c.type])
+  );
+  return {
+    ...dataset,
+    ...deriveDatasetFields(clean, { ...opts, typeOverrides: { ...formatted, ...dataset.columnTypeOverrides } }),
+    updatedAt: new Date().toISOString(),
+  };
+}
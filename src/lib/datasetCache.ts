@@ -0,0 +1,68 @@
+/**
+ * Dataset memory cache
+ * Datasets abertos ficam em memória para trocar de um para outro sem reler o
+ * IndexedDB, até um orçamento de células (linhas x colunas). Passou do
+ * orçamento, os menos usados saem; o ativo nunca sai.
+ */
+
+import type { Dataset } from "./database";
+
+// ~1,5 milhão de células: algumas RDAs grandes sem pesar no navegador
+export const MEMORY_BUDGET_CELLS = 1_500_000;
+
+export function datasetCells(dataset: Dataset): number {
+  return dataset.rows.length * Math.max(1, dataset.columns.length);
+}
+
+export interface DatasetCache {
+  get: (id: string) => Dataset | undefined;
+  /** Guarda (ou atualiza) e libera os inativos que passaram do orçamento */
+  put: (dataset: Dataset, activeId?: string) => string[];
+  /** Atualiza a cópia em cache sem mudar a ordem de uso (ex.: classificação em background) */
+  replace: (dataset: Dataset) => void;
+  remove: (id: string) => void;
+  /** Esvazia (ex.: depois de restaurar um backup, o gravado mudou por baixo) */
+  clear: () => void;
+  ids: () => string[];
+  usedCells: () => number;
+}
+
+export function createDatasetCache(budgetCells = MEMORY_BUDGET_CELLS): DatasetCache {
+  // Map mantém a ordem de inserção: o primeiro é o usado há mais tempo
+  const entries = new Map<string, Dataset>();
+  const usedCells = () => Array.from(entries.values()).reduce((sum, d) => sum + datasetCells(d), 0);
+
+  return {
+    get: (id) => {
+      const dataset = entries.get(id);
+      if (dataset) {
+        entries.delete(id);
+        entries.set(id, dataset);
+      }
+      return dataset;
+    },
+    put: (dataset, activeId = dataset.id) => {
+      entries.delete(dataset.id);
+      entries.set(dataset.id, dataset);
+      const evicted: string[] = [];
+      let used = usedCells();
+      for (const [id, cached] of entries) {
+        if (used <= budgetCells) break;
+        if (id === activeId) continue;
+        entries.delete(id);
+        evicted.push(id);
+        used -= datasetCells(cached);
+      }
+      return evicted;
+    },
+    replace: (dataset) => {
+      if (entries.has(dataset.id)) entries.set(dataset.id, dataset);
+    },
+    remove: (id) => {
+      entries.delete(id);
+    },
+    clear: () => entries.clear(),
+    ids: () => Array.from(entries.keys()),
+    usedCells,
+  };
+}
@@ -0,0 +1,151 @@
+/**
+ * Dataset diff
+ * Compara o dataset gravado com uma nova leitura do mesmo arquivo: linhas
+ * novas, removidas e alteradas (pela chave de deduplicação, ex.: pessoa +
+ * data na RDA) e aplica a nova leitura mantendo id, perfil, matriz e o resto
+ * da configuração do dataset.
+ */
+
+import type { Dataset, GenericRow } from "./database";
+import { rowKey, suggestDedupeKey, tagImportSource } from "./datasetAppend";
+
+type Row = Record<string, unknown>;
+
+export interface RowChange {
+  key: string;
+  before: Row;
+  after: Row;
+  /** Colunas com valor diferente */
+  columns: string[];
+}
+
+export interface DatasetDiff {
+  /** Colunas usadas para casar as linhas; vazio = linha inteira (ou posição, com byPosition) */
+  key: string[];
+  byPosition: boolean;
+  added: Row[];
+  removed: Row[];
+  changed: RowChange[];
+  unchanged: number;
+  addedColumns: string[];
+  removedColumns: string[];
+}
+
+const INTERNAL = new Set(["_rowIndex", "_sourceId"]);
+
+function dataColumns(dataset: Dataset) {
+  return dataset.columns.map((c) => c.name).filter((n) => !INTERNAL.has(n));
+}
+
+function cellText(value: unknown): string {
+  if (value == null) return "";
+  return typeof value === "number" ? String(Math.round(value * 1e9) / 1e9) : String(value).trim();
+}
+
+function contentKey(row: Row, columns: string[]): string {
+  return columns.map((c) => cellText(row[c])).join("\u0001");
+}
+
+/**
+ * A chave só serve se identificar as linhas nos dois lados; com chave
+ * repetida no dataset atual, compara a linha inteira (só novas/removidas).
+ */
+function diffKey(current: Dataset, next: Dataset): string[] {
+  const key = suggestDedupeKey(current);
+  const nextColumns = new Set(dataColumns(next));
+  if (!key.length || !key.every((k) => nextColumns.has(k))) return [];
+  const seen = new Set<string>();
+  for (const row of current.rows) {
+    const k = rowKey(row, key);
+    if (k == null || seen.has(k)) return [];
+    seen.add(k);
+  }
+  return key;
+}
+
+export interface DiffOptions {
+  /**
+   * Sem chave única, casa as linhas pela posição (_rowIndex) em vez do
+   * conteúdo: versões do mesmo dataset editadas na Planilha mostram a célula
+   * alterada em vez de removida + nova.
+   */
+  byPosition?: boolean;
+}
+
+export function diffDatasets(current: Dataset, next: Dataset, options: DiffOptions = {}): DatasetDiff {
+  const before = dataColumns(current);
+  const after = dataColumns(next);
+  const shared = before.filter((c) => after.includes(c));
+  const key = diffKey(current, next);
+  const byPosition = !key.length && !!options.byPosition;
+  const identify = (row: Row) => {
+    if (key.length) return rowKey(row, key) ?? contentKey(row, shared);
+    return byPosition ? `#${String(row._rowIndex)}` : contentKey(row, shared);
+  };
+
+  // Fila por chave: linhas iguais repetidas casam na ordem
+  const pool = new Map<string, Row[]>();
+  for (const row of current.rows) {
+    const k = identify(row);
+    pool.set(k, [...(pool.get(k) ?? []), row]);
+  }
+
+  const diff: DatasetDiff = {
+    key,
+    byPosition,
+    added: [],
+    removed: [],
+    changed: [],
+    unchanged: 0,
+    addedColumns: after.filter((c) => !before.includes(c)),
+    removedColumns: before.filter((c) => !after.includes(c)),
+  };
+
+  for (const row of next.rows) {
+    const k = identify(row);
+    const match = pool.get(k)?.shift();
+    if (!match) {
+      diff.added.push(row);
+      continue;
+    }
+    const columns = shared.filter((c) => cellText(match[c]) !== cellText(row[c]));
+    if (columns.length) diff.changed.push({ key: k, before: match, after: row, columns });
+    else diff.unchanged++;
+  }
+  for (const rest of pool.values()) diff.removed.push(...rest);
+  return diff;
+}
+
+export function hasChanges(diff: DatasetDiff): boolean {
+  return !!(diff.added.length || diff.removed.length || diff.changed.length || diff.addedColumns.length || diff.removedColumns.length);
+}
+
+/**
+ * Troca os dados pelos da nova leitura. Fica do dataset atual tudo que não
+ * vem do arquivo: id, nome, criação, perfil de serviço, matriz, tipos
+ * escolhidos e o vínculo com o arquivo.
+ */
+export function applyReload(current: Dataset, next: Dataset, fileName: string): Dataset {
+  const tagged = tagImportSource(next, fileName);
+  return {
+    ...current,
+    rawGrid: tagged.rawGrid,
+    gridSource: tagged.gridSource ?? current.gridSource,
+    columns: tagged.columns,
+    rows: tagged.rows as GenericRow[],
+    detectedDateColumn: tagged.detectedDateColumn,
+    detectedCategoryColumns: tagged.detectedCategoryColumns,
+    detectedNumericColumns: tagged.detectedNumericColumns,
+    detectedTextColumns: tagged.detectedTextColumns,
+    totalRows: tagged.totalRows,
+    summary: tagged.summary,
+    columnTypeOverrides: tagged.columnTypeOverrides ?? current.columnTypeOverrides,
+    importSources: tagged.importSources,
+    importDiagnostics: tagged.importDiagnostics,
+    importLayout: tagged.importLayout
+      ? { ...tagged.importLayout, templateId: current.importLayout?.templateId }
+      : current.importLayout,
+    linkedFile: current.linkedFile && { ...current.linkedFile, reloadedAt: new Date().toISOString() },
+    updatedAt: new Date().toISOString(),
+  };
+}
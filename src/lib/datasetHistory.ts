@@ -0,0 +1,194 @@
+/**
+ * Dataset history
+ * Cada gravação de um dataset guarda uma versão (importação, edição na
+ * Planilha, recarga do arquivo, classificação, restauração). A lista de
+ * versões fica em history_<id> e cada versão em snapshot_<id>_<v>; quando
+ * linhas e grade não mudaram (uma classificação, um renome), a versão guarda
+ * só o resto e aponta para a que tem os dados. Passando do limite de
+ * retenção, as mais antigas saem.
+ */
+
+import { get, set, del, delMany, keys, update } from "idb-keyval";
+import type { Dataset } from "./database";
+import { loadStoredDataset } from "./datasetSchema";
+import { stringifyLocalDates } from "./cellValues";
+
+export type SnapshotReason = "import" | "append" | "edit" | "reload" | "classification" | "restore" | "cloud";
+
+export const SNAPSHOT_REASON_LABELS: Record<SnapshotReason, string> = {
+  import: "Importação",
+  append: "Anexo de arquivo",
+  edit: "Edição",
+  reload: "Recarga do arquivo",
+  classification: "Classificação",
+  restore: "Restauração",
+  cloud: "Sincronização com a nuvem",
+};
+
+/** Por que a gravação aconteceu (vai para a lista de versões) */
+export interface SnapshotInfo {
+  reason: SnapshotReason;
+  note?: string;
+}
+
+export interface SnapshotMeta extends SnapshotInfo {
+  id: string;
+  datasetId: string;
+  createdAt: string;
+  name: string;
+  totalRows: number;
+  columnCount: number;
+  /** Versão que guarda as linhas e a grade desta (sem elas, a própria) */
+  rowsFrom?: string;
+}
+
+const HISTORY_PREFIX = "history_";
+const SNAPSHOT_PREFIX = "snapshot_";
+const RETENTION_KEY = "version_retention";
+
+export const DEFAULT_RETENTION = 10;
+export const RETENTION_OPTIONS = [5, 10, 20, 50];
+
+function historyKey(datasetId: string) {
+  return `${HISTORY_PREFIX}${datasetId}`;
+}
+
+function snapshotKey(datasetId: string, snapshotId: string) {
+  return `${SNAPSHOT_PREFIX}${datasetId}_${snapshotId}`;
+}
+
+/** Mais recentes primeiro; fica sempre ao menos a última versão */
+export function pruneHistory(list: SnapshotMeta[], limit: number): { kept: SnapshotMeta[]; dropped: SnapshotMeta[] } {
+  const sorted = [...list].sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  const keep = Math.max(1, Math.floor(limit));
+  return { kept: sorted.slice(0, keep), dropped: sorted.slice(keep) };
+}
+
+export async function getHistoryRetention(): Promise<number> {
+  return (await get<number>(RETENTION_KEY)) ?? DEFAULT_RETENTION;
+}
+
+async function applyRetention(datasetId: string, limit: number, added?: SnapshotMeta): Promise<void> {
+  let kept: SnapshotMeta[] = [];
+  let dropped: SnapshotMeta[] = [];
+  await update<SnapshotMeta[]>(historyKey(datasetId), (list) => {
+    const pruned = pruneHistory(added ? [added, ...(list ?? [])] : list ?? [], limit);
+    kept = pruned.kept;
+    dropped = pruned.dropped;
+    return pruned.kept;
+  });
+  if (!dropped.length) return;
+
+  // Versões que usavam os dados de uma que sai: a mais antiga delas passa a guardá-los
+  const droppedIds = new Set(dropped.map((s) => s.id));
+  const moved = new Map<string, string>();
+  for (const s of [...kept].reverse()) {
+    if (!s.rowsFrom || !droppedIds.has(s.rowsFrom) || moved.has(s.rowsFrom)) continue;
+    const [data, record] = await Promise.all([
+      get<Dataset>(snapshotKey(datasetId, s.rowsFrom)),
+      get<Dataset>(snapshotKey(datasetId, s.id)),
+    ]);
+    await set(snapshotKey(datasetId, s.id), { ...record, rows: data?.rows, rawGrid: data?.rawGrid });
+    moved.set(s.rowsFrom, s.id);
+  }
+  if (moved.size) {
+    await update<SnapshotMeta[]>(historyKey(datasetId), (list) =>
+      (list ?? []).map((s) => {
+        const to = s.rowsFrom && moved.get(s.rowsFrom);
+        if (!to) return s;
+        const { rowsFrom: _rowsFrom, ...rest } = s;
+        return to === s.id ? rest : { ...rest, rowsFrom: to };
+      })
+    );
+  }
+  await delMany(dropped.map((s) => snapshotKey(datasetId, s.id)));
+}
+
+/** Novo limite vale para todos os datasets (apaga o excedente na hora) */
+export async function setHistoryRetention(limit: number): Promise<void> {
+  await set(RETENTION_KEY, limit);
+  const historyKeys = (await keys()).filter(
+    (key): key is string => typeof key === "string" && key.startsWith(HISTORY_PREFIX)
+  );
+  for (const key of historyKeys) {
+    await applyRetention(key.slice(HISTORY_PREFIX.length), limit);
+  }
+}
+
+/** Linhas e grade iguais às gravadas na versão `snapshotId`, no mesmo formato */
+async function sameData(dataset: Dataset, snapshotId: string): Promise<boolean> {
+  const stored = await get<Dataset>(snapshotKey(dataset.id, snapshotId));
+  if (!stored || (stored.schemaVersion ?? 0) !== (dataset.schemaVersion ?? 0) || stored.totalRows !== dataset.totalRows) {
+    return false;
+  }
+  return stringifyLocalDates([stored.rows, stored.rawGrid]) === stringifyLocalDates([dataset.rows, dataset.rawGrid]);
+}
+
+export async function recordSnapshot(dataset: Dataset, info: SnapshotInfo): Promise<SnapshotMeta> {
+  const latest = (await getHistory(dataset.id))[0];
+  const holder = latest && (latest.rowsFrom ?? latest.id);
+  const snapshot: SnapshotMeta = {
+    ...info,
+    id: `v_${Date.now()}_${Math.random().toString(36).slice(2, 7)}`,
+    datasetId: dataset.id,
+    createdAt: new Date().toISOString(),
+    name: dataset.name,
+    totalRows: dataset.totalRows,
+    columnCount: dataset.columns.length,
+  };
+  if (holder && (await sameData(dataset, holder))) {
+    const { rows: _rows, rawGrid: _rawGrid, ...rest } = dataset;
+    snapshot.rowsFrom = holder;
+    await set(snapshotKey(dataset.id, snapshot.id), rest);
+  } else {
+    await set(snapshotKey(dataset.id, snapshot.id), dataset);
+  }
+  await applyRetention(dataset.id, await getHistoryRetention(), snapshot);
+  return snapshot;
+}
+
+export async function getHistory(datasetId: string): Promise<SnapshotMeta[]> {
+  return (await get<SnapshotMeta[]>(historyKey(datasetId))) ?? [];
+}
+
+/** Chaves das versões gravadas (para medir o espaço) */
+export async function snapshotStorageKeys(datasetId: string): Promise<string[]> {
+  return (await getHistory(datasetId)).map((s) => snapshotKey(datasetId, s.id));
+}
+
+/** Apaga as versões mais antigas além de `keep`, sem mudar o limite configurado */
+export async function trimHistory(datasetId: string, keep: number): Promise<void> {
+  await applyRetention(datasetId, keep);
+}
+
+/** Versão gravada, trazida para o formato atual (pode ser de antes de uma migração) */
+export async function getSnapshot(datasetId: string, snapshotId: string): Promise<Dataset | undefined> {
+  const raw = await get(snapshotKey(datasetId, snapshotId));
+  if (raw === undefined) return undefined;
+  const rowsFrom = (await getHistory(datasetId)).find((s) => s.id === snapshotId)?.rowsFrom;
+  if (!rowsFrom) return loadStoredDataset(raw, datasetId).dataset;
+  const data = await get<Dataset>(snapshotKey(datasetId, rowsFrom));
+  if (!data) return undefined;
+  return loadStoredDataset({ ...(raw as object), rows: data.rows, rawGrid: data.rawGrid }, datasetId).dataset;
+}
+
+export async function deleteHistory(datasetId: string): Promise<void> {
+  const list = await getHistory(datasetId);
+  await delMany(list.map((s) => snapshotKey(datasetId, s.id)));
+  await del(historyKey(datasetId));
+}
+
+/**
+ * Dataset de volta aos dados da versão. O vínculo com o arquivo e a revisão
+ * são os de agora: o handle gravado não volta no tempo, e a restauração é
+ * uma gravação nova por cima da atual.
+ */
+export function restoreSnapshot(current: Dataset | undefined, snapshot: Dataset): Dataset {
+  return {
+    ...snapshot,
+    id: current?.id ?? snapshot.id,
+    revision: current ? current.revision : snapshot.revision,
+    linkedFile: current ? current.linkedFile : snapshot.linkedFile,
+    updatedAt: new Date().toISOString(),
+  };
+}
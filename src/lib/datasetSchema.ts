@@ -0,0 +1,213 @@
+/**
+ * Dataset schema
+ * Versão do formato gravado no IndexedDB e as migrações que trazem registros
+ * antigos para o formato atual ao carregar. Registro que não passa na
+ * validação é reconstruído a partir das linhas (ou da grade); sem dados para
+ * reconstruir, fica em quarentena em vez de quebrar o dashboard.
+ */
+
+import type { ColumnType, Dataset, MatrixConfig } from "./database";
+import { deriveDatasetFields } from "./datasetBuilder";
+import { rowsFromGrid } from "./gridSync";
+import type { ImportDiagnostic } from "./importDiagnostics";
+
+export const DATASET_SCHEMA_VERSION = 4;
+
+type StoredRecord = Record<string, unknown>;
+
+interface Migration {
+  version: number;
+  description: string;
+  migrate: (record: StoredRecord) => StoredRecord;
+}
+
+const COLUMN_TYPES: ColumnType[] = ["date", "number", "currency", "percent", "boolean", "duration", "time", "category", "text", "id"];
+
+function isObject(v: unknown): v is StoredRecord {
+  return typeof v === "object" && v !== null && !Array.isArray(v);
+}
+
+function stringArray(v: unknown): string[] {
+  return Array.isArray(v) ? v.filter((s): s is string => typeof s === "string") : [];
+}
+
+/** Tipos gravados nas colunas (para recalcular sem perder a revisão) */
+function storedTypes(record: StoredRecord): Record<string, ColumnType> {
+  const types: Record<string, ColumnType> = {};
+  if (Array.isArray(record.columns)) {
+    for (const c of record.columns) {
+      if (isObject(c) && typeof c.name === "string" && COLUMN_TYPES.includes(c.type as ColumnType)) {
+        types[c.name] = c.type as ColumnType;
+      }
+    }
+  }
+  return { ...types, ...(isObject(record.columnTypeOverrides) ? (record.columnTypeOverrides as Record<string, ColumnType>) : {}) };
+}
+
+/** columns, detected*, summary e _rowIndex de novo a partir das linhas */
+function rederive(record: StoredRecord, rows: Record<string, unknown>[]): StoredRecord {
+  const clean = rows.map(({ _rowIndex, ...rest }) => rest);
+  const range = isObject(record.summary) && isObject(record.summary.dateRange) ? record.summary.dateRange : undefined;
+  return {
+    ...record,
+    ...deriveDatasetFields(clean, {
+      typeOverrides: storedTypes(record),
+      dateRange: range ? { min: String(range.from ?? ""), max: String(range.to ?? "") } : undefined,
+    }),
+  };
+}
+
+/** ===== Migrações (em ordem; cada uma leva da versão anterior para `version`) ===== */
+export const DATASET_MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: "Campos obrigatórios: listas de colunas detectadas, grade e datas de criação",
+    migrate: (record) => {
+      const now = new Date().toISOString();
+      return {
+        ...record,
+        name: typeof record.name === "string" && record.name.trim() ? record.name : "Dataset sem nome",
+        createdAt: typeof record.createdAt === "string" ? record.createdAt : now,
+        updatedAt: typeof record.updatedAt === "string" ? record.updatedAt : (record.createdAt as string) ?? now,
+        rawGrid: Array.isArray(record.rawGrid) ? record.rawGrid : [],
+        detectedCategoryColumns: stringArray(record.detectedCategoryColumns),
+        detectedNumericColumns: stringArray(record.detectedNumericColumns),
+        detectedTextColumns: stringArray(record.detectedTextColumns),
+      };
+    },
+  },
+  {
+    version: 2,
+    description: "Colunas sem metadados completos ou linhas sem _rowIndex: recalcula a partir das linhas",
+    migrate: (record) => {
+      if (!Array.isArray(record.rows)) return record;
+      const rows = record.rows as StoredRecord[];
+      const columnsOk =
+        Array.isArray(record.columns) &&
+        record.columns.every((c) => isObject(c) && typeof c.originalIndex === "number" && Array.isArray(c.uniqueValues) && typeof c.isEmpty === "boolean");
+      const rowsOk = rows.every((r, i) => isObject(r) && r._rowIndex === i);
+      return columnsOk && rowsOk && isObject(record.summary) ? record : rederive(record, rows.filter(isObject));
+    },
+  },
+  {
+    version: 3,
+    description: "Perfil de serviço anterior aos KPIs por perfil é descartado (reclassifica) e matriz com coluna inexistente é removida",
+    migrate: (record) => {
+      const next = { ...record };
+      const profile = record.serviceProfile;
+      if (profile !== undefined && !(isObject(profile) && isObject(profile.kpiProfile) && isObject(profile.semanticMap) && isObject(profile.labels))) {
+        delete next.serviceProfile;
+      }
+      const names = new Set(Array.isArray(record.columns) ? record.columns.map((c) => (isObject(c) ? c.name : null)) : []);
+      const matrix = record.matrixConfig as MatrixConfig | undefined;
+      if (matrix !== undefined && !(isObject(matrix) && [matrix.rowColumn, matrix.colColumn, matrix.valueColumn].every((c) => names.has(c)))) {
+        delete next.matrixConfig;
+      }
+      return next;
+    },
+  },
+  {
+    version: 4,
+    description: "Linhas em blocos separados do registro (rows_<id>_<n>) e índice de datasets",
+    // O formato do objeto não muda: o database regrava em blocos ao ver a versão antiga
+    migrate: (record) => record,
+  },
+];
+
+/** ===== Validação ===== */
+
+/** Problemas que impedem o dashboard de usar o registro (vazio = válido) */
+export function validateDataset(record: unknown): string[] {
+  if (!isObject(record)) return ["registro não é um objeto"];
+  const problems: string[] = [];
+  if (typeof record.id !== "string" || !record.id) problems.push("sem id");
+  if (typeof record.name !== "string") problems.push("sem nome");
+  if (!Array.isArray(record.rows)) problems.push("linhas ausentes");
+  else if (!record.rows.every(isObject)) problems.push("linhas com formato inválido");
+  if (!Array.isArray(record.columns)) problems.push("colunas ausentes");
+  else if (!record.columns.every((c) => isObject(c) && typeof c.name === "string" && COLUMN_TYPES.includes(c.type as ColumnType))) {
+    problems.push("colunas com nome ou tipo inválido");
+  }
+  if (!isObject(record.summary) || !isObject(record.summary.categoryCounts) || !isObject(record.summary.numericStats)) {
+    problems.push("resumo ausente");
+  }
+  if (Array.isArray(record.rows) && record.totalRows !== record.rows.length) problems.push("total de linhas não confere");
+  if (!Array.isArray(record.rawGrid)) problems.push("grade ausente");
+  return problems;
+}
+
+/**
+ * Reconstrói o que der a partir das linhas ou, sem elas, da grade da aba
+ * Planilha. null quando não sobra dado nenhum.
+ */
+export function repairDataset(record: StoredRecord, id: string): Dataset | null {
+  let rows = Array.isArray(record.rows) ? (record.rows as unknown[]).filter(isObject) : [];
+  const grid = Array.isArray(record.rawGrid) && record.rawGrid.every(Array.isArray) ? (record.rawGrid as unknown[][]) : [];
+  const source = isObject(record.gridSource) ? (record.gridSource as unknown as Dataset["gridSource"]) : undefined;
+
+  if (!rows.length && grid.length) {
+    try {
+      rows = rowsFromGrid(grid, source ?? { kind: "table", sheetName: String(record.name ?? "Planilha") });
+    } catch (err) {
+      console.warn("Grade ilegível no reparo do dataset:", err);
+    }
+  }
+  if (!rows.length) return null;
+
+  const repaired = rederive({ ...DATASET_MIGRATIONS[0].migrate(record), id, rawGrid: grid }, rows);
+  return DATASET_MIGRATIONS[2].migrate(repaired) as unknown as Dataset;
+}
+
+/** ===== Carga ===== */
+
+export interface LoadedDataset {
+  /** Ausente quando o registro não tem conserto */
+  dataset?: Dataset;
+  /** O que a validação encontrou (reparado ou não) */
+  problems: string[];
+  changed: boolean;
+  repaired: boolean;
+  fromVersion: number;
+}
+
+function repairNote(problems: string[]): ImportDiagnostic {
+  return {
+    level: "warning",
+    code: "storage_repair",
+    message: `Dataset reparado ao carregar (${problems.join(", ")}); confira os dados ou importe o arquivo de novo`,
+  };
+}
+
+/**
+ * Registro como veio do IndexedDB -> dataset no formato atual. `changed`
+ * indica que precisa ser regravado. Registros de uma versão mais nova do
+ * app passam sem migrar.
+ */
+export function loadStoredDataset(raw: unknown, id = isObject(raw) ? String(raw.id ?? "") : ""): LoadedDataset {
+  if (!isObject(raw)) return { problems: validateDataset(raw), changed: false, repaired: false, fromVersion: 0 };
+
+  const fromVersion = typeof raw.schemaVersion === "number" ? raw.schemaVersion : 0;
+  let record = raw;
+  for (const migration of DATASET_MIGRATIONS) {
+    if (migration.version > fromVersion) record = migration.migrate(record);
+  }
+  const changed = fromVersion < DATASET_SCHEMA_VERSION;
+  if (changed) record = { ...record, schemaVersion: DATASET_SCHEMA_VERSION };
+
+  const problems = validateDataset(record);
+  if (!problems.length) return { dataset: record as unknown as Dataset, problems, changed, repaired: false, fromVersion };
+
+  const repaired = id ? repairDataset(record, id) : null;
+  if (!repaired) return { problems, changed: false, repaired: false, fromVersion };
+  return {
+    dataset: {
+      ...repaired,
+      schemaVersion: DATASET_SCHEMA_VERSION,
+      importDiagnostics: [repairNote(problems), ...(repaired.importDiagnostics ?? [])],
+    },
+    problems,
+    changed: true,
+    repaired: true,
+    fromVersion,
+  };
+}
@@ -4,7 +4,9 @@
  */
 import { format } from "date-fns";
 import { ptBR } from "date-fns/locale";
-import type { Dataset } from "./database";
+import type { WorkSheet } from "xlsx";
+import type { ColumnType, Dataset, GenericRow } from "./database";
+import { excelNumberFormat, formatCellValue } from "./valueFormat";
 
 interface ExportExcelOptions {
   dataset: Dataset;
@@ -39,6 +41,23 @@ function prettyStatus(s: string) {
   return s;
 }
 
+/** Valor gravado na célula: números continuam números (com formato R$/%/[h]:mm), o resto vira texto de exibição */
+function typedCellValue(value: unknown, type: ColumnType): string | number {
+  if (typeof value === "number") return type === "duration" ? value / 24 : value;
+  return formatCellValue(value, type);
+}
+
+function applyColumnFormats(ws: WorkSheet, dataset: Dataset, firstDataRow: number, rowCount: number, encodeCell: (c: { r: number; c: number }) => string) {
+  dataset.columns.forEach((col, c) => {
+    const z = excelNumberFormat(col.type);
+    if (!z) return;
+    for (let r = firstDataRow; r < firstDataRow + rowCount; r++) {
+      const cell = ws[encodeCell({ r, c })];
+      if (cell && cell.t === "n") cell.z = z;
+    }
+  });
+}
+
 export async function exportToExcel(options: ExportExcelOptions): Promise<void> {
   const { dataset, filters } = options;
   
@@ -316,6 +335,19 @@ export async function exportToExcel(options: ExportExcelOptions): Promise<void>
   const wsRaw = XLSX.utils.aoa_to_sheet(rawData);
   wsRaw["!cols"] = [{ wch: 12 }, { wch: 16 }, { wch: 24 }, { wch: 16 }];
   XLSX.utils.book_append_sheet(wb, wsRaw, "Dados");
+
+  // ============================================
+  // SHEET 6b: TABELA COMPLETA (tipada)
+  // ============================================
+  const tableData: (string | number)[][] = [
+    dataset.columns.map(c => c.name),
+    ...(rows as GenericRow[]).map(r => dataset.columns.map(c => typedCellValue(r[c.name], c.type)))
+  ];
+
+  const wsTable = XLSX.utils.aoa_to_sheet(tableData);
+  applyColumnFormats(wsTable, dataset, 1, rows.length, XLSX.utils.encode_cell);
+  wsTable["!cols"] = dataset.columns.map(c => ({ wch: Math.max(10, Math.min(30, c.name.length + 2)) }));
+  XLSX.utils.book_append_sheet(wb, wsTable, "Tabela");
   
   // ============================================
   // SHEET 7: RESUMO ESTATÍSTICO
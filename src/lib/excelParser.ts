@@ -1,6 +1,20 @@
 import * as XLSX from "xlsx";
-import type { Dataset, GenericRow, ColumnMetadata, ColumnType, DatasetSummary } from "./database";
-import { generateId } from "./database";
+import type { ColumnType, Dataset, GridSource, ImportLayout } from "./database";
+import { isDateLike, normalizeDate } from "./cellValues";
+import { createDataset, tableGridFromRows } from "./datasetBuilder";
+import { isCsvFileName, resolveCsvOptions, type CsvOptions, type ResolvedCsvOptions } from "./csvLocale";
+import type { AppendOptions } from "./datasetAppend";
+import { bankRowsFromTable, bankStatementDataset, isOfxFileName, ofxDataset } from "./bankStatement";
+import { isJsonFileName, jsonDataset } from "./jsonImport";
+import { DEFAULT_TABLE_LAYOUT, detectTableLayout, fillMerges, rowsFromTableGrid, type TableLayout } from "./tableHeader";
+import {
+  capDiagnostics,
+  cellAddress,
+  rawText,
+  valueTypeDiagnostics,
+  type ImportDiagnostic,
+  type RowOrigin,
+} from "./importDiagnostics";
 
 export type ParsedKind = "table" | "rda_matrix";
 
@@ -8,12 +22,20 @@ export type ParsedResult = {
   kind: ParsedKind;
   sheetName: string;
   rows: Record<string, any>[];
+  /** Célula de origem de cada linha (paralelo a rows), para apontar avisos de valor */
+  origins?: RowOrigin[];
   meta: {
     detected: ParsedKind;
     columns?: string[];
     peopleCount?: number;
     teamsFound?: string[];
     dateRange?: { min?: string; max?: string };
+    matrixLayout?: MatrixLayout;
+    tableLayout?: TableLayout;
+    /** Tipo sugerido pelo formato numérico das células (moeda, %, [h]:mm) */
+    typeHints?: Record<string, ColumnType>;
+    /** Avisos da leitura da aba (linhas ignoradas, cabeçalhos não reconhecidos) */
+    diagnostics?: ImportDiagnostic[];
   };
 };
 
@@ -22,6 +44,10 @@ function upper(v: any) {
   return String(v ?? "").trim().toUpperCase();
 }
 
+function baseName(fileName: string) {
+  return fileName.replace(/\.[^/.]+$/, "");
+}
+
 function isNonEmptyString(v: any) {
   return typeof v === "string" && v.trim().length > 0;
 }
@@ -36,41 +62,6 @@ function looksLikeName(v: any) {
   return true;
 }
 
-function isDateLike(v: any) {
-  if (v instanceof Date) return true;
-  if (typeof v === "number") return true;
-  if (typeof v === "string") {
-    const s = v.trim();
-    if (/^\d{4}-\d{2}-\d{2}$/.test(s)) return true;
-    if (/^\d{1,2}\/\d{1,2}\/\d{2,4}$/.test(s)) return true;
-  }
-  return false;
-}
-
-function normalizeDate(v: any): string | null {
-  if (v instanceof Date) return v.toISOString().slice(0, 10);
-  if (typeof v === "number") {
-    const d = XLSX.SSF.parse_date_code(v);
-    if (!d || !d.y || !d.m || !d.d) return null;
-    const dt = new Date(Date.UTC(d.y, d.m - 1, d.d));
-    return dt.toISOString().slice(0, 10);
-  }
-  if (typeof v === "string") {
-    const s = v.trim();
-    const m = s.match(/^(\d{1,2})\/(\d{1,2})\/(\d{2,4})$/);
-    if (m) {
-      const dd = Number(m[1]);
-      const mm = Number(m[2]);
-      let yy = Number(m[3]);
-      if (m[3].length === 2) yy = Number(`20${m[3]}`);
-      const dt = new Date(Date.UTC(yy, mm - 1, dd));
-      return dt.toISOString().slice(0, 10);
-    }
-    if (/^\d{4}-\d{2}-\d{2}$/.test(s)) return s;
-  }
-  return null;
-}
-
 function getCell(ws: XLSX.WorkSheet, r: number, c: number) {
   const addr = XLSX.utils.encode_cell({ r, c });
   return ws[addr]?.v;
@@ -82,6 +73,22 @@ function getRange(ws: XLSX.WorkSheet) {
   return XLSX.utils.decode_range(ref);
 }
 
+/** ===== Grade de células da aba (coordenadas absolutas, a partir de A1) ===== */
+export function sheetToGrid(ws: XLSX.WorkSheet): unknown[][] {
+  const range = getRange(ws);
+  if (!range) return [];
+
+  const grid: unknown[][] = [];
+  for (let r = 0; r <= range.e.r; r++) {
+    const row: unknown[] = [];
+    for (let c = 0; c <= range.e.c; c++) {
+      row.push(getCell(ws, r, c) ?? null);
+    }
+    grid.push(row);
+  }
+  return grid;
+}
+
 /** ===== Detecta se a aba parece RDA em matriz ===== */
 export function detectRdaMatrix(ws: XLSX.WorkSheet): boolean {
   const range = getRange(ws);
@@ -98,26 +105,80 @@ export function detectRdaMatrix(ws: XLSX.WorkSheet): boolean {
   return hasDataLabel && hasPeopleRow && hasFirstDate;
 }
 
+/** ===== Layout da matriz (índices 0-based da planilha) ===== */
+export type MatrixLayout = {
+  /** -1 = planilha sem linha de equipes */
+  teamRow: number;
+  peopleRow: number;
+  dateCol: number;
+  firstDataRow: number;
+};
+
+export const DEFAULT_MATRIX_LAYOUT: MatrixLayout = {
+  teamRow: 1,
+  peopleRow: 2,
+  dateCol: 0,
+  firstDataRow: 3,
+};
+
+// Números só contam como data se estiverem na faixa de seriais do Excel (~1954..2118)
+function isPlausibleDate(v: unknown) {
+  if (typeof v === "number") return v > 20000 && v < 80000;
+  return isDateLike(v);
+}
+
+/** ===== Sugere um layout: primeira coluna/linha com sequência de datas ===== */
+export function guessMatrixLayout(ws: XLSX.WorkSheet): MatrixLayout {
+  const range = getRange(ws);
+  if (!range) return DEFAULT_MATRIX_LAYOUT;
+
+  const maxRow = Math.min(range.e.r, range.s.r + 30);
+  const maxCol = Math.min(range.e.c, range.s.c + 5);
+
+  for (let c = range.s.c; c <= maxCol; c++) {
+    for (let r = range.s.r; r < maxRow; r++) {
+      if (!isPlausibleDate(getCell(ws, r, c)) || !isPlausibleDate(getCell(ws, r + 1, c))) continue;
+
+      const peopleRow = Math.max(range.s.r, r - 1);
+      return {
+        dateCol: c,
+        firstDataRow: r,
+        peopleRow,
+        teamRow: Math.max(range.s.r, peopleRow - 1),
+      };
+    }
+  }
+
+  return DEFAULT_MATRIX_LAYOUT;
+}
+
 /** ===== Parser para RDA matriz: converte para tabela longa ===== */
-export function parseRdaMatrix(ws: XLSX.WorkSheet, sheetName: string): ParsedResult {
+export function parseRdaMatrix(
+  ws: XLSX.WorkSheet,
+  sheetName: string,
+  layout: MatrixLayout = DEFAULT_MATRIX_LAYOUT
+): ParsedResult {
   const range = getRange(ws);
   if (!range) {
     return { kind: "rda_matrix", sheetName, rows: [], meta: { detected: "rda_matrix" } };
   }
 
-  const rowTeams = 1;
-  const rowPeople = 2;
-  const startDataRow = 3;
-  const dateCol = 0;
+  const { teamRow: rowTeams, peopleRow: rowPeople, firstDataRow: startDataRow, dateCol } = layout;
 
   // 1) Lê equipes por coluna (forward-fill)
   const teamByCol = new Map<number, string>();
   let currentTeam = "";
-  for (let c = 1; c <= range.e.c; c++) {
+  // Se a linha usa o rótulo "EQUIPE", só ele abre um grupo; senão, qualquer texto vale
+  let rowHasEquipeLabel = false;
+  for (let c = range.s.c; c <= range.e.c && rowTeams >= 0; c++) {
+    if (upper(getCell(ws, rowTeams, c)).includes("EQUIPE")) rowHasEquipeLabel = true;
+  }
+  for (let c = range.s.c; c <= range.e.c && rowTeams >= 0; c++) {
+    if (c === dateCol) continue;
     const v = getCell(ws, rowTeams, c);
     const txt = String(v ?? "").trim();
     const up = upper(txt);
-    if (txt && up.includes("EQUIPE")) {
+    if (txt && (rowHasEquipeLabel ? up.includes("EQUIPE") : !up.includes("DATA"))) {
       currentTeam = txt;
     }
     teamByCol.set(c, currentTeam);
@@ -125,9 +186,18 @@ export function parseRdaMatrix(ws: XLSX.WorkSheet, sheetName: string): ParsedRes
 
   const teamsFound = Array.from(new Set([...teamByCol.values()].filter(Boolean)));
 
-  // 2) Lê pessoas por coluna (linha 3)
+  const diagnostics: ImportDiagnostic[] = [];
+  const columnHasData = (c: number) => {
+    for (let r = startDataRow; r <= range.e.r; r++) {
+      if (String(getCell(ws, r, c) ?? "").trim()) return true;
+    }
+    return false;
+  };
+
+  // 2) Lê pessoas por coluna (linha de pessoas)
   const people: { col: number; name: string; team: string }[] = [];
-  for (let c = 1; c <= range.e.c; c++) {
+  for (let c = range.s.c; c <= range.e.c; c++) {
+    if (c === dateCol) continue;
     const nameCell = getCell(ws, rowPeople, c);
     if (looksLikeName(nameCell)) {
       people.push({
@@ -135,6 +205,15 @@ export function parseRdaMatrix(ws: XLSX.WorkSheet, sheetName: string): ParsedRes
         name: String(nameCell).trim(),
         team: (teamByCol.get(c) ?? "").trim(),
       });
+    } else if (String(nameCell ?? "").trim() && columnHasData(c)) {
+      diagnostics.push({
+        level: "warning",
+        code: "unrecognized_person",
+        message: "Cabeçalho não reconhecido como nome de pessoa: a coluna foi ignorada",
+        sheet: sheetName,
+        cell: cellAddress(rowPeople, c),
+        rawValue: rawText(nameCell),
+      });
     }
   }
 
@@ -146,7 +225,20 @@ export function parseRdaMatrix(ws: XLSX.WorkSheet, sheetName: string): ParsedRes
   for (let r = startDataRow; r <= range.e.r; r++) {
     const rawDate = getCell(ws, r, dateCol);
     const date = normalizeDate(rawDate);
-    if (!date) continue;
+    if (!date) {
+      // Linha de totais/observações sem data não é problema; linha com status e data ilegível é
+      if (String(rawDate ?? "").trim() || people.some((p) => String(getCell(ws, r, p.col) ?? "").trim())) {
+        diagnostics.push({
+          level: "warning",
+          code: "invalid_date_row",
+          message: "Data não reconhecida: a linha foi ignorada",
+          sheet: sheetName,
+          cell: cellAddress(r, dateCol),
+          rawValue: rawText(rawDate),
+        });
+      }
+      continue;
+    }
 
     if (!minDate || date < minDate) minDate = date;
     if (!maxDate || date > maxDate) maxDate = date;
@@ -174,20 +266,211 @@ export function parseRdaMatrix(ws: XLSX.WorkSheet, sheetName: string): ParsedRes
       peopleCount: people.length,
       teamsFound,
       dateRange: { min: minDate, max: maxDate },
+      matrixLayout: layout,
+      diagnostics: [
+        {
+          level: "info",
+          code: "sheet_summary",
+          message: `Lida como matriz RDA: ${people.length} pessoas, ${teamsFound.length} equipes, ${out.length} registros`,
+          sheet: sheetName,
+        },
+        ...diagnostics,
+      ],
     },
   };
 }
 
-/** ===== Parser para tabela normal ===== */
-export function parseTable(ws: XLSX.WorkSheet, sheetName: string): ParsedResult {
-  const rows = XLSX.utils.sheet_to_json(ws, { defval: null }) as Record<string, any>[];
-  const columns = rows.length > 0 ? Array.from(new Set(Object.keys(rows[0] ?? {}))) : [];
+/** Grade da aba com as células mescladas preenchidas */
+export function tableGrid(ws: XLSX.WorkSheet): unknown[][] {
+  return fillMerges(sheetToGrid(ws), ws["!merges"]);
+}
+
+export function guessTableLayout(ws: XLSX.WorkSheet): TableLayout {
+  return detectTableLayout(tableGrid(ws), ws["!merges"]);
+}
+
+/** Formato numérico da célula (cellNF) -> tipo; o valor em si é só um número ou Date */
+function typeFromNumberFormat(z: unknown): ColumnType | null {
+  if (typeof z !== "string") return null;
+  if (/R\$/.test(z)) return "currency";
+  if (/%/.test(z)) return "percent";
+  if (/\[h+\]/i.test(z)) return "duration";
+  return null;
+}
+
+function numberFormatHints(
+  ws: XLSX.WorkSheet,
+  firstDataRow: number,
+  columns: string[],
+  columnIndexes: number[]
+): Record<string, ColumnType> | undefined {
+  const hints: Record<string, ColumnType> = {};
+  columnIndexes.forEach((c, i) => {
+    for (let r = firstDataRow; r < firstDataRow + 50; r++) {
+      const cell = ws[XLSX.utils.encode_cell({ r, c })];
+      if (!cell || cell.v == null) continue;
+      const type = typeFromNumberFormat(cell.z);
+      if (type) hints[columns[i]] = type;
+      break;
+    }
+  });
+  return Object.keys(hints).length ? hints : undefined;
+}
+
+/** ===== Parser para tabela normal (cabeçalho detectado ou informado) ===== */
+export function parseTable(ws: XLSX.WorkSheet, sheetName: string, layout?: TableLayout): ParsedResult {
+  const grid = tableGrid(ws);
+  const tableLayout = layout ?? detectTableLayout(grid, ws["!merges"]);
+  const { rows, columns, columnIndexes, rowIndexes } = rowsFromTableGrid(grid, tableLayout);
+  const typeHints = numberFormatHints(ws, tableLayout.headerRow + tableLayout.headerRows, columns, columnIndexes);
+
+  const columnMap = Object.fromEntries(columns.map((name, i) => [name, columnIndexes[i]]));
+  const origins = rowIndexes.map((row) => ({ sheet: sheetName, row, columns: columnMap }));
+  const headerRows = tableLayout.headerRows > 1
+    ? `linhas ${tableLayout.headerRow + 1} a ${tableLayout.headerRow + tableLayout.headerRows}`
+    : `linha ${tableLayout.headerRow + 1}`;
 
   return {
     kind: "table",
     sheetName,
     rows,
-    meta: { detected: "table", columns },
+    origins,
+    meta: {
+      detected: "table",
+      columns,
+      tableLayout,
+      typeHints,
+      diagnostics: [{
+        level: "info",
+        code: "sheet_summary",
+        message: `Lida como tabela: ${rows.length} linhas, ${columns.length} colunas, cabeçalho na ${headerRows}`,
+        sheet: sheetName,
+      }],
+    },
+  };
+}
+
+/** ===== Leitura do workbook e inventário das abas ===== */
+export type SheetInfo = {
+  name: string;
+  kind: ParsedKind;
+  rowCount: number;
+  colCount: number;
+};
+
+export function readWorkbook(arrayBuffer: ArrayBuffer, opts?: { sheetRows?: number }): XLSX.WorkBook {
+  // cellNF: o formato ("R$ #.##0,00", "0%", "[h]:mm") diz o tipo que o valor sozinho não diz
+  return XLSX.read(arrayBuffer, { type: "array", cellDates: true, cellNF: true, sheetRows: opts?.sheetRows });
+}
+
+/** CSV: decodifica com o encoding/separador resolvido e mantém tudo como texto (a tipagem é nossa) */
+export function readCsvWorkbook(
+  arrayBuffer: ArrayBuffer,
+  csvOptions?: CsvOptions,
+  opts?: { sheetRows?: number }
+): { workbook: XLSX.WorkBook; csv: ResolvedCsvOptions } {
+  const { text, ...csv } = resolveCsvOptions(arrayBuffer, csvOptions);
+  const workbook = XLSX.read(text, { type: "string", FS: csv.delimiter, raw: true, sheetRows: opts?.sheetRows });
+  return { workbook, csv };
+}
+
+/** Planilha binária ou CSV, pelo nome do arquivo */
+export function readSourceWorkbook(
+  arrayBuffer: ArrayBuffer,
+  fileName: string,
+  csvOptions?: CsvOptions,
+  opts?: { sheetRows?: number }
+): { workbook: XLSX.WorkBook; csv?: ResolvedCsvOptions } {
+  if (isCsvFileName(fileName)) return readCsvWorkbook(arrayBuffer, csvOptions, opts);
+  return { workbook: readWorkbook(arrayBuffer, opts) };
+}
+
+export function listSheets(wb: XLSX.WorkBook): SheetInfo[] {
+  return wb.SheetNames.map((name) => {
+    const ws = wb.Sheets[name];
+    // Com sheetRows, "!fullref" guarda o tamanho real da aba
+    const ref = ws?.["!fullref"] ?? ws?.["!ref"];
+    const range = ref ? XLSX.utils.decode_range(ref) : null;
+    return {
+      name,
+      kind: ws && detectRdaMatrix(ws) ? "rda_matrix" : "table",
+      rowCount: range ? range.e.r - range.s.r + 1 : 0,
+      colCount: range ? range.e.c - range.s.c + 1 : 0,
+    };
+  });
+}
+
+/** ===== Parser de uma aba (formato escolhido ou detecção por aba) ===== */
+export function parseSheet(
+  wb: XLSX.WorkBook,
+  sheetName: string,
+  format: ImportFormat = "auto",
+  matrixLayout?: MatrixLayout,
+  tableLayout?: TableLayout
+): ParsedResult {
+  const ws = wb.Sheets[sheetName];
+  if (!ws) {
+    return { kind: "table", sheetName, rows: [], meta: { detected: "table" } };
+  }
+
+  if (format === "matrix") {
+    return parseRdaMatrix(ws, sheetName, matrixLayout ?? guessMatrixLayout(ws));
+  }
+
+  if (format === "auto" && detectRdaMatrix(ws)) {
+    return parseRdaMatrix(ws, sheetName, matrixLayout);
+  }
+
+  return parseTable(ws, sheetName, tableLayout);
+}
+
+/** ===== Junta várias abas num único resultado (origem_aba em todas as linhas) ===== */
+export function mergeParsedResults(results: ParsedResult[]): ParsedResult {
+  if (results.length === 1) return results[0];
+
+  const kinds = new Set(results.map((r) => r.kind));
+  const kind: ParsedKind = kinds.size === 1 ? results[0].kind : "table";
+
+  const rows: ParsedResult["rows"] = [];
+  const columns = new Set<string>();
+  const teams = new Set<string>();
+  const people = new Set<string>();
+  let minDate: string | undefined;
+  let maxDate: string | undefined;
+  const typeHints: Record<string, ColumnType> = {};
+  const origins: (RowOrigin | undefined)[] = [];
+  const diagnostics: ImportDiagnostic[] = [];
+
+  for (const r of results) {
+    Object.assign(typeHints, r.meta.typeHints);
+    r.rows.forEach((_, i) => origins.push(r.origins?.[i]));
+    diagnostics.push(...(r.meta.diagnostics ?? []));
+    for (const row of r.rows) {
+      const withSheet: ParsedResult["rows"][number] = { ...row, origem_aba: r.sheetName };
+      Object.keys(withSheet).forEach((k) => columns.add(k));
+      if (r.kind === "rda_matrix" && withSheet.pessoa) people.add(String(withSheet.pessoa));
+      rows.push(withSheet);
+    }
+    r.meta.teamsFound?.forEach((t) => teams.add(t));
+    const range = r.meta.dateRange;
+    if (range?.min && (!minDate || range.min < minDate)) minDate = range.min;
+    if (range?.max && (!maxDate || range.max > maxDate)) maxDate = range.max;
+  }
+
+  return {
+    kind,
+    sheetName: results.map((r) => r.sheetName).join(", "),
+    rows,
+    origins: origins as RowOrigin[],
+    meta: {
+      detected: kind,
+      columns: Array.from(columns),
+      peopleCount: kind === "rda_matrix" ? people.size : undefined,
+      teamsFound: teams.size ? Array.from(teams) : undefined,
+      dateRange: minDate || maxDate ? { min: minDate, max: maxDate } : undefined,
+      typeHints: Object.keys(typeHints).length ? typeHints : undefined,
+      diagnostics,
+    },
   };
 }
 
@@ -196,7 +479,7 @@ export function parseWorkbook(
   arrayBuffer: ArrayBuffer,
   opts?: { preferredSheetName?: string }
 ): ParsedResult {
-  const wb = XLSX.read(arrayBuffer, { type: "array", cellDates: true });
+  const wb = readWorkbook(arrayBuffer);
   const sheetNames = wb.SheetNames;
 
   if (!sheetNames.length) {
@@ -208,174 +491,242 @@ export function parseWorkbook(
       ? opts.preferredSheetName
       : sheetNames[0];
 
-  const ws = wb.Sheets[chosen];
-  if (!ws) {
-    return { kind: "table", sheetName: chosen, rows: [], meta: { detected: "table" } };
-  }
+  return parseSheet(wb, chosen);
+}
 
-  if (detectRdaMatrix(ws)) {
-    return parseRdaMatrix(ws, chosen);
+/** ===== Assinatura do cabeçalho (identifica o mesmo layout de um mês para o outro) ===== */
+export function parsedHeaders(parsed: ParsedResult): string[] {
+  return parsed.meta.columns ?? Object.keys(parsed.rows[0] ?? {});
+}
+
+/** Tipo de leitura + nomes normalizados (sem acento, caixa e espaços extras), em hash FNV-1a */
+export function headerSignature(kind: ParsedKind, headers: string[]): string {
+  const text = [kind, ...headers.map((h) =>
+    String(h).normalize("NFD").replace(/[\u0300-\u036f]/g, "").toLowerCase().replace(/\s+/g, " ").trim()
+  )].join("|");
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
   }
+  return `${kind === "rda_matrix" ? "m" : "t"}${headers.length}-${(hash >>> 0).toString(16).padStart(8, "0")}`;
+}
 
-  return parseTable(ws, chosen);
+function importLayoutOf(parsed: ParsedResult, csv?: ResolvedCsvOptions): ImportLayout {
+  const headers = parsedHeaders(parsed);
+  return {
+    signature: headerSignature(parsed.kind, headers),
+    headers,
+    kind: parsed.kind,
+    sheetName: parsed.sheetName,
+    tableLayout: parsed.meta.tableLayout,
+    matrixLayout: parsed.meta.matrixLayout,
+    ...(csv && { csv }),
+  };
 }
 
-// ===== Conversão de ParsedResult para Dataset (para compatibilidade) =====
+// ===== Conversão de ParsedResult para Dataset =====
+
+function convertParsedResultToDataset(
+  parsed: ParsedResult,
+  name: string,
+  grid?: { rawGrid: unknown[][]; gridSource: GridSource },
+  csv?: ResolvedCsvOptions,
+  fileName?: string
+): Dataset {
+  const dataset = createDataset(name, parsed.rows, {
+    dateRange: parsed.meta.dateRange,
+    coerceValues: !!csv,
+    numberLocale: csv?.numberLocale,
+    typeHints: parsed.meta.typeHints,
+    ...grid,
+    ...(grid && csv && {
+      gridSource: { ...grid.gridSource, coerceValues: true, numberLocale: csv.numberLocale },
+    }),
+  });
 
-function detectColumnType(values: any[]): ColumnType {
-  const nonEmpty = values.filter(v => v != null && String(v).trim() !== "");
-  if (nonEmpty.length === 0) return "text";
+  // Avisos de valor usam o tipo final da coluna e o valor como veio da planilha
+  const diagnostics = capDiagnostics([
+    ...(parsed.meta.diagnostics ?? []),
+    ...valueTypeDiagnostics(dataset, parsed.rows, parsed.origins, csv?.numberLocale),
+  ]);
+  return {
+    ...dataset,
+    importDiagnostics: fileName ? diagnostics.map((d) => ({ ...d, fileName })) : diagnostics,
+    importLayout: importLayoutOf(parsed, csv),
+  };
+}
 
-  const dateCount = nonEmpty.filter(v => isDateLike(v) || (typeof v === "string" && /^\d{4}-\d{2}-\d{2}$/.test(v))).length;
-  if (dateCount / nonEmpty.length > 0.7) return "date";
+/** Grade original de uma aba + como reinterpretá-la depois de editada */
+function sheetGrid(wb: XLSX.WorkBook, parsed: ParsedResult) {
+  const ws = wb.Sheets[parsed.sheetName];
+  if (!ws) return undefined;
+  // Tabelas guardam a grade com as mesclagens preenchidas: o cabeçalho achatado sobrevive à edição
+  return {
+    rawGrid: parsed.kind === "table" ? tableGrid(ws) : sheetToGrid(ws),
+    gridSource: {
+      kind: parsed.kind,
+      sheetName: parsed.sheetName,
+      matrixLayout: parsed.meta.matrixLayout,
+      tableLayout: parsed.meta.tableLayout,
+    },
+  };
+}
 
-  const numCount = nonEmpty.filter(v => typeof v === "number" || !isNaN(parseFloat(String(v).replace(",", ".")))).length;
-  if (numCount / nonEmpty.length > 0.7) return "number";
+// ===== Export type for backwards compatibility =====
+export type ImportFormat = "auto" | "long" | "matrix";
 
-  const uniqueValues = new Set(nonEmpty.map(v => String(v).trim().toUpperCase()));
-  if (uniqueValues.size <= Math.min(50, nonEmpty.length * 0.3)) return "category";
+/** Como importar várias abas: um dataset por aba ou tudo num dataset só */
+export type SheetImportMode = "separate" | "merge";
+
+export interface ImportOptions {
+  format?: ImportFormat;
+  /** Layout usado quando a aba é lida como matriz */
+  matrixLayout?: MatrixLayout;
+  /** Linha(s) do cabeçalho das tabelas; sem valor = detecção por aba */
+  tableLayout?: TableLayout;
+  /** Abas a importar; vazio = primeira aba */
+  sheets?: string[];
+  sheetMode?: SheetImportMode;
+  /** Separador, encoding e formato numérico (só para CSV) */
+  csv?: CsvOptions;
+  /** Anexa a um dataset existente em vez de criar um novo (aplicado ao salvar) */
+  append?: AppendOptions;
+}
 
-  if (uniqueValues.size === nonEmpty.length && nonEmpty.length > 5) return "id";
+/** ===== Pré-visualização: lê só o topo de cada aba ===== */
+const PREVIEW_SHEET_ROWS = 120;
+
+export type WorkbookPreview = {
+  workbook: XLSX.WorkBook;
+  sheets: SheetInfo[];
+  /** Buffer original, para reler o CSV quando o usuário troca separador/encoding */
+  buffer: ArrayBuffer;
+  fileName: string;
+  /** Configuração de CSV efetivamente usada (com "auto" resolvido) */
+  csv?: ResolvedCsvOptions;
+};
 
-  return "text";
+export function inspectBuffer(buffer: ArrayBuffer, fileName: string, csvOptions?: CsvOptions): WorkbookPreview {
+  const { workbook, csv } = readSourceWorkbook(buffer, fileName, csvOptions, { sheetRows: PREVIEW_SHEET_ROWS });
+  return { workbook, sheets: listSheets(workbook), buffer, fileName, csv };
 }
 
-function toNumber(value: any): number {
-  if (typeof value === "number") return value;
-  if (typeof value === "string") return parseFloat(value.replace(",", ".")) || 0;
-  return 0;
+export async function inspectExcelFile(file: File): Promise<WorkbookPreview> {
+  return inspectBuffer(await file.arrayBuffer(), file.name);
 }
 
-function convertParsedResultToDataset(parsed: ParsedResult, fileName: string): Dataset {
-  const rows = parsed.rows;
+/** Tabela longa normalizada (amostra) que a importação vai gerar com essas opções */
+export function previewImport(wb: XLSX.WorkBook, options: ImportOptions, limit = 30): ParsedResult {
+  const selected = (options.sheets ?? []).filter((s) => wb.SheetNames.includes(s));
+  const sheetNames = selected.length ? selected : wb.SheetNames.slice(0, 1);
+  const results = sheetNames.map((name) =>
+    parseSheet(wb, name, options.format, options.matrixLayout, options.tableLayout)
+  );
 
-  if (rows.length === 0) {
-    return {
-      id: generateId(),
-      name: fileName.replace(/\.[^/.]+$/, ""),
-      createdAt: new Date().toISOString(),
-      updatedAt: new Date().toISOString(),
-      rawGrid: [],
-      columns: [],
-      rows: [],
-      detectedCategoryColumns: [],
-      detectedNumericColumns: [],
-      detectedTextColumns: [],
-      totalRows: 0,
-      summary: { totalRecords: 0, categoryCounts: {}, numericStats: {} },
-    };
+  if (!results.length) {
+    return { kind: "table", sheetName: "(none)", rows: [], meta: { detected: "table" } };
   }
 
-  // Extrai nomes de colunas do primeiro registro
-  const columnNames = Object.keys(rows[0]).filter(k => k !== "_rowIndex");
+  const parsed = options.sheetMode === "merge" ? mergeParsedResults(results) : results[0];
+  return { ...parsed, rows: parsed.rows.slice(0, limit) };
+}
 
-  // Cria metadados das colunas
-  const columns: ColumnMetadata[] = columnNames.map((name, index) => {
-    const colValues = rows.map(r => r[name]);
-    const type = detectColumnType(colValues);
-    const uniqueSet = new Set<string>();
+/** ===== Progresso da importação (abas lidas, linhas convertidas) ===== */
+export type ImportProgress = {
+  stage: "reading" | "parsing" | "converting" | "done";
+  sheetsRead: number;
+  sheetsTotal: number;
+  rowsConverted: number;
+};
 
-    for (const v of colValues) {
-      if (v != null && String(v).trim() !== "") {
-        uniqueSet.add(String(v).trim());
-      }
-    }
+export type ProgressCallback = (progress: ImportProgress) => void;
+
+/** ===== Parsing síncrono do arquivo inteiro (roda no worker ou, sem worker, aqui) ===== */
+export function parseWorkbookBuffer(
+  buf: ArrayBuffer,
+  fileName: string,
+  options: ImportOptions = {},
+  onProgress?: ProgressCallback
+): Dataset[] {
+  onProgress?.({ stage: "reading", sheetsRead: 0, sheetsTotal: 0, rowsConverted: 0 });
+  if (isOfxFileName(fileName) || isJsonFileName(fileName)) {
+    const dataset = isOfxFileName(fileName) ? ofxDataset(buf, fileName) : jsonDataset(buf, fileName);
+    onProgress?.({ stage: "done", sheetsRead: 1, sheetsTotal: 1, rowsConverted: dataset.totalRows });
+    return [dataset];
+  }
+  const { workbook: wb, csv } = readSourceWorkbook(buf, fileName, options.csv);
 
-    return {
-      name,
-      originalIndex: index,
-      type,
-      uniqueValues: Array.from(uniqueSet).slice(0, 100),
-      sampleValues: colValues.slice(0, 10),
-      isNumeric: type === "number",
-      isDate: type === "date",
-      isEmpty: colValues.every(v => v == null || String(v).trim() === ""),
-    };
-  });
+  if (!wb.SheetNames.length) {
+    return [convertParsedResultToDataset(
+      { kind: "table", sheetName: "(none)", rows: [], meta: { detected: "table" } },
+      baseName(fileName)
+    )];
+  }
 
-  // Converte para GenericRow (adiciona _rowIndex)
-  const genericRows: GenericRow[] = rows.map((row, idx) => ({
-    ...row,
-    _rowIndex: idx,
-  }));
-
-  // Detecta colunas por tipo
-  const dateColumn = columns.find(c => c.type === "date");
-  const categoryColumns = columns.filter(c => c.type === "category");
-  const numericColumns = columns.filter(c => c.type === "number");
-  const textColumns = columns.filter(c => c.type === "text" || c.type === "id");
-
-  // Calcula summary
-  const summary: DatasetSummary = {
-    totalRecords: genericRows.length,
-    categoryCounts: {},
-    numericStats: {},
-  };
+  const selected = (options.sheets ?? []).filter((s) => wb.SheetNames.includes(s));
+  const sheetNames = selected.length ? selected : [wb.SheetNames[0]];
+  const progress: ImportProgress = { stage: "parsing", sheetsRead: 0, sheetsTotal: sheetNames.length, rowsConverted: 0 };
+  onProgress?.({ ...progress });
 
-  if (parsed.meta.dateRange?.min && parsed.meta.dateRange?.max) {
-    summary.dateRange = { from: parsed.meta.dateRange.min, to: parsed.meta.dateRange.max };
-  } else if (dateColumn) {
-    const dates = genericRows
-      .map(r => r[dateColumn.name])
-      .filter(d => d && typeof d === "string")
-      .sort();
-    if (dates.length > 0) {
-      summary.dateRange = { from: dates[0], to: dates[dates.length - 1] };
-    }
-  }
+  const results = sheetNames.map((name) => {
+    const parsed = parseSheet(wb, name, options.format, options.matrixLayout, options.tableLayout);
+    progress.sheetsRead++;
+    onProgress?.({ ...progress });
+    return parsed;
+  });
 
-  for (const col of categoryColumns) {
-    const counts: { [value: string]: number } = {};
-    for (const row of genericRows) {
-      const v = String(row[col.name] || "").trim() || "(vazio)";
-      counts[v] = (counts[v] || 0) + 1;
+  progress.stage = "converting";
+
+  // CSV exportado pelo banco: colunas de extrato (data, descrição, valor com sinal, tipo, saldo)
+  if (csv && results.length === 1) {
+    const bankRows = bankRowsFromTable(results[0].rows, parsedHeaders(results[0]), csv.numberLocale);
+    if (bankRows?.length) {
+      const dataset = bankStatementDataset(bankRows, baseName(fileName), [{
+        level: "info",
+        code: "sheet_summary",
+        message: `Extrato bancário em CSV: ${bankRows.length} lançamentos de ${results[0].rows.length} linhas`,
+        fileName,
+      }]);
+      onProgress?.({ ...progress, stage: "done", rowsConverted: dataset.totalRows });
+      return [dataset];
     }
-    summary.categoryCounts[col.name] = counts;
   }
 
-  for (const col of numericColumns) {
-    const values = genericRows.map(r => toNumber(r[col.name])).filter(n => !isNaN(n));
-    if (values.length > 0) {
-      summary.numericStats[col.name] = {
-        min: Math.min(...values),
-        max: Math.max(...values),
-        avg: values.reduce((a, b) => a + b, 0) / values.length,
-        sum: values.reduce((a, b) => a + b, 0),
-      };
-    }
+  const convert = (parsed: ParsedResult, name: string, grid?: Parameters<typeof convertParsedResultToDataset>[2]) => {
+    const dataset = convertParsedResultToDataset(parsed, name, grid, csv, fileName);
+    progress.rowsConverted += dataset.totalRows;
+    onProgress?.({ ...progress });
+    return dataset;
+  };
+
+  let datasets: Dataset[];
+  if (results.length === 1) {
+    datasets = [convert(results[0], baseName(fileName), sheetGrid(wb, results[0]))];
+  } else if (options.sheetMode === "merge") {
+    // Abas mescladas não têm uma grade de origem única: a grade é a própria tabela longa
+    const merged = mergeParsedResults(results);
+    const dataset = convert(merged, baseName(fileName), {
+      rawGrid: tableGridFromRows(merged.rows),
+      gridSource: { kind: "table", sheetName: merged.sheetName, tableLayout: DEFAULT_TABLE_LAYOUT },
+    });
+    datasets = [{ ...dataset, importLayout: { ...dataset.importLayout, sheets: sheetNames, sheetMode: "merge" } }];
+  } else {
+    datasets = results.map((parsed) =>
+      convert(parsed, `${baseName(fileName)} - ${parsed.sheetName}`, sheetGrid(wb, parsed))
+    );
   }
 
-  return {
-    id: generateId(),
-    name: fileName.replace(/\.[^/.]+$/, ""),
-    createdAt: new Date().toISOString(),
-    updatedAt: new Date().toISOString(),
-    rawGrid: [],
-    columns,
-    rows: genericRows,
-    detectedDateColumn: dateColumn?.name,
-    detectedCategoryColumns: categoryColumns.map(c => c.name),
-    detectedNumericColumns: numericColumns.map(c => c.name),
-    detectedTextColumns: textColumns.map(c => c.name),
-    totalRows: genericRows.length,
-    summary,
-  };
+  onProgress?.({ ...progress, stage: "done" });
+  return datasets;
 }
 
-// ===== Export type for backwards compatibility =====
-export type ImportFormat = "auto" | "long" | "matrix";
-
-/** ===== Função principal de parsing ===== */
+/** ===== Função principal de parsing (thread atual; ver importClient para o worker) ===== */
 export async function parseExcelFile(
   file: File,
-  _format: ImportFormat = "auto"
-): Promise<Dataset> {
+  options: ImportOptions = {},
+  onProgress?: ProgressCallback
+): Promise<Dataset[]> {
   const buf = await file.arrayBuffer();
-  const parsed = parseWorkbook(buf);
-
-  console.log("📊 Tipo detectado:", parsed.kind);
-  console.log("📋 Meta:", parsed.meta);
-  console.log("📝 Primeiras linhas:", parsed.rows.slice(0, 5));
-
-  return convertParsedResultToDataset(parsed, file.name);
+  return parseWorkbookBuffer(buf, file.name, options, onProgress);
 }
@@ -0,0 +1,112 @@
+/**
+ * Linked local file
+ * Um dataset pode ficar ligado ao arquivo do disco (File System Access API):
+ * o handle fica no IndexedDB e "Recarregar" relê o mesmo arquivo com a aba,
+ * o cabeçalho, o CSV e a revisão de colunas da importação original.
+ */
+
+import { get, set, del } from "idb-keyval";
+import type { Dataset } from "./database";
+import type { ImportOptions } from "./excelParser";
+import { applyColumnOverrides } from "./columnReview";
+import { templateFormat } from "./importTemplates";
+
+const HANDLE_PREFIX = "file_handle_";
+
+/** Só o que usamos do FileSystemFileHandle (permissões ainda fora do lib.dom) */
+export interface LinkedFileHandle {
+  kind: "file";
+  name: string;
+  getFile(): Promise<File>;
+  queryPermission?(descriptor: { mode: "read" | "readwrite" }): Promise<PermissionState>;
+  requestPermission?(descriptor: { mode: "read" | "readwrite" }): Promise<PermissionState>;
+}
+
+type OpenFilePicker = (options?: {
+  multiple?: boolean;
+  types?: { description: string; accept: Record<string, string[]> }[];
+}) => Promise<LinkedFileHandle[]>;
+
+function openFilePicker(): OpenFilePicker | undefined {
+  return typeof window === "undefined"
+    ? undefined
+    : (window as unknown as { showOpenFilePicker?: OpenFilePicker }).showOpenFilePicker;
+}
+
+/** Chrome/Edge no desktop; Firefox e Safari não têm o seletor com handle */
+export function isFileLinkSupported(): boolean {
+  return !!openFilePicker();
+}
+
+/** Seletor do sistema; null se o usuário fechou sem escolher */
+export async function pickLinkedFile(): Promise<LinkedFileHandle | null> {
+  const picker = openFilePicker();
+  if (!picker) throw new Error("Este navegador não permite vincular arquivos locais");
+  try {
+    const [handle] = await picker({
+      multiple: false,
+      types: [{
+        description: "Planilhas",
+        accept: {
+          "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet": [".xlsx", ".xlsm"],
+          "application/vnd.ms-excel": [".xls"],
+          "application/vnd.oasis.opendocument.spreadsheet": [".ods"],
+          "text/csv": [".csv", ".tsv", ".txt"],
+        },
+      }],
+    });
+    return handle ?? null;
+  } catch (err) {
+    if (err instanceof DOMException && err.name === "AbortError") return null;
+    throw err;
+  }
+}
+
+/** ===== Handles no IndexedDB (um por dataset) ===== */
+export async function saveFileHandle(datasetId: string, handle: LinkedFileHandle): Promise<void> {
+  await set(`${HANDLE_PREFIX}${datasetId}`, handle);
+}
+
+export async function getFileHandle(datasetId: string): Promise<LinkedFileHandle | undefined> {
+  return await get(`${HANDLE_PREFIX}${datasetId}`);
+}
+
+export async function deleteFileHandle(datasetId: string): Promise<void> {
+  await del(`${HANDLE_PREFIX}${datasetId}`);
+}
+
+/**
+ * Lê o arquivo vinculado. A permissão de leitura não sobrevive ao reload da
+ * página: o navegador pergunta de novo (precisa vir de um clique).
+ */
+export async function readLinkedFile(handle: LinkedFileHandle): Promise<File> {
+  const descriptor = { mode: "read" as const };
+  if (handle.queryPermission && (await handle.queryPermission(descriptor)) !== "granted") {
+    const state = await handle.requestPermission?.(descriptor);
+    if (state !== "granted") throw new Error("Permissão de leitura do arquivo negada");
+  }
+  return handle.getFile();
+}
+
+/** Mesma leitura da importação original (aba, formato, linhas de cabeçalho) */
+export function reloadOptions(dataset: Dataset): ImportOptions {
+  const layout = dataset.importLayout;
+  const source = dataset.gridSource;
+  const kind = layout?.kind ?? source?.kind;
+  const sheetName = layout?.sheetName ?? source?.sheetName;
+  return {
+    format: kind ? templateFormat({ kind }) : "auto",
+    sheets: layout?.sheets ?? (sheetName ? [sheetName] : []),
+    sheetMode: layout?.sheetMode,
+    tableLayout: layout?.tableLayout ?? source?.tableLayout,
+    matrixLayout: layout?.matrixLayout ?? source?.matrixLayout,
+    csv: layout?.csv,
+  };
+}
+
+/** Reaplica a revisão de colunas (renomear/excluir/tipo) no arquivo relido */
+export function applyStoredReview(dataset: Dataset, reread: Dataset): Dataset {
+  const names = new Set(reread.columns.map((c) => c.name));
+  const overrides = (dataset.importLayout?.columnOverrides ?? []).filter((o) => names.has(o.name));
+  return overrides.length ? applyColumnOverrides(reread, overrides) : reread;
+}
@@ -0,0 +1,191 @@
+/**
+ * Grid <-> rows sync
+ * Mantém rawGrid (o que a aba Planilha mostra) e rows/columns/summary
+ * (o que o dashboard usa) coerentes nos dois sentidos.
+ */
+
+import * as XLSX from "xlsx";
+import type { Dataset, GridSource } from "./database";
+import { parseRdaMatrix, parseTable, DEFAULT_MATRIX_LAYOUT, type ParsedResult } from "./excelParser";
+import { rebuildDataset, tableGridFromRows, collectColumnNames } from "./datasetBuilder";
+import { DEFAULT_TABLE_LAYOUT } from "./tableHeader";
+
+const TABLE_SOURCE: GridSource = { kind: "table", sheetName: "Planilha" };
+
+function gridSourceOf(dataset: Dataset): GridSource {
+  return dataset.gridSource ?? { ...TABLE_SOURCE, sheetName: dataset.name };
+}
+
+function parseGrid(grid: unknown[][], source: GridSource): ParsedResult {
+  const ws = XLSX.utils.aoa_to_sheet(grid, { cellDates: true });
+
+  if (source.kind === "rda_matrix") {
+    return parseRdaMatrix(ws, source.sheetName, source.matrixLayout ?? DEFAULT_MATRIX_LAYOUT);
+  }
+
+  // Sem layout gravado (datasets antigos), a grade começa no cabeçalho
+  return parseTable(ws, source.sheetName, source.tableLayout ?? DEFAULT_TABLE_LAYOUT);
+}
+
+/** Linhas normalizadas que a grade representa, lida como foi na importação */
+export function rowsFromGrid(grid: unknown[][], source: GridSource): ParsedResult["rows"] {
+  return parseGrid(grid, source).rows;
+}
+
+// Célula pessoa × data da matriz (a linha longa não tem posição própria na grade)
+function matrixCell(row: Record<string, unknown>) {
+  return `${row.data}|${row.pessoa}`;
+}
+
+/** Arquivo de origem (_sourceId) de cada linha que a grade gravada representa */
+function sourceIdsOf(dataset: Dataset, before: ParsedResult): unknown[] | null {
+  if (before.origins) {
+    // Tabela: a grade é lida na ordem das linhas gravadas
+    return before.rows.length === dataset.rows.length ? dataset.rows.map((r) => r._sourceId) : null;
+  }
+  const byCell = new Map(dataset.rows.map((r) => [matrixCell(r), r._sourceId]));
+  return before.rows.map((r) => byCell.get(matrixCell(r)));
+}
+
+/**
+ * A grade não guarda _sourceId: a linha que continua igual fica com a origem
+ * que tinha (mesmo se mudou de lugar); a editada, com a da linha que estava
+ * entre as mesmas linhas iguais antes. Linha nova, digitada na Planilha,
+ * fica sem origem.
+ */
+function carrySourceIds(before: ParsedResult, sourceIds: unknown[], after: ParsedResult): Record<string, unknown>[] {
+  const bySignature = new Map<string, number[]>();
+  before.rows.forEach((row, i) => {
+    const signature = JSON.stringify(row);
+    bySignature.set(signature, [...(bySignature.get(signature) ?? []), i]);
+  });
+  const matched = after.rows.map((row) => bySignature.get(JSON.stringify(row))?.shift() ?? -1);
+  const used = new Set(matched.filter((i) => i >= 0));
+
+  // Próxima linha igual depois de cada posição: a editada não passa dela
+  const nextMatch: number[] = [];
+  for (let j = after.rows.length - 1, next = before.rows.length; j >= 0; j--) {
+    nextMatch[j] = next;
+    if (matched[j] >= 0) next = matched[j];
+  }
+
+  let cursor = -1;
+  return after.rows.map((row, j) => {
+    let i = matched[j];
+    if (i < 0) {
+      let candidate = cursor + 1;
+      while (used.has(candidate)) candidate++;
+      if (candidate < nextMatch[j]) {
+        i = candidate;
+        used.add(i);
+      }
+    }
+    if (i < 0) return row;
+    cursor = Math.max(cursor, i);
+    return sourceIds[i] ? { ...row, _sourceId: sourceIds[i] } : row;
+  });
+}
+
+/** Planilha editada -> rows, ColumnMetadata e DatasetSummary */
+export function datasetFromGrid(current: Dataset, grid: unknown[][]): Dataset {
+  // Sem a grade gravada, a editada foi montada pelas linhas: lida com o layout dessa montagem
+  const dataset = ensureRawGrid(current);
+  const source = gridSourceOf(dataset);
+  const { coerceValues, numberLocale } = source;
+  const parsed = parseGrid(grid, source);
+
+  let rows = parsed.rows;
+  let importSources = dataset.importSources;
+  const before = importSources?.length && dataset.rawGrid?.length ? parseGrid(dataset.rawGrid, source) : null;
+  const sourceIds = before && sourceIdsOf(dataset, before);
+  if (sourceIds) {
+    rows = carrySourceIds(before, sourceIds, parsed);
+    // Linhas excluídas na Planilha saem da conta do arquivo
+    const counts = new Map<unknown, number>();
+    for (const row of rows) counts.set(row._sourceId, (counts.get(row._sourceId) ?? 0) + 1);
+    importSources = importSources.map((s) => ({ ...s, rowCount: counts.get(s.id) ?? 0 }));
+  }
+
+  return {
+    ...rebuildDataset({ ...dataset, importSources }, rows, { coerceValues, numberLocale }),
+    rawGrid: grid,
+    gridSource: source,
+  };
+}
+
+/** Volta a tabela longa da RDA para o formato matriz (datas x pessoas) */
+function matrixGridFromRows(rows: Record<string, unknown>[], sheetName: string): unknown[][] {
+  const people: { name: string; team: string }[] = [];
+  const seen = new Set<string>();
+  const dates = new Set<string>();
+  const statusByKey = new Map<string, unknown>();
+
+  for (const row of rows) {
+    const name = String(row.pessoa ?? "").trim();
+    const date = String(row.data ?? "").trim();
+    if (!name || !date) continue;
+    if (!seen.has(name)) {
+      seen.add(name);
+      people.push({ name, team: String(row.equipe ?? "").trim() });
+    }
+    dates.add(date);
+    statusByKey.set(`${date}|${name}`, row.status ?? null);
+  }
+
+  // Agrupa pessoas por equipe para o forward-fill da linha de equipes funcionar
+  const teamOrder = Array.from(new Set(people.map((p) => p.team)));
+  people.sort((a, b) => teamOrder.indexOf(a.team) - teamOrder.indexOf(b.team));
+
+  const teamRow: unknown[] = ["DATA"];
+  people.forEach((p, i) => teamRow.push(i === 0 || people[i - 1].team !== p.team ? p.team || null : null));
+
+  const grid: unknown[][] = [[sheetName], teamRow, [null, ...people.map((p) => p.name)]];
+  for (const date of Array.from(dates).sort()) {
+    grid.push([date, ...people.map((p) => statusByKey.get(`${date}|${p.name}`) ?? null)]);
+  }
+  return grid;
+}
+
+/** rows -> rawGrid (para alterações feitas nas linhas, fora da Planilha) */
+export function syncGridFromRows(dataset: Dataset): Dataset {
+  const source = gridSourceOf(dataset);
+  const columns = collectColumnNames(dataset.rows);
+  const isMatrix =
+    source.kind === "rda_matrix" && ["data", "pessoa", "status"].every((c) => columns.includes(c));
+
+  if (isMatrix) {
+    return {
+      ...dataset,
+      rawGrid: matrixGridFromRows(dataset.rows, source.sheetName),
+      gridSource: { ...source, matrixLayout: DEFAULT_MATRIX_LAYOUT },
+    };
+  }
+
+  return {
+    ...dataset,
+    rawGrid: tableGridFromRows(dataset.rows, columns),
+    gridSource: {
+      kind: "table",
+      sheetName: source.sheetName,
+      tableLayout: DEFAULT_TABLE_LAYOUT,
+      coerceValues: source.coerceValues,
+      numberLocale: source.numberLocale,
+    },
+  };
+}
+
+/**
+ * Tira a cópia da grade original (limpeza de espaço). O layout da importação
+ * (linha do cabeçalho, matriz) era da grade que sai: a Planilha passa a ser
+ * montada pelas linhas, com o cabeçalho na primeira linha.
+ */
+export function withoutRawGrid(dataset: Dataset): Dataset {
+  const { kind, sheetName, coerceValues, numberLocale } = gridSourceOf(dataset);
+  return { ...dataset, rawGrid: [], gridSource: { kind, sheetName, coerceValues, numberLocale } };
+}
+
+/** Datasets antigos (ou criados fora de planilhas) chegam sem rawGrid */
+export function ensureRawGrid(dataset: Dataset): Dataset {
+  if (dataset.rawGrid?.length || !dataset.rows?.length) return dataset;
+  return syncGridFromRows(dataset);
+}
@@ -2,6 +2,7 @@
 import { format } from "date-fns";
 import { ptBR } from "date-fns/locale";
 import type { Dataset, GenericRow } from "./database";
+import { CELL_FORMAT_SCRIPT, columnTypeMap } from "./valueFormat";
 
 interface ExportHTMLOptions {
   dataset: Dataset;
@@ -52,6 +53,7 @@ function generateHTML(dataset: Dataset, allRows: GenericRow[]): string {
   const numColsJSON = JSON.stringify(numCols);
   const statsJSON = JSON.stringify(stats);
   const numericStatsJSON = JSON.stringify(numericStats);
+  const colTypesJSON = JSON.stringify(columnTypeMap(allColumns));
   
   return `<!DOCTYPE html>
 <html lang="pt-BR">
@@ -602,6 +604,8 @@ function generateHTML(dataset: Dataset, allRows: GenericRow[]): string {
     const stats = ${statsJSON};
     const numericStats = ${numericStatsJSON};
     const dateCol = ${dateCol ? `"${dateCol}"` : 'null'};
+    const colTypes = ${colTypesJSON};
+    ${CELL_FORMAT_SCRIPT}
     
     // State
     let filteredRows = [...allRows];
@@ -806,8 +810,8 @@ function generateHTML(dataset: Dataset, allRows: GenericRow[]): string {
         html += \`
           <div class="kpi-card info">
             <div class="title">Soma \${col}</div>
-            <div class="value">\${sum.toLocaleString('pt-BR', {maximumFractionDigits: 2})}</div>
-            <div class="subtitle">Média: \${avg.toLocaleString('pt-BR', {maximumFractionDigits: 2})}</div>
+            <div class="value">\${fmtStat(sum, colTypes[col])}</div>
+            <div class="subtitle">Média: \${fmtStat(avg, colTypes[col])}</div>
           </div>
         \`;
       });
@@ -936,7 +940,10 @@ function generateHTML(dataset: Dataset, allRows: GenericRow[]): string {
       // Body
       const tbody = document.getElementById('table-body');
       tbody.innerHTML = pageRows.map(row => 
-        '<tr>' + columns.map(col => \`<td title="\${row[col] || ''}">\${row[col] || '-'}</td>\`).join('') + '</tr>'
+        '<tr>' + columns.map(col => {
+          const txt = fmtCell(row[col], colTypes[col]);
+          return \`<td title="\${txt}">\${txt || '-'}</td>\`;
+        }).join('') + '</tr>'
       ).join('');
       
       // Pagination
@@ -1000,19 +1007,19 @@ function generateHTML(dataset: Dataset, allRows: GenericRow[]): string {
             <h4>📊 \${col}</h4>
             <div class="stat-row">
               <span class="stat-label">Soma</span>
-              <span class="stat-value">\${sum.toLocaleString('pt-BR', {maximumFractionDigits: 2})}</span>
+              <span class="stat-value">\${fmtStat(sum, colTypes[col])}</span>
             </div>
             <div class="stat-row">
               <span class="stat-label">Média</span>
-              <span class="stat-value">\${avg.toLocaleString('pt-BR', {maximumFractionDigits: 2})}</span>
+              <span class="stat-value">\${fmtStat(avg, colTypes[col])}</span>
             </div>
             <div class="stat-row">
               <span class="stat-label">Mínimo</span>
-              <span class="stat-value">\${min.toLocaleString('pt-BR', {maximumFractionDigits: 2})}</span>
+              <span class="stat-value">\${fmtStat(min, colTypes[col])}</span>
             </div>
             <div class="stat-row">
               <span class="stat-label">Máximo</span>
-              <span class="stat-value">\${max.toLocaleString('pt-BR', {maximumFractionDigits: 2})}</span>
+              <span class="stat-value">\${fmtStat(max, colTypes[col])}</span>
             </div>
           </div>
         \`;
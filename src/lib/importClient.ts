@@ -0,0 +1,75 @@
+/**
+ * Import Client
+ * Roda a importação no Import Worker (com progresso e cancelamento).
+ * Sem suporte a Worker (testes, navegadores antigos), cai para a thread atual.
+ */
+
+import type { Dataset } from "./database";
+import { parseExcelFile, type ImportOptions, type ProgressCallback } from "./excelParser";
+import type { ImportWorkerMessage, ImportWorkerRequest } from "./importWorker";
+
+export interface ImportRunOptions {
+  onProgress?: ProgressCallback;
+  signal?: AbortSignal;
+}
+
+function abortError() {
+  return new DOMException("Importação cancelada", "AbortError");
+}
+
+export function isImportCancelled(err: unknown) {
+  return err instanceof DOMException && err.name === "AbortError";
+}
+
+export async function parseFileInWorker(
+  file: File,
+  options: ImportOptions = {},
+  { onProgress, signal }: ImportRunOptions = {}
+): Promise<Dataset[]> {
+  if (signal?.aborted) throw abortError();
+
+  if (typeof Worker === "undefined") {
+    const datasets = await parseExcelFile(file, options, onProgress);
+    if (signal?.aborted) throw abortError();
+    return datasets;
+  }
+
+  const buffer = await file.arrayBuffer();
+  if (signal?.aborted) throw abortError();
+
+  return new Promise<Dataset[]>((resolve, reject) => {
+    const worker = new Worker(new URL("./importWorker.ts", import.meta.url), { type: "module" });
+
+    const finish = () => {
+      worker.terminate();
+      signal?.removeEventListener("abort", onAbort);
+    };
+
+    const onAbort = () => {
+      finish();
+      reject(abortError());
+    };
+    signal?.addEventListener("abort", onAbort);
+
+    worker.onmessage = (e: MessageEvent<ImportWorkerMessage>) => {
+      const msg = e.data;
+      if (msg.type === "progress") {
+        onProgress?.(msg.progress);
+      } else if (msg.type === "result") {
+        finish();
+        resolve(msg.datasets);
+      } else {
+        finish();
+        reject(new Error(msg.message));
+      }
+    };
+
+    worker.onerror = (e) => {
+      finish();
+      reject(new Error(e.message || "Falha no worker de importação"));
+    };
+
+    const request: ImportWorkerRequest = { buffer, fileName: file.name, options };
+    worker.postMessage(request, [buffer]);
+  });
+}
@@ -0,0 +1,183 @@
+/**
+ * Import diagnostics
+ * Avisos linha a linha da importação (data inválida, cabeçalho de pessoa não
+ * reconhecido, texto em coluna numérica), com aba, célula e valor original,
+ * gravados no dataset para a equipe corrigir a planilha de origem.
+ */
+
+import * as XLSX from "xlsx";
+import type { ColumnType, Dataset } from "./database";
+import { isEmptyCell } from "./cellValues";
+import type { NumberLocale } from "./csvLocale";
+import { coerceValue, isNumericType } from "./datasetBuilder";
+
+export type DiagnosticLevel = "info" | "warning";
+
+export type DiagnosticCode =
+  /** Resumo da aba (tipo detectado, cabeçalho, pessoas) */
+  | "sheet_summary"
+  /** Linha da matriz ignorada: a célula de data não virou data */
+  | "invalid_date_row"
+  /** Célula da linha de pessoas que não parece nome: a coluna inteira fica de fora */
+  | "unrecognized_person"
+  /** Valor que não bate com o tipo da coluna (texto em coluna numérica, data inválida) */
+  | "invalid_value"
+  /** Aviso de que a lista foi cortada */
+  | "truncated"
+  /** Arquivo do lote que não pôde ser lido (ex.: XML que não é NF-e) */
+  | "invalid_file"
+  /** Registro gravado que não passou na validação e foi reconstruído ao carregar */
+  | "storage_repair";
+
+export interface ImportDiagnostic {
+  level: DiagnosticLevel;
+  code: DiagnosticCode;
+  message: string;
+  /** Arquivo de origem (útil em datasets com arquivos anexados) */
+  fileName?: string;
+  sheet?: string;
+  /** Endereço no Excel, ex.: "C12" */
+  cell?: string;
+  column?: string;
+  rawValue?: string;
+}
+
+export const DIAGNOSTIC_LABELS: Record<DiagnosticCode, string> = {
+  sheet_summary: "Resumo da aba",
+  invalid_date_row: "Data inválida",
+  unrecognized_person: "Pessoa não reconhecida",
+  invalid_value: "Valor fora do tipo",
+  truncated: "Lista cortada",
+  invalid_file: "Arquivo ignorado",
+  storage_repair: "Reparo do armazenamento",
+};
+
+const TYPE_NOUNS: Partial<Record<ColumnType, string>> = {
+  number: "número",
+  currency: "valor em R$",
+  percent: "percentual",
+  duration: "duração",
+  date: "data",
+  time: "hora",
+  boolean: "Sim/Não",
+};
+
+/** Acima disso os avisos do mesmo tipo viram uma linha de resumo */
+export const MAX_DIAGNOSTICS_PER_CODE = 500;
+
+/** Posição de cada linha importada na planilha, para apontar a célula do valor */
+export type RowOrigin = {
+  sheet: string;
+  /** Linha 0-based da aba */
+  row: number;
+  /** Coluna 0-based da aba por nome de coluna (objeto compartilhado entre as linhas da aba) */
+  columns: Record<string, number>;
+};
+
+export function cellAddress(r: number, c: number): string {
+  return XLSX.utils.encode_cell({ r, c });
+}
+
+export function rawText(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  if (value instanceof Date) return Number.isNaN(value.getTime()) ? "" : value.toISOString();
+  return String(value);
+}
+
+/** Corta cada código em MAX_DIAGNOSTICS_PER_CODE, deixando uma linha com o total omitido */
+export function capDiagnostics(list: ImportDiagnostic[]): ImportDiagnostic[] {
+  const counts = new Map<DiagnosticCode, number>();
+  const out: ImportDiagnostic[] = [];
+  for (const d of list) {
+    const n = (counts.get(d.code) ?? 0) + 1;
+    counts.set(d.code, n);
+    if (n <= MAX_DIAGNOSTICS_PER_CODE) out.push(d);
+  }
+  for (const [code, n] of counts) {
+    if (n > MAX_DIAGNOSTICS_PER_CODE) {
+      out.push({
+        level: "warning",
+        code: "truncated",
+        message: `Mais ${n - MAX_DIAGNOSTICS_PER_CODE} avisos do tipo "${DIAGNOSTIC_LABELS[code]}" não listados`,
+      });
+    }
+  }
+  return out;
+}
+
+function isValidForType(value: unknown, type: ColumnType, numberLocale?: NumberLocale) {
+  if (isEmptyCell(value)) return true;
+  if (isNumericType(type) && typeof value === "number") return true;
+  if (type === "date" && (value instanceof Date || typeof value === "number")) return true;
+  if (type === "boolean" && typeof value === "boolean") return true;
+  return coerceValue(value, type, numberLocale) !== null;
+}
+
+const CHECKED_TYPES: ColumnType[] = ["number", "currency", "percent", "duration", "date", "time", "boolean"];
+
+/** Valores que não batem com o tipo final da coluna (comparando o valor lido da planilha) */
+export function valueTypeDiagnostics(
+  dataset: Pick<Dataset, "columns">,
+  rawRows: Record<string, unknown>[],
+  origins: (RowOrigin | undefined)[] | undefined,
+  numberLocale?: NumberLocale
+): ImportDiagnostic[] {
+  const out: ImportDiagnostic[] = [];
+  const checked = dataset.columns.filter((c) => CHECKED_TYPES.includes(c.type));
+
+  for (const col of checked) {
+    rawRows.forEach((row, i) => {
+      const value = row[col.name];
+      if (isValidForType(value, col.type, numberLocale)) return;
+      const origin = origins?.[i];
+      const c = origin?.columns[col.name];
+      out.push({
+        level: "warning",
+        code: "invalid_value",
+        message: `Valor não reconhecido como ${TYPE_NOUNS[col.type]} na coluna "${col.name}"`,
+        sheet: origin?.sheet,
+        cell: origin && c !== undefined ? cellAddress(origin.row, c) : undefined,
+        column: col.name,
+        rawValue: rawText(value),
+      });
+    });
+  }
+  return out;
+}
+
+/** Revisão de colunas: renomeia/descarta os avisos das colunas alteradas */
+export function remapDiagnostics(
+  list: ImportDiagnostic[] | undefined,
+  renames: Map<string, string>,
+  dropColumns: Set<string>
+): ImportDiagnostic[] | undefined {
+  if (!list) return list;
+  return list
+    .filter((d) => !d.column || !dropColumns.has(d.column))
+    .map((d) => (d.column && renames.has(d.column) ? { ...d, column: renames.get(d.column) } : d));
+}
+
+const CSV_HEADER = ["Nível", "Tipo", "Arquivo", "Aba", "Célula", "Coluna", "Valor", "Mensagem"];
+
+function csvField(v: string) {
+  return /[";\n\r]/.test(v) ? `"${v.replace(/"/g, '""')}"` : v;
+}
+
+/** CSV com ";" (abre direto no Excel em pt-BR) */
+export function diagnosticsToCsv(list: ImportDiagnostic[]): string {
+  const lines = [CSV_HEADER, ...list.map((d) => [
+    d.level === "warning" ? "Aviso" : "Info",
+    DIAGNOSTIC_LABELS[d.code],
+    d.fileName ?? "",
+    d.sheet ?? "",
+    d.cell ?? "",
+    d.column ?? "",
+    d.rawValue ?? "",
+    d.message,
+  ])];
+  return "\uFEFF" + lines.map((l) => l.map(csvField).join(";")).join("\r\n");
+}
+
+export function countWarnings(list: ImportDiagnostic[] | undefined): number {
+  return list?.filter((d) => d.level === "warning").length ?? 0;
+}
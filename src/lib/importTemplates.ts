@@ -0,0 +1,196 @@
+/**
+ * Import templates
+ * O mesmo layout chega todo mês: o modelo guarda como ler o arquivo (aba,
+ * linha do cabeçalho, layout da matriz), as escolhas da revisão de colunas e
+ * a classificação (semanticMap, matrixConfig). Identificado pela assinatura
+ * do cabeçalho, é aplicado sozinho quando um arquivo igual é importado, sem
+ * chamar a IA de novo.
+ */
+
+import { get, set, del, keys } from "idb-keyval";
+import type * as XLSX from "xlsx";
+import { generateId, type Dataset, type ImportLayout, type MatrixConfig } from "./database";
+import type { ServiceProfile } from "./serviceProfile";
+import { applyColumnOverrides, type ColumnOverride } from "./columnReview";
+import { headerSignature, parsedHeaders, parseSheet, type ImportFormat } from "./excelParser";
+
+export interface ImportTemplate extends Omit<ImportLayout, "templateId"> {
+  id: string;
+  name: string;
+  createdAt: string;
+  updatedAt: string;
+  lastUsedAt?: string;
+  useCount: number;
+  /** Classificação do dataset (inclui o semanticMap) */
+  serviceProfile?: ServiceProfile;
+  matrixConfig?: MatrixConfig;
+}
+
+const TEMPLATES_PREFIX = "import_template_";
+
+export async function saveImportTemplate(template: ImportTemplate): Promise<void> {
+  await set(`${TEMPLATES_PREFIX}${template.id}`, template);
+}
+
+export async function deleteImportTemplate(id: string): Promise<void> {
+  await del(`${TEMPLATES_PREFIX}${id}`);
+}
+
+/** Modelos do mais usado recentemente para o mais antigo */
+export async function getAllImportTemplates(): Promise<ImportTemplate[]> {
+  const templateKeys = (await keys()).filter(
+    (key) => typeof key === "string" && key.startsWith(TEMPLATES_PREFIX)
+  );
+  const templates: ImportTemplate[] = [];
+  for (const key of templateKeys) {
+    const template = await get(key as string);
+    if (template) templates.push(template as ImportTemplate);
+  }
+  return sortTemplates(templates);
+}
+
+export function sortTemplates(templates: ImportTemplate[]): ImportTemplate[] {
+  const stamp = (t: ImportTemplate) => t.lastUsedAt ?? t.updatedAt;
+  return [...templates].sort((a, b) => stamp(b).localeCompare(stamp(a)));
+}
+
+/** Formato de leitura do modelo (o que a tela de formato pré-seleciona) */
+export function templateFormat(template: Pick<ImportTemplate, "kind">): ImportFormat {
+  return template.kind === "rda_matrix" ? "matrix" : "long";
+}
+
+/**
+ * Modelo do dataset atual; um modelo com a mesma assinatura é atualizado
+ * (mantém id, nome antigo se não vier outro, e o histórico de uso).
+ */
+export function templateFromDataset(
+  dataset: Dataset,
+  name: string,
+  existing?: ImportTemplate
+): ImportTemplate | null {
+  const layout = dataset.importLayout;
+  if (!layout) return null;
+  const now = new Date().toISOString();
+  const { templateId: _templateId, ...rest } = layout;
+
+  return {
+    ...rest,
+    id: existing?.id ?? generateId().replace(/^ds_/, "tpl_"),
+    name: name.trim() || existing?.name || dataset.name,
+    createdAt: existing?.createdAt ?? now,
+    updatedAt: now,
+    lastUsedAt: existing?.lastUsedAt,
+    useCount: existing?.useCount ?? 0,
+    columnOverrides: layout.columnOverrides ?? [],
+    serviceProfile: dataset.serviceProfile,
+    matrixConfig: dataset.matrixConfig,
+  };
+}
+
+export function findTemplateBySignature(templates: ImportTemplate[], signature?: string) {
+  return signature ? templates.find((t) => t.signature === signature) : undefined;
+}
+
+export interface WorkbookTemplateMatch {
+  template: ImportTemplate;
+  /** Aba onde o cabeçalho do modelo foi encontrado */
+  sheetName: string;
+}
+
+/**
+ * Lê a pré-visualização com as opções de cada modelo (aba de mesmo nome ou
+ * a primeira) e devolve o primeiro cujo cabeçalho bate com a assinatura.
+ */
+export function findTemplateForWorkbook(
+  wb: XLSX.WorkBook,
+  templates: ImportTemplate[]
+): WorkbookTemplateMatch | null {
+  for (const template of templates) {
+    const sheetName = wb.SheetNames.includes(template.sheetName) ? template.sheetName : wb.SheetNames[0];
+    if (!sheetName) continue;
+    try {
+      const parsed = parseSheet(wb, sheetName, templateFormat(template), template.matrixLayout, template.tableLayout);
+      if (headerSignature(parsed.kind, parsedHeaders(parsed)) === template.signature) {
+        return { template, sheetName };
+      }
+    } catch (err) {
+      console.warn(`Modelo "${template.name}" não pôde ser testado:`, err);
+    }
+  }
+  return null;
+}
+
+/**
+ * Mesma assinatura = mesmos cabeçalhos na mesma ordem, a menos de acento e
+ * caixa: nome lido no modelo -> nome lido neste arquivo, coluna a coluna.
+ */
+function headerCorrespondence(template: ImportTemplate, dataset: Dataset): Map<string, string> {
+  const current = dataset.importLayout?.headers ?? [];
+  const sameShape = current.length === template.headers.length;
+  return new Map(template.headers.map((h, i) => [h, sameShape ? current[i] : h]));
+}
+
+/** Escolhas do modelo para as colunas que existem no dataset lido (com os nomes deste arquivo) */
+export function templateOverrides(template: ImportTemplate, dataset: Dataset): ColumnOverride[] {
+  const names = new Set(dataset.columns.map((c) => c.name));
+  const headers = headerCorrespondence(template, dataset);
+  return template.columnOverrides
+    .map((o) => ({ ...o, name: headers.get(o.name) ?? o.name }))
+    .filter((o) => names.has(o.name));
+}
+
+/**
+ * Dataset revisado com o que o modelo guarda além das colunas: classificação
+ * (o dataset não volta para a heurística/IA) e matriz, se as colunas existirem.
+ * Nomes que o modelo não renomeia seguem a grafia deste arquivo.
+ */
+export function applyTemplateProfile(dataset: Dataset, template: ImportTemplate): Dataset {
+  const finalName = (o: ColumnOverride | undefined, header: string) => o?.rename?.trim() || header;
+  const overrides = new Map(template.columnOverrides.map((o) => [o.name, o]));
+  const renamed = new Map(
+    Array.from(headerCorrespondence(template, dataset)).map(([from, to]) => [
+      finalName(overrides.get(from), from),
+      finalName(overrides.get(from), to),
+    ])
+  );
+  const rename = (name: string) => renamed.get(name) ?? name;
+
+  const names = new Set(dataset.columns.map((c) => c.name));
+  const config = template.matrixConfig && {
+    rowColumn: rename(template.matrixConfig.rowColumn),
+    colColumn: rename(template.matrixConfig.colColumn),
+    valueColumn: rename(template.matrixConfig.valueColumn),
+  };
+  const matrixConfig =
+    config && [config.rowColumn, config.colColumn, config.valueColumn].every((c) => names.has(c))
+      ? config
+      : dataset.matrixConfig;
+
+  const profile = template.serviceProfile;
+  const serviceProfile = profile
+    ? {
+        ...profile,
+        semanticMap: Object.fromEntries(
+          Object.entries(profile.semanticMap).map(([role, col]) => [role, typeof col === "string" ? rename(col) : col])
+        ) as typeof profile.semanticMap,
+      }
+    : dataset.serviceProfile;
+
+  return {
+    ...dataset,
+    serviceProfile,
+    matrixConfig,
+    importLayout: dataset.importLayout && { ...dataset.importLayout, templateId: template.id },
+  };
+}
+
+/** Revisão completa com o modelo: colunas + classificação + matriz */
+export function applyImportTemplate(dataset: Dataset, template: ImportTemplate): Dataset {
+  const overrides = templateOverrides(template, dataset);
+  const reviewed = overrides.length ? applyColumnOverrides(dataset, overrides) : dataset;
+  return applyTemplateProfile(reviewed, template);
+}
+
+export function markTemplateUsed(template: ImportTemplate): ImportTemplate {
+  return { ...template, lastUsedAt: new Date().toISOString(), useCount: template.useCount + 1 };
+}
@@ -0,0 +1,36 @@
+/**
+ * Import Worker
+ * Lê o workbook, detecta tipos e monta o summary fora da thread principal.
+ * Protocolo: ImportWorkerRequest -> ImportWorkerMessage (progress* + result | error).
+ */
+
+import type { Dataset } from "./database";
+import { parseWorkbookBuffer, type ImportOptions, type ImportProgress } from "./excelParser";
+
+export type ImportWorkerRequest = {
+  buffer: ArrayBuffer;
+  fileName: string;
+  options: ImportOptions;
+};
+
+export type ImportWorkerMessage =
+  | { type: "progress"; progress: ImportProgress }
+  | { type: "result"; datasets: Dataset[] }
+  | { type: "error"; message: string };
+
+const ctx = self as unknown as {
+  onmessage: ((e: MessageEvent<ImportWorkerRequest>) => void) | null;
+  postMessage: (msg: ImportWorkerMessage) => void;
+};
+
+ctx.onmessage = (e) => {
+  const { buffer, fileName, options } = e.data;
+  try {
+    const datasets = parseWorkbookBuffer(buffer, fileName, options, (progress) =>
+      ctx.postMessage({ type: "progress", progress })
+    );
+    ctx.postMessage({ type: "result", datasets });
+  } catch (err) {
+    ctx.postMessage({ type: "error", message: err instanceof Error ? err.message : String(err) });
+  }
+};
@@ -0,0 +1,123 @@
+/**
+ * JSON import
+ * Array JSON, objeto com uma lista dentro ({"data": [...]}) ou NDJSON (um
+ * objeto por linha) viram linhas de tabela. Objetos aninhados são achatados
+ * em colunas com ponto ("endereco.cidade"); o dataset segue a mesma detecção
+ * de colunas e classificação das planilhas.
+ */
+
+import type { Dataset } from "./database";
+import { decodeText, detectEncoding } from "./csvLocale";
+import { createDataset, tableGridFromRows } from "./datasetBuilder";
+import { DEFAULT_TABLE_LAYOUT } from "./tableHeader";
+import { capDiagnostics, type ImportDiagnostic } from "./importDiagnostics";
+
+export function isJsonFileName(name: string) {
+  return /\.(json|ndjson|jsonl)$/i.test(name);
+}
+
+function isPlainObject(v: unknown): v is Record<string, unknown> {
+  return typeof v === "object" && v !== null && !Array.isArray(v);
+}
+
+/**
+ * {"a": {"b": 1}, "tags": ["x", "y"], "itens": [{"q": 2}]} ->
+ * {"a.b": 1, "tags": "x, y", "itens.0.q": 2}
+ */
+export function flattenRecord(value: unknown, prefix = "", out: Record<string, unknown> = {}): Record<string, unknown> {
+  if (Array.isArray(value)) {
+    // Lista de valores simples cabe numa célula; lista de objetos ganha índice
+    if (value.every((v) => !isPlainObject(v) && !Array.isArray(v))) {
+      out[prefix] = value.length ? value.map((v) => (v == null ? "" : String(v))).join(", ") : null;
+    } else {
+      value.forEach((v, i) => flattenRecord(v, prefix ? `${prefix}.${i}` : String(i), out));
+    }
+  } else if (isPlainObject(value)) {
+    const entries = Object.entries(value);
+    if (!entries.length && prefix) out[prefix] = null;
+    for (const [key, v] of entries) flattenRecord(v, prefix ? `${prefix}.${key}` : key, out);
+  } else {
+    out[prefix || "valor"] = value ?? null;
+  }
+  return out;
+}
+
+/** A lista de registros do documento: a raiz ou a maior lista de objetos dentro dela */
+function recordList(doc: unknown): unknown[] {
+  if (Array.isArray(doc)) return doc;
+  if (!isPlainObject(doc)) return [doc];
+  const lists = Object.values(doc).filter((v): v is unknown[] => Array.isArray(v) && v.some(isPlainObject));
+  if (!lists.length) return [doc];
+  return lists.reduce((a, b) => (b.length > a.length ? b : a));
+}
+
+export interface JsonRecords {
+  rows: Record<string, unknown>[];
+  diagnostics: ImportDiagnostic[];
+}
+
+/** NDJSON pela extensão ou quando o texto não é um JSON só mas cada linha é */
+export function parseJsonRecords(text: string, fileName: string): JsonRecords {
+  const diagnostics: ImportDiagnostic[] = [];
+  let records: unknown[] | null = null;
+
+  if (!/\.(ndjson|jsonl)$/i.test(fileName)) {
+    try {
+      records = recordList(JSON.parse(text));
+    } catch {
+      records = null;
+    }
+  }
+
+  if (!records) {
+    records = [];
+    const lines = text.split(/\r?\n/);
+    lines.forEach((line, i) => {
+      if (!line.trim()) return;
+      try {
+        records!.push(JSON.parse(line));
+      } catch {
+        diagnostics.push({
+          level: "warning",
+          code: "invalid_value",
+          message: `Linha ${i + 1} ignorada: não é um JSON válido`,
+          fileName,
+          rawValue: line.slice(0, 120),
+        });
+      }
+    });
+    if (!records.length) throw new Error("Arquivo não contém JSON válido");
+  }
+
+  const rows = records.map((r) => flattenRecord(r));
+  diagnostics.unshift({
+    level: "info",
+    code: "sheet_summary",
+    message: `JSON: ${rows.length} registros`,
+    fileName,
+  });
+  return { rows, diagnostics: capDiagnostics(diagnostics) };
+}
+
+/** Colunas na ordem em que aparecem (registros podem ter chaves diferentes) */
+function alignColumns(rows: Record<string, unknown>[]): Record<string, unknown>[] {
+  const keys = new Set<string>();
+  for (const row of rows) for (const key of Object.keys(row)) keys.add(key);
+  return rows.map((row) => Object.fromEntries(Array.from(keys, (k) => [k, row[k] ?? null])));
+}
+
+export function jsonDataset(buf: ArrayBuffer, fileName: string): Dataset {
+  const { rows, diagnostics } = parseJsonRecords(decodeText(buf, detectEncoding(buf)), fileName);
+  const aligned = alignColumns(rows);
+  const name = fileName.replace(/\.[^/.]+$/, "");
+
+  return {
+    ...createDataset(name, aligned, {
+      // Datas e números que vieram como texto ("2024-03-05", "12,5") são convertidos como no CSV
+      coerceValues: true,
+      rawGrid: tableGridFromRows(aligned),
+      gridSource: { kind: "table", sheetName: name, tableLayout: DEFAULT_TABLE_LAYOUT, coerceValues: true },
+    }),
+    importDiagnostics: diagnostics,
+  };
+}
@@ -0,0 +1,229 @@
+/**
+ * NF-e import
+ * XMLs de NF-e (nfeProc ou NFe avulsa, soltos ou num .zip) viram um dataset
+ * fiscal com uma linha por item: emitente, destinatário, CFOP, NCM, valores
+ * e ICMS/PIS/COFINS/IPI. Já sai classificado como CONTABIL_FISCAL, sem passar
+ * pela heurística/IA. Lê com DOMParser (thread principal; o worker não tem).
+ */
+
+import type { ColumnType, Dataset, ImportSource } from "./database";
+import { normalizeDate } from "./cellValues";
+import { createDataset, tableGridFromRows } from "./datasetBuilder";
+import { DEFAULT_TABLE_LAYOUT } from "./tableHeader";
+import { capDiagnostics, type ImportDiagnostic } from "./importDiagnostics";
+import type { ServiceProfile } from "./serviceProfile";
+import { newSource } from "./datasetAppend";
+import { SOURCE_FILE_COLUMN } from "./batchImport";
+
+export type NfeRow = Record<string, string | number | null>;
+
+export function isXmlFileName(name: string) {
+  return /\.xml$/i.test(name);
+}
+
+/** Tipos das colunas (CFOP/NCM/CNPJ são códigos, não números) */
+const NFE_TYPES: Record<string, ColumnType> = {
+  chave: "id",
+  numero: "id",
+  serie: "category",
+  data_emissao: "date",
+  natureza_operacao: "category",
+  tipo_operacao: "category",
+  emitente_cnpj: "id",
+  emitente_nome: "category",
+  emitente_uf: "category",
+  destinatario_cnpj: "id",
+  destinatario_nome: "category",
+  destinatario_uf: "category",
+  item: "number",
+  codigo: "id",
+  descricao: "text",
+  ncm: "category",
+  cfop: "category",
+  unidade: "category",
+  quantidade: "number",
+  valor_unitario: "currency",
+  valor_produto: "currency",
+  valor_desconto: "currency",
+  valor_frete: "currency",
+  cst_icms: "category",
+  base_icms: "currency",
+  aliquota_icms: "percent",
+  valor_icms: "currency",
+  valor_ipi: "currency",
+  valor_pis: "currency",
+  valor_cofins: "currency",
+  valor_total_nota: "currency",
+};
+
+/** ===== Navegação no XML pelo nome local (a NF-e usa namespace padrão) ===== */
+function child(el: Element | null | undefined, name: string): Element | null {
+  if (!el) return null;
+  for (const c of Array.from(el.children)) if (c.localName === name) return c;
+  return null;
+}
+
+function path(el: Element | null | undefined, ...names: string[]): Element | null {
+  return names.reduce<Element | null>((cur, n) => child(cur, n), el ?? null);
+}
+
+function text(el: Element | null | undefined, ...names: string[]): string | null {
+  const node = path(el, ...names);
+  const t = node?.textContent?.trim();
+  return t ? t : null;
+}
+
+function num(el: Element | null | undefined, ...names: string[]): number | null {
+  const t = text(el, ...names);
+  if (t == null) return null;
+  const n = Number(t);
+  return Number.isFinite(n) ? n : null;
+}
+
+/** Primeiro filho do grupo de tributo (ICMS00, ICMS20, ICMSSN102, PISAliq, COFINSOutr…) */
+function taxGroup(imposto: Element | null, tax: string): Element | null {
+  return child(imposto, tax)?.firstElementChild ?? null;
+}
+
+function findAll(doc: Document, name: string): Element[] {
+  return Array.from(doc.getElementsByTagNameNS("*", name));
+}
+
+/**
+ * Itens de uma NF-e; XML que não é NF-e (evento, CT-e, inválido) devolve um
+ * aviso em vez de linhas.
+ */
+export function parseNfeXml(xml: string, fileName: string): { rows: NfeRow[]; diagnostics: ImportDiagnostic[] } {
+  const doc = new DOMParser().parseFromString(xml, "application/xml");
+  const infNFe = findAll(doc, "infNFe")[0];
+  if (findAll(doc, "parsererror").length || !infNFe) {
+    return {
+      rows: [],
+      diagnostics: [{
+        level: "warning",
+        code: "invalid_file",
+        message: "Arquivo ignorado: não é um XML de NF-e",
+        fileName,
+      }],
+    };
+  }
+
+  const ide = child(infNFe, "ide");
+  const emit = child(infNFe, "emit");
+  const dest = child(infNFe, "dest");
+  const tpNF = text(ide, "tpNF");
+  const note: NfeRow = {
+    chave: infNFe.getAttribute("Id")?.replace(/^NFe/, "") || text(path(doc.documentElement, "protNFe"), "infProt", "chNFe"),
+    numero: text(ide, "nNF"),
+    serie: text(ide, "serie"),
+    // dhEmi (4.00) ou dEmi (2.00): a data como está na nota, sem fuso
+    data_emissao: normalizeDate(text(ide, "dhEmi") ?? text(ide, "dEmi")),
+    natureza_operacao: text(ide, "natOp"),
+    tipo_operacao: tpNF === "0" ? "Entrada" : tpNF === "1" ? "Saída" : tpNF,
+    emitente_cnpj: text(emit, "CNPJ") ?? text(emit, "CPF"),
+    emitente_nome: text(emit, "xNome"),
+    emitente_uf: text(emit, "enderEmit", "UF"),
+    destinatario_cnpj: text(dest, "CNPJ") ?? text(dest, "CPF") ?? text(dest, "idEstrangeiro"),
+    destinatario_nome: text(dest, "xNome"),
+    destinatario_uf: text(dest, "enderDest", "UF"),
+  };
+  const totalNota = num(infNFe, "total", "ICMSTot", "vNF");
+
+  const rows = Array.from(infNFe.children)
+    .filter((el) => el.localName === "det")
+    .map((det): NfeRow => {
+      const prod = child(det, "prod");
+      const imposto = child(det, "imposto");
+      const icms = taxGroup(imposto, "ICMS");
+      const aliquota = num(icms, "pICMS");
+      return {
+        ...note,
+        item: Number(det.getAttribute("nItem")) || null,
+        codigo: text(prod, "cProd"),
+        descricao: text(prod, "xProd"),
+        ncm: text(prod, "NCM"),
+        cfop: text(prod, "CFOP"),
+        unidade: text(prod, "uCom"),
+        quantidade: num(prod, "qCom"),
+        valor_unitario: num(prod, "vUnCom"),
+        valor_produto: num(prod, "vProd"),
+        valor_desconto: num(prod, "vDesc"),
+        valor_frete: num(prod, "vFrete"),
+        cst_icms: text(icms, "CST") ?? text(icms, "CSOSN"),
+        base_icms: num(icms, "vBC"),
+        aliquota_icms: aliquota == null ? null : aliquota / 100,
+        valor_icms: num(icms, "vICMS"),
+        valor_ipi: num(child(imposto, "IPI"), "IPITrib", "vIPI"),
+        valor_pis: num(taxGroup(imposto, "PIS"), "vPIS"),
+        valor_cofins: num(taxGroup(imposto, "COFINS"), "vCOFINS"),
+        valor_total_nota: totalNota,
+        [SOURCE_FILE_COLUMN]: fileName,
+      };
+    });
+
+  return {
+    rows,
+    diagnostics: [{
+      level: "info",
+      code: "sheet_summary",
+      message: `NF-e ${note.numero ?? "?"}/${note.serie ?? "?"} de ${note.emitente_nome ?? "emitente não informado"}: ${rows.length} itens`,
+      fileName,
+    }],
+  };
+}
+
+/** Perfil fiscal fixo: a estrutura da NF-e já diz o que é cada coluna */
+export function nfeServiceProfile(): ServiceProfile {
+  return {
+    type: "CONTABIL_FISCAL",
+    confidence: 1,
+    domain: "Contábil/Fiscal",
+    service: "Notas fiscais eletrônicas (NF-e)",
+    signals: {
+      matchedKeywords: ["nfe", "cfop", "icms", "pis", "cofins"],
+      matchedColumns: Object.keys(NFE_TYPES),
+      notes: ["Importado de XML de NF-e"],
+    },
+    semanticMap: {
+      date: "data_emissao",
+      person: "emitente_nome",
+      team: "cfop",
+      status: "tipo_operacao",
+    },
+    labels: {
+      primaryRateLabel: "Indicador Principal",
+      totalLabel: "Itens de NF-e",
+      peopleLabel: "Emitentes",
+    },
+    kpiProfile: {
+      primaryRate: "none",
+      include: ["total_records", "top_categories", "date_range", "unique_entities"],
+    },
+    matrixDefaults: { rowKey: "emitente_nome", colKey: "data_emissao", valueKey: "cfop" },
+  };
+}
+
+/** Um dataset com os itens de todas as notas (cada XML é uma ImportSource) */
+export function nfeDataset(files: { fileName: string; rows: NfeRow[]; diagnostics: ImportDiagnostic[] }[], name: string): Dataset {
+  const importedAt = new Date().toISOString();
+  const rows: Record<string, unknown>[] = [];
+  const importSources: ImportSource[] = [];
+
+  for (const file of files) {
+    if (!file.rows.length) continue;
+    const source = newSource(file.fileName, file.rows.length, importedAt);
+    importSources.push(source);
+    for (const row of file.rows) rows.push({ ...row, _sourceId: source.id });
+  }
+
+  return {
+    ...createDataset(name, rows, {
+      typeHints: { ...NFE_TYPES, [SOURCE_FILE_COLUMN]: "category" },
+      rawGrid: tableGridFromRows(rows),
+      gridSource: { kind: "table", sheetName: name, tableLayout: DEFAULT_TABLE_LAYOUT },
+    }),
+    importSources,
+    importDiagnostics: capDiagnostics(files.flatMap((f) => f.diagnostics)),
+    serviceProfile: nfeServiceProfile(),
+  };
+}
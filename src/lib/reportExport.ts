@@ -4,6 +4,7 @@
 import { format } from "date-fns";
 import { ptBR } from "date-fns/locale";
 import type { Dataset, GenericRow } from "./database";
+import { CELL_FORMAT_SCRIPT, columnTypeMap } from "./valueFormat";
 import JSZip from "jszip";
 
 export interface ReportFilters {
@@ -58,6 +59,7 @@ function generateInteractiveHTML(dataset: Dataset, filteredRows: GenericRow[]):
     generatedAt: now,
     totalRecords: dataset.totalRows,
     columns: dataset.columns.map(c => c.name),
+    colTypes: columnTypeMap(dataset.columns),
     catCols,
     numCols,
     dateCol,
@@ -93,6 +95,7 @@ function generateInteractiveHTML(dataset: Dataset, filteredRows: GenericRow[]):
   </div>
   <script>
     const DATA=window.__REPORT_DATA__;
+    ${CELL_FORMAT_SCRIPT}
     let filteredData=[...DATA.rows];
     let charts={};
     
@@ -130,14 +133,14 @@ function generateInteractiveHTML(dataset: Dataset, filteredRows: GenericRow[]):
       });
       DATA.numCols.slice(0,2).forEach(col=>{
         const sum=filteredData.reduce((a,r)=>a+(parseFloat(r[col])||0),0);
-        kpiHtml+='<div class="kpi-card"><div class="title">Soma '+col+'</div><div class="value">'+sum.toLocaleString('pt-BR',{maximumFractionDigits:0})+'</div></div>';
+        kpiHtml+='<div class="kpi-card"><div class="title">Soma '+col+'</div><div class="value">'+fmtStat(sum,DATA.colTypes[col])+'</div></div>';
       });
       document.getElementById('kpiGrid').innerHTML=kpiHtml;
       
       // Table
       const cols=DATA.columns.slice(0,6);
       document.getElementById('tableHead').innerHTML='<tr>'+cols.map(c=>'<th>'+c+'</th>').join('')+'</tr>';
-      document.getElementById('tableBody').innerHTML=filteredData.slice(0,100).map(r=>'<tr>'+cols.map(c=>'<td>'+(r[c]||'-')+'</td>').join('')+'</tr>').join('');
+      document.getElementById('tableBody').innerHTML=filteredData.slice(0,100).map(r=>'<tr>'+cols.map(c=>'<td>'+(fmtCell(r[c],DATA.colTypes[c])||'-')+'</td>').join('')+'</tr>').join('');
     }
     
     function initCharts(){
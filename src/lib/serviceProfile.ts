@@ -15,6 +15,7 @@ export type ServiceType =
   | "CANALETAS"
   | "ENG_RODOVIARIA"
   | "CONTABIL_FISCAL"
+  | "FINANCEIRO"
   | "EDUCACAO"
   | "SAUDE"
   | "LOGISTICA"
@@ -41,6 +42,9 @@ export interface ServiceProfile {
     final?: string;
     km?: string;
     side?: string;
+    /** Valor com sinal (entradas > 0, saídas < 0) e saldo, em extratos */
+    amount?: string;
+    balance?: string;
   };
   labels: {
     primaryRateLabel: string;
@@ -229,6 +233,32 @@ function findBestDomainService(
   return best;
 }
 
+// ─── Bank statement structure ────────────────────────────────
+
+/**
+ * Extrato: data + valor + (saldo ou coluna com Crédito/Débito). Só "valor"
+ * não basta, qualquer planilha de custos tem.
+ */
+function detectBankStatement(dataset: DatasetLike, colNames: string[]) {
+  const find = (test: (n: string) => boolean) => colNames.find((c) => test(norm(c)));
+  const date = find((n) => /^(data|dt|date)\b/.test(n));
+  const amount = find((n) => /^(valor|montante|amount)\b/.test(n) && !n.includes("saldo"));
+  const balance = find((n) => /^(saldo|balance)\b/.test(n));
+  const entryType = dataset.columns.find((c) => {
+    const values = new Set((c.uniqueValues ?? []).map(norm));
+    return values.has("credito") && values.has("debito");
+  })?.name;
+
+  if (!date || !amount || (!balance && !entryType)) return null;
+  return {
+    date,
+    amount,
+    balance,
+    entryType,
+    description: find((n) => /historico|descricao|lancamento|memo/.test(n) && n !== norm(date)),
+  };
+}
+
 // ─── Main Classifier ─────────────────────────────────────────
 
 export function detectServiceProfile(dataset: DatasetLike): ServiceProfile {
@@ -257,6 +287,37 @@ export function detectServiceProfile(dataset: DatasetLike): ServiceProfile {
   // Find best domain/service from taxonomy
   const taxonomyMatch = findBestDomainService(hay);
 
+  // ── 0) Extrato bancário / fluxo de caixa (estrutura, não vocabulário) ──
+  const bank = detectBankStatement(dataset, colNames);
+  if (bank) {
+    return {
+      type: "FINANCEIRO",
+      confidence: bank.balance && bank.entryType ? 0.95 : 0.8,
+      domain: "Financeiro",
+      service: "Extrato bancário / Fluxo de caixa",
+      signals: {
+        matchedKeywords: [bank.balance && "saldo", bank.entryType && "crédito/débito"].filter(Boolean) as string[],
+        matchedColumns: [bank.date, bank.amount, bank.balance, bank.entryType, bank.description].filter(Boolean) as string[],
+        notes: ["Detectado pelas colunas de extrato (data, valor com sinal, saldo ou crédito/débito)."],
+      },
+      semanticMap: {
+        date: bank.date,
+        status: bank.entryType,
+        observation: bank.description,
+        amount: bank.amount,
+        balance: bank.balance,
+      },
+      labels: {
+        primaryRateLabel: "Indicador Principal",
+        totalLabel: "Lançamentos",
+      },
+      kpiProfile: {
+        primaryRate: "none",
+        include: ["total_records", "cash_inflows", "cash_outflows", "cash_balance", "date_range"],
+      },
+    };
+  }
+
   // ── 1) Canaletas (subtipo inspeção de drenagem) ──
   if (mCANA.score >= 0.25 || norm(dataset.name).includes("canaleta")) {
     const semanticMap = detectSemanticMap(colNames);
@@ -585,7 +646,7 @@ REGRAS:
 
 OUTPUT JSON (schema):
 {
-  "type": "RDA_ENTREGAS|INSPECAO_OBSERVACAO|CANALETAS|ENG_RODOVIARIA|CONTABIL_FISCAL|EDUCACAO|SAUDE|LOGISTICA|RH_PONTO|GENERIC",
+  "type": "RDA_ENTREGAS|INSPECAO_OBSERVACAO|CANALETAS|ENG_RODOVIARIA|CONTABIL_FISCAL|FINANCEIRO|EDUCACAO|SAUDE|LOGISTICA|RH_PONTO|GENERIC",
   "confidence": 0.0,
   "domain": "string",
   "service": "string",
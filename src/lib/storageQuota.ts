@@ -0,0 +1,201 @@
+/**
+ * Storage quota
+ * Quanto do armazenamento do navegador o app usa (navigator.storage), o peso
+ * estimado de cada dataset (linhas, grade original e histórico de versões),
+ * sugestões do que limpar e o aviso antes de uma importação que não cabe.
+ */
+
+import { get } from "idb-keyval";
+import { storedDatasetParts, type DatasetMeta } from "./database";
+import { snapshotStorageKeys } from "./datasetHistory";
+
+export interface StorageEstimateInfo {
+  usage: number;
+  quota: number;
+  /** Armazenamento persistente concedido (o navegador não apaga sob pressão de espaço) */
+  persisted: boolean;
+}
+
+// Dataset sem uso há mais tempo que isso entra nas sugestões de limpeza
+export const STALE_DATASET_DAYS = 90;
+// Uso a partir do qual o painel alerta
+export const USAGE_WARNING_RATIO = 0.8;
+
+/** null quando o navegador não expõe navigator.storage.estimate */
+export async function getStorageEstimate(): Promise<StorageEstimateInfo | null> {
+  const storage = typeof navigator !== "undefined" ? navigator.storage : undefined;
+  if (!storage?.estimate) return null;
+  const [{ usage = 0, quota = 0 }, persisted] = await Promise.all([
+    storage.estimate(),
+    storage.persisted ? storage.persisted() : Promise.resolve(false),
+  ]);
+  return { usage, quota, persisted };
+}
+
+/** Pede armazenamento persistente; true se concedido */
+export async function requestPersistentStorage(): Promise<boolean> {
+  const storage = typeof navigator !== "undefined" ? navigator.storage : undefined;
+  if (!storage?.persist) return false;
+  return storage.persist();
+}
+
+export function isQuotaError(err: unknown): boolean {
+  if (!err || typeof err !== "object") return false;
+  const { name, message } = err as { name?: unknown; message?: unknown };
+  return name === "QuotaExceededError" || (typeof message === "string" && /quota/i.test(message));
+}
+
+/** Mensagem para o usuário: espaço esgotado ganha uma explicação própria */
+export function storageErrorMessage(err: unknown, fallback: string): string {
+  return isQuotaError(err)
+    ? "Sem espaço no armazenamento do navegador. Libere espaço no painel de armazenamento e tente de novo."
+    : fallback;
+}
+
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${Math.round(bytes)} B`;
+  const units = ["KB", "MB", "GB"];
+  let value = bytes / 1024;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${value.toLocaleString("pt-BR", { maximumFractionDigits: value < 10 ? 1 : 0 })} ${units[unit]}`;
+}
+
+/** Tamanho aproximado de um valor gravado (o JSON dele) */
+export function approxBytes(value: unknown): number {
+  if (value === undefined) return 0;
+  try {
+    return JSON.stringify(value)?.length ?? 0;
+  } catch {
+    return 0;
+  }
+}
+
+/** ===== Peso por dataset ===== */
+
+export interface DatasetStorageUsage {
+  id: string;
+  name: string;
+  updatedAt: string;
+  totalRows: number;
+  rowsBytes: number;
+  /** Cópia da grade original (aba Planilha) */
+  rawGridBytes: number;
+  /** Resto do registro: colunas, resumo, perfil, diagnósticos */
+  recordBytes: number;
+  historyBytes: number;
+  snapshotCount: number;
+  totalBytes: number;
+}
+
+/** Lê bloco a bloco para não montar o dataset inteiro em memória */
+export async function measureDatasetUsage(meta: DatasetMeta): Promise<DatasetStorageUsage> {
+  const { record, rowKeys } = await storedDatasetParts(meta.id);
+  const stored = record && typeof record === "object" ? (record as Record<string, unknown>) : {};
+  const rawGridBytes = approxBytes(stored.rawGrid);
+  // Registro antigo: linhas ainda dentro do registro
+  let rowsBytes = approxBytes(stored.rows);
+  for (const key of rowKeys) rowsBytes += approxBytes(await get(key));
+  const recordBytes = Math.max(0, approxBytes(record) - rawGridBytes - approxBytes(stored.rows));
+
+  const snapshotKeys = await snapshotStorageKeys(meta.id);
+  let historyBytes = 0;
+  for (const key of snapshotKeys) historyBytes += approxBytes(await get(key));
+
+  return {
+    id: meta.id,
+    name: meta.name,
+    updatedAt: meta.updatedAt,
+    totalRows: meta.totalRows,
+    rowsBytes,
+    rawGridBytes,
+    recordBytes,
+    historyBytes,
+    snapshotCount: snapshotKeys.length,
+    totalBytes: rowsBytes + rawGridBytes + recordBytes + historyBytes,
+  };
+}
+
+/** ===== Sugestões de limpeza ===== */
+
+export type CleanupKind = "raw_grid" | "history" | "stale_dataset";
+
+export interface CleanupSuggestion {
+  kind: CleanupKind;
+  datasetId: string;
+  name: string;
+  /** Espaço liberado (estimado) */
+  bytes: number;
+  description: string;
+}
+
+const MIN_CLEANUP_BYTES = 64 * 1024;
+
+/** Maiores ganhos primeiro; itens pequenos demais para valer a pena ficam de fora */
+export function suggestCleanups(usage: DatasetStorageUsage[], now = new Date()): CleanupSuggestion[] {
+  const suggestions: CleanupSuggestion[] = [];
+  const staleBefore = now.getTime() - STALE_DATASET_DAYS * 24 * 60 * 60 * 1000;
+
+  for (const u of usage) {
+    if (new Date(u.updatedAt).getTime() < staleBefore) {
+      suggestions.push({
+        kind: "stale_dataset",
+        datasetId: u.id,
+        name: u.name,
+        bytes: u.totalBytes,
+        description: `Sem alterações há mais de ${STALE_DATASET_DAYS} dias; gere um backup antes de excluir`,
+      });
+      continue;
+    }
+    if (u.snapshotCount > 1) {
+      suggestions.push({
+        kind: "history",
+        datasetId: u.id,
+        name: u.name,
+        bytes: Math.round((u.historyBytes * (u.snapshotCount - 1)) / u.snapshotCount),
+        description: `${u.snapshotCount - 1} versões antigas no histórico (a mais recente fica)`,
+      });
+    }
+    if (u.rawGridBytes > 0) {
+      suggestions.push({
+        kind: "raw_grid",
+        datasetId: u.id,
+        name: u.name,
+        bytes: u.rawGridBytes,
+        description: "Cópia da grade original; a aba Planilha passa a ser montada a partir das linhas",
+      });
+    }
+  }
+  return suggestions.filter((s) => s.bytes >= MIN_CLEANUP_BYTES).sort((a, b) => b.bytes - a.bytes);
+}
+
+/** ===== Aviso antes de importar ===== */
+
+// Quanto o arquivo cresce ao virar linhas + grade (compactados crescem mais)
+const COMPRESSED_EXPANSION = 12;
+const TEXT_EXPANSION = 4;
+// Dataset gravado + a primeira versão no histórico
+const COPIES_PER_IMPORT = 2;
+
+export interface ImportQuotaCheck {
+  needed: number;
+  available: number;
+  exceeds: boolean;
+}
+
+export function estimateImportBytes(files: Pick<File, "name" | "size">[]): number {
+  return files.reduce((sum, f) => {
+    const compressed = /\.(xlsx|xlsm|ods|zip)$/i.test(f.name);
+    return sum + f.size * (compressed ? COMPRESSED_EXPANSION : TEXT_EXPANSION) * COPIES_PER_IMPORT;
+  }, 0);
+}
+
+export function checkImportQuota(files: Pick<File, "name" | "size">[], estimate: StorageEstimateInfo | null): ImportQuotaCheck | null {
+  if (!estimate || !estimate.quota) return null;
+  const needed = estimateImportBytes(files);
+  const available = Math.max(0, estimate.quota - estimate.usage);
+  return { needed, available, exceeds: needed > available };
+}
@@ -0,0 +1,68 @@
+/**
+ * Tab sync
+ * Avisa as outras abas do dashboard quando um dataset é gravado ou excluído
+ * (BroadcastChannel), para relerem a lista e o dataset atual em vez de
+ * seguirem com uma cópia velha. Sem BroadcastChannel no navegador, cada aba
+ * segue sozinha (a revisão gravada ainda barra a gravação por cima).
+ */
+
+export interface DatasetChange {
+  type: "saved" | "deleted";
+  id: string;
+  /** Revisão gravada (só em "saved") */
+  revision?: number;
+}
+
+interface ChangeMessage {
+  tabId: string;
+  change: DatasetChange;
+}
+
+const CHANNEL_NAME = "essencial-datasets";
+
+// Identifica esta aba: o canal também entrega as mensagens da própria aba
+export const TAB_ID = `tab_${Date.now()}_${Math.random().toString(36).slice(2, 9)}`;
+
+let channel: BroadcastChannel | null | undefined;
+
+function publisher(): BroadcastChannel | null {
+  if (channel === undefined) channel = typeof BroadcastChannel === "undefined" ? null : new BroadcastChannel(CHANNEL_NAME);
+  return channel;
+}
+
+export function publishDatasetChange(change: DatasetChange): void {
+  const message: ChangeMessage = { tabId: TAB_ID, change };
+  try {
+    publisher()?.postMessage(message);
+  } catch (err) {
+    console.warn("Aviso de mudança para as outras abas falhou:", err);
+  }
+}
+
+/**
+ * Mudanças vindas das outras abas, agrupadas: uma restauração de backup
+ * grava vários datasets seguidos e vira uma chamada só.
+ */
+export function subscribeDatasetChanges(listener: (changes: DatasetChange[]) => void, delayMs = 150): () => void {
+  if (typeof BroadcastChannel === "undefined") return () => {};
+  const receiver = new BroadcastChannel(CHANNEL_NAME);
+  let pending: DatasetChange[] = [];
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  receiver.onmessage = (event: MessageEvent<ChangeMessage>) => {
+    const message = event.data;
+    if (!message?.change || message.tabId === TAB_ID) return;
+    pending.push(message.change);
+    clearTimeout(timer);
+    timer = setTimeout(() => {
+      const batch = pending;
+      pending = [];
+      listener(batch);
+    }, delayMs);
+  };
+
+  return () => {
+    clearTimeout(timer);
+    receiver.close();
+  };
+}
@@ -0,0 +1,141 @@
+/**
+ * Table header detection
+ * Acha a linha de cabeçalho de tabelas com logo/título, linhas em branco ou
+ * cabeçalho em duas linhas mescladas acima dos dados, e achata os nomes
+ * ("Medição / Quantidade").
+ */
+
+import * as XLSX from "xlsx";
+import { isDateLike, isEmptyCell, isMonthYearText, normalizeDate, parseNumeric } from "./cellValues";
+
+/** Linhas 0-based da grade: onde o cabeçalho começa e quantas linhas ele ocupa */
+export type TableLayout = {
+  headerRow: number;
+  headerRows: number;
+};
+
+export const DEFAULT_TABLE_LAYOUT: TableLayout = { headerRow: 0, headerRows: 1 };
+
+const SCAN_ROWS = 30;
+const MAX_HEADER_ROWS = 3;
+
+/** Copia o valor do canto superior esquerdo de cada célula mesclada para todo o intervalo */
+export function fillMerges(grid: unknown[][], merges?: XLSX.Range[]): unknown[][] {
+  if (!merges?.length) return grid;
+
+  const filled = grid.map((row) => [...row]);
+  for (const m of merges) {
+    const value = filled[m.s.r]?.[m.s.c] ?? null;
+    if (value === null) continue;
+    for (let r = m.s.r; r <= m.e.r; r++) {
+      if (!filled[r]) continue;
+      for (let c = m.s.c; c <= m.e.c; c++) {
+        if (isEmptyCell(filled[r][c])) filled[r][c] = value;
+      }
+    }
+  }
+  return filled;
+}
+
+function filledCells(row: unknown[] | undefined) {
+  return (row ?? []).filter((v) => !isEmptyCell(v));
+}
+
+// "jan/24" no cabeçalho é título de coluna mensal, não dado
+function isLabel(v: unknown) {
+  return typeof v === "string" && (!isDateLike(v) || isMonthYearText(v)) && parseNumeric(v) === null;
+}
+
+/** Linha com cara de cabeçalho: larga o bastante e quase só rótulos */
+function isHeaderLike(row: unknown[] | undefined, minWidth: number) {
+  const cells = filledCells(row);
+  if (cells.length < minWidth) return false;
+  return cells.filter(isLabel).length / cells.length >= 0.8;
+}
+
+function hasHorizontalMerge(merges: XLSX.Range[] | undefined, r: number) {
+  return !!merges?.some((m) => m.s.r === r && m.e.c > m.s.c);
+}
+
+/** Primeira linha larga só de rótulos seguida de dados; cabeçalho em várias linhas só com mesclagem horizontal */
+export function detectTableLayout(grid: unknown[][], merges?: XLSX.Range[]): TableLayout {
+  const scan = grid.slice(0, SCAN_ROWS);
+  const maxWidth = Math.max(0, ...scan.map((row) => filledCells(row).length));
+  if (maxWidth === 0) return DEFAULT_TABLE_LAYOUT;
+
+  const minWidth = Math.max(1, Math.ceil(maxWidth * 0.5));
+  const headerRow = scan.findIndex(
+    (row, r) => isHeaderLike(row, minWidth) && grid.slice(r + 1, r + 1 + SCAN_ROWS).some((next) => filledCells(next).length > 0)
+  );
+  if (headerRow < 0) {
+    const firstFilled = scan.findIndex((row) => filledCells(row).length > 0);
+    return { headerRow: Math.max(0, firstFilled), headerRows: 1 };
+  }
+
+  let headerRows = 1;
+  while (
+    headerRows < MAX_HEADER_ROWS &&
+    hasHorizontalMerge(merges, headerRow + headerRows - 1) &&
+    isHeaderLike(grid[headerRow + headerRows], minWidth)
+  ) {
+    headerRows++;
+  }
+
+  return { headerRow, headerRows };
+}
+
+function headerPart(v: unknown) {
+  if (isEmptyCell(v)) return "";
+  if (v instanceof Date) return normalizeDate(v) ?? "";
+  return String(v).trim();
+}
+
+/** Um nome por coluna: partes das linhas de cabeçalho unidas com " / ", sem repetir a parte mesclada */
+export function buildHeaderNames(grid: unknown[][], layout: TableLayout, width: number): string[] {
+  const used = new Map<string, number>();
+
+  return Array.from({ length: width }, (_, c) => {
+    const parts: string[] = [];
+    for (let r = layout.headerRow; r < layout.headerRow + layout.headerRows; r++) {
+      const part = headerPart(grid[r]?.[c]);
+      if (part && parts[parts.length - 1] !== part) parts.push(part);
+    }
+
+    const base = parts.join(" / ") || `Coluna ${XLSX.utils.encode_col(c)}`;
+    const count = (used.get(base) ?? 0) + 1;
+    used.set(base, count);
+    return count > 1 ? `${base} (${count})` : base;
+  });
+}
+
+/** Linhas de dados abaixo do cabeçalho (linhas vazias e colunas sem nome nem dado ficam de fora) */
+export function rowsFromTableGrid(
+  grid: unknown[][],
+  layout: TableLayout
+): { rows: Record<string, unknown>[]; columns: string[]; columnIndexes: number[]; rowIndexes: number[] } {
+  const width = grid.reduce((max, row) => Math.max(max, row.length), 0);
+  const names = buildHeaderNames(grid, layout, width);
+  const firstDataRow = layout.headerRow + layout.headerRows;
+  const rowIndexes: number[] = [];
+  for (let r = firstDataRow; r < grid.length; r++) {
+    if (filledCells(grid[r]).length > 0) rowIndexes.push(r);
+  }
+  const dataRows = rowIndexes.map((r) => grid[r]);
+
+  const keep = names
+    .map((name, c) => ({ name, c }))
+    .filter(({ c }) => {
+      const hasHeader = Array.from({ length: layout.headerRows }, (_, i) => grid[layout.headerRow + i]?.[c]).some(
+        (v) => !isEmptyCell(v)
+      );
+      return hasHeader || dataRows.some((row) => !isEmptyCell(row[c]));
+    });
+
+  const rows = dataRows.map((row) => {
+    const out: Record<string, unknown> = {};
+    for (const { name, c } of keep) out[name] = row[c] ?? null;
+    return out;
+  });
+
+  return { rows, columns: keep.map((k) => k.name), columnIndexes: keep.map((k) => k.c), rowIndexes };
+}
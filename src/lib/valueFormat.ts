@@ -0,0 +1,105 @@
+/**
+ * Value formatting
+ * Exibição dos valores conforme o tipo da coluna (R$, %, Sim/Não, horas),
+ * usada na tabela de detalhes, na Planilha, nos KPIs e nas exportações.
+ */
+
+import type { ColumnMetadata, ColumnType } from "./database";
+import { isExcelTimeValue, parseDateTime, parseDuration, parseTimeOfDay } from "./cellValues";
+
+const BRL = new Intl.NumberFormat("pt-BR", { style: "currency", currency: "BRL" });
+const PERCENT = new Intl.NumberFormat("pt-BR", { style: "percent", maximumFractionDigits: 2 });
+const DECIMAL = new Intl.NumberFormat("pt-BR", { maximumFractionDigits: 2 });
+
+/** Horas decimais -> "8:30" (negativo para saldo devedor de banco de horas) */
+export function formatDuration(hours: number): string {
+  const sign = hours < 0 ? "-" : "";
+  const totalMinutes = Math.round(Math.abs(hours) * 60);
+  const h = Math.floor(totalMinutes / 60);
+  const m = totalMinutes % 60;
+  return `${sign}${h}:${String(m).padStart(2, "0")}`;
+}
+
+function formatDate(value: unknown): string {
+  const parsed = parseDateTime(value);
+  if (!parsed) return String(value);
+  const [y, m, d] = parsed.date.split("-");
+  return parsed.time ? `${d}/${m}/${y} ${parsed.time}` : `${d}/${m}/${y}`;
+}
+
+/** Texto de exibição de uma célula; valores fora do tipo (texto solto) saem como estão */
+export function formatCellValue(value: unknown, type?: ColumnType): string {
+  if (value === null || value === undefined || value === "") return "";
+
+  switch (type) {
+    case "currency":
+      return typeof value === "number" ? BRL.format(value) : String(value);
+    case "percent":
+      return typeof value === "number" ? PERCENT.format(value) : String(value);
+    case "boolean":
+      return typeof value === "boolean" ? (value ? "Sim" : "Não") : String(value);
+    case "duration": {
+      const hours = typeof value === "number" || isExcelTimeValue(value) ? parseDuration(value) : null;
+      return hours === null ? String(value) : formatDuration(hours);
+    }
+    case "time":
+      return parseTimeOfDay(value) ?? String(value);
+    case "date":
+      return value instanceof Date || typeof value === "string" ? formatDate(value) : String(value);
+  }
+
+  if (typeof value === "boolean") return value ? "Sim" : "Não";
+  if (isExcelTimeValue(value)) return parseTimeOfDay(value) ?? "";
+  if (value instanceof Date) return formatDate(value);
+  return String(value);
+}
+
+/** Estatística agregada (soma, média, mín., máx.) no formato da coluna */
+export function formatStat(value: number, type?: ColumnType): string {
+  if (!Number.isFinite(value)) return "-";
+  if (type === "currency") return BRL.format(value);
+  if (type === "percent") return PERCENT.format(value);
+  if (type === "duration") return formatDuration(value);
+  return DECIMAL.format(value);
+}
+
+export function columnTypeOf(columns: ColumnMetadata[] | undefined, name: string): ColumnType | undefined {
+  return columns?.find((c) => c.name === name)?.type;
+}
+
+/** Tipos por nome de coluna (para embutir nas exportações HTML) */
+export function columnTypeMap(columns: ColumnMetadata[] | undefined): Record<string, ColumnType> {
+  return Object.fromEntries((columns ?? []).map((c) => [c.name, c.type]));
+}
+
+/** Formato numérico equivalente no Excel (valores de duração vão como fração de dia) */
+export function excelNumberFormat(type?: ColumnType): string | undefined {
+  if (type === "currency") return '"R$" #,##0.00';
+  if (type === "percent") return "0.00%";
+  if (type === "duration") return "[h]:mm";
+  return undefined;
+}
+
+/**
+ * Versão JS pura de formatCellValue/formatStat para os relatórios HTML
+ * exportados (rodam fora do app, sem os módulos).
+ */
+export const CELL_FORMAT_SCRIPT = `
+function fmtDuration(h){var s=h<0?'-':'';var t=Math.round(Math.abs(h)*60);return s+Math.floor(t/60)+':'+String(t%60).padStart(2,'0');}
+function fmtCell(v,t){
+  if(v===null||v===undefined||v==='')return '';
+  if(t==='currency'&&typeof v==='number')return v.toLocaleString('pt-BR',{style:'currency',currency:'BRL'});
+  if(t==='percent'&&typeof v==='number')return v.toLocaleString('pt-BR',{style:'percent',maximumFractionDigits:2});
+  if(t==='duration'&&typeof v==='number')return fmtDuration(v);
+  if(typeof v==='boolean')return v?'Sim':'Não';
+  if(t==='date'&&typeof v==='string'&&/^\\d{4}-\\d{2}-\\d{2}/.test(v))return v.slice(8,10)+'/'+v.slice(5,7)+'/'+v.slice(0,4);
+  return String(v);
+}
+function fmtStat(n,t){
+  if(!isFinite(n))return '-';
+  if(t==='currency')return n.toLocaleString('pt-BR',{style:'currency',currency:'BRL'});
+  if(t==='percent')return n.toLocaleString('pt-BR',{style:'percent',maximumFractionDigits:2});
+  if(t==='duration')return fmtDuration(n);
+  return n.toLocaleString('pt-BR',{maximumFractionDigits:2});
+}
+`;
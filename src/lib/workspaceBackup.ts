@@ -0,0 +1,199 @@
+/**
+ * Workspace backup
+ * Tudo que só existe no IndexedDB deste navegador (datasets com perfil e
+ * matriz, modelos de importação e configurações) num .zip versionado, para
+ * guardar ou levar para outra máquina. Na restauração, dataset ou modelo com
+ * id que já existe é substituído pelo do backup ou mantido lado a lado com
+ * uma cópia.
+ */
+
+import JSZip from "jszip";
+import {
+  generateId,
+  getAllDatasets,
+  getCurrentDatasetId,
+  getDatasetIndex,
+  saveDataset,
+  setCurrentDatasetId,
+  type Dataset,
+} from "./database";
+import { DATASET_SCHEMA_VERSION, loadStoredDataset } from "./datasetSchema";
+import { getHistoryRetention, setHistoryRetention } from "./datasetHistory";
+import { getAllImportTemplates, saveImportTemplate, type ImportTemplate } from "./importTemplates";
+import { stringifyLocalDates } from "./cellValues";
+
+export const BACKUP_FORMAT = "essencial-workspace";
+export const BACKUP_VERSION = 1;
+
+const MANIFEST_FILE = "manifest.json";
+const TEMPLATES_FILE = "templates.json";
+const SETTINGS_FILE = "settings.json";
+const DATASETS_DIR = "datasets/";
+
+export interface BackupSettings {
+  currentDatasetId?: string;
+  historyRetention?: number;
+  /** Preferências da interface (ex.: tema), passadas por quem exporta */
+  themePreset?: string;
+}
+
+export interface BackupManifest {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  createdAt: string;
+  datasetSchemaVersion: number;
+  datasets: { id: string; name: string; totalRows: number; file: string }[];
+  templateCount: number;
+}
+
+export interface WorkspaceBackup {
+  manifest: BackupManifest;
+  datasets: Dataset[];
+  templates: ImportTemplate[];
+  settings: BackupSettings;
+  /** Datasets do arquivo que não puderam ser lidos nem reparados */
+  skipped: { file: string; problems: string[] }[];
+}
+
+/** "replace": o do backup substitui o local; "merge": os dois ficam (o do backup vira cópia) */
+export type RestoreMode = "merge" | "replace";
+
+function datasetFile(dataset: Pick<Dataset, "id">) {
+  return `${DATASETS_DIR}${dataset.id}.json`;
+}
+
+export function backupFileName(date = new Date()): string {
+  return `essencial-backup-${date.toISOString().slice(0, 10)}.zip`;
+}
+
+/** ===== Exportação ===== */
+
+export async function exportWorkspace(uiSettings: Pick<BackupSettings, "themePreset"> = {}): Promise<Blob> {
+  const [datasets, templates, currentDatasetId, historyRetention] = await Promise.all([
+    getAllDatasets(),
+    getAllImportTemplates(),
+    getCurrentDatasetId(),
+    getHistoryRetention(),
+  ]);
+  return buildBackupZip(datasets, templates, { ...uiSettings, currentDatasetId, historyRetention });
+}
+
+export async function buildBackupZip(datasets: Dataset[], templates: ImportTemplate[], settings: BackupSettings): Promise<Blob> {
+  const zip = new JSZip();
+  const manifest: BackupManifest = {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    createdAt: new Date().toISOString(),
+    datasetSchemaVersion: DATASET_SCHEMA_VERSION,
+    datasets: datasets.map((d) => ({ id: d.id, name: d.name, totalRows: d.totalRows, file: datasetFile(d) })),
+    templateCount: templates.length,
+  };
+  zip.file(MANIFEST_FILE, JSON.stringify(manifest, null, 2));
+  zip.file(TEMPLATES_FILE, JSON.stringify(templates));
+  zip.file(SETTINGS_FILE, JSON.stringify(settings, null, 2));
+  // Datas da grade no fuso local: em UTC o dia mudaria ao restaurar a leste de Greenwich
+  for (const dataset of datasets) zip.file(datasetFile(dataset), stringifyLocalDates(dataset));
+  return zip.generateAsync({ type: "blob", compression: "DEFLATE" });
+}
+
+/** ===== Leitura ===== */
+
+async function readJson<T>(zip: JSZip, path: string): Promise<T | undefined> {
+  const entry = zip.file(path);
+  if (!entry) return undefined;
+  try {
+    return JSON.parse(await entry.async("string")) as T;
+  } catch {
+    throw new Error(`${path} ilegível no backup`);
+  }
+}
+
+/** Abre o .zip e confere o manifesto; datasets passam pela migração/validação da carga normal */
+export async function readWorkspaceBackup(file: Blob): Promise<WorkspaceBackup> {
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(file);
+  } catch {
+    throw new Error("O arquivo não é um .zip válido");
+  }
+  const manifest = await readJson<BackupManifest>(zip, MANIFEST_FILE);
+  if (!manifest || manifest.format !== BACKUP_FORMAT) throw new Error("O .zip não é um backup do workspace");
+  if (manifest.version > BACKUP_VERSION) {
+    throw new Error("Backup gerado por uma versão mais nova do app; atualize a página e tente de novo");
+  }
+
+  const datasets: Dataset[] = [];
+  const skipped: WorkspaceBackup["skipped"] = [];
+  for (const entry of manifest.datasets ?? []) {
+    const raw = await readJson<unknown>(zip, entry.file).catch(() => undefined);
+    const loaded = raw === undefined ? undefined : loadStoredDataset(raw, entry.id);
+    if (loaded?.dataset) datasets.push(loaded.dataset);
+    else skipped.push({ file: entry.file, problems: loaded?.problems ?? ["arquivo ausente ou ilegível"] });
+  }
+
+  const templates = (await readJson<ImportTemplate[]>(zip, TEMPLATES_FILE)) ?? [];
+  const settings = (await readJson<BackupSettings>(zip, SETTINGS_FILE)) ?? {};
+  return { manifest, datasets, templates: Array.isArray(templates) ? templates : [], settings, skipped };
+}
+
+/** ===== Restauração ===== */
+
+export interface RestorePlan {
+  datasets: Dataset[];
+  templates: ImportTemplate[];
+  /** Ids do backup que já existiam aqui */
+  conflicts: { datasets: string[]; templates: string[] };
+}
+
+/**
+ * O que gravar conforme o modo. No "merge" a cópia do backup ganha id novo e
+ * "(backup)" no nome, e perde o vínculo com arquivo (o handle é do outro navegador).
+ */
+export function planRestore(
+  backup: Pick<WorkspaceBackup, "datasets" | "templates">,
+  existing: { datasetIds: Iterable<string>; templateIds: Iterable<string> },
+  mode: RestoreMode
+): RestorePlan {
+  const datasetIds = new Set(existing.datasetIds);
+  const templateIds = new Set(existing.templateIds);
+  const conflicts = {
+    datasets: backup.datasets.filter((d) => datasetIds.has(d.id)).map((d) => d.id),
+    templates: backup.templates.filter((t) => templateIds.has(t.id)).map((t) => t.id),
+  };
+  if (mode === "replace") return { datasets: backup.datasets, templates: backup.templates, conflicts };
+
+  return {
+    datasets: backup.datasets.map((d) =>
+      datasetIds.has(d.id) ? { ...d, id: generateId(), name: `${d.name} (backup)`, linkedFile: undefined } : d
+    ),
+    templates: backup.templates.map((t) =>
+      templateIds.has(t.id) ? { ...t, id: generateId().replace(/^ds_/, "tpl_"), name: `${t.name} (backup)` } : t
+    ),
+    conflicts,
+  };
+}
+
+/**
+ * Grava o backup no IndexedDB. O dataset atual do backup só vira o atual
+ * daqui no "replace" (ou quando não havia nenhum).
+ */
+export async function restoreWorkspace(backup: WorkspaceBackup, mode: RestoreMode): Promise<RestorePlan> {
+  const [index, templates, currentId] = await Promise.all([getDatasetIndex(), getAllImportTemplates(), getCurrentDatasetId()]);
+  const plan = planRestore(
+    backup,
+    { datasetIds: index.map((m) => m.id), templateIds: templates.map((t) => t.id) },
+    mode
+  );
+
+  for (const dataset of plan.datasets) {
+    // "replace" grava por cima da revisão daqui de propósito
+    await saveDataset(dataset, { reason: "import", note: "Backup do workspace" }, { force: mode === "replace" });
+  }
+  for (const template of plan.templates) await saveImportTemplate(template);
+
+  const { currentDatasetId, historyRetention } = backup.settings;
+  if (typeof historyRetention === "number" && historyRetention > 0) await setHistoryRetention(historyRetention);
+  const restoredCurrent = plan.datasets.some((d) => d.id === currentDatasetId);
+  if (currentDatasetId && restoredCurrent && (mode === "replace" || !currentId)) await setCurrentDatasetId(currentDatasetId);
+  return plan;
+}
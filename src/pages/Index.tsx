@@ -1,7 +1,7 @@
 import React, { useState, useMemo } from "react";
 import { AIChatbot } from "@/components/dashboard/AIChatbot";
 import { AutoSummary } from "@/components/dashboard/AutoSummary";
-import { Download, Edit3, Menu, PanelRightOpen, PanelRightClose } from "lucide-react";
+import { AlertTriangle, Download, Edit3, Menu, PanelRightOpen, PanelRightClose } from "lucide-react";
 import { Sidebar } from "@/components/dashboard/Sidebar";
 import { Button } from "@/components/ui/button";
 import { cn } from "@/lib/utils";
@@ -11,10 +11,32 @@ import { DetailTable } from "@/components/dashboard/DetailTable";
 import { SpreadsheetView } from "@/components/dashboard/SpreadsheetView";
 import { ViewTabs } from "@/components/dashboard/ViewTabs";
 import { DatasetSelect } from "@/components/dashboard/DatasetSelect";
+import { ColumnReviewDialog } from "@/components/dashboard/ColumnReviewDialog";
+import { ImportDiagnosticsDialog } from "@/components/dashboard/ImportDiagnosticsDialog";
+import { ImportTemplatesDialog } from "@/components/dashboard/ImportTemplatesDialog";
+import { ReloadDiffDialog } from "@/components/dashboard/ReloadDiffDialog";
+import { DatasetHistoryDialog } from "@/components/dashboard/DatasetHistoryDialog";
+import { WorkspaceBackupDialog } from "@/components/dashboard/WorkspaceBackupDialog";
+import { StorageDialog } from "@/components/dashboard/StorageDialog";
+import { ImportQuotaDialog } from "@/components/dashboard/ImportQuotaDialog";
+import { CloudSyncDialog } from "@/components/dashboard/CloudSyncDialog";
 import { useDatasets } from "@/hooks/useDatasets";
+import { useImportTemplates } from "@/hooks/useImportTemplates";
+import { useFileLink } from "@/hooks/useFileLink";
+import { useDatasetHistory } from "@/hooks/useDatasetHistory";
+import { useWorkspaceBackup } from "@/hooks/useWorkspaceBackup";
+import { useStorageQuota } from "@/hooks/useStorageQuota";
+import { useCloudSync } from "@/hooks/useCloudSync";
+import { useThemePreset } from "@/contexts/ThemePresetContext";
+import { toast } from "@/hooks/use-toast";
 import type { DateRange } from "@/lib/dateRange";
-import type { GenericRow, MatrixConfig } from "@/lib/database";
-import { saveDataset } from "@/lib/database";
+import type { Dataset, DatasetMeta, GenericRow, MatrixConfig } from "@/lib/database";
+import { updateStoredDataset } from "@/lib/database";
+import { countWarnings } from "@/lib/importDiagnostics";
+import type { RestoreMode } from "@/lib/workspaceBackup";
+import { formatBytes, storageErrorMessage, type CleanupSuggestion, type ImportQuotaCheck } from "@/lib/storageQuota";
+import type { ImportOptions } from "@/lib/excelParser";
+import type { SyncResult } from "@/lib/cloudSync";
 
 const STATUS_PATTERN = /^(ENT|FOL|BAN|FAL|ATE|FER|ENTREGUE?|FOLGA?|FALTA?|ATESTADO?|FER[IÉ]AS?|BANCO( DE HORAS)?|VAZIO|-)$/i;
 const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}|^\d{2}\/\d{2}\/\d{4}/;
@@ -160,14 +182,201 @@ export default function Index() {
     currentDataset,
     loading,
     importFile,
+    importProgress,
+    importBatch,
+    batchQueue,
+    clearBatchQueue,
+    cancelImport,
+    pendingImport,
+    pendingAppend,
+    confirmImport,
+    discardImport,
     selectDataset,
     removeDataset,
+    brokenDatasets,
+    discardBrokenDataset,
     updateDataset,
+    applyExternalChanges,
+    refresh,
   } = useDatasets();
+  const { templates, saveFromDataset, removeTemplate, markUsed, reload: reloadTemplates } = useImportTemplates();
+  const fileLink = useFileLink(updateDataset);
+
+  const handleLinkFile = async (dataset: DatasetMeta) => {
+    try {
+      if (await fileLink.linkFile(dataset.id)) toast({ title: "Arquivo vinculado", description: `${dataset.name}: use Recarregar quando o arquivo mudar` });
+    } catch (err) {
+      console.error(err);
+      toast({ title: "Não foi possível vincular o arquivo", description: err instanceof Error ? err.message : undefined, variant: "destructive" });
+    }
+  };
+
+  const handleReloadFile = async (dataset: DatasetMeta) => {
+    try {
+      await fileLink.reloadFile(dataset.id);
+    } catch (err) {
+      console.error(err);
+      toast({ title: "Erro ao recarregar o arquivo", description: err instanceof Error ? err.message : undefined, variant: "destructive" });
+    }
+  };
+
+  const handleConfirmReload = async () => {
+    const fileName = fileLink.pendingReload?.fileName;
+    try {
+      await fileLink.confirmReload();
+      toast({ title: "Arquivo recarregado", description: fileName });
+    } catch (err) {
+      console.error(err);
+      toast({ title: "Erro ao aplicar o arquivo recarregado", description: err instanceof Error ? err.message : undefined, variant: "destructive" });
+    }
+  };
+
+  // Histórico de versões do dataset escolhido na barra lateral
+  const [historyTarget, setHistoryTarget] = useState<DatasetMeta | null>(null);
+  const history = useDatasetHistory(historyTarget?.id ?? null, updateDataset);
+
+  const handleRestoreVersion = async (snapshotId: string) => {
+    try {
+      const restored = await history.restore(snapshotId);
+      toast({ title: "Versão restaurada", description: `${restored.name}: ${restored.totalRows.toLocaleString("pt-BR")} linhas` });
+    } catch (err) {
+      console.error(err);
+      toast({ title: "Erro ao restaurar a versão", description: err instanceof Error ? err.message : undefined, variant: "destructive" });
+    }
+  };
+
+  const handleRetentionChange = async (limit: number) => {
+    try {
+      await history.changeRetention(limit);
+    } catch (err) {
+      console.error(err);
+      toast({ title: "Erro ao mudar o limite de versões", description: err instanceof Error ? err.message : undefined, variant: "destructive" });
+    }
+  };
+
+  // Backup do workspace: exporta tudo em .zip; a restauração passa por um resumo com os conflitos
+  const { preset, setPreset } = useThemePreset();
+  const backup = useWorkspaceBackup(async () => {
+    await refresh();
+    await reloadTemplates();
+  });
+
+  const handleExportBackup = async () => {
+    try {
+      await backup.exportBackup({ themePreset: preset });
+      toast({ title: "Backup gerado", description: `${datasets.length} datasets, modelos e configurações` });
+    } catch (err) {
+      console.error(err);
+      toast({ title: "Erro ao gerar o backup", description: err instanceof Error ? err.message : undefined, variant: "destructive" });
+    }
+  };
+
+  const handleReadBackup = async (file: File) => {
+    try {
+      await backup.readBackup(file);
+    } catch (err) {
+      console.error(err);
+      toast({ title: "Não foi possível abrir o backup", description: err instanceof Error ? err.message : undefined, variant: "destructive" });
+    }
+  };
+
+  const handleRestoreBackup = async (mode: RestoreMode) => {
+    try {
+      const restored = await backup.confirmRestore(mode);
+      if (!restored) return;
+      const theme = restored.settings.themePreset;
+      if (theme === "saas" || theme === "apple") setPreset(theme);
+      toast({
+        title: "Backup restaurado",
+        description: `${restored.plan.datasets.length} datasets e ${restored.plan.templates.length} modelos`,
+      });
+    } catch (err) {
+      console.error(err);
+      toast({ title: "Erro ao restaurar o backup", description: err instanceof Error ? err.message : undefined, variant: "destructive" });
+    }
+  };
+
+  // Armazenamento do navegador: painel de uso/limpeza e aviso antes de importar
+  const storage = useStorageQuota(datasets, updateDataset);
+  const [storageOpen, setStorageOpen] = useState(false);
+  const [quotaWarning, setQuotaWarning] = useState<{ check: ImportQuotaCheck; proceed: () => void } | null>(null);
+
+  const measureStorage = () => {
+    storage.measure().catch((err) => {
+      console.error(err);
+      toast({ title: "Erro ao medir o armazenamento", variant: "destructive" });
+    });
+  };
+
+  const openStorage = () => {
+    setStorageOpen(true);
+    measureStorage();
+  };
+
+  const handleRequestPersist = async () => {
+    const granted = await storage.requestPersist().catch(() => false);
+    toast(granted
+      ? { title: "Armazenamento persistente ativado" }
+      : { title: "O navegador não concedeu armazenamento persistente", description: "Gere backups com frequência", variant: "destructive" });
+  };
+
+  const handleCleanup = async (suggestion: CleanupSuggestion) => {
+    try {
+      if (suggestion.kind === "raw_grid") await storage.dropRawGrid(suggestion.datasetId);
+      else if (suggestion.kind === "history") await storage.clearHistory(suggestion.datasetId);
+      else await removeDataset(suggestion.datasetId);
+      toast({ title: "Espaço liberado", description: `${suggestion.name}: ~${formatBytes(suggestion.bytes)}` });
+    } catch (err) {
+      console.error(err);
+      toast({ title: "Erro ao liberar espaço", description: err instanceof Error ? err.message : undefined, variant: "destructive" });
+    }
+  };
+
+  // Nuvem (opcional): o que veio de lá entra como mudança de outra aba; conflito vira aviso
+  const [cloudOpen, setCloudOpen] = useState(false);
+  const handleCloudSynced = (result: SyncResult) => {
+    if (result.pulled.length) applyExternalChanges(result.pulled);
+    for (const conflict of result.conflicts) {
+      toast({
+        title: `"${conflict.name}" mudou em outro aparelho`,
+        description: conflict.copyName
+          ? `A versão da nuvem ficou no lugar; suas edições estão em "${conflict.copyName}"`
+          : "A versão da nuvem foi carregada",
+      });
+    }
+  };
+  const cloud = useCloudSync(handleCloudSynced);
+
+  /** Importação que provavelmente não cabe pede confirmação; sem cota conhecida, segue direto */
+  const guardImport = async (files: File[], proceed: () => void) => {
+    const check = await storage.checkImport(files).catch(() => null);
+    if (check?.exceeds) setQuotaWarning({ check, proceed });
+    else proceed();
+  };
+
+  const runImport = (file: File, options?: ImportOptions) => {
+    importFile(file, options).catch((err) => {
+      toast({
+        title: "Erro ao importar arquivo",
+        description: storageErrorMessage(err, err instanceof Error ? err.message : "Verifique o arquivo e tente de novo"),
+        variant: "destructive",
+      });
+    });
+  };
+
+  const handleConfirmImport = async (reviewed: Dataset[]) => {
+    try {
+      await confirmImport(reviewed);
+      await markUsed(reviewed);
+    } catch (err) {
+      console.error(err);
+      toast({ title: "Erro ao salvar a importação", description: storageErrorMessage(err, "Tente de novo"), variant: "destructive" });
+    }
+  };
 
   // Safe defaults
   const safeDatasets = datasets ?? [];
-  const activeDataset = currentDataset ?? safeDatasets[0] ?? null;
+  const activeDataset = currentDataset;
   const safeRows = activeDataset?.rows ?? [];
   const safeCategoryColumns = activeDataset?.detectedCategoryColumns ?? [];
   const safeTextColumns = activeDataset?.detectedTextColumns ?? [];
@@ -203,6 +412,8 @@ export default function Index() {
   const [activeTab, setActiveTab] = useState<"dashboard" | "planilha">("planilha");
   const [sidebarOpen, setSidebarOpen] = useState(false);
   const [rightPanelOpen, setRightPanelOpen] = useState(true);
+  const [diagnosticsOpen, setDiagnosticsOpen] = useState(false);
+  const [templatesOpen, setTemplatesOpen] = useState(false);
 
   // Get available date range from dataset
   const availableDateRange = useMemo(() => {
@@ -306,9 +517,31 @@ export default function Index() {
         <Sidebar
           datasets={safeDatasets}
           currentDataset={activeDataset}
-          onImport={(file, fmt) => { importFile(file, fmt); setSidebarOpen(false); }}
+          onImport={(file, options) => { guardImport([file], () => runImport(file, options)); setSidebarOpen(false); }}
+          onImportBatch={(files, mode) => { guardImport(files, () => importBatch(files, mode)); setSidebarOpen(false); }}
+          importProgress={importProgress}
+          batchQueue={batchQueue}
+          onClearBatchQueue={clearBatchQueue}
+          templates={templates}
+          onManageTemplates={() => { setTemplatesOpen(true); setSidebarOpen(false); }}
+          onCancelImport={cancelImport}
           onSelectDataset={(id) => { selectDataset(id); setSidebarOpen(false); }}
           onDeleteDataset={removeDataset}
+          fileLinkSupported={fileLink.supported}
+          reloadingId={fileLink.reloadingId}
+          onLinkFile={handleLinkFile}
+          onReloadFile={handleReloadFile}
+          onOpenHistory={setHistoryTarget}
+          onExportBackup={handleExportBackup}
+          onRestoreBackup={handleReadBackup}
+          backupBusy={backup.exporting || backup.restoring}
+          storageEstimate={storage.estimate}
+          onOpenStorage={openStorage}
+          cloudStatus={cloud.status}
+          cloudPending={cloud.pending}
+          onOpenCloudSync={() => setCloudOpen(true)}
+          brokenDatasets={brokenDatasets}
+          onDiscardBroken={discardBrokenDataset}
           personFilter={personFilter}
           setPersonFilter={setPersonFilter}
           statusFilter={statusFilter}
@@ -327,8 +560,13 @@ export default function Index() {
       {/* CENTER: Dashboard */}
       <main className="flex-1 flex flex-col overflow-hidden min-w-0">
         {loading ? (
-          <div className="flex items-center justify-center h-full">
+          <div className="flex flex-col items-center justify-center h-full gap-3">
             <div className="animate-spin w-8 h-8 border-4 border-primary border-t-transparent rounded-full" />
+            {importProgress && (
+              <Button variant="ghost" size="sm" onClick={cancelImport} className="text-xs">
+                Cancelar importação
+              </Button>
+            )}
           </div>
         ) : !activeDataset ? (
           <div className="flex items-center justify-center h-full">
@@ -346,7 +584,7 @@ export default function Index() {
                 <Download className="w-10 h-10 text-white" />
               </div>
               <h2 className="text-2xl font-bold mb-2">Importe sua Planilha</h2>
-              <p className="text-muted-foreground">Faça upload de qualquer arquivo Excel ou CSV para visualizar em um dashboard interativo automático!</p>
+              <p className="text-muted-foreground">Faça upload de qualquer arquivo Excel, ODS, CSV ou JSON para visualizar em um dashboard interativo automático!</p>
             </div>
           </div>
         ) : (
@@ -370,6 +608,19 @@ export default function Index() {
                   {filteredRows?.length ?? 0} registros
                 </span>
 
+                {countWarnings(activeDataset.importDiagnostics) > 0 && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setDiagnosticsOpen(true)}
+                    className="text-xs h-7 gap-1 text-amber-600 shrink-0"
+                    title="Ver avisos da importação"
+                  >
+                    <AlertTriangle className="w-3.5 h-3.5" />
+                    <span className="hidden sm:inline">{countWarnings(activeDataset.importDiagnostics)} avisos</span>
+                  </Button>
+                )}
+
                 {hasActiveFilters && (
                   <Button variant="ghost" size="sm" onClick={clearFilters} className="text-xs h-7 hidden sm:flex">
                     Limpar Filtros
@@ -428,9 +679,13 @@ export default function Index() {
               availableColumns={activeDataset.columns?.map(c => typeof c === 'string' ? c : c.name) || []}
               onColumnsChange={async (row, col, value) => {
                 const newConfig: MatrixConfig = { rowColumn: row, colColumn: col, valueColumn: value };
-                const updated = { ...activeDataset, matrixConfig: newConfig, updatedAt: new Date().toISOString() };
-                await saveDataset(updated);
-                updateDataset(updated);
+                // Só a configuração muda: aplica sobre o gravado (outra aba pode ter editado os dados)
+                const saved = await updateStoredDataset(
+                  activeDataset.id,
+                  (latest) => ({ ...latest, matrixConfig: newConfig, updatedAt: new Date().toISOString() }),
+                  { reason: "edit", note: "Configuração da matriz" }
+                );
+                if (saved) updateDataset(saved);
               }}
             />
           </div>
@@ -441,11 +696,99 @@ export default function Index() {
               personColumn={filterColumns.personCol || findBestPersonColumn(matrixCandidateColumns, activeDataset.rows)}
               teamColumn={filterColumns.teamCol || matrixCandidateColumns[0] || ""}
               statusColumn={filterColumns.statusCol || findStatusColumn(matrixCandidateColumns, activeDataset.rows) || ""}
+              columns={activeDataset.columns}
             />
           </div>
         </aside>
       )}
 
+      {/* Avisos linha a linha da importação do dataset ativo */}
+      <ImportDiagnosticsDialog dataset={activeDataset} open={diagnosticsOpen} onOpenChange={setDiagnosticsOpen} />
+
+      {/* Revisão de colunas antes de salvar a importação */}
+      <ColumnReviewDialog
+        datasets={pendingImport}
+        append={pendingAppend}
+        templates={templates}
+        onConfirm={handleConfirmImport}
+        onCancel={discardImport}
+      />
+
+      {/* Modelos de importação (salvar o dataset ativo, excluir) */}
+      <ImportTemplatesDialog
+        open={templatesOpen}
+        onOpenChange={setTemplatesOpen}
+        templates={templates}
+        dataset={activeDataset}
+        onSave={saveFromDataset}
+        onDelete={removeTemplate}
+      />
+
+      {/* Recarregar arquivo vinculado: diff antes de aplicar */}
+      <ReloadDiffDialog
+        reload={fileLink.pendingReload}
+        onConfirm={handleConfirmReload}
+        onCancel={fileLink.discardReload}
+      />
+
+      {/* Histórico de versões: comparar e restaurar */}
+      <DatasetHistoryDialog
+        dataset={historyTarget}
+        versions={history.versions}
+        retention={history.retention}
+        loading={history.loading}
+        onCompare={history.compare}
+        onRestore={handleRestoreVersion}
+        onRetentionChange={handleRetentionChange}
+        onClose={() => setHistoryTarget(null)}
+      />
+
+      {/* Restaurar backup do workspace: resumo e conflitos antes de gravar */}
+      <WorkspaceBackupDialog
+        restore={backup.pendingRestore}
+        restoring={backup.restoring}
+        onConfirm={handleRestoreBackup}
+        onCancel={backup.discardRestore}
+      />
+
+      {/* Armazenamento: uso, peso por dataset e limpezas */}
+      <StorageDialog
+        open={storageOpen}
+        estimate={storage.estimate}
+        usage={storage.usage}
+        measuring={storage.measuring}
+        onMeasure={measureStorage}
+        onRequestPersist={handleRequestPersist}
+        onCleanup={handleCleanup}
+        onClose={() => setStorageOpen(false)}
+      />
+
+      {/* Sincronização opcional com a nuvem */}
+      <CloudSyncDialog
+        open={cloudOpen}
+        email={cloud.user?.email}
+        settings={cloud.settings}
+        status={cloud.status}
+        pending={cloud.pending}
+        localOnly={cloud.localOnly}
+        lastError={cloud.lastError}
+        onSetEnabled={cloud.setEnabled}
+        onSync={cloud.sync}
+        onUploadLocal={cloud.uploadLocal}
+        onSignIn={cloud.signIn}
+        onSignUp={cloud.signUp}
+        onSignOut={cloud.signOut}
+        onClose={() => setCloudOpen(false)}
+      />
+
+      {/* Aviso antes de importar o que não cabe */}
+      <ImportQuotaDialog
+        check={quotaWarning?.check ?? null}
+        onProceed={() => { quotaWarning?.proceed(); setQuotaWarning(null); }}
+        onFreeSpace={() => { setQuotaWarning(null); openStorage(); }}
+        onCancel={() => setQuotaWarning(null)}
+      />
+
       {/* AI Chatbot */}
       <AIChatbot dataset={activeDataset} filtered={filteredRows} />
     </div>
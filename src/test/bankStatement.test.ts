@@ -0,0 +1,76 @@
+import { describe, it, expect } from "vitest";
+import { cashFlowSummary, parseOfx, withRunningBalance } from "@/lib/bankStatement";
+import { parseWorkbookBuffer } from "@/lib/excelParser";
+import { detectServiceProfile } from "@/lib/serviceProfile";
+
+const ofx = `OFXHEADER:100
+DATA:OFXSGML
+VERSION:102
+CHARSET:1252
+
+<OFX>
+<BANKMSGSRSV1><STMTTRNRS><STMTRS>
+<CURDEF>BRL
+<BANKACCTFROM><BANKID>0341<ACCTID>12345-6</BANKACCTFROM>
+<BANKTRANLIST>
+<DTSTART>20240301
+<STMTTRN>
+<TRNTYPE>CREDIT
+<DTPOSTED>20240305120000[-3:BRT]
+<TRNAMT>1500.00
+<FITID>A1
+<MEMO>PIX RECEBIDO CLIENTE
+</STMTTRN>
+<STMTTRN>
+<TRNTYPE>DEBIT
+<DTPOSTED>20240306
+<TRNAMT>-250.50
+<FITID>A2
+<CHECKNUM>000123
+<NAME>TARIFA
+<MEMO>TARIFA PACOTE
+</STMTTRN>
+</BANKTRANLIST>
+<LEDGERBAL><BALAMT>2249.50<DTASOF>20240331</LEDGERBAL>
+</STMTRS></STMTTRNRS></BANKMSGSRSV1>
+</OFX>`;
+
+function csvBuffer(text: string) {
+  return new TextEncoder().encode(text).buffer as ArrayBuffer;
+}
+
+describe("extrato bancário", () => {
+  it("lê o OFX com sinal, tipo e saldo a partir do LEDGERBAL", () => {
+    const statement = parseOfx(ofx);
+    expect(statement.bankId).toBe("0341");
+    expect(statement.accountId).toBe("12345-6");
+    expect(statement.rows[0]).toMatchObject({ data: "2024-03-05", descricao: "PIX RECEBIDO CLIENTE", valor: 1500, tipo: "Crédito" });
+    expect(statement.rows[1]).toMatchObject({ descricao: "TARIFA - TARIFA PACOTE", documento: "000123", valor: -250.5, tipo: "Débito" });
+
+    const rows = withRunningBalance(statement.rows, statement.ledgerBalance!);
+    expect(rows.map((r) => r.saldo)).toEqual([2500, 2249.5]);
+  });
+
+  it("reconhece o CSV do banco como extrato e o perfil financeiro mostra entradas, saídas e saldo", () => {
+    const csv = [
+      "Data;Histórico;Documento;Valor;Saldo",
+      "01/03/2024;SALDO ANTERIOR;;;1.000,00",
+      "04/03/2024;PIX RECEBIDO;111;2.000,00;3.000,00",
+      "05/03/2024;PAGTO BOLETO;222;-450,25;2.549,75",
+      "05/03/2024;TARIFA;;-12,90;2.536,85",
+    ].join("\n");
+    const [dataset] = parseWorkbookBuffer(csvBuffer(csv), "extrato.csv");
+
+    expect(dataset.rows).toHaveLength(3);
+    expect(dataset.columns.find((c) => c.name === "valor")?.type).toBe("currency");
+    expect(dataset.columns.find((c) => c.name === "data")?.type).toBe("date");
+    expect(dataset.rows[1]).toMatchObject({ data: "2024-03-05", valor: -450.25, tipo: "Débito" });
+
+    const profile = detectServiceProfile(dataset);
+    expect(profile.type).toBe("FINANCEIRO");
+    expect(profile.semanticMap).toMatchObject({ amount: "valor", balance: "saldo", date: "data" });
+
+    const cash = cashFlowSummary(dataset.rows, "valor", "saldo", "data");
+    expect(cash).toMatchObject({ inflows: 2000, outflows: -463.15, balance: 2536.85, balanceFromColumn: true });
+  });
+});
@@ -0,0 +1,35 @@
+import { describe, it, expect } from "vitest";
+import JSZip from "jszip";
+import { consolidateDatasets, expandZipFiles, SOURCE_FILE_COLUMN } from "@/lib/batchImport";
+import { createDataset } from "@/lib/datasetBuilder";
+
+describe("importação em lote", () => {
+  it("expande ZIPs e ignora pastas, __MACOSX e arquivos de lock", async () => {
+    const zip = new JSZip();
+    zip.file("equipes/b.csv", "a;b\n1;2");
+    zip.file("equipes/a.xlsx", "x");
+    zip.file("__MACOSX/equipes/._a.xlsx", "x");
+    zip.file("equipes/~$a.xlsx", "x");
+    zip.file("leiame.pdf", "x");
+    const blob = await zip.generateAsync({ type: "uint8array" });
+
+    const files = await expandZipFiles([new File([blob], "rdas.zip"), new File(["a;b"], "solto.csv")]);
+    expect(files.map((f) => f.name)).toEqual(["a.xlsx", "b.csv", "solto.csv"]);
+  });
+
+  it("consolida os arquivos com a coluna de origem e uma fonte por arquivo", () => {
+    const jan = createDataset("jan", [{ data: "2024-01-10", valor: 10 }, { data: "2024-01-20", valor: 5 }]);
+    const fev = createDataset("fev", [{ data: "2024-02-03", valor: 7 }]);
+
+    const ds = consolidateDatasets([
+      { fileName: "jan.xlsx", dataset: jan },
+      { fileName: "fev.xlsx", dataset: fev },
+    ], "Consolidado");
+
+    expect(ds.totalRows).toBe(3);
+    expect(ds.rows.map((r) => r[SOURCE_FILE_COLUMN])).toEqual(["jan.xlsx", "jan.xlsx", "fev.xlsx"]);
+    expect(ds.importSources?.map((s) => [s.fileName, s.rowCount])).toEqual([["jan.xlsx", 2], ["fev.xlsx", 1]]);
+    expect(ds.rows[2]._sourceId).toBe(ds.importSources?.[1].id);
+    expect(ds.summary.dateRange).toEqual({ from: "2024-01-10", to: "2024-02-03" });
+  });
+});
@@ -0,0 +1,31 @@
+import { describe, it, expect } from "vitest";
+import { clipboardToTsv } from "@/lib/clipboardImport";
+import { parseWorkbookBuffer } from "@/lib/excelParser";
+
+async function importTsv(tsv: string) {
+  const buf = new TextEncoder().encode(tsv).buffer as ArrayBuffer;
+  return parseWorkbookBuffer(buf, "Dados colados.tsv");
+}
+
+describe("clipboardImport", () => {
+  it("tabela HTML colada vira TSV com o texto das células", () => {
+    const html = `<html><body><table>
+      <tr><td>Obra</td><td>Valor</td></tr>
+      <tr><td>Ponte</td><td>1.234,56</td></tr>
+      <tr><td>Escola</td><td>10,00</td></tr>
+    </table></body></html>`;
+    expect(clipboardToTsv({ html, text: "ignorado" })).toBe("Obra\tValor\nPonte\t1.234,56\nEscola\t10,00");
+  });
+
+  it("TSV colado passa pela mesma detecção de tipos e de matriz RDA", async () => {
+    const [table] = await importTsv(clipboardToTsv({ text: "Obra\tValor\r\nPonte\t1.234,56\r\nEscola\t10,00\r\n" }));
+    expect(table.name).toBe("Dados colados");
+    expect(table.rows[0].Valor).toBe(1234.56);
+
+    const [rda] = await importTsv(clipboardToTsv({
+      text: "RDA\t\t\nDATA\tEQUIPE A\t\n\tJoão Silva\tMaria Souza\n01/02/2024\tENT\tFOL\n02/02/2024\tENT\tENT",
+    }));
+    expect(rda.gridSource?.kind).toBe("rda_matrix");
+    expect(rda.rows).toHaveLength(4);
+  });
+});
@@ -0,0 +1,275 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import {
+  getCloudQueue,
+  mergeQueueEntry,
+  planPull,
+  queueLocalDatasets,
+  resolveConflict,
+  setCloudSyncEnabled,
+  syncNow,
+  type CloudClient,
+  type CloudQueueEntry,
+} from "@/lib/cloudSync";
+import { getDataset, getDatasetIndex, saveDataset } from "@/lib/database";
+import { createDataset } from "@/lib/datasetBuilder";
+
+// IndexedDB em memória (o jsdom não tem): mesma API do idb-keyval que o app usa
+const idb = vi.hoisted(() => new Map<IDBValidKey, unknown>());
+vi.mock("idb-keyval", () => {
+  const read = (key: IDBValidKey) => structuredClone(idb.get(key));
+  const request = (result: unknown) => {
+    const req: { result: unknown; onsuccess: (() => void) | null; onerror: (() => void) | null } = {
+      result,
+      onsuccess: null,
+      onerror: null,
+    };
+    queueMicrotask(() => req.onsuccess?.());
+    return req;
+  };
+  const transaction = {};
+  const store = {
+    transaction,
+    get: (key: IDBValidKey) => request(read(key)),
+    put: (value: unknown, key: IDBValidKey) => request(idb.set(key, structuredClone(value)) && key),
+    delete: (key: IDBValidKey) => request(idb.delete(key) && undefined),
+  };
+  return {
+    get: async (key: IDBValidKey) => read(key),
+    set: async (key: IDBValidKey, value: unknown) => void idb.set(key, structuredClone(value)),
+    del: async (key: IDBValidKey) => void idb.delete(key),
+    delMany: async (keys: IDBValidKey[]) => keys.forEach((key) => idb.delete(key)),
+    update: async (key: IDBValidKey, updater: (old: unknown) => unknown) => void idb.set(key, structuredClone(updater(read(key)))),
+    keys: async () => [...idb.keys()],
+    clear: async () => idb.clear(),
+    createStore: () => async (_mode: IDBTransactionMode, run: (s: typeof store) => unknown) => run(store),
+    promisifyRequest: async (req: { result?: unknown }) => (req === transaction ? undefined : req.result),
+  };
+});
+
+type CloudRow = Record<string, unknown> & { user_id: string };
+
+/** Supabase de mentira: tabelas por usuário (o RLS) e as duas funções da migração */
+function fakeCloud() {
+  const tables: Record<string, CloudRow[]> = { datasets: [], dataset_chunks: [] };
+  const cloud = { tables, userId: "user_a" };
+
+  const from = (table: string) => {
+    const filters: [string, unknown][] = [];
+    let action: { op: "select" | "delete" } | { op: "insert"; row: Record<string, unknown> } = { op: "select" };
+    let orderBy: string | undefined;
+    const run = () => {
+      const mine = tables[table].filter((r) => r.user_id === cloud.userId && filters.every(([k, v]) => r[k] === v));
+      if (action.op === "insert") tables[table].push({ ...structuredClone(action.row), user_id: cloud.userId });
+      if (action.op === "delete") tables[table] = tables[table].filter((r) => !mine.includes(r));
+      if (orderBy) mine.sort((a, b) => Number(a[orderBy]) - Number(b[orderBy]));
+      return { data: action.op === "select" ? structuredClone(mine) : null, error: null };
+    };
+    const query = {
+      select: () => query,
+      eq: (column: string, value: unknown) => (filters.push([column, value]), query),
+      order: (column: string) => ((orderBy = column), query),
+      insert: (row: Record<string, unknown>) => ((action = { op: "insert", row }), query),
+      delete: () => ((action = { op: "delete" }), query),
+      maybeSingle: async () => ({ data: run().data?.[0] ?? null, error: null }),
+      then: (resolve: (value: ReturnType<typeof run>) => unknown) => Promise.resolve(run()).then(resolve),
+    };
+    return query;
+  };
+
+  const conflict = (id: unknown) => ({ data: null, error: { code: "40001", message: `Dataset ${id} mudou na nuvem` } });
+  const rpc = async (name: string, p: Record<string, unknown>) => {
+    const row = tables.datasets.find((r) => r.user_id === cloud.userId && r.id === p.p_id);
+    const current = (row?.revision as number | undefined) ?? 0;
+    if (name === "delete_dataset") {
+      if (!row) return { data: null, error: null };
+      if (current !== p.p_base_revision) return conflict(p.p_id);
+      tables.datasets = tables.datasets.filter((r) => r !== row);
+      return { data: null, error: null };
+    }
+    if (current !== p.p_base_revision) return conflict(p.p_id);
+    const next = {
+      user_id: cloud.userId,
+      id: p.p_id,
+      name: p.p_name,
+      revision: current + 1,
+      record: p.p_record,
+      upload_id: p.p_upload_id,
+      row_chunks: p.p_row_chunks,
+    };
+    tables.datasets = [...tables.datasets.filter((r) => r !== row), next];
+    tables.dataset_chunks = tables.dataset_chunks.filter(
+      (c) => c.user_id !== cloud.userId || c.dataset_id !== p.p_id || c.upload_id === p.p_upload_id
+    );
+    return { data: current + 1, error: null };
+  };
+
+  const client = {
+    auth: { getSession: async () => ({ data: { session: { user: { id: cloud.userId } } } }) },
+    from,
+    rpc,
+  } as unknown as CloudClient;
+  return { cloud, client };
+}
+
+/** Outro aparelho da mesma conta publica uma versão do dataset */
+function publishFromOtherDevice(cloud: ReturnType<typeof fakeCloud>["cloud"], dataset: ReturnType<typeof createDataset>) {
+  const row = cloud.tables.datasets.find((r) => r.user_id === cloud.userId && r.id === dataset.id);
+  const { rows, ...record } = dataset;
+  const uploadId = `up_${Math.random()}`;
+  cloud.tables.dataset_chunks.push({ user_id: cloud.userId, dataset_id: dataset.id, upload_id: uploadId, chunk_index: 0, rows });
+  cloud.tables.datasets = [
+    ...cloud.tables.datasets.filter((r) => r !== row),
+    {
+      user_id: cloud.userId,
+      id: dataset.id,
+      name: dataset.name,
+      revision: ((row?.revision as number | undefined) ?? 0) + 1,
+      record,
+      upload_id: uploadId,
+      row_chunks: 1,
+    },
+  ];
+}
+
+function entry(datasetId: string, op: CloudQueueEntry["op"], queuedAt: string): CloudQueueEntry {
+  return { datasetId, op, queuedAt, attempts: 0 };
+}
+
+describe("sincronização com a nuvem", () => {
+  it("fila guarda a última operação de cada dataset e o pull respeita o que está na fila", () => {
+    let queue = mergeQueueEntry([], entry("ds_1", "upsert", "2024-06-01T10:00:00.000Z"));
+    queue = mergeQueueEntry(queue, entry("ds_2", "upsert", "2024-06-01T10:01:00.000Z"));
+    queue = mergeQueueEntry(queue, entry("ds_1", "delete", "2024-06-01T10:02:00.000Z"));
+    expect(queue.map((e) => [e.datasetId, e.op])).toEqual([
+      ["ds_2", "upsert"],
+      ["ds_1", "delete"],
+    ]);
+
+    const state = {
+      ds_igual: { cloudRevision: 3, localRevision: 5, userId: "user_a" },
+      ds_mudou: { cloudRevision: 1, localRevision: 2, userId: "user_a" },
+      ds_fila: { cloudRevision: 1, localRevision: 2, userId: "user_a" },
+      ds_sumiu: { cloudRevision: 2, localRevision: 2, userId: "user_a" },
+    };
+    const plan = planPull(
+      [
+        { id: "ds_igual", revision: 3 },
+        { id: "ds_mudou", revision: 2 },
+        { id: "ds_fila", revision: 4 },
+        { id: "ds_novo", revision: 1 },
+      ],
+      state,
+      new Set(["ds_fila"]),
+      new Set(["ds_igual", "ds_mudou", "ds_fila", "ds_sumiu"])
+    );
+    expect(plan).toEqual({ download: ["ds_mudou", "ds_novo"], deleteLocal: ["ds_sumiu"] });
+  });
+
+  it("conflito mantém a versão da nuvem e as edições locais numa cópia", () => {
+    const base = { ...createDataset("RDA", [{ a: 1 }]), revision: 4 };
+    const local = { ...base, revision: 6, rows: [{ a: 2, _rowIndex: 0 }], linkedFile: { fileName: "rda.xlsx", linkedAt: "2024-06-01" } };
+    const remote = { ...base, revision: undefined, rows: [{ a: 3, _rowIndex: 0 }] };
+    const synced = { cloudRevision: 2, localRevision: 4, userId: "user_a" };
+
+    const { keep, copy } = resolveConflict(local, remote, synced, new Date("2024-06-02T10:00:00.000Z"));
+    expect(keep).toMatchObject({ id: base.id, revision: 6, rows: remote.rows, linkedFile: local.linkedFile });
+    expect(copy).toMatchObject({ name: "RDA (conflito)", rows: local.rows, revision: undefined, linkedFile: undefined });
+    expect(copy?.id).not.toBe(base.id);
+
+    // Sem edição daqui desde a sincronização, ou com o mesmo conteúdo: só a nuvem
+    expect(resolveConflict({ ...local, revision: 4 }, remote, synced).copy).toBeNull();
+    expect(resolveConflict(local, { ...local, linkedFile: undefined }, synced).copy).toBeNull();
+  });
+});
+
+describe("sincronização com a nuvem (cliente de mentira)", () => {
+  beforeEach(() => idb.clear());
+
+  it("envia a fila, traz o que outro aparelho publicou e guarda a edição em conflito numa cópia", async () => {
+    const { cloud, client } = fakeCloud();
+    await setCloudSyncEnabled(true);
+    const rda = await saveDataset(
+      createDataset("RDA", [{ pessoa: "Ana", status: "ENT" }], { rawGrid: [["pessoa", "status"], ["Ana", "ENT"]] }),
+      null
+    );
+
+    const pushed = await syncNow(client);
+    expect(pushed).toMatchObject({ pushed: 1, pending: 0, conflicts: [] });
+    expect(pushed.error).toBeUndefined();
+    expect(cloud.tables.datasets.map((r) => [r.id, r.revision])).toEqual([[rda.id, 1]]);
+    expect(cloud.tables.dataset_chunks).toHaveLength(1);
+    // A grade não vai no commit: só as linhas, em blocos
+    expect((cloud.tables.datasets[0].record as { rawGrid: unknown[] }).rawGrid).toEqual([]);
+
+    const fromOther = createDataset("Contratos", [{ contrato: "C-01" }]);
+    publishFromOtherDevice(cloud, fromOther);
+    const pulled = await syncNow(client);
+    expect(pulled.pulled).toEqual([{ type: "saved", id: fromOther.id, revision: 1 }]);
+    expect((await getDataset(fromOther.id))?.rows).toMatchObject([{ contrato: "C-01" }]);
+
+    // Os dois lados mudaram a RDA desde a última sincronização
+    publishFromOtherDevice(cloud, { ...rda, rows: [{ pessoa: "Ana", status: "FOL", _rowIndex: 0 }] });
+    await saveDataset({ ...(await getDataset(rda.id))!, rows: [{ pessoa: "Ana", status: "FAL", _rowIndex: 0 }] });
+    const result = await syncNow(client);
+
+    expect(result.conflicts).toHaveLength(1);
+    const { copyId } = result.conflicts[0];
+    expect((await getDataset(rda.id))?.rows[0].status).toBe("FOL");
+    expect(await getDataset(copyId!)).toMatchObject({ name: "RDA (conflito)", rows: [{ status: "FAL" }] });
+    expect(cloud.tables.datasets.map((r) => r.id).sort()).toEqual([rda.id, fromOther.id, copyId].sort());
+    expect(result.pending).toBe(0);
+  });
+
+  it("outra conta não recebe os datasets da anterior nem o que já estava neste navegador", async () => {
+    const { cloud, client } = fakeCloud();
+    const local = await saveDataset(createDataset("Planilha antiga", [{ a: 1 }]), null);
+    await setCloudSyncEnabled(true);
+    const fromA = createDataset("Dados da conta A", [{ a: 2 }]);
+    publishFromOtherDevice(cloud, fromA);
+
+    const first = await syncNow(client);
+    expect(first).toMatchObject({ pushed: 0, localOnly: 1 });
+    expect(await getDataset(fromA.id)).toBeDefined();
+
+    cloud.userId = "user_b";
+    await saveDataset({ ...(await getDataset(fromA.id))!, name: "Editado com a conta B" });
+    const second = await syncNow(client);
+    expect(second).toMatchObject({ pushed: 0, pending: 0, localOnly: 1 });
+    expect(second.error).toBeUndefined();
+    expect(cloud.tables.datasets.filter((r) => r.user_id === "user_b")).toEqual([]);
+    expect((await getDatasetIndex()).map((m) => m.id)).toContain(fromA.id);
+
+    // Só com o pedido do usuário o que é deste navegador vai para a conta
+    expect(await queueLocalDatasets()).toBe(1);
+    await syncNow(client);
+    expect(cloud.tables.datasets.filter((r) => r.user_id === "user_b").map((r) => r.id)).toEqual([local.id]);
+
+    // De volta à conta A, a edição feita no dataset dela sobe
+    cloud.userId = "user_a";
+    const back = await syncNow(client);
+    expect(back).toMatchObject({ pushed: 1, pending: 0 });
+    expect(back.error).toBeUndefined();
+    expect(cloud.tables.datasets.find((r) => r.user_id === "user_a" && r.id === fromA.id)?.name).toBe("Editado com a conta B");
+    expect(await getCloudQueue()).toEqual([]);
+  });
+
+  it("envio que falha vai para o fim da fila e não segura os outros", async () => {
+    const { cloud, client } = fakeCloud();
+    await setCloudSyncEnabled(true);
+    const broken = await saveDataset(createDataset("Ilegível", [{ a: 1 }]), null);
+    const ok = await saveDataset(createDataset("Contratos", [{ a: 2 }]), null);
+    // Bloco de linhas perdido: o dataset vai para a quarentena ao ser lido
+    idb.delete(`rows_${broken.id}_0`);
+
+    const result = await syncNow(client);
+    expect(result.pushed).toBe(1);
+    expect(result.error).toMatch(/não pôde ser lido/);
+    expect(cloud.tables.datasets.map((r) => r.id)).toEqual([ok.id]);
+    expect(await getCloudQueue()).toMatchObject([{ datasetId: broken.id, attempts: 1 }]);
+
+    const again = await syncNow(client);
+    expect(again).toMatchObject({ pushed: 0, pending: 1 });
+    expect(await getCloudQueue()).toMatchObject([{ datasetId: broken.id, attempts: 2 }]);
+  });
+});
+
@@ -0,0 +1,36 @@
+import { describe, it, expect } from "vitest";
+import { createDataset } from "@/lib/datasetBuilder";
+import { applyColumnOverrides, buildColumnReport } from "@/lib/columnReview";
+
+describe("columnReview", () => {
+  const base = createDataset("T", [
+    { codigo: "001", nome: "Ana", valor: "10", obs: null },
+    { codigo: "002", nome: "Bia", valor: "20", obs: "x" },
+    { codigo: "003", nome: "Caio", valor: "", obs: null },
+  ]);
+
+  it("relatório traz tipo detectado, amostras e taxa de vazios", () => {
+    const report = buildColumnReport(base);
+    const obs = report.find((c) => c.name === "obs");
+    expect(obs?.nullRate).toBeCloseTo(2 / 3);
+    expect(report.find((c) => c.name === "nome")?.samples).toEqual(["Ana", "Bia", "Caio"]);
+  });
+
+  it("renomeia, exclui e força tipos recalculando o summary", () => {
+    const updated = applyColumnOverrides(base, [
+      { name: "codigo", type: "text" },
+      { name: "valor", rename: "Valor (R$)", type: "number" },
+      { name: "obs", exclude: true },
+    ]);
+
+    expect(updated.id).toBe(base.id);
+    expect(updated.columns.map((c) => c.name)).toEqual(["codigo", "nome", "Valor (R$)"]);
+    expect(updated.columns.find((c) => c.name === "codigo")?.type).toBe("text");
+    expect(updated.rows[0]["Valor (R$)"]).toBe(10);
+    expect(updated.summary.numericStats["Valor (R$)"].sum).toBe(30);
+    expect(updated.rawGrid[0]).toEqual(["codigo", "nome", "Valor (R$)"]);
+
+    // Edições posteriores mantêm o tipo escolhido
+    expect(updated.columnTypeOverrides).toEqual({ codigo: "text" });
+  });
+});
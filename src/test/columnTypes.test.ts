@@ -0,0 +1,38 @@
+import { describe, it, expect } from "vitest";
+import { createDataset } from "@/lib/datasetBuilder";
+import { formatCellValue, formatStat } from "@/lib/valueFormat";
+
+describe("tipos de coluna ricos", () => {
+  const ds = createDataset("T", [
+    { obra: "A", custo: "R$ 1.200,00", desconto: "15%", ativo: "SIM", "Banco de horas": "08:30", entrada: "08:30" },
+    { obra: "B", custo: "R$ 300,50", desconto: "5,5%", ativo: "NÃO", "Banco de horas": "-02:15", entrada: "13:45" },
+    { obra: "C", custo: "R$ 99,90", desconto: "10%", ativo: "SIM", "Banco de horas": "01:00", entrada: "07:00" },
+  ]);
+  const typeOf = (name: string) => ds.columns.find((c) => c.name === name)?.type;
+
+  it("detecta moeda, percentual, sim/não, duração e hora do dia", () => {
+    expect(typeOf("custo")).toBe("currency");
+    expect(typeOf("desconto")).toBe("percent");
+    expect(typeOf("ativo")).toBe("boolean");
+    expect(typeOf("Banco de horas")).toBe("duration");
+    expect(typeOf("entrada")).toBe("time");
+  });
+
+  it("guarda valores convertidos e estatísticas nas unidades certas", () => {
+    expect(ds.rows[0].custo).toBe(1200);
+    expect(ds.rows[1].desconto).toBeCloseTo(0.055);
+    expect(ds.rows[1].ativo).toBe(false);
+    expect(ds.rows[0]["Banco de horas"]).toBe(8.5);
+    expect(ds.rows[1]["Banco de horas"]).toBe(-2.25);
+    expect(ds.summary.numericStats.custo.sum).toBeCloseTo(1600.4);
+    expect(ds.detectedCategoryColumns).toContain("ativo");
+  });
+
+  it("formata para exibição", () => {
+    expect(formatCellValue(1200, "currency").replace(/\s/g, " ")).toBe("R$ 1.200,00");
+    expect(formatCellValue(0.155, "percent")).toBe("15,5%");
+    expect(formatCellValue(false, "boolean")).toBe("Não");
+    expect(formatCellValue(-2.25, "duration")).toBe("-2:15");
+    expect(formatStat(7.25, "duration")).toBe("7:15");
+  });
+});
@@ -0,0 +1,49 @@
+import { describe, it, expect } from "vitest";
+import { detectDelimiter, detectNumberLocale, parseLocaleNumber, resolveCsvOptions } from "@/lib/csvLocale";
+import { parseWorkbookBuffer } from "@/lib/excelParser";
+
+// Windows-1252: cada caractere < 256 vira um byte
+function latin1Buffer(text: string): ArrayBuffer {
+  return Uint8Array.from(text, (ch) => ch.charCodeAt(0)).buffer;
+}
+
+const brCsv = [
+  "Data;Descrição;Valor",
+  "05/01/2024;Cimento;1.234,56",
+  "06/01/2024;Areia;987,10",
+  "07/01/2024;Brita;12.000,00",
+].join("\r\n");
+
+describe("csvLocale", () => {
+  it("detecta separador e formato numérico brasileiros", () => {
+    expect(detectDelimiter(brCsv)).toBe(";");
+    expect(detectNumberLocale(["1.234,56", "987,10"])).toBe("pt-BR");
+    expect(detectNumberLocale(["1,234.56", "987.10"])).toBe("en-US");
+  });
+
+  it("converte números com separador de milhar", () => {
+    expect(parseLocaleNumber("1.234,56", "pt-BR")).toBe(1234.56);
+    expect(parseLocaleNumber("R$ 12.000,00", "pt-BR")).toBe(12000);
+    expect(parseLocaleNumber("1,234.56", "en-US")).toBe(1234.56);
+    expect(parseLocaleNumber("12.34.5", "pt-BR")).toBeNull();
+    expect(parseLocaleNumber("abc", "pt-BR")).toBeNull();
+  });
+
+  it("cai para Windows-1252 quando o arquivo não é UTF-8", () => {
+    const { encoding, text } = resolveCsvOptions(latin1Buffer(brCsv));
+    expect(encoding).toBe("windows-1252");
+    expect(text.startsWith("Data;Descrição;Valor")).toBe(true);
+  });
+
+  it("importa o CSV com colunas de número e data tipadas", () => {
+    const [dataset] = parseWorkbookBuffer(latin1Buffer(brCsv), "compras.csv");
+
+    const types = Object.fromEntries(dataset.columns.map((c) => [c.name, c.type]));
+    expect(types.Data).toBe("date");
+    expect(types["Descrição"]).toBeDefined();
+    expect(types.Valor).toBe("number");
+    expect(dataset.rows[0].Data).toBe("2024-01-05");
+    expect(dataset.summary.numericStats.Valor.sum).toBeCloseTo(14221.66);
+    expect(dataset.summary.dateRange).toEqual({ from: "2024-01-05", to: "2024-01-07" });
+  });
+});
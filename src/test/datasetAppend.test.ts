@@ -0,0 +1,77 @@
+import { describe, it, expect } from "vitest";
+import { createDataset } from "@/lib/datasetBuilder";
+import { appendDataset, checkSchemaCompatibility, suggestDedupeKey, tagImportSource } from "@/lib/datasetAppend";
+import { datasetFromGrid } from "@/lib/gridSync";
+
+const rda = (rows: { data: string; pessoa: string; status: string }[]) =>
+  createDataset("RDA", rows.map((r) => ({ ...r, equipe: "EQUIPE A" })), {
+    gridSource: { kind: "rda_matrix", sheetName: "RDA" },
+  });
+
+describe("datasetAppend", () => {
+  const jan = tagImportSource(
+    rda([
+      { data: "2024-01-30", pessoa: "Ana", status: "ENT" },
+      { data: "2024-01-31", pessoa: "Ana", status: "FOL" },
+    ]),
+    "rda-jan.xlsx"
+  );
+  const fev = rda([
+    { data: "31/01/2024", pessoa: "Ana", status: "FAL" },
+    { data: "2024-02-01", pessoa: "Ana", status: "ENT" },
+  ]);
+
+  it("sugere pessoa + data e confere o esquema", () => {
+    expect(suggestDedupeKey(jan)).toEqual(["pessoa", "data"]);
+    expect(checkSchemaCompatibility(jan.columns, fev.columns, ["pessoa", "data"]).compatible).toBe(true);
+    expect(
+      checkSchemaCompatibility(jan.columns, [{ name: "data", type: "number" }, { name: "pessoa", type: "category" }]).compatible
+    ).toBe(false);
+  });
+
+  it("deduplica pela chave, recalcula o summary e registra a origem", () => {
+    const { dataset, source } = appendDataset(jan, fev, { dedupeKey: ["pessoa", "data"], onDuplicate: "replace" }, "rda-fev.xlsx");
+
+    expect(dataset.id).toBe(jan.id);
+    expect(dataset.totalRows).toBe(3);
+    expect(dataset.rows.find((r) => r.data === "2024-01-31")?.status).toBe("FAL");
+    expect(dataset.summary.dateRange).toEqual({ from: "2024-01-30", to: "2024-02-01" });
+    expect(source).toMatchObject({ fileName: "rda-fev.xlsx", added: 1, replaced: 1, rowCount: 2 });
+    expect(dataset.importSources?.map((s) => [s.fileName, s.rowCount])).toEqual([
+      ["rda-jan.xlsx", 1],
+      ["rda-fev.xlsx", 2],
+    ]);
+    expect(dataset.rawGrid[3]).toEqual(["2024-01-30", "ENT"]);
+  });
+
+  it("mantém as linhas atuais quando a estratégia é ignorar", () => {
+    const { dataset, source } = appendDataset(jan, fev, { dedupeKey: ["pessoa", "data"], onDuplicate: "skip" });
+    expect(dataset.rows.find((r) => r.data === "2024-01-31")?.status).toBe("FOL");
+    expect(source.skipped).toBe(1);
+  });
+
+  it("edição na Planilha mantém o arquivo de origem de cada linha", () => {
+    const table = (name: string, rows: { data: string; item: string }[]) => createDataset(name, rows);
+    const key = { dedupeKey: ["data"], onDuplicate: "replace" as const };
+    const t = appendDataset(
+      tagImportSource(table("T", [{ data: "2024-01-10", item: "a" }, { data: "2024-01-20", item: "b" }]), "jan.csv"),
+      table("fev", [{ data: "2024-02-10", item: "c" }]),
+      key,
+      "fev.csv"
+    ).dataset;
+
+    // Edita a linha de fevereiro e exclui a primeira de janeiro
+    const grid = t.rawGrid.map((r) => [...r]);
+    grid[3][1] = "c2";
+    grid.splice(1, 1);
+    const edited = datasetFromGrid(t, grid);
+    expect(edited.importSources?.map((s) => [s.fileName, s.rowCount])).toEqual([["jan.csv", 1], ["fev.csv", 1]]);
+
+    const { dataset } = appendDataset(edited, table("mar", [{ data: "2024-03-10", item: "d" }]), key, "mar.csv");
+    expect(dataset.importSources?.map((s) => [s.fileName, s.rowCount])).toEqual([
+      ["jan.csv", 1],
+      ["fev.csv", 1],
+      ["mar.csv", 1],
+    ]);
+  });
+});
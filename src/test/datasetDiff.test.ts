@@ -0,0 +1,59 @@
+import { describe, it, expect } from "vitest";
+import { createDataset } from "@/lib/datasetBuilder";
+import { applyReload, diffDatasets, hasChanges } from "@/lib/datasetDiff";
+import { reloadOptions } from "@/lib/fileLink";
+import type { Dataset } from "@/lib/database";
+
+const stored: Dataset = {
+  ...createDataset("RDA", [
+    { data: "2024-02-01", pessoa: "João", status: "ENT" },
+    { data: "2024-02-01", pessoa: "Maria", status: "FOL" },
+    { data: "2024-02-02", pessoa: "João", status: "ENT" },
+  ]),
+  matrixConfig: { rowColumn: "pessoa", colColumn: "data", valueColumn: "status" },
+  serviceProfile: {
+    type: "RDA_ENTREGAS",
+    confidence: 0.9,
+    domain: "Operação",
+    service: "RDA",
+    signals: { matchedKeywords: [], matchedColumns: [], notes: [] },
+    semanticMap: { date: "data", person: "pessoa", status: "status" },
+    labels: { primaryRateLabel: "Taxa de Entrega", totalLabel: "Registros" },
+    kpiProfile: { primaryRate: "delivery_rate", include: ["total_records"] },
+  },
+  gridSource: { kind: "rda_matrix", sheetName: "Fevereiro" },
+  linkedFile: { fileName: "RDA.xlsx", linkedAt: "2024-02-01T10:00:00.000Z" },
+};
+
+const reread = createDataset("RDA", [
+  { data: "2024-02-01", pessoa: "João", status: "ENT" },
+  { data: "2024-02-02", pessoa: "João", status: "FAL" },
+  { data: "2024-02-03", pessoa: "João", status: "ENT" },
+]);
+
+describe("recarregar arquivo vinculado", () => {
+  it("casa as linhas por pessoa + data e separa novas, removidas e alteradas", () => {
+    const diff = diffDatasets(stored, reread);
+
+    expect(diff.key).toEqual(["pessoa", "data"]);
+    expect(diff.unchanged).toBe(1);
+    expect(diff.added).toEqual([expect.objectContaining({ data: "2024-02-03" })]);
+    expect(diff.removed).toEqual([expect.objectContaining({ pessoa: "Maria" })]);
+    expect(diff.changed).toHaveLength(1);
+    expect(diff.changed[0]).toMatchObject({ columns: ["status"], before: { status: "ENT" }, after: { status: "FAL" } });
+    expect(hasChanges(diffDatasets(stored, stored))).toBe(false);
+  });
+
+  it("aplica a nova leitura mantendo id, perfil, matriz e vínculo", () => {
+    const updated = applyReload(stored, reread, "RDA.xlsx");
+
+    expect(updated.id).toBe(stored.id);
+    expect(updated.serviceProfile).toBe(stored.serviceProfile);
+    expect(updated.matrixConfig).toEqual(stored.matrixConfig);
+    expect(updated.totalRows).toBe(3);
+    expect(updated.rows.map((r) => r.status)).toEqual(["ENT", "FAL", "ENT"]);
+    expect(updated.importSources?.[0]).toMatchObject({ fileName: "RDA.xlsx", rowCount: 3 });
+    expect(updated.linkedFile?.reloadedAt).toBeDefined();
+    expect(reloadOptions(stored)).toMatchObject({ format: "matrix", sheets: ["Fevereiro"] });
+  });
+});
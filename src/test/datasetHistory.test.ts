@@ -0,0 +1,98 @@
+import { describe, it, expect, vi } from "vitest";
+import { createDataset } from "@/lib/datasetBuilder";
+import { saveDataset } from "@/lib/database";
+import { diffDatasets } from "@/lib/datasetDiff";
+import { getHistory, getSnapshot, pruneHistory, restoreSnapshot, trimHistory, type SnapshotMeta } from "@/lib/datasetHistory";
+
+// IndexedDB em memória (o jsdom não tem), o mesmo de cloudSync.test.ts
+const idb = vi.hoisted(() => new Map<IDBValidKey, unknown>());
+vi.mock("idb-keyval", () => {
+  const read = (key: IDBValidKey) => structuredClone(idb.get(key));
+  const request = (result: unknown) => {
+    const req: { result: unknown; onsuccess: (() => void) | null; onerror: (() => void) | null } = {
+      result,
+      onsuccess: null,
+      onerror: null,
+    };
+    queueMicrotask(() => req.onsuccess?.());
+    return req;
+  };
+  const transaction = {};
+  const store = {
+    transaction,
+    get: (key: IDBValidKey) => request(read(key)),
+    put: (value: unknown, key: IDBValidKey) => request(idb.set(key, structuredClone(value)) && key),
+    delete: (key: IDBValidKey) => request(idb.delete(key) && undefined),
+  };
+  return {
+    get: async (key: IDBValidKey) => read(key),
+    set: async (key: IDBValidKey, value: unknown) => void idb.set(key, structuredClone(value)),
+    del: async (key: IDBValidKey) => void idb.delete(key),
+    delMany: async (keys: IDBValidKey[]) => keys.forEach((key) => idb.delete(key)),
+    update: async (key: IDBValidKey, updater: (old: unknown) => unknown) => void idb.set(key, structuredClone(updater(read(key)))),
+    keys: async () => [...idb.keys()],
+    clear: async () => idb.clear(),
+    createStore: () => async (_mode: IDBTransactionMode, run: (s: typeof store) => unknown) => run(store),
+    promisifyRequest: async (req: { result?: unknown }) => (req === transaction ? undefined : req.result),
+  };
+});
+
+function version(id: string, createdAt: string): SnapshotMeta {
+  return { id, datasetId: "ds_1", createdAt, reason: "edit", name: "RDA", totalRows: 2, columnCount: 2 };
+}
+
+describe("histórico de versões do dataset", () => {
+  it("mantém as versões mais recentes até o limite e nunca apaga a última", () => {
+    const list = [
+      version("v1", "2024-03-01T10:00:00.000Z"),
+      version("v3", "2024-03-03T10:00:00.000Z"),
+      version("v2", "2024-03-02T10:00:00.000Z"),
+    ];
+    const pruned = pruneHistory(list, 2);
+    expect(pruned.kept.map((v) => v.id)).toEqual(["v3", "v2"]);
+    expect(pruned.dropped.map((v) => v.id)).toEqual(["v1"]);
+    expect(pruneHistory(list, 0).kept.map((v) => v.id)).toEqual(["v3"]);
+  });
+
+  it("compara versões editadas pela posição da linha e restaura mantendo o vínculo atual", () => {
+    const before = createDataset("Contratos", [
+      { contrato: "C-01", valor: 100 },
+      { contrato: "C-01", valor: 250 },
+    ]);
+    const after = { ...before, rows: [before.rows[0], { ...before.rows[1], valor: 300 }] };
+
+    const diff = diffDatasets(before, after, { byPosition: true });
+    expect(diff.byPosition).toBe(true);
+    expect(diff.changed).toHaveLength(1);
+    expect(diff.changed[0]).toMatchObject({ columns: ["valor"], before: { valor: 250 }, after: { valor: 300 } });
+    expect(diffDatasets(before, after).changed).toHaveLength(0);
+
+    const current = { ...after, linkedFile: { fileName: "contratos.xlsx", linkedAt: "2024-03-05T10:00:00.000Z" } };
+    const restored = restoreSnapshot(current, before);
+    expect(restored.id).toBe(current.id);
+    expect(restored.rows[1].valor).toBe(250);
+    expect(restored.linkedFile?.fileName).toBe("contratos.xlsx");
+  });
+
+  it("versão sem mudança nas linhas guarda só o resto e continua legível depois da limpeza", async () => {
+    idb.clear();
+    const imported = await saveDataset(createDataset("RDA", [{ pessoa: "Ana", status: "OK" }]), { reason: "import" });
+    const renamed = await saveDataset({ ...imported, name: "RDA março" }, { reason: "classification" });
+    await saveDataset({ ...renamed, rows: [{ ...renamed.rows[0], status: "FAL" }] }, { reason: "edit" });
+
+    const [edited, classified, first] = await getHistory(imported.id);
+    expect(first.rowsFrom).toBeUndefined();
+    expect(classified.rowsFrom).toBe(first.id);
+    expect(edited.rowsFrom).toBeUndefined();
+    expect(idb.get(`snapshot_${imported.id}_${classified.id}`)).not.toHaveProperty("rows");
+    expect(await getSnapshot(imported.id, classified.id)).toMatchObject({ name: "RDA março", rows: [{ status: "OK" }] });
+
+    // A versão com os dados sai: a que dependia dela passa a guardá-los
+    await trimHistory(imported.id, 2);
+    const kept = await getHistory(imported.id);
+    expect(kept.map((v) => v.id)).toEqual([edited.id, classified.id]);
+    expect(kept[1].rowsFrom).toBeUndefined();
+    expect(idb.has(`snapshot_${imported.id}_${first.id}`)).toBe(false);
+    expect(await getSnapshot(imported.id, classified.id)).toMatchObject({ name: "RDA março", rows: [{ status: "OK" }] });
+  });
+});
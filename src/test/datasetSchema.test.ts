@@ -0,0 +1,56 @@
+import { describe, it, expect } from "vitest";
+import { DATASET_SCHEMA_VERSION, loadStoredDataset, validateDataset } from "@/lib/datasetSchema";
+import { createDataset } from "@/lib/datasetBuilder";
+
+describe("versão e migração dos datasets gravados", () => {
+  it("migra um registro antigo: completa colunas, descarta perfil sem KPIs e matriz inválida", () => {
+    const legacy = {
+      id: "ds_antigo",
+      name: "RDA Janeiro",
+      createdAt: "2023-05-01T12:00:00.000Z",
+      rows: [
+        { data: "2023-01-02", pessoa: "João", status: "ENT" },
+        { data: "2023-01-03", pessoa: "Maria", status: "FOL" },
+      ],
+      columns: [{ name: "data", type: "date" }, { name: "pessoa", type: "category" }, { name: "status", type: "category" }],
+      serviceProfile: { type: "RDA_ENTREGAS", confidence: 0.9 },
+      matrixConfig: { rowColumn: "colaborador", colColumn: "data", valueColumn: "status" },
+    };
+
+    const loaded = loadStoredDataset(legacy);
+    expect(loaded.dataset).toBeDefined();
+    expect(loaded).toMatchObject({ changed: true, repaired: false, fromVersion: 0 });
+    expect(loaded.dataset!.schemaVersion).toBe(DATASET_SCHEMA_VERSION);
+    expect(loaded.dataset!.totalRows).toBe(2);
+    expect(loaded.dataset!.rows[1]._rowIndex).toBe(1);
+    expect(loaded.dataset!.detectedDateColumn).toBe("data");
+    expect(loaded.dataset!.summary.categoryCounts.status).toEqual({ ENT: 1, FOL: 1 });
+    expect(loaded.dataset!.serviceProfile).toBeUndefined();
+    expect(loaded.dataset!.matrixConfig).toBeUndefined();
+
+    const current = { ...createDataset("Atual", [{ a: 1 }]), schemaVersion: DATASET_SCHEMA_VERSION };
+    expect(loadStoredDataset(current)).toMatchObject({ changed: false, problems: [] });
+  });
+
+  it("repara pelo que sobrou na grade e põe em quarentena o que não tem dado", () => {
+    const damaged = {
+      id: "ds_quebrado",
+      name: "Contratos",
+      schemaVersion: DATASET_SCHEMA_VERSION,
+      rows: "corrompido",
+      columns: null,
+      rawGrid: [["Contrato", "Valor"], ["C-01", 100], ["C-02", 250]],
+    };
+    expect(validateDataset(damaged)).toContain("linhas ausentes");
+
+    const loaded = loadStoredDataset(damaged);
+    expect(loaded.dataset).toBeDefined();
+    expect(loaded.repaired).toBe(true);
+    expect(loaded.dataset!.rows.map((r) => r.Contrato)).toEqual(["C-01", "C-02"]);
+    expect(loaded.dataset!.importDiagnostics?.[0]).toMatchObject({ code: "storage_repair", level: "warning" });
+    expect(validateDataset(loaded.dataset)).toEqual([]);
+
+    expect(loadStoredDataset({ id: "ds_vazio", name: "Sem nada" }).dataset).toBeUndefined();
+    expect(loadStoredDataset("texto")).toMatchObject({ problems: ["registro não é um objeto"] });
+  });
+});
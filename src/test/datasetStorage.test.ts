@@ -0,0 +1,49 @@
+import { describe, it, expect } from "vitest";
+import { datasetMeta, splitRowChunks } from "@/lib/database";
+import { createDatasetCache, datasetCells } from "@/lib/datasetCache";
+import { createDataset } from "@/lib/datasetBuilder";
+
+function sized(name: string, rows: number) {
+  return createDataset(name, Array.from({ length: rows }, (_, i) => ({ id: i, valor: i * 2 })));
+}
+
+describe("armazenamento em blocos e cache de datasets", () => {
+  it("divide as linhas em blocos e monta a entrada do índice sem linhas", () => {
+    expect(splitRowChunks([1, 2, 3, 4, 5], 2)).toEqual([[1, 2], [3, 4], [5]]);
+    expect(splitRowChunks([], 2)).toEqual([]);
+
+    const dataset = createDataset("RDA", [
+      { data: "2024-02-01", pessoa: "João", status: "ENT" },
+      { data: "2024-02-02", pessoa: "Maria", status: "FOL" },
+    ]);
+    const meta = datasetMeta(dataset);
+    expect(meta).toMatchObject({ id: dataset.id, name: "RDA", totalRows: 2, detectedDateColumn: "data" });
+    expect(meta.dateRange).toEqual({ from: "2024-02-01", to: "2024-02-02" });
+    expect(meta.columns).toEqual(dataset.columns.map((c) => ({ name: c.name, type: c.type })));
+    expect(meta.columns[0]).toEqual({ name: "data", type: "date" });
+    expect("rows" in meta).toBe(false);
+  });
+
+  it("libera os datasets usados há mais tempo quando passa do orçamento, nunca o ativo", () => {
+    const a = sized("A", 100);
+    const b = sized("B", 100);
+    const c = sized("C", 100);
+    expect(datasetCells(a)).toBe(200);
+
+    const cache = createDatasetCache(450);
+    expect(cache.put(a)).toEqual([]);
+    expect(cache.put(b)).toEqual([]);
+    cache.get(a.id);
+    // B ficou como o menos usado
+    expect(cache.put(c)).toEqual([b.id]);
+    expect(cache.ids()).toEqual([a.id, c.id]);
+
+    const huge = sized("Grande", 1000);
+    expect(cache.put(huge)).toEqual([a.id, c.id]);
+    expect(cache.ids()).toEqual([huge.id]);
+    expect(cache.usedCells()).toBe(2000);
+
+    cache.replace({ ...a, name: "fora do cache" });
+    expect(cache.get(a.id)).toBeUndefined();
+  });
+});
@@ -0,0 +1,50 @@
+import { describe, it, expect } from "vitest";
+import { normalizeDate, parseDateTime } from "@/lib/cellValues";
+import { createDataset } from "@/lib/datasetBuilder";
+
+describe("datas e data/hora", () => {
+  it("entende os formatos brasileiros, meses por extenso e ISO", () => {
+    expect(normalizeDate("15-03-2024")).toBe("2024-03-15");
+    expect(normalizeDate("15.03.24")).toBe("2024-03-15");
+    expect(normalizeDate("jan/24")).toBe("2024-01-01");
+    expect(normalizeDate("15 de março de 2024")).toBe("2024-03-15");
+    expect(normalizeDate("15/Mar/2024")).toBe("2024-03-15");
+    expect(parseDateTime("2024-03-15T08:30:00Z")).toEqual({ date: "2024-03-15", time: "08:30" });
+    expect(parseDateTime("15/03/2024 22:05")).toEqual({ date: "2024-03-15", time: "22:05" });
+  });
+
+  it("não inventa datas nem desloca o dia pelo fuso", () => {
+    expect(normalizeDate("31/02/2024")).toBeNull();
+    expect(normalizeDate("Lote 24")).toBeNull();
+    // Date de célula (componentes locais): 23:30 continua no mesmo dia
+    expect(parseDateTime(new Date(2024, 2, 15, 23, 30))).toEqual({ date: "2024-03-15", time: "23:30" });
+    expect(parseDateTime(new Date(2024, 2, 15))).toEqual({ date: "2024-03-15" });
+  });
+
+  it("separa a hora numa coluna própria", () => {
+    const ds = createDataset("Turnos", [
+      { inicio: "15/03/2024 06:00", posto: "A" },
+      { inicio: "15/03/2024 14:00", posto: "B" },
+      { inicio: "16/03/2024 22:00", posto: "A" },
+    ]);
+
+    expect(ds.columns.map((c) => [c.name, c.type])).toEqual([
+      ["inicio", "date"],
+      ["inicio (hora)", "time"],
+      ["posto", "text"],
+    ]);
+    expect(ds.rows[2]).toMatchObject({ inicio: "2024-03-16", "inicio (hora)": "22:00" });
+    expect(ds.summary.dateRange).toEqual({ from: "2024-03-15", to: "2024-03-16" });
+  });
+
+  it("planilha com datas só de dia em formatos misturados grava ISO e o período certo", () => {
+    const ds = createDataset("Entregas", [
+      { data: "15.03.2024", posto: "A" },
+      { data: "16 de março de 2024", posto: "B" },
+      { data: "17-03-2024", posto: "A" },
+      { data: new Date(2024, 2, 18), posto: "B" },
+    ]);
+    expect(ds.rows.map((r) => r.data)).toEqual(["2024-03-15", "2024-03-16", "2024-03-17", "2024-03-18"]);
+    expect(ds.summary.dateRange).toEqual({ from: "2024-03-15", to: "2024-03-18" });
+  });
+});
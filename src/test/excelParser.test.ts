@@ -0,0 +1,137 @@
+import { describe, it, expect } from "vitest";
+import * as XLSX from "xlsx";
+import { guessMatrixLayout, listSheets, mergeParsedResults, parseSheet, parseWorkbookBuffer } from "@/lib/excelParser";
+import { reloadOptions } from "@/lib/fileLink";
+
+function buildWorkbook(sheets: Record<string, unknown[][]>): XLSX.WorkBook {
+  const wb = XLSX.utils.book_new();
+  for (const [name, aoa] of Object.entries(sheets)) {
+    XLSX.utils.book_append_sheet(wb, XLSX.utils.aoa_to_sheet(aoa), name);
+  }
+  return wb;
+}
+
+const rdaSheet = [
+  ["RDA"],
+  ["DATA", "EQUIPE A", ""],
+  ["", "João Silva", "Maria Souza"],
+  ["01/02/2024", "ENT", "FOL"],
+  ["02/02/2024", "ENT", "ENT"],
+];
+
+const tableSheet = [
+  ["Contrato", "Valor"],
+  ["C-01", 100],
+  ["C-02", 250],
+];
+
+describe("excelParser - múltiplas abas", () => {
+  it("detecta o tipo de cada aba", () => {
+    const wb = buildWorkbook({ Jan: rdaSheet, Contratos: tableSheet });
+    const sheets = listSheets(wb);
+
+    expect(sheets.map((s) => [s.name, s.kind])).toEqual([
+      ["Jan", "rda_matrix"],
+      ["Contratos", "table"],
+    ]);
+  });
+
+  it("mescla abas preenchendo origem_aba em todas as linhas", () => {
+    const wb = buildWorkbook({ Jan: rdaSheet, Fev: rdaSheet, Contratos: tableSheet });
+    const merged = mergeParsedResults(["Jan", "Fev", "Contratos"].map((n) => parseSheet(wb, n)));
+
+    expect(merged.kind).toBe("table");
+    expect(merged.rows).toHaveLength(4 + 4 + 2);
+    expect(merged.rows.every((r) => r.origem_aba)).toBe(true);
+    expect(merged.rows.filter((r) => r.origem_aba === "Contratos")).toHaveLength(2);
+    expect(merged.meta.dateRange).toEqual({ min: "2024-02-01", max: "2024-02-02" });
+  });
+});
+
+describe("excelParser - formato escolhido", () => {
+  // Matriz com bloco de título extra: não bate com a detecção automática (linhas 1/2/3)
+  const shiftedMatrix = [
+    ["Relatório de Atividades"],
+    ["Contrato 123"],
+    ["", "Obras", "Obras", "Manutenção"],
+    ["Dia", "Ana Lima", "Bruno Reis", "Carla Dias"],
+    ["01/03/2024", "ENT", "FAL", "ENT"],
+    ["02/03/2024", "FOL", "ENT", ""],
+  ];
+
+  it("auto lê como tabela quando a detecção falha", () => {
+    const wb = buildWorkbook({ Mar: shiftedMatrix });
+    expect(parseSheet(wb, "Mar", "auto").kind).toBe("table");
+  });
+
+  it("matriz forçada usa o layout sugerido/configurado", () => {
+    const wb = buildWorkbook({ Mar: shiftedMatrix });
+    const layout = guessMatrixLayout(wb.Sheets.Mar);
+    expect(layout).toEqual({ teamRow: 2, peopleRow: 3, dateCol: 0, firstDataRow: 4 });
+
+    const parsed = parseSheet(wb, "Mar", "matrix", layout);
+    expect(parsed.kind).toBe("rda_matrix");
+    expect(parsed.rows).toHaveLength(5);
+    expect(parsed.rows[0]).toMatchObject({ data: "2024-03-01", equipe: "Obras", pessoa: "Ana Lima", status: "ENT" });
+    expect(parsed.meta.teamsFound).toEqual(["Obras", "Manutenção"]);
+  });
+});
+
+describe("excelParser - cabeçalho da tabela", () => {
+  const titled = [
+    ["Construtora Exemplo LTDA"],
+    ["Relatório de medições - Março/2024"],
+    [],
+    ["Obra", "Medição", null, "Responsável"],
+    [null, "Quantidade", "Valor", null],
+    ["Ponte", 10, 1500, "Ana"],
+    [null, null, null, null],
+    ["Viaduto", 4, 800, "Caio"],
+  ];
+
+  function titledWorkbook() {
+    const wb = buildWorkbook({ Medicoes: titled });
+    wb.Sheets.Medicoes["!merges"] = [
+      { s: { r: 3, c: 0 }, e: { r: 4, c: 0 } },
+      { s: { r: 3, c: 1 }, e: { r: 3, c: 2 } },
+      { s: { r: 3, c: 3 }, e: { r: 4, c: 3 } },
+    ];
+    return wb;
+  }
+
+  it("pula o bloco de título e achata o cabeçalho mesclado", () => {
+    const parsed = parseSheet(titledWorkbook(), "Medicoes");
+    expect(parsed.meta.tableLayout).toEqual({ headerRow: 3, headerRows: 2 });
+    expect(parsed.meta.columns).toEqual(["Obra", "Medição / Quantidade", "Medição / Valor", "Responsável"]);
+    expect(parsed.rows).toEqual([
+      { Obra: "Ponte", "Medição / Quantidade": 10, "Medição / Valor": 1500, Responsável: "Ana" },
+      { Obra: "Viaduto", "Medição / Quantidade": 4, "Medição / Valor": 800, Responsável: "Caio" },
+    ]);
+  });
+
+  it("usa a linha de cabeçalho informada", () => {
+    const parsed = parseSheet(titledWorkbook(), "Medicoes", "long", undefined, { headerRow: 4, headerRows: 1 });
+    expect(parsed.meta.columns).toEqual(["Obra", "Quantidade", "Valor", "Responsável"]);
+    expect(parsed.rows).toHaveLength(2);
+  });
+});
+
+describe("excelParser - recarregar arquivo vinculado", () => {
+  it("relê as abas mescladas e o CSV com as opções da importação", () => {
+    const wb = buildWorkbook({ Jan: tableSheet, Fev: tableSheet, Resumo: [["x"], [1]] });
+    const buf = XLSX.write(wb, { type: "array", bookType: "xlsx" }) as ArrayBuffer;
+    const [merged] = parseWorkbookBuffer(buf, "contratos.xlsx", { sheets: ["Jan", "Fev"], sheetMode: "merge" });
+
+    const options = reloadOptions(merged);
+    expect(options).toMatchObject({ sheets: ["Jan", "Fev"], sheetMode: "merge" });
+    const [reloaded] = parseWorkbookBuffer(buf, "contratos.xlsx", options);
+    expect(reloaded.rows).toEqual(merged.rows);
+
+    const csv = "Contrato|Valor\nC-01|1.234,50\nC-02|10,00";
+    const csvBuf = new TextEncoder().encode(csv).buffer as ArrayBuffer;
+    const csvOptions = { delimiter: "|", numberLocale: "pt-BR" } as const;
+    const [fromCsv] = parseWorkbookBuffer(csvBuf, "contratos.csv", { csv: csvOptions });
+    expect(reloadOptions(fromCsv).csv).toEqual({ ...csvOptions, encoding: "utf-8" });
+    expect(parseWorkbookBuffer(csvBuf, "contratos.csv", reloadOptions(fromCsv))[0].rows).toEqual(fromCsv.rows);
+  });
+});
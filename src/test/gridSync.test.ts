@@ -0,0 +1,91 @@
+import { describe, it, expect } from "vitest";
+import { createDataset } from "@/lib/datasetBuilder";
+import { datasetFromGrid, ensureRawGrid, syncGridFromRows, withoutRawGrid } from "@/lib/gridSync";
+import { DEFAULT_MATRIX_LAYOUT, parseWorkbookBuffer } from "@/lib/excelParser";
+
+const matrixGrid = [
+  ["RDA"],
+  ["DATA", "EQUIPE A", null],
+  [null, "João Silva", "Maria Souza"],
+  ["01/02/2024", "ENT", "FOL"],
+  ["02/02/2024", "ENT", "ENT"],
+];
+
+describe("gridSync", () => {
+  it("edição na planilha da matriz reconstrói rows e summary", () => {
+    const base = createDataset("RDA", [], {
+      rawGrid: matrixGrid,
+      gridSource: { kind: "rda_matrix", sheetName: "Fev", matrixLayout: DEFAULT_MATRIX_LAYOUT },
+    });
+
+    const edited = matrixGrid.map((r) => [...r]);
+    edited[4][2] = "FAL";
+
+    const updated = datasetFromGrid(base, edited);
+    expect(updated.id).toBe(base.id);
+    expect(updated.totalRows).toBe(4);
+    expect(updated.rows.find((r) => r.pessoa === "Maria Souza" && r.data === "2024-02-02")?.status).toBe("FAL");
+    expect(updated.summary.dateRange).toEqual({ from: "2024-02-01", to: "2024-02-02" });
+  });
+
+  it("alterações nas linhas aparecem na grade da matriz", () => {
+    const base = datasetFromGrid(
+      createDataset("RDA", [], {
+        rawGrid: matrixGrid,
+        gridSource: { kind: "rda_matrix", sheetName: "Fev" },
+      }),
+      matrixGrid
+    );
+    const withRow = {
+      ...base,
+      rows: [...base.rows, { _rowIndex: 4, data: "2024-02-03", equipe: "EQUIPE A", pessoa: "João Silva", status: "ATE" }],
+    };
+
+    const synced = syncGridFromRows(withRow);
+    expect(synced.rawGrid[5]).toEqual(["2024-02-03", "ATE", null]);
+    expect(datasetFromGrid(synced, synced.rawGrid).totalRows).toBe(5);
+  });
+
+  it("tabelas usam a primeira linha da grade como cabeçalho", () => {
+    const base = syncGridFromRows(createDataset("T", [{ a: "x", b: 1 }, { a: "y", b: 2 }]));
+    expect(base.rawGrid).toEqual([["a", "b"], ["x", 1], ["y", 2]]);
+
+    const updated = datasetFromGrid(base, [["a", "b"], ["x", 10], ["y", 2]]);
+    expect(updated.rows.map((r) => r.b)).toEqual([10, 2]);
+    expect(updated.columns.map((c) => c.name)).toEqual(["a", "b"]);
+  });
+
+  it("CSV brasileiro continua com números e datas convertidos depois da edição", () => {
+    const csv = ["Data;Item;Valor", "15/03/2024;Cimento;1.234,56", "16/03/2024;Areia;987,10", "17/03/2024;Brita;12,00"].join("\n");
+    const [base] = parseWorkbookBuffer(new TextEncoder().encode(csv).buffer as ArrayBuffer, "compras.csv");
+    expect(base.gridSource).toMatchObject({ coerceValues: true, numberLocale: "pt-BR" });
+
+    const edited = base.rawGrid.map((r) => [...r]);
+    edited[3][1] = "Brita 1";
+    const updated = datasetFromGrid(base, edited);
+    expect(updated.rows.map((r) => [r.Data, r.Valor])).toEqual([
+      ["2024-03-15", 1234.56],
+      ["2024-03-16", 987.1],
+      ["2024-03-17", 12],
+    ]);
+    expect(updated.summary.dateRange).toEqual({ from: "2024-03-15", to: "2024-03-17" });
+    expect(updated.summary.numericStats.Valor.sum).toBeCloseTo(2233.66);
+  });
+
+  it("sem a grade original, a edição lê a grade montada pelas linhas", () => {
+    const csv = ["Compras de março;;", ";;", "Data;Item;Valor", "15/03/2024;Cimento;1.234,56", "16/03/2024;Areia;987,10"].join("\n");
+    const [imported] = parseWorkbookBuffer(new TextEncoder().encode(csv).buffer as ArrayBuffer, "compras.csv");
+    expect(imported.gridSource?.tableLayout?.headerRow).toBe(2);
+
+    const slim = withoutRawGrid(imported);
+    const edited = ensureRawGrid(slim).rawGrid.map((r) => [...r]);
+    expect(edited[0]).toEqual(["Data", "Item", "Valor"]);
+    edited[2][1] = "Areia fina";
+    const updated = datasetFromGrid(slim, edited);
+    expect(updated.rows.map((r) => [r.Data, r.Item, r.Valor])).toEqual([
+      ["2024-03-15", "Cimento", 1234.56],
+      ["2024-03-16", "Areia fina", 987.1],
+    ]);
+    expect(updated.gridSource).toMatchObject({ kind: "table", tableLayout: { headerRow: 0, headerRows: 1 } });
+  });
+});
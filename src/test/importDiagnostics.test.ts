@@ -0,0 +1,45 @@
+import { describe, it, expect } from "vitest";
+import * as XLSX from "xlsx";
+import { parseWorkbookBuffer } from "@/lib/excelParser";
+import { diagnosticsToCsv } from "@/lib/importDiagnostics";
+
+function workbookBuffer(aoa: unknown[][]): ArrayBuffer {
+  const wb = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(wb, XLSX.utils.aoa_to_sheet(aoa), "Jan");
+  return XLSX.write(wb, { type: "array", bookType: "xlsx" });
+}
+
+describe("importDiagnostics", () => {
+  it("aponta linha da matriz com data inválida e cabeçalho que não é pessoa", () => {
+    const [ds] = parseWorkbookBuffer(workbookBuffer([
+      ["RDA"],
+      ["DATA", "EQUIPE A", "", ""],
+      ["", "João Silva", "Maria Souza", 42],
+      ["01/02/2024", "ENT", "FOL", "ENT"],
+      ["31/02/2024x", "ENT", "ENT", ""],
+    ]), "rda.xlsx", { format: "matrix" });
+
+    const warnings = ds.importDiagnostics?.filter((d) => d.level === "warning") ?? [];
+    expect(warnings.map((d) => [d.code, d.sheet, d.cell, d.rawValue])).toEqual([
+      ["unrecognized_person", "Jan", "D3", "42"],
+      ["invalid_date_row", "Jan", "A5", "31/02/2024x"],
+    ]);
+    expect(warnings[0].fileName).toBe("rda.xlsx");
+  });
+
+  it("aponta texto em coluna numérica com o endereço da célula", () => {
+    const [ds] = parseWorkbookBuffer(workbookBuffer([
+      ["Relatório"],
+      [],
+      ["Contrato", "Obra", "Valor"],
+      ["C-01", "Ponte", 100],
+      ["C-02", "Escola", "N/D"],
+      ["C-03", "Ponte", 250],
+      ["C-04", "Posto", 300],
+    ]), "contratos.xlsx");
+
+    const invalid = ds.importDiagnostics?.find((d) => d.code === "invalid_value");
+    expect(invalid).toMatchObject({ sheet: "Jan", cell: "C5", column: "Valor", rawValue: "N/D" });
+    expect(diagnosticsToCsv(ds.importDiagnostics ?? [])).toContain("Aviso;Valor fora do tipo;contratos.xlsx;Jan;C5;Valor;N/D;");
+  });
+});
@@ -0,0 +1,58 @@
+import { describe, it, expect } from "vitest";
+import * as XLSX from "xlsx";
+import { headerSignature, parseWorkbookBuffer } from "@/lib/excelParser";
+import { applyColumnOverrides } from "@/lib/columnReview";
+import { applyImportTemplate, findTemplateForWorkbook, templateFromDataset } from "@/lib/importTemplates";
+
+function workbook(aoa: unknown[][]) {
+  const wb = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(wb, XLSX.utils.aoa_to_sheet(aoa), "Medição");
+  return wb;
+}
+
+const monthly = (month: string, headers: string[]) => [
+  [`Relatório de medição - ${month}`],
+  ["Gerado pelo sistema"],
+  headers,
+  ["C-01", "Obra Norte", 1500],
+  ["C-02", "Obra Sul", 980],
+  ["C-03", "Obra Norte", 2100],
+];
+
+describe("modelos de importação", () => {
+  it("assinatura ignora acento, caixa e espaços, mas não a ordem", () => {
+    expect(headerSignature("table", ["Contrato", "Medição"])).toBe(headerSignature("table", [" CONTRATO ", "medicao"]));
+    expect(headerSignature("table", ["Contrato", "Medição"])).not.toBe(headerSignature("table", ["Medição", "Contrato"]));
+  });
+
+  it("reconhece o arquivo do mês seguinte e reaplica cabeçalho, colunas e matriz", () => {
+    const jan = workbook(monthly("janeiro", ["Contrato", "Obra", "Valor Medido"]));
+    const buffer = XLSX.write(jan, { type: "array", bookType: "xlsx" }) as ArrayBuffer;
+    const [read] = parseWorkbookBuffer(buffer, "jan.xlsx", { sheets: ["Medição"], tableLayout: { headerRow: 2, headerRows: 1 } });
+    const reviewed = {
+      ...applyColumnOverrides(read, [{ name: "Valor Medido", rename: "valor", type: "currency" }]),
+      matrixConfig: { rowColumn: "Obra", colColumn: "Contrato", valueColumn: "valor" },
+    };
+    const template = templateFromDataset(reviewed, "Medição mensal");
+    expect(template?.tableLayout).toEqual({ headerRow: 2, headerRows: 1 });
+
+    const fev = workbook(monthly("fevereiro", ["CONTRATO", "Obra", "Valor medido"]));
+    const match = findTemplateForWorkbook(fev, [template!]);
+    expect(match?.sheetName).toBe("Medição");
+    expect(findTemplateForWorkbook(workbook(monthly("março", ["Contrato", "Valor"])), [template!])).toBeNull();
+
+    const fevBuffer = XLSX.write(fev, { type: "array", bookType: "xlsx" }) as ArrayBuffer;
+    const [fevRead] = parseWorkbookBuffer(fevBuffer, "fev.xlsx", { sheets: [match!.sheetName], tableLayout: template!.tableLayout });
+    expect(fevRead.importLayout?.signature).toBe(template!.signature);
+
+    // Grafia do mês novo ("CONTRATO", "Valor medido"): escolhas seguem coluna a coluna
+    const applied = applyImportTemplate(fevRead, template!);
+    expect(applied.columns.map((c) => [c.name, c.type])).toEqual([
+      ["CONTRATO", "text"],
+      ["Obra", "text"],
+      ["valor", "currency"],
+    ]);
+    expect(applied.matrixConfig).toEqual({ rowColumn: "Obra", colColumn: "CONTRATO", valueColumn: "valor" });
+    expect(applied.importLayout?.templateId).toBe(template!.id);
+  });
+});
@@ -0,0 +1,56 @@
+import { describe, it, expect } from "vitest";
+import * as XLSX from "xlsx";
+import { flattenRecord, parseJsonRecords } from "@/lib/jsonImport";
+import { parseWorkbookBuffer } from "@/lib/excelParser";
+
+function buffer(text: string) {
+  return new TextEncoder().encode(text).buffer as ArrayBuffer;
+}
+
+describe("importação de JSON, NDJSON e ODS", () => {
+  it("achata objetos aninhados em colunas com ponto", () => {
+    expect(flattenRecord({
+      id: 7,
+      obra: { nome: "Ponte Norte", local: { uf: "PR" } },
+      tags: ["asfalto", "drenagem"],
+      medicoes: [{ qtd: 2 }, { qtd: 3 }],
+      extra: {},
+    })).toEqual({
+      id: 7,
+      "obra.nome": "Ponte Norte",
+      "obra.local.uf": "PR",
+      tags: "asfalto, drenagem",
+      "medicoes.0.qtd": 2,
+      "medicoes.1.qtd": 3,
+      extra: null,
+    });
+  });
+
+  it("lê a lista dentro do objeto e o NDJSON com linhas inválidas", () => {
+    const wrapped = parseJsonRecords(JSON.stringify({ total: 2, data: [{ a: 1 }, { a: 2 }] }), "api.json");
+    expect(wrapped.rows).toEqual([{ a: 1 }, { a: 2 }]);
+
+    const nd = parseJsonRecords('{"a":1}\n\n{quebrado\n{"a":3,"b":{"c":"x"}}\n', "log.ndjson");
+    expect(nd.rows).toEqual([{ a: 1 }, { a: 3, "b.c": "x" }]);
+    expect(nd.diagnostics.some((d) => d.code === "invalid_value" && d.message.includes("Linha 3"))).toBe(true);
+  });
+
+  it("JSON e ODS passam pela mesma detecção de colunas", () => {
+    const json = JSON.stringify([
+      { data: "2024-03-01", equipe: { nome: "A" }, valor: 10.5 },
+      { data: "2024-03-02", equipe: { nome: "B" }, valor: 20 },
+    ]);
+    const [fromJson] = parseWorkbookBuffer(buffer(json), "medicoes.json");
+    expect(fromJson.name).toBe("medicoes");
+    expect(fromJson.columns.map((c) => c.name)).toEqual(["data", "equipe.nome", "valor"]);
+    expect(fromJson.columns.find((c) => c.name === "data")?.type).toBe("date");
+    expect(fromJson.detectedNumericColumns).toContain("valor");
+
+    const wb = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(wb, XLSX.utils.aoa_to_sheet([["Contrato", "Valor"], ["C-01", 100], ["C-02", 250]]), "Contratos");
+    const ods = XLSX.write(wb, { bookType: "ods", type: "array" }) as ArrayBuffer;
+    const [fromOds] = parseWorkbookBuffer(ods, "contratos.ods");
+    expect(fromOds.totalRows).toBe(2);
+    expect(fromOds.rows[1]).toMatchObject({ Contrato: "C-02", Valor: 250 });
+  });
+});
@@ -0,0 +1,69 @@
+import { describe, it, expect } from "vitest";
+import { nfeDataset, parseNfeXml } from "@/lib/nfeImport";
+
+const nfe = `<?xml version="1.0" encoding="UTF-8"?>
+<nfeProc xmlns="http://www.portalfiscal.inf.br/nfe" versao="4.00">
+  <NFe>
+    <infNFe Id="NFe35240312345678000199550010000012341000012345" versao="4.00">
+      <ide><natOp>Venda de mercadoria</natOp><serie>1</serie><nNF>1234</nNF><dhEmi>2024-03-15T23:40:00-03:00</dhEmi><tpNF>1</tpNF></ide>
+      <emit><CNPJ>12345678000199</CNPJ><xNome>Concreto Forte Ltda</xNome><enderEmit><UF>SP</UF></enderEmit></emit>
+      <dest><CNPJ>98765432000110</CNPJ><xNome>Construtora Via Sul</xNome><enderDest><UF>PR</UF></enderDest></dest>
+      <det nItem="1">
+        <prod><cProd>CIM-50</cProd><xProd>Cimento CP II 50kg</xProd><NCM>25232910</NCM><CFOP>6102</CFOP><uCom>SC</uCom><qCom>100.0000</qCom><vUnCom>32.50</vUnCom><vProd>3250.00</vProd></prod>
+        <imposto>
+          <ICMS><ICMS00><orig>0</orig><CST>00</CST><vBC>3250.00</vBC><pICMS>12.00</pICMS><vICMS>390.00</vICMS></ICMS00></ICMS>
+          <PIS><PISAliq><CST>01</CST><vBC>3250.00</vBC><pPIS>1.65</pPIS><vPIS>53.63</vPIS></PISAliq></PIS>
+          <COFINS><COFINSAliq><CST>01</CST><vBC>3250.00</vBC><pCOFINS>7.60</pCOFINS><vCOFINS>247.00</vCOFINS></COFINSAliq></COFINS>
+        </imposto>
+      </det>
+      <det nItem="2">
+        <prod><cProd>AR-01</cProd><xProd>Areia média m3</xProd><NCM>25059000</NCM><CFOP>6102</CFOP><uCom>M3</uCom><qCom>4</qCom><vUnCom>120.00</vUnCom><vProd>480.00</vProd><vDesc>30.00</vDesc></prod>
+        <imposto>
+          <ICMS><ICMSSN102><orig>0</orig><CSOSN>102</CSOSN></ICMSSN102></ICMS>
+          <PIS><PISOutr><CST>99</CST><vPIS>0.00</vPIS></PISOutr></PIS>
+          <COFINS><COFINSOutr><CST>99</CST><vCOFINS>0.00</vCOFINS></COFINSOutr></COFINS>
+        </imposto>
+      </det>
+      <total><ICMSTot><vNF>3700.00</vNF></ICMSTot></total>
+    </infNFe>
+  </NFe>
+</nfeProc>`;
+
+describe("importação de NF-e", () => {
+  it("gera uma linha por item com emitente, CFOP, NCM e tributos", () => {
+    const { rows } = parseNfeXml(nfe, "1234.xml");
+
+    expect(rows).toHaveLength(2);
+    expect(rows[0]).toMatchObject({
+      chave: "35240312345678000199550010000012341000012345",
+      numero: "1234",
+      data_emissao: "2024-03-15",
+      tipo_operacao: "Saída",
+      emitente_nome: "Concreto Forte Ltda",
+      destinatario_uf: "PR",
+      ncm: "25232910",
+      cfop: "6102",
+      valor_produto: 3250,
+      cst_icms: "00",
+      aliquota_icms: 0.12,
+      valor_icms: 390,
+      valor_pis: 53.63,
+      valor_cofins: 247,
+      valor_total_nota: 3700,
+    });
+    expect(rows[1]).toMatchObject({ item: 2, cst_icms: "102", valor_icms: null, valor_desconto: 30 });
+  });
+
+  it("ignora XML que não é NF-e e classifica o dataset como fiscal", () => {
+    const event = parseNfeXml(`<procEventoNFe><evento><infEvento/></evento></procEventoNFe>`, "evento.xml");
+    expect(event.rows).toHaveLength(0);
+    expect(event.diagnostics[0]).toMatchObject({ level: "warning", code: "invalid_file", fileName: "evento.xml" });
+
+    const ds = nfeDataset([{ fileName: "1234.xml", ...parseNfeXml(nfe, "1234.xml") }, { fileName: "evento.xml", ...event }], "NF-e");
+    expect(ds.serviceProfile?.type).toBe("CONTABIL_FISCAL");
+    expect(ds.importSources?.map((s) => s.fileName)).toEqual(["1234.xml"]);
+    const types = Object.fromEntries(ds.columns.map((c) => [c.name, c.type]));
+    expect(types).toMatchObject({ cfop: "category", ncm: "category", valor_icms: "currency", aliquota_icms: "percent", data_emissao: "date" });
+    expect(ds.importDiagnostics?.filter((d) => d.level === "warning")).toHaveLength(1);
+  });
+});
@@ -0,0 +1,61 @@
+import { describe, it, expect } from "vitest";
+import {
+  checkImportQuota,
+  formatBytes,
+  isQuotaError,
+  storageErrorMessage,
+  suggestCleanups,
+  type DatasetStorageUsage,
+} from "@/lib/storageQuota";
+
+const MB = 1024 * 1024;
+
+function usage(patch: Partial<DatasetStorageUsage>): DatasetStorageUsage {
+  return {
+    id: "ds_1",
+    name: "RDA",
+    updatedAt: "2024-06-01T10:00:00.000Z",
+    totalRows: 1000,
+    rowsBytes: 2 * MB,
+    rawGridBytes: 0,
+    recordBytes: 10_000,
+    historyBytes: 0,
+    snapshotCount: 0,
+    totalBytes: 2 * MB + 10_000,
+    ...patch,
+  };
+}
+
+describe("armazenamento e cota", () => {
+  it("sugere as limpezas que liberam mais espaço primeiro", () => {
+    const now = new Date("2024-06-10T10:00:00.000Z");
+    const suggestions = suggestCleanups(
+      [
+        usage({ id: "ds_grade", name: "Com grade", rawGridBytes: 3 * MB, historyBytes: 8 * MB, snapshotCount: 4 }),
+        usage({ id: "ds_velho", name: "Antigo", updatedAt: "2024-01-01T10:00:00.000Z", rawGridBytes: MB, totalBytes: 5 * MB }),
+        usage({ id: "ds_pequeno", name: "Pequeno", rawGridBytes: 1000 }),
+      ],
+      now
+    );
+
+    expect(suggestions.map((s) => [s.kind, s.datasetId, s.bytes])).toEqual([
+      ["history", "ds_grade", 6 * MB],
+      ["stale_dataset", "ds_velho", 5 * MB],
+      ["raw_grid", "ds_grade", 3 * MB],
+    ]);
+  });
+
+  it("avisa quando a importação não cabe e reconhece o erro de cota", () => {
+    const estimate = { usage: 95 * MB, quota: 100 * MB, persisted: false };
+    expect(checkImportQuota([{ name: "grande.xlsx", size: MB }], estimate)).toEqual({ needed: 24 * MB, available: 5 * MB, exceeds: true });
+    expect(checkImportQuota([{ name: "pequeno.csv", size: 100_000 }], estimate)?.exceeds).toBe(false);
+    expect(checkImportQuota([{ name: "a.csv", size: 1 }], null)).toBeNull();
+
+    const quota = new DOMException("The quota has been exceeded.", "QuotaExceededError");
+    expect(isQuotaError(quota)).toBe(true);
+    expect(isQuotaError(new Error("arquivo inválido"))).toBe(false);
+    expect(storageErrorMessage(quota, "Erro")).toMatch(/Sem espaço/);
+    expect(storageErrorMessage(new Error("x"), "Erro ao importar arquivo")).toBe("Erro ao importar arquivo");
+    expect(formatBytes(1536)).toBe("1,5 KB");
+  });
+});
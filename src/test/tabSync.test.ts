@@ -0,0 +1,87 @@
+import { describe, it, expect, vi } from "vitest";
+import { subscribeDatasetChanges, TAB_ID, type DatasetChange } from "@/lib/tabSync";
+import { getDataset, isDatasetConflict, saveDataset } from "@/lib/database";
+import { restoreSnapshot } from "@/lib/datasetHistory";
+import { createDataset } from "@/lib/datasetBuilder";
+
+// IndexedDB em memória (o jsdom não tem), o mesmo de cloudSync.test.ts
+const idb = vi.hoisted(() => new Map<IDBValidKey, unknown>());
+vi.mock("idb-keyval", () => {
+  const read = (key: IDBValidKey) => structuredClone(idb.get(key));
+  const request = (result: unknown) => {
+    const req: { result: unknown; onsuccess: (() => void) | null; onerror: (() => void) | null } = {
+      result,
+      onsuccess: null,
+      onerror: null,
+    };
+    queueMicrotask(() => req.onsuccess?.());
+    return req;
+  };
+  const transaction = {};
+  const store = {
+    transaction,
+    get: (key: IDBValidKey) => request(read(key)),
+    put: (value: unknown, key: IDBValidKey) => request(idb.set(key, structuredClone(value)) && key),
+    delete: (key: IDBValidKey) => request(idb.delete(key) && undefined),
+  };
+  return {
+    get: async (key: IDBValidKey) => read(key),
+    set: async (key: IDBValidKey, value: unknown) => void idb.set(key, structuredClone(value)),
+    del: async (key: IDBValidKey) => void idb.delete(key),
+    delMany: async (keys: IDBValidKey[]) => keys.forEach((key) => idb.delete(key)),
+    update: async (key: IDBValidKey, updater: (old: unknown) => unknown) => void idb.set(key, structuredClone(updater(read(key)))),
+    keys: async () => [...idb.keys()],
+    clear: async () => idb.clear(),
+    createStore: () => async (_mode: IDBTransactionMode, run: (s: typeof store) => unknown) => run(store),
+    promisifyRequest: async (req: { result?: unknown }) => (req === transaction ? undefined : req.result),
+  };
+});
+
+function waitFor(check: () => boolean, timeoutMs = 1000) {
+  return vi.waitFor(() => expect(check()).toBe(true), { timeout: timeoutMs });
+}
+
+describe("sincronização entre abas", () => {
+  it("agrupa as mudanças das outras abas e ignora as da própria", async () => {
+    const received: DatasetChange[][] = [];
+    const unsubscribe = subscribeDatasetChanges((changes) => received.push(changes), 20);
+    const otherTab = new BroadcastChannel("essencial-datasets");
+
+    otherTab.postMessage({ tabId: TAB_ID, change: { type: "saved", id: "ds_proprio", revision: 2 } });
+    otherTab.postMessage({ tabId: "tab_outra", change: { type: "saved", id: "ds_1", revision: 3 } });
+    otherTab.postMessage({ tabId: "tab_outra", change: { type: "deleted", id: "ds_2" } });
+
+    await waitFor(() => received.length > 0);
+    expect(received).toEqual([
+      [
+        { type: "saved", id: "ds_1", revision: 3 },
+        { type: "deleted", id: "ds_2" },
+      ],
+    ]);
+    otherTab.close();
+    unsubscribe();
+  });
+
+  it("restauração parte da revisão gravada e conflito é reconhecido", () => {
+    const snapshot = { ...createDataset("RDA", [{ a: 1 }]), revision: 2 };
+    const current = { ...snapshot, revision: 7 };
+    expect(restoreSnapshot(current, snapshot).revision).toBe(7);
+
+    const conflict = new Error("alterado em outra aba");
+    conflict.name = "DatasetConflictError";
+    expect(isDatasetConflict(conflict)).toBe(true);
+    expect(isDatasetConflict(new Error("outro"))).toBe(false);
+  });
+
+  it("segunda gravação a partir da mesma revisão é recusada", async () => {
+    idb.clear();
+    const base = await saveDataset(createDataset("RDA", [{ a: 1 }]), null);
+
+    // Duas abas abriram a mesma revisão; a primeira grava, a segunda chega atrasada
+    const first = await saveDataset({ ...base, name: "Editado na aba 1" }, null);
+    expect(first.revision).toBe(base.revision + 1);
+    const late = saveDataset({ ...base, name: "Editado na aba 2" }, null);
+    await expect(late).rejects.toSatisfy(isDatasetConflict);
+    expect((await getDataset(base.id))?.name).toBe("Editado na aba 1");
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, it, expect } from "vitest";
+import JSZip from "jszip";
+import { createDataset } from "@/lib/datasetBuilder";
+import { DATASET_SCHEMA_VERSION } from "@/lib/datasetSchema";
+import { buildBackupZip, planRestore, readWorkspaceBackup } from "@/lib/workspaceBackup";
+import type { ImportTemplate } from "@/lib/importTemplates";
+
+const rda = {
+  ...createDataset("RDA Março", [
+    { data: "2024-03-01", pessoa: "João", status: "ENT" },
+    { data: "2024-03-01", pessoa: "Maria", status: "FOL" },
+  ]),
+  matrixConfig: { rowColumn: "pessoa", colColumn: "data", valueColumn: "status" },
+  linkedFile: { fileName: "rda.xlsx", linkedAt: "2024-03-02T10:00:00.000Z" },
+};
+
+const template: ImportTemplate = {
+  id: "tpl_1",
+  name: "RDA mensal",
+  createdAt: "2024-03-01T10:00:00.000Z",
+  updatedAt: "2024-03-01T10:00:00.000Z",
+  useCount: 2,
+  signature: "data|pessoa|status",
+  headers: ["data", "pessoa", "status"],
+  kind: "table",
+  sheetName: "Março",
+};
+
+describe("backup do workspace", () => {
+  it("gera o .zip versionado e lê de volta datasets, modelos e configurações", async () => {
+    const blob = await buildBackupZip([rda], [template], { currentDatasetId: rda.id, historyRetention: 20, themePreset: "apple" });
+    const zip = await JSZip.loadAsync(blob);
+    const manifest = JSON.parse(await zip.file("manifest.json")!.async("string"));
+    expect(manifest).toMatchObject({ format: "essencial-workspace", version: 1, datasetSchemaVersion: DATASET_SCHEMA_VERSION, templateCount: 1 });
+
+    const backup = await readWorkspaceBackup(blob);
+    expect(backup.datasets).toHaveLength(1);
+    expect(backup.datasets[0]).toMatchObject({ id: rda.id, totalRows: 2, matrixConfig: rda.matrixConfig });
+    expect(backup.datasets[0].rows.map((r) => r.pessoa)).toEqual(["João", "Maria"]);
+    expect(backup.templates[0].name).toBe("RDA mensal");
+    expect(backup.settings).toEqual({ currentDatasetId: rda.id, historyRetention: 20, themePreset: "apple" });
+    expect(backup.skipped).toEqual([]);
+
+    const future = new JSZip();
+    future.file("manifest.json", JSON.stringify({ ...manifest, version: 99 }));
+    await expect(readWorkspaceBackup(new Blob([await future.generateAsync({ type: "uint8array" })]))).rejects.toThrow(/versão mais nova/);
+  });
+
+  it("datas da grade voltam no mesmo dia em qualquer fuso", async () => {
+    const tz = process.env.TZ;
+    process.env.TZ = "Asia/Tokyo";
+    try {
+      const withGrid = {
+        ...rda,
+        rawGrid: [["data", "pessoa"], [new Date(2024, 2, 1), "João"], [new Date(2024, 2, 1, 8, 30), "Maria"]],
+      };
+      const backup = await readWorkspaceBackup(await buildBackupZip([withGrid], [], {}));
+      expect(backup.datasets[0].rawGrid?.slice(1).map((r) => r[0])).toEqual(["2024-03-01", "2024-03-01T08:30:00"]);
+    } finally {
+      process.env.TZ = tz;
+    }
+  });
+
+  it("no conflito de id substitui ou mantém os dois, conforme o modo", () => {
+    const existing = { datasetIds: [rda.id], templateIds: ["tpl_outro"] };
+
+    const replace = planRestore({ datasets: [rda], templates: [template] }, existing, "replace");
+    expect(replace.conflicts).toEqual({ datasets: [rda.id], templates: [] });
+    expect(replace.datasets[0].id).toBe(rda.id);
+
+    const merge = planRestore({ datasets: [rda], templates: [template] }, existing, "merge");
+    expect(merge.datasets[0].id).not.toBe(rda.id);
+    expect(merge.datasets[0].name).toBe("RDA Março (backup)");
+    expect(merge.datasets[0].linkedFile).toBeUndefined();
+    expect(merge.templates[0]).toBe(template);
+  });
+});
@@ -0,0 +1,134 @@
+-- Sincronização opcional dos datasets na nuvem (ver src/lib/cloudSync.ts).
+-- O IndexedDB continua sendo a cópia de trabalho; aqui fica a cópia de cada
+-- usuário, com o perfil de serviço e a configuração da matriz dentro do registro.
+
+-- Dataset sem as linhas, como o IndexedDB grava (revision = contador da nuvem)
+create table public.datasets (
+  user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  id text not null,
+  name text not null,
+  revision integer not null default 1,
+  record jsonb not null,
+  -- Envio cujos blocos valem (os de outros envios são sobras)
+  upload_id uuid not null,
+  row_chunks integer not null default 0,
+  updated_at timestamptz not null default now(),
+  primary key (user_id, id)
+);
+
+-- Blocos de linhas: enviados antes do commit, um pedido por bloco
+create table public.dataset_chunks (
+  user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  dataset_id text not null,
+  upload_id uuid not null,
+  chunk_index integer not null,
+  rows jsonb not null,
+  created_at timestamptz not null default now(),
+  primary key (user_id, dataset_id, upload_id, chunk_index)
+);
+
+alter table public.datasets enable row level security;
+alter table public.dataset_chunks enable row level security;
+
+create policy "Datasets do próprio usuário" on public.datasets
+  for all to authenticated
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+create policy "Blocos do próprio usuário" on public.dataset_chunks
+  for all to authenticated
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+-- Publica um envio: só se a nuvem ainda está na revisão de onde o envio partiu
+-- (senão 40001 e o cliente resolve o conflito). Devolve a revisão nova.
+create or replace function public.commit_dataset(
+  p_id text,
+  p_base_revision integer,
+  p_upload_id uuid,
+  p_name text,
+  p_record jsonb,
+  p_row_chunks integer
+) returns integer
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_current integer;
+  v_uploaded integer;
+begin
+  select revision into v_current
+    from datasets
+    where user_id = auth.uid() and id = p_id
+    for update;
+
+  if coalesce(v_current, 0) <> coalesce(p_base_revision, 0) then
+    raise exception 'Dataset % mudou na nuvem (revisão %)', p_id, v_current using errcode = '40001';
+  end if;
+
+  select count(*) into v_uploaded
+    from dataset_chunks
+    where user_id = auth.uid() and dataset_id = p_id and upload_id = p_upload_id;
+  if v_uploaded <> p_row_chunks then
+    raise exception 'Envio incompleto do dataset %: % de % blocos', p_id, v_uploaded, p_row_chunks using errcode = '22023';
+  end if;
+
+  if v_current is null then
+    -- Primeiro envio: não há linha para travar e outro aparelho pode estar
+    -- inserindo o mesmo dataset; quem chega depois recebe o conflito
+    insert into datasets (user_id, id, name, revision, record, upload_id, row_chunks, updated_at)
+      values (auth.uid(), p_id, p_name, 1, p_record, p_upload_id, p_row_chunks, now())
+      on conflict (user_id, id) do nothing;
+    if not found then
+      raise exception 'Dataset % foi criado na nuvem por outro envio', p_id using errcode = '40001';
+    end if;
+  else
+    update datasets
+      set name = p_name,
+          revision = v_current + 1,
+          record = p_record,
+          upload_id = p_upload_id,
+          row_chunks = p_row_chunks,
+          updated_at = now()
+      where user_id = auth.uid() and id = p_id;
+  end if;
+
+  delete from dataset_chunks
+    where user_id = auth.uid() and dataset_id = p_id and upload_id <> p_upload_id;
+
+  return coalesce(v_current, 0) + 1;
+end;
+$$;
+
+-- Exclui só se ninguém mudou o dataset na nuvem desde a última sincronização
+create or replace function public.delete_dataset(p_id text, p_base_revision integer)
+returns void
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_current integer;
+begin
+  select revision into v_current
+    from datasets
+    where user_id = auth.uid() and id = p_id
+    for update;
+
+  if v_current is null then
+    return;
+  end if;
+  if v_current <> p_base_revision then
+    raise exception 'Dataset % mudou na nuvem (revisão %)', p_id, v_current using errcode = '40001';
+  end if;
+
+  delete from datasets where user_id = auth.uid() and id = p_id;
+  delete from dataset_chunks where user_id = auth.uid() and dataset_id = p_id;
+end;
+$$;
+
+revoke execute on function public.commit_dataset(text, integer, uuid, text, jsonb, integer) from public, anon;
+revoke execute on function public.delete_dataset(text, integer) from public, anon;
+grant execute on function public.commit_dataset(text, integer, uuid, text, jsonb, integer) to authenticated;
+grant execute on function public.delete_dataset(text, integer) to authenticated;